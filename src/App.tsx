@@ -14,10 +14,14 @@ import DeathManager from "./components/ui/DeathManager";
 import GameItemTooltip from "./components/ui/GameItemTooltip";
 import QuestLog from "./components/ui/QuestLog";
 import MapNameLabel from "./components/ui/MapNameLabel";
+import BossHealthBar from "./components/ui/BossHealthBar";
+import WorldClock from "./components/ui/WorldClock";
 import SkillsWindow from "./components/ui/Skills";
 import Resources from "./components/ui/Resources";
 import Creatures from "./components/ui/Creatures";
+import Crafting from "./components/ui/Crafting";
 import CurrencyDisplay from "./components/ui/CurrencyDisplay";
+import SaveMenu from "./components/ui/SaveMenu";
 
 function App() {
   const [windowSize, setWindowSize] = React.useState({
@@ -64,6 +68,8 @@ function App() {
             <div className="ui-overlay">
               <MessageLog />
               <MapNameLabel />
+              <BossHealthBar />
+              <WorldClock />
               <Resources />
               <div className="bottom-ui">
                 <ActionBar />
@@ -76,6 +82,8 @@ function App() {
               <GameItemTooltip />
               <QuestLog />
               <Creatures />
+              <Crafting />
+              <SaveMenu />
             </div>
           </div>
           <div className="ui-sidebar">
@@ -1,3 +1,4 @@
+import { Monster } from "@/entities/Monster";
 import { PlayerCharacter } from "@/entities/PlayerCharacter";
 import { Ability } from "@/types";
 
@@ -20,6 +21,24 @@ export interface AnimationStrategy {
     activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
   ): Promise<void>;
 
+  /**
+   * Plays the ability cast by a monster, aimed at the player character
+   * @param scene The current game scene
+   * @param caster The monster casting the ability
+   * @param target The player character being targeted
+   * @param ability The ability being used
+   * @param damage Final damage to apply if the ability lands
+   * @returns A promise that resolves to true if the ability hit the target
+   */
+  playAtTarget?(
+    scene: Phaser.Scene,
+    caster: Monster,
+    target: PlayerCharacter,
+    ability: Ability,
+    damage: number,
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
+  ): Promise<boolean>;
+
   /**
    * Gets the GameObject types that this strategy can handle for position updates
    */
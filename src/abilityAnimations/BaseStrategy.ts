@@ -5,6 +5,8 @@ import { Ability } from "@/types";
 import { DamageFormulas } from "@/utils/formulas";
 import { useGameStore } from "@/stores/gameStore";
 import { eventBus } from "@/utils/EventBus";
+import { statusEffectSystem } from "@/services/StatusEffectSystem";
+import { threatSystem } from "@/services/ThreatSystem";
 
 /**
  * Base strategy class with common functionality for ability strategies
@@ -32,6 +34,117 @@ export abstract class BaseStrategy implements AnimationStrategy {
     return []; // Default implementation
   }
 
+  /**
+   * Fallback monster cast for strategies without one of their own. Projectile abilities
+   * travel to the tile the player stood on when cast and can be dodged; others land instantly.
+   * @returns true if the ability hit the player
+   */
+  async playAtTarget(
+    scene: Phaser.Scene,
+    caster: Monster,
+    target: PlayerCharacter,
+    ability: Ability,
+    damage: number,
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
+  ): Promise<boolean> {
+    if (!scene || !caster.active || !target.active) return false;
+
+    try {
+      const gameObjects: Phaser.GameObjects.GameObject[] = [];
+      const config = ability.animationConfig || {};
+      const colors = config.projectileColors || config.particleColors || [0xff4500, 0xffaa00];
+      const animationKey = `${ability.id}_${caster.id}`;
+      const targetX = target.x;
+      const targetY = target.y;
+
+      activeAnimations.set(animationKey, gameObjects);
+
+      if (
+        ability.animationType === "projectile" ||
+        ability.animationType === "piercingProjectile"
+      ) {
+        const projectile = scene.add.circle(
+          caster.x,
+          caster.y,
+          config.projectileSize || 8,
+          colors[0],
+          0.9
+        );
+        projectile.setDepth(6);
+        gameObjects.push(projectile);
+
+        const distance = Phaser.Math.Distance.Between(caster.x, caster.y, targetX, targetY);
+        const speed = config.projectileSpeed || 300;
+
+        await new Promise<void>((resolve) => {
+          scene.tweens.add({
+            targets: projectile,
+            x: targetX,
+            y: targetY,
+            duration: (distance / speed) * 1000,
+            onComplete: () => resolve(),
+          });
+        });
+      }
+
+      // Flash the impact tile
+      this.createTileHighlights(
+        scene,
+        [{ x: targetX, y: targetY }],
+        300,
+        { particleColors: colors },
+        gameObjects
+      );
+
+      // The player dodges by leaving the targeted tile before impact
+      const hit = this.applyDamageToTargetInTiles(
+        caster,
+        target,
+        [{ x: targetX, y: targetY }],
+        ability,
+        damage
+      );
+
+      this.setupCleanupTimer(scene, 300, gameObjects, activeAnimations, animationKey);
+      return hit;
+    } catch (error) {
+      console.error("Error in BaseStrategy.playAtTarget:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Applies a monster's ability damage to the player if they stand in one of the affected tiles
+   * @returns true if the player was hit
+   */
+  protected applyDamageToTargetInTiles(
+    caster: Monster,
+    target: PlayerCharacter,
+    tilePositions: { x: number; y: number }[],
+    ability: Ability,
+    damage: number
+  ): boolean {
+    try {
+      if (!target.active || target.isDead) return false;
+
+      const targetTileX = Math.floor(target.x / this.TILE_SIZE);
+      const targetTileY = Math.floor(target.y / this.TILE_SIZE);
+      const isInAffectedTile = tilePositions.some(
+        (pos) =>
+          Math.floor(pos.x / this.TILE_SIZE) === targetTileX &&
+          Math.floor(pos.y / this.TILE_SIZE) === targetTileY
+      );
+      if (!isInAffectedTile) return false;
+
+      target.takeDamage(damage, DamageFormulas.isMagicDamage(undefined, ability.skillId), caster);
+      statusEffectSystem.applyAbilityEffect(target, ability, caster.id);
+      return true;
+    } catch (error) {
+      console.error("Error in BaseStrategy.applyDamageToTargetInTiles:", error);
+      return false;
+    }
+  }
+
   /**
    * Apply ability damage to a single monster using new damage formulas
    */
@@ -69,6 +182,10 @@ export abstract class BaseStrategy implements AnimationStrategy {
       // Apply damage to monster
       monster.takeDamage(finalDamage, isMagicDamage);
 
+      // Apply the ability's status effect and taunt, if any
+      statusEffectSystem.applyAbilityEffect(monster, ability);
+      threatSystem.applyAbilityThreat(monster, ability);
+
       // Show damage effect
       this.showDamageEffect(monster.scene, monster, finalDamage);
 
@@ -256,10 +373,10 @@ export abstract class BaseStrategy implements AnimationStrategy {
   }
 
   /**
-   * Get facing angle from player character
+   * Get facing angle from player character, or from a monster casting the ability
    * All ability implementations should use this instead of implementing their own
    */
-  protected getFacingAngle(character: PlayerCharacter): number {
+  protected getFacingAngle(character: PlayerCharacter | Monster): number {
     try {
       const facing = character.facing || "down";
       switch (facing) {
@@ -34,7 +34,6 @@ export class BashAbility extends BaseStrategy {
       const config = ability.animationConfig || {};
       const effectDuration = config.effectDuration || 350; // Slightly faster for punchier feel
       const debug = config.debug || false;
-      const damage = ability.damage || 30;
 
       // Get the direction the player is facing
       const facing = playerCharacter.facing || "down";
@@ -95,7 +94,7 @@ export class BashAbility extends BaseStrategy {
       }
 
       // Apply damage to monsters in the affected tiles
-      const hitCount = this.applyDamageToMonstersInTiles(scene, worldPositions, damage, debug);
+      const hitCount = this.applyDamageToMonstersInTiles(scene, worldPositions, ability, debug);
 
       if (debug) {
         console.log(`Bash hit ${hitCount} monsters using tile pattern`);
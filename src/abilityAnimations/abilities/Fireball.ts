@@ -97,13 +97,91 @@ export class FireballAbility extends BaseStrategy {
     }
   }
 
+  /**
+   * Monster cast: the fireball flies to the tile the player stood on when cast and
+   * explodes there, burning the player if they are still inside the blast
+   * @returns true if the ability hit the target
+   */
+  async playAtTarget(
+    scene: Phaser.Scene,
+    caster: Monster,
+    target: PlayerCharacter,
+    ability: Ability,
+    damage: number,
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
+  ): Promise<boolean> {
+    if (!scene || !caster.active || !target.active) return false;
+
+    try {
+      const gameObjects: Phaser.GameObjects.GameObject[] = [];
+      const config = ability.animationConfig || {};
+      const effectDuration = config.effectDuration || 1000;
+      const animationKey = `${ability.id}_${caster.id}`;
+      const targetX = target.x;
+      const targetY = target.y;
+
+      let explosionPattern = this.EXPLOSION_PATTERN;
+      if (config.explosionPattern && Array.isArray(config.explosionPattern)) {
+        explosionPattern = config.explosionPattern;
+      }
+
+      activeAnimations.set(animationKey, gameObjects);
+
+      const angle = Phaser.Math.Angle.Between(caster.x, caster.y, targetX, targetY);
+      const projectile = this.createProjectile(scene, caster.x, caster.y, angle, config);
+      gameObjects.push(projectile);
+
+      // The projectile is tweened onto the target tile rather than flown by its body,
+      // so it can't collide with the caster or other monsters on the way
+      projectile.body.setVelocity(0, 0);
+
+      const trailParticles: Phaser.GameObjects.GameObject[] = [];
+      for (let i = 0; i < 5; i++) {
+        const trail = scene.add.circle(caster.x, caster.y, 5 - i, 0xff7700, 0.7 - i * 0.1);
+        trail.setDepth(5);
+        trailParticles.push(trail);
+        gameObjects.push(trail);
+      }
+
+      const distance = Phaser.Math.Distance.Between(caster.x, caster.y, targetX, targetY);
+      const speed = config.projectileSpeed || 300;
+
+      await new Promise<void>((resolve) => {
+        scene.tweens.add({
+          targets: projectile,
+          x: targetX,
+          y: targetY,
+          duration: (distance / speed) * 1000,
+          onUpdate: () => this.updateTrail(trailParticles, projectile),
+          onComplete: () => resolve(),
+        });
+      });
+
+      const worldPositions = this.convertPatternToWorldPositions(
+        explosionPattern,
+        Math.floor(targetX / this.TILE_SIZE),
+        Math.floor(targetY / this.TILE_SIZE)
+      );
+      this.createExplosionEffect(scene, targetX, targetY, worldPositions, gameObjects);
+
+      const hit = this.applyDamageToTargetInTiles(caster, target, worldPositions, ability, damage);
+
+      this.setupCleanupTimer(scene, effectDuration, gameObjects, activeAnimations, animationKey);
+
+      return hit;
+    } catch (error) {
+      console.error("Error in FireballAbility.playAtTarget:", error);
+      return false;
+    }
+  }
+
   protected createProjectile(
     scene: Phaser.Scene,
     x: number,
     y: number,
     facingAngle: number,
     config: Record<string, any>
-  ): Phaser.GameObjects.GameObject {
+  ): Phaser.Types.Physics.Arcade.GameObjectWithDynamicBody {
     try {
       // Get config values or use defaults
       const projectileColors = config.projectileColors || [0xff4500, 0xff7700, 0xffaa00, 0xffdd00];
@@ -178,8 +256,10 @@ export class FireballAbility extends BaseStrategy {
       container.add([outerGlow, outerFlame, innerCore]);
 
       // Add physics body to the projectile
-      scene.physics.add.existing(container);
-      const body = (container as any).body as Phaser.Physics.Arcade.Body;
+      const projectile = scene.physics.add.existing(
+        container
+      ) as Phaser.Types.Physics.Arcade.GameObjectWithDynamicBody;
+      const body = projectile.body;
 
       // Set projectile properties
       body.setSize(projectileSize * 2, projectileSize * 2);
@@ -192,22 +272,23 @@ export class FireballAbility extends BaseStrategy {
       const velocityY = Math.sin(facingAngle) * speed;
       body.setVelocity(velocityX, velocityY);
 
-      return container;
+      return projectile;
     } catch (error) {
       console.error("Error creating projectile:", error);
       // Create a fallback projectile
       const fallback = scene.add.circle(x, y, 8, 0xff0000, 0.8);
-      scene.physics.add.existing(fallback);
-      const body = (fallback as any).body as Phaser.Physics.Arcade.Body;
-      body.setCollideWorldBounds(true);
-      body.onWorldBounds = true;
-      return fallback;
+      const projectile = scene.physics.add.existing(
+        fallback
+      ) as Phaser.Types.Physics.Arcade.GameObjectWithDynamicBody;
+      projectile.body.setCollideWorldBounds(true);
+      projectile.body.onWorldBounds = true;
+      return projectile;
     }
   }
 
   protected async launchProjectile(
     scene: Phaser.Scene,
-    projectile: Phaser.GameObjects.GameObject,
+    projectile: Phaser.Types.Physics.Arcade.GameObjectWithDynamicBody,
     trailParticles: Phaser.GameObjects.GameObject[],
     facingAngle: number,
     playerCharacter: PlayerCharacter,
@@ -216,7 +297,7 @@ export class FireballAbility extends BaseStrategy {
     try {
       return new Promise((resolve) => {
         const gameScene = scene as any;
-        const projectileBody = (projectile as any).body as Phaser.Physics.Arcade.Body;
+        const projectileBody = projectile.body;
         const range = ability.range || 250;
         const config = ability.animationConfig || {};
 
@@ -391,6 +472,37 @@ export class FireballAbility extends BaseStrategy {
       // Convert the pattern to world positions
       const worldPositions = this.convertPatternToWorldPositions(pattern, impactTileX, impactTileY);
 
+      this.createExplosionEffect(scene, x, y, worldPositions, gameObjects);
+
+      // Apply damage to monsters in the affected tiles
+      const hitCount = this.applyDamageToMonstersInTiles(
+        scene,
+        worldPositions,
+        damage,
+        config.debug || false
+      );
+
+      // Return a promise that resolves after a short delay
+      return new Promise((resolve) => {
+        scene.time.delayedCall(100, resolve);
+      });
+    } catch (error) {
+      console.error("Error creating explosion:", error);
+      return Promise.resolve();
+    }
+  }
+
+  /**
+   * Flashes, shockwave and fire columns over the exploded tiles
+   */
+  protected createExplosionEffect(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    worldPositions: { x: number; y: number }[],
+    gameObjects: Phaser.GameObjects.GameObject[]
+  ): void {
+    try {
       // Add screen shake
       const camera = scene.cameras.main;
       camera.shake(150, 0.005);
@@ -489,22 +601,8 @@ export class FireballAbility extends BaseStrategy {
           this.createFireColumn(scene, pos.x, pos.y, gameObjects);
         }
       });
-
-      // Apply damage to monsters in the affected tiles
-      const hitCount = this.applyDamageToMonstersInTiles(
-        scene,
-        worldPositions,
-        damage,
-        config.debug || false
-      );
-
-      // Return a promise that resolves after a short delay
-      return new Promise((resolve) => {
-        scene.time.delayedCall(100, resolve);
-      });
     } catch (error) {
-      console.error("Error creating explosion:", error);
-      return Promise.resolve();
+      console.error("Error creating explosion effect:", error);
     }
   }
 
@@ -62,6 +62,92 @@ export class PowerShotAbility extends BaseStrategy {
     }
   }
 
+  /**
+   * Monster cast: the arrow flies at full range along the line to where the player stood
+   * when cast, hitting them if they are still in its path
+   * @returns true if the ability hit the target
+   */
+  async playAtTarget(
+    scene: Phaser.Scene,
+    caster: Monster,
+    target: PlayerCharacter,
+    ability: Ability,
+    damage: number,
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
+  ): Promise<boolean> {
+    if (!scene || !caster.active || !target.active) return false;
+
+    try {
+      const gameObjects: Phaser.GameObjects.GameObject[] = [];
+      const config = ability.animationConfig || {};
+      const effectDuration = config.effectDuration || 800;
+      const animationKey = `${ability.id}_${caster.id}`;
+      const range = ability.range || 384;
+      const speed = config.projectileSpeed || 500;
+      const hitDistance = 20; // Same detection radius as the player's shot
+
+      const angle = Phaser.Math.Angle.Between(caster.x, caster.y, target.x, target.y);
+      const startX = caster.x;
+      const startY = caster.y;
+      const endX = startX + Math.cos(angle) * range;
+      const endY = startY + Math.sin(angle) * range;
+
+      const projectile = scene.add.graphics();
+      projectile.fillStyle(0xffffff, 0.8);
+      projectile.lineStyle(2, 0x333333, 0.8);
+      projectile.setDepth(6);
+      this.drawArrow(projectile, angle);
+      projectile.x = startX;
+      projectile.y = startY;
+      projectile.rotation = angle;
+      gameObjects.push(projectile);
+
+      const trail = scene.add.graphics();
+      trail.fillStyle(0xdddddd, 0.5);
+      trail.setDepth(5);
+      gameObjects.push(trail);
+
+      activeAnimations.set(animationKey, gameObjects);
+
+      let hit = false;
+      await new Promise<void>((resolve) => {
+        scene.tweens.add({
+          targets: projectile,
+          x: endX,
+          y: endY,
+          duration: (range / speed) * 1000,
+          ease: "Linear",
+          onUpdate: () => {
+            trail.fillCircle(projectile.x, projectile.y, 3);
+
+            if (
+              !hit &&
+              Phaser.Math.Distance.Between(projectile.x, projectile.y, target.x, target.y) <=
+                hitDistance
+            ) {
+              // The arrow reached the player, so test against the tile they stand on
+              hit = this.applyDamageToTargetInTiles(
+                caster,
+                target,
+                [{ x: target.x, y: target.y }],
+                ability,
+                damage
+              );
+            }
+          },
+          onComplete: () => resolve(),
+        });
+      });
+
+      this.setupCleanupTimer(scene, effectDuration, gameObjects, activeAnimations, animationKey);
+
+      return hit;
+    } catch (error) {
+      console.error("Error in PowerShotAbility.playAtTarget:", error);
+      return false;
+    }
+  }
+
   protected async createPiercingProjectile(
     scene: Phaser.Scene,
     playerCharacter: PlayerCharacter,
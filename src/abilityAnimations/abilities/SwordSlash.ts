@@ -1,5 +1,6 @@
 import { BaseStrategy } from "../BaseStrategy";
 import { PlayerCharacter } from "@/entities/PlayerCharacter";
+import { Monster } from "@/entities/Monster";
 import { Ability } from "@/types";
 
 export class SwordSlashAbility extends BaseStrategy {
@@ -53,26 +54,7 @@ export class SwordSlashAbility extends BaseStrategy {
       const facingAngle = this.getFacingAngle(playerCharacter);
 
       // Get custom pattern from ability config or use default
-      let pattern: number[][] = [];
-
-      // First try to get from config.patterns
-      if (config.patterns && typeof config.patterns === "object") {
-        const customPatterns = config.patterns as Record<string, number[][]>;
-        if (customPatterns[facing]) {
-          pattern = customPatterns[facing];
-        }
-      }
-
-      // Fall back to default patterns if not found in config
-      if (pattern.length === 0 && this.PATTERNS[facing]) {
-        pattern = this.PATTERNS[facing];
-      }
-
-      // If still no pattern, use a default
-      if (pattern.length === 0) {
-        pattern = this.PATTERNS.down;
-        console.warn(`No pattern found for facing direction: ${facing}, using default.`);
-      }
+      const pattern = this.getPattern(facing, config);
 
       if (debug) {
         console.log(`Sword Slash cast - Player facing: ${facing}`);
@@ -133,6 +115,79 @@ export class SwordSlashAbility extends BaseStrategy {
     }
   }
 
+  /**
+   * Monster cast: the caster slashes the tiles in front of it, hitting the player if they
+   * stand in one of them
+   * @returns true if the ability hit the target
+   */
+  async playAtTarget(
+    scene: Phaser.Scene,
+    caster: Monster,
+    target: PlayerCharacter,
+    ability: Ability,
+    damage: number,
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
+  ): Promise<boolean> {
+    if (!scene || !caster.active || !target.active) return false;
+
+    try {
+      const gameObjects: Phaser.GameObjects.GameObject[] = [];
+      const config = ability.animationConfig || {};
+      const effectDuration = config.effectDuration || 300;
+      const animationKey = `${ability.id}_${caster.id}`;
+
+      // The caster already turned to face the player
+      const pattern = this.getPattern(caster.facing, config);
+      const worldPositions = this.convertPatternToWorldPositions(
+        pattern,
+        Math.floor(caster.x / this.TILE_SIZE),
+        Math.floor(caster.y / this.TILE_SIZE)
+      );
+
+      this.createSlashEffect(
+        scene,
+        caster.x,
+        caster.y,
+        this.getFacingAngle(caster),
+        effectDuration,
+        config,
+        gameObjects
+      );
+      this.createTileHighlights(scene, worldPositions, effectDuration, config, gameObjects);
+
+      const hit = this.applyDamageToTargetInTiles(caster, target, worldPositions, ability, damage);
+
+      activeAnimations.set(animationKey, gameObjects);
+      this.setupCleanupTimer(scene, effectDuration, gameObjects, activeAnimations, animationKey);
+
+      return hit;
+    } catch (error) {
+      console.error("Error in SwordSlashAbility.playAtTarget:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Slash pattern for a facing direction, from the ability config or the defaults
+   */
+  private getPattern(facing: string, config: Record<string, any>): number[][] {
+    // First try to get from config.patterns
+    if (config.patterns && typeof config.patterns === "object") {
+      const customPatterns = config.patterns as Record<string, number[][]>;
+      if (customPatterns[facing]) {
+        return customPatterns[facing];
+      }
+    }
+
+    // Fall back to default patterns if not found in config
+    if (this.PATTERNS[facing]) {
+      return this.PATTERNS[facing];
+    }
+
+    console.warn(`No pattern found for facing direction: ${facing}, using default.`);
+    return this.PATTERNS.down;
+  }
+
   protected createSlashEffect(
     scene: Phaser.Scene,
     x: number,
@@ -141,7 +196,7 @@ export class SwordSlashAbility extends BaseStrategy {
     duration: number,
     config: Record<string, any>,
     gameObjects: Phaser.GameObjects.GameObject[],
-    playerChar: PlayerCharacter
+    playerChar?: PlayerCharacter
   ): void {
     // Get config values or use defaults
     const slashColors = config.slashColors || [0xffffff, 0xeeeeee, 0xdddddd];
@@ -240,7 +295,9 @@ export class SwordSlashAbility extends BaseStrategy {
     // Add a brief screen shake for impact feel
     scene.cameras.main.shake(100, 0.002);
 
-    // Player attack animation - more dynamic movement
+    // Player attack animation - more dynamic movement, monsters keep to their tile
+    if (!playerChar) return;
+
     const lungeDistance = 8;
     scene.tweens.add({
       targets: playerChar,
@@ -2,6 +2,8 @@ import { AnimationStrategy } from "../AnimationStrategy";
 import { Monster } from "@/entities/Monster";
 import { PlayerCharacter } from "@/entities/PlayerCharacter";
 import { Ability } from "@/types";
+import { statusEffectSystem } from "@/services/StatusEffectSystem";
+import { threatSystem } from "@/services/ThreatSystem";
 
 export class ExpandingStrategy implements AnimationStrategy {
   // Keep track of monsters that have been hit by each ability ID
@@ -448,6 +450,8 @@ export class ExpandingStrategy implements AnimationStrategy {
           if (monster.takeDamage) {
             monster.takeDamage(damage);
             this.showDamageEffect(scene, monster, damage);
+            statusEffectSystem.applyAbilityEffect(monster, ability);
+            threatSystem.applyAbilityThreat(monster, ability);
           }
 
           // Mark as hit to prevent multiple hits
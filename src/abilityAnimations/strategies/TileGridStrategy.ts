@@ -1,6 +1,9 @@
 import { AnimationStrategy } from "../AnimationStrategy";
 import { PlayerCharacter } from "@/entities/PlayerCharacter";
+import { Monster } from "@/entities/Monster";
 import { Ability } from "@/types";
+import { DamageFormulas } from "@/utils/formulas";
+import { statusEffectSystem } from "@/services/StatusEffectSystem";
 
 export class TileGridStrategy implements AnimationStrategy {
   async play(
@@ -50,6 +53,121 @@ export class TileGridStrategy implements AnimationStrategy {
     }
   }
 
+  /**
+   * Monster cast: mark the affected tiles first, then hit whoever is still standing
+   * on them once the telegraph runs out
+   * @returns true if the ability hit the target
+   */
+  async playAtTarget(
+    scene: Phaser.Scene,
+    caster: Monster,
+    target: PlayerCharacter,
+    ability: Ability,
+    damage: number,
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>
+  ): Promise<boolean> {
+    if (!scene || !caster.active || !target.active) return false;
+
+    const gameObjects: Phaser.GameObjects.GameObject[] = [];
+    const animationKey = `${ability.id}_${caster.id}`;
+
+    try {
+      const config = ability.animationConfig || {};
+      const effectDuration = config.effectDuration || 800;
+      const telegraphDuration = config.telegraphDuration || 1500;
+      const colors = config.particleColors || [0xffffff];
+      const tileSize = 32;
+
+      // Centre on the tile the caster or the target stands on at cast time
+      const origin = config.centerOnCaster ? caster : target;
+      const centerX = Math.floor(origin.x / tileSize) * tileSize + tileSize / 2;
+      const centerY = Math.floor(origin.y / tileSize) * tileSize + tileSize / 2;
+
+      const tiles = [{ x: centerX, y: centerY }, ...this.getInnerTiles(centerX, centerY, tileSize)];
+      if ((config.telegraphRadius || 1) > 1) {
+        tiles.push(...this.getOuterTiles(centerX, centerY, tileSize));
+      }
+
+      activeAnimations.set(animationKey, gameObjects);
+
+      this.createWarningTiles(scene, tiles, gameObjects, telegraphDuration);
+      await new Promise((resolve) => scene.time.delayedCall(telegraphDuration, resolve));
+
+      // A caster that died mid-telegraph never lands the attack
+      if (!caster.active || caster.isDead) {
+        this.cleanup(gameObjects, activeAnimations, animationKey);
+        return false;
+      }
+
+      await this.createTileEffects(scene, tiles, gameObjects, effectDuration / 2, 0, colors[0]);
+
+      const targetTileX = Math.floor(target.x / tileSize);
+      const targetTileY = Math.floor(target.y / tileSize);
+      const hit =
+        target.active &&
+        !target.isDead &&
+        tiles.some(
+          (tile) =>
+            Math.floor(tile.x / tileSize) === targetTileX &&
+            Math.floor(tile.y / tileSize) === targetTileY
+        );
+
+      if (hit) {
+        target.takeDamage(damage, DamageFormulas.isMagicDamage(undefined, ability.skillId), caster);
+        statusEffectSystem.applyAbilityEffect(target, ability, caster.id);
+      }
+
+      scene.time.delayedCall(effectDuration, () =>
+        this.cleanup(gameObjects, activeAnimations, animationKey)
+      );
+
+      return hit;
+    } catch (error) {
+      console.error("Error in TileGridStrategy.playAtTarget:", error);
+      this.cleanup(gameObjects, activeAnimations, animationKey);
+      return false;
+    }
+  }
+
+  /**
+   * Pulsing red tiles marking where a telegraphed attack will land
+   */
+  private createWarningTiles(
+    scene: Phaser.Scene,
+    tiles: Array<{ x: number; y: number }>,
+    gameObjects: Phaser.GameObjects.GameObject[],
+    duration: number
+  ): void {
+    tiles.forEach((tile) => {
+      const warning = scene.add.rectangle(tile.x, tile.y, 30, 30, 0xff2020, 0.2);
+      warning.setStrokeStyle(2, 0xff2020, 0.8);
+      warning.setDepth(4);
+      gameObjects.push(warning);
+
+      // Pulse faster as the impact gets closer
+      scene.tweens.add({
+        targets: warning,
+        alpha: { from: 0.4, to: 1 },
+        duration: duration / 4,
+        yoyo: true,
+        repeat: 1,
+        ease: "Sine.easeIn",
+        onComplete: () => warning.destroy(),
+      });
+    });
+  }
+
+  private cleanup(
+    gameObjects: Phaser.GameObjects.GameObject[],
+    activeAnimations: Map<string, Phaser.GameObjects.GameObject[]>,
+    animationKey: string
+  ): void {
+    gameObjects.forEach((obj) => {
+      if (obj.active) obj.destroy();
+    });
+    activeAnimations.delete(animationKey);
+  }
+
   private getInnerTiles(
     centerX: number,
     centerY: number,
@@ -109,7 +227,8 @@ export class TileGridStrategy implements AnimationStrategy {
     tiles: Array<{ x: number; y: number }>,
     gameObjects: Phaser.GameObjects.GameObject[],
     duration: number,
-    delay: number
+    delay: number,
+    color: number = 0xffffff
   ): Promise<void> {
     try {
       // Wait for delay
@@ -119,12 +238,12 @@ export class TileGridStrategy implements AnimationStrategy {
 
       tiles.forEach((tile) => {
         // Create tile highlight
-        const highlight = scene.add.rectangle(tile.x, tile.y, 32, 32, 0xffffff, 0.3);
+        const highlight = scene.add.rectangle(tile.x, tile.y, 32, 32, color, 0.3);
         highlight.setDepth(5);
         gameObjects.push(highlight);
 
         // Create particle effect
-        const particle = scene.add.circle(tile.x, tile.y, 4, 0xffffff, 0.7);
+        const particle = scene.add.circle(tile.x, tile.y, 4, color, 0.7);
         particle.setDepth(6);
         gameObjects.push(particle);
 
@@ -0,0 +1,76 @@
+import React, { useState } from "react";
+import { useEventBus } from "../../hooks/useEventBus";
+
+interface BossState {
+  id: string;
+  name: string;
+  health: number;
+  maxHealth: number;
+  phaseName: string;
+}
+
+const BossHealthBar: React.FC = () => {
+  const [boss, setBoss] = useState<BossState | null>(null);
+  const [isFlashing, setIsFlashing] = useState(false);
+
+  // Show the bar once a boss fight starts
+  useEventBus("boss.engaged", (data: BossState) => {
+    setBoss({
+      id: data.id,
+      name: data.name,
+      health: data.health,
+      maxHealth: data.maxHealth,
+      phaseName: data.phaseName,
+    });
+  });
+
+  useEventBus("boss.phaseChanged", (data: BossState) => {
+    setBoss((current) =>
+      current && current.id === data.id ? { ...current, phaseName: data.phaseName } : current
+    );
+  });
+
+  // Track the boss's health
+  useEventBus("monster.damage", (data: { id: string; currentHealth: number }) => {
+    if (!boss || boss.id !== data.id) return;
+
+    setBoss({ ...boss, health: Math.max(0, data.currentHealth) });
+    setIsFlashing(true);
+    setTimeout(() => setIsFlashing(false), 300);
+  });
+
+  useEventBus("character.healed", (data: { id: string; currentHealth: number }) => {
+    setBoss((current) =>
+      current && current.id === data.id ? { ...current, health: data.currentHealth } : current
+    );
+  });
+
+  // Hide it when the fight ends either way
+  const hide = (data?: { id: string }) => {
+    setBoss((current) => (current && (!data || current.id === data.id) ? null : current));
+  };
+  useEventBus("boss.defeated", hide);
+  useEventBus("boss.reset", hide);
+  useEventBus("map.changed", () => hide());
+
+  if (!boss) return null;
+
+  const healthPercentage = Math.max(0, Math.min(100, (boss.health / boss.maxHealth) * 100));
+
+  return (
+    <div className="boss-health-bar">
+      <div className="boss-health-bar-header">
+        <span className="boss-name">{boss.name}</span>
+        {boss.phaseName && <span className="boss-phase">{boss.phaseName}</span>}
+      </div>
+      <div className={`boss-health-bar-track ${isFlashing ? "health-flash" : ""}`}>
+        <div className="boss-health-bar-fill" style={{ width: `${healthPercentage}%` }} />
+        <span className="boss-health-bar-text">
+          {Math.ceil(boss.health)} / {boss.maxHealth}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default BossHealthBar;
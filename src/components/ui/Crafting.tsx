@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from "react";
+import { useEventBus, useEmitEvent } from "../../hooks/useEventBus";
+import { useGameStore } from "../../stores/gameStore";
+import { CraftingService } from "../../services/CraftingService";
+import { ItemDictionary } from "../../services/ItemDictionaryService";
+import { CraftingRecipe, ItemInstance } from "../../types";
+import InventorySlot from "./InventorySlot";
+
+// Slot frames shipped with the inventory art, by number of inputs
+const INPUT_FRAMES: Record<number, string> = {
+  1: "assets/inventory/research-slot.png",
+  2: "assets/inventory/2slot-crafting.png",
+  3: "assets/inventory/3slot-crafting.png",
+};
+
+const RecipeRow: React.FC<{
+  recipe: CraftingRecipe;
+  isSelected: boolean;
+  onClick: () => void;
+}> = ({ recipe, isSelected, onClick }) => {
+  const hasSkill = CraftingService.hasRequiredSkill(recipe);
+
+  return (
+    <div
+      className={`crafting-recipe ${isSelected ? "selected" : ""} ${hasSkill ? "" : "locked"}`}
+      onClick={onClick}
+    >
+      <div className="crafting-recipe-name">{CraftingService.getRecipeName(recipe)}</div>
+      {recipe.requiredSkill && (
+        <div className="crafting-recipe-skill">
+          {CraftingService.getSkillName(recipe.requiredSkill.skillId)} {recipe.requiredSkill.level}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Crafting: React.FC = () => {
+  const [visible, setVisible] = useState(false);
+  const [selectedRecipeId, setSelectedRecipeId] = useState<string | null>(null);
+  const [slots, setSlots] = useState<(string | null)[]>([]);
+  const inventory = useGameStore((state) => state.playerCharacter.inventory);
+  const emitEvent = useEmitEvent();
+
+  const recipes = CraftingService.getRecipes();
+  const recipe = selectedRecipeId ? CraftingService.getRecipe(selectedRecipeId) : undefined;
+
+  useEventBus("crafting.toggle", (data: { visible: boolean }) => {
+    setVisible(data.visible);
+    if (data.visible && !selectedRecipeId && recipes.length > 0) {
+      selectRecipe(recipes[0].id);
+    }
+  });
+
+  const handleClose = () => {
+    setVisible(false);
+    emitEvent("crafting.visibility.changed", false);
+  };
+
+  // Handle ESC key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && visible) {
+        handleClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [visible]);
+
+  // Items that left the inventory (dropped, sold, crafted) leave their slot too
+  useEffect(() => {
+    setSlots((prev) =>
+      prev.map((instanceId) =>
+        inventory.some((item) => item.instanceId === instanceId) ? instanceId : null
+      )
+    );
+  }, [inventory]);
+
+  const selectRecipe = (recipeId: string) => {
+    const next = CraftingService.getRecipe(recipeId);
+    setSelectedRecipeId(recipeId);
+    setSlots(next ? next.inputs.map(() => null) : []);
+  };
+
+  const getSlotInstance = (index: number): ItemInstance | undefined =>
+    inventory.find((item) => item.instanceId === slots[index]);
+
+  const getSlotIndex = (slotId: string): number => Number(slotId.replace("craft-", ""));
+
+  // Inventory items are dragged in, nothing is moved until the recipe is crafted
+  const handleDrop = (e: React.DragEvent, slotId: string) => {
+    e.preventDefault();
+    if (!recipe) return;
+
+    const instanceId = e.dataTransfer.getData("text/plain");
+    const instance = inventory.find((item) => item.instanceId === instanceId);
+    const index = getSlotIndex(slotId);
+
+    if (!instance) {
+      emitEvent("ui.message.show", "Only items in your backpack can be used for crafting.");
+      return;
+    }
+
+    if (!CraftingService.isValidInput(recipe, index, instance)) {
+      const input = recipe.inputs[index];
+      const name = ItemDictionary.getItem(input.itemId)?.name || input.itemId;
+      emitEvent("ui.message.show", `This slot needs ${name}.`);
+      return;
+    }
+
+    setSlots((prev) =>
+      prev.map((current, i) => {
+        if (i === index) return instanceId;
+        return current === instanceId ? null : current;
+      })
+    );
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+  };
+
+  // Crafting slots only take drops, and the output slot is just a preview
+  const preventDrag = (e: React.DragEvent) => {
+    e.preventDefault();
+  };
+
+  const clearSlot = (_e: React.MouseEvent, slotId: string) => {
+    const index = getSlotIndex(slotId);
+    setSlots((prev) => prev.map((current, i) => (i === index ? null : current)));
+  };
+
+  const handleFill = () => {
+    if (!recipe) return;
+    setSlots(CraftingService.findIngredients(recipe));
+  };
+
+  const handleCraft = () => {
+    if (!recipe) return;
+    if (CraftingService.craft(recipe.id, slots)) {
+      setSlots(recipe.inputs.map(() => null));
+    }
+  };
+
+  if (!visible) {
+    return null;
+  }
+
+  const craftError = recipe ? CraftingService.getCraftError(recipe, slots) : null;
+  const outputPreview: ItemInstance | undefined = recipe
+    ? {
+        templateId: recipe.output.itemId,
+        instanceId: `craft-output-${recipe.id}`,
+        quantity: recipe.output.quantity,
+      }
+    : undefined;
+  const inputFrame = recipe ? INPUT_FRAMES[recipe.inputs.length] : undefined;
+
+  return (
+    <div className="crafting-container">
+      <div className="crafting-header">
+        <h2>Crafting</h2>
+        <button className="crafting-close-button" onClick={handleClose}>
+          ✕
+        </button>
+      </div>
+
+      <div className="crafting-content">
+        <div className="crafting-recipe-list">
+          {recipes.map((entry) => (
+            <RecipeRow
+              key={entry.id}
+              recipe={entry}
+              isSelected={entry.id === selectedRecipeId}
+              onClick={() => selectRecipe(entry.id)}
+            />
+          ))}
+        </div>
+
+        {recipe && (
+          <div className="crafting-workbench">
+            <div
+              className={`crafting-inputs inputs-${recipe.inputs.length}`}
+              style={inputFrame ? { backgroundImage: `url(${inputFrame})` } : undefined}
+            >
+              {recipe.inputs.map((input, index) => (
+                <InventorySlot
+                  key={`craft-${index}`}
+                  id={`craft-${index}`}
+                  name={ItemDictionary.getItem(input.itemId)?.name || input.itemId}
+                  itemInstance={getSlotInstance(index)}
+                  onDragStart={preventDrag}
+                  onDragOver={handleDragOver}
+                  onDrop={handleDrop}
+                  onRightClick={clearSlot}
+                />
+              ))}
+            </div>
+
+            <div className="crafting-requirements">
+              {recipe.inputs.map((input, index) => {
+                const instance = getSlotInstance(index);
+                const have = instance ? instance.quantity || 1 : 0;
+                return (
+                  <div
+                    key={`${input.itemId}-${index}`}
+                    className={`crafting-requirement ${have >= input.quantity ? "met" : ""}`}
+                  >
+                    {input.quantity}x {ItemDictionary.getItem(input.itemId)?.name || input.itemId}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="crafting-arrow">⬇</div>
+
+            <div className="crafting-output">
+              <InventorySlot
+                id="craft-output"
+                name={CraftingService.getRecipeName(recipe)}
+                itemInstance={outputPreview}
+                onDragStart={preventDrag}
+                onDragOver={handleDragOver}
+                onDrop={preventDrag}
+              />
+            </div>
+
+            {craftError && <div className="crafting-error">{craftError}</div>}
+
+            <div className="crafting-actions">
+              <button className="crafting-button" onClick={handleFill}>
+                Fill
+              </button>
+              <button className="crafting-button" disabled={!!craftError} onClick={handleCraft}>
+                Craft
+              </button>
+            </div>
+            <div className="crafting-hint">
+              Drag items from your backpack into the slots, right-click to clear
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Crafting;
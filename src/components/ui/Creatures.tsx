@@ -1,23 +1,14 @@
 import React, { useState, useEffect } from "react";
 import { useEventBus, useEmitEvent } from "../../hooks/useEventBus";
+import { useGameStore } from "../../stores/gameStore";
+import { MonsterDictionary } from "../../services/MonsterDictionaryService";
+import { ItemDictionary } from "../../services/ItemDictionaryService";
+import { BestiaryService } from "../../services/BestiaryService";
+import { BOSS_LOOT_TABLES } from "../../data/boss-loot-tables";
+import { BestiaryUnlock, ItemDrop, MonsterData } from "../../types";
 
-// Mock data for demonstration
-const MOCK_CREATURE_DATA = {
-  "decayed-skeleton": {
-    id: "decayed-skeleton",
-    name: "Decayed Skeleton",
-    category: "Undead",
-    sprite: "assets/outfit-preview/skeleton-outfit-preview.png",
-    health: 12,
-    experience: 40,
-    killCount: 500,
-    loot: [
-      { itemName: "Iron Sword", chance: "75%" },
-      { itemName: "Bone Fragment", chance: "45%" },
-      { itemName: "Rusty Coin", chance: "25%" },
-    ],
-  },
-};
+// Every monster shares the skeleton sprite sheet for now, so they share its preview too
+const CREATURE_PREVIEW = "assets/outfit-preview/skeleton-outfit-preview.png";
 
 interface CreatureData {
   id: string;
@@ -28,13 +19,34 @@ interface CreatureData {
   experience: number;
   killCount: number;
   loot: Array<{ itemName: string; chance: string }>;
+  showStats: boolean;
+  showLoot: boolean;
 }
 
-interface ProgressMilestone {
-  kills: number;
-  reward: string;
-  achieved: boolean;
-}
+/**
+ * Build a bestiary entry from the dictionary, hiding what the kill count hasn't unlocked yet
+ */
+const buildCreatureData = (monster: MonsterData, killCount: number): CreatureData => {
+  const showChances = BestiaryService.isUnlocked(monster.id, BestiaryUnlock.DROP_CHANCES);
+  const lootTable = monster.boss?.lootTable;
+  const drops: ItemDrop[] = lootTable ? BOSS_LOOT_TABLES[lootTable] || [] : monster.drops;
+
+  return {
+    id: monster.id,
+    name: monster.name,
+    category: BestiaryService.getCategoryName(monster.category),
+    sprite: CREATURE_PREVIEW,
+    health: monster.maxHealth,
+    experience: monster.experience,
+    killCount,
+    loot: drops.map((drop) => ({
+      itemName: ItemDictionary.getItem(drop.itemId)?.name || drop.itemId,
+      chance: showChances ? `${Math.round(drop.chance * 100)}%` : "?",
+    })),
+    showStats: BestiaryService.isUnlocked(monster.id, BestiaryUnlock.STATS),
+    showLoot: BestiaryService.isUnlocked(monster.id, BestiaryUnlock.LOOT),
+  };
+};
 
 const CreatureNavigationItem: React.FC<{
   creature: CreatureData;
@@ -54,15 +66,16 @@ const CreatureNavigationItem: React.FC<{
   );
 };
 
-const ProgressBar: React.FC<{ killCount: number }> = ({ killCount }) => {
-  const milestones: ProgressMilestone[] = [
-    { kills: 250, reward: "1% Bonus Damage", achieved: killCount >= 250 },
-    { kills: 500, reward: "1% Damage Reduction", achieved: killCount >= 500 },
-    { kills: 1000, reward: "2% Bonus Damage & Reduction", achieved: killCount >= 1000 },
-    { kills: 1250, reward: "1% Better Loot Chance", achieved: killCount >= 1250 },
-  ];
+const ProgressBar: React.FC<{ creature: CreatureData }> = ({ creature }) => {
+  const { killCount } = creature;
+  const milestones = BestiaryService.getMilestones().map((milestone) => ({
+    kills: milestone.kills,
+    reward: BestiaryService.describeMilestone(milestone, creature.category),
+    achieved: killCount >= milestone.kills,
+  }));
+  const bonuses = BestiaryService.getBonusesAgainst(creature.id);
 
-  const maxKills = 1250;
+  const maxKills = milestones[milestones.length - 1]?.kills || 1;
   const progressPercentage = Math.min(100, (killCount / maxKills) * 100);
 
   return (
@@ -99,6 +112,10 @@ const ProgressBar: React.FC<{ killCount: number }> = ({ killCount }) => {
       <div className="progress-text">
         {killCount} / {maxKills} kills ({Math.round(progressPercentage)}%)
       </div>
+      <div className="progress-text">
+        Against {creature.category}: +{bonuses.bonusDamage}% damage, -{bonuses.damageReduction}%
+        damage taken
+      </div>
       <div className="milestones-list">
         {milestones.map((milestone, index) => (
           <div key={index} className={`milestone-item ${milestone.achieved ? "achieved" : ""}`}>
@@ -125,11 +142,11 @@ const CreatureDetails: React.FC<{ creature: CreatureData }> = ({ creature }) =>
           <div className="creature-stats">
             <div className="stat-row">
               <span className="stat-label">Health:</span>
-              <span className="stat-value">{creature.health}</span>
+              <span className="stat-value">{creature.showStats ? creature.health : "?"}</span>
             </div>
             <div className="stat-row">
               <span className="stat-label">Experience:</span>
-              <span className="stat-value">{creature.experience}</span>
+              <span className="stat-value">{creature.showStats ? creature.experience : "?"}</span>
             </div>
             <div className="stat-row">
               <span className="stat-label">Times Killed:</span>
@@ -142,23 +159,30 @@ const CreatureDetails: React.FC<{ creature: CreatureData }> = ({ creature }) =>
       <div className="creature-loot-section">
         <h4>Loot Table</h4>
         <div className="loot-items">
-          {creature.loot.map((lootItem, index) => (
-            <div key={index} className="loot-item">
-              <span className="loot-name">{lootItem.itemName}</span>
-              <span className="loot-chance">{lootItem.chance}</span>
+          {!creature.showLoot ? (
+            <div className="loot-item locked">
+              <span className="loot-name">Defeat more to learn what it carries</span>
             </div>
-          ))}
+          ) : (
+            creature.loot.map((lootItem, index) => (
+              <div key={index} className="loot-item">
+                <span className="loot-name">{lootItem.itemName}</span>
+                <span className="loot-chance">{lootItem.chance}</span>
+              </div>
+            ))
+          )}
         </div>
       </div>
 
-      <ProgressBar killCount={creature.killCount} />
+      <ProgressBar creature={creature} />
     </div>
   );
 };
 
 const Creatures: React.FC = () => {
   const [visible, setVisible] = useState(false);
-  const [selectedCreature, setSelectedCreature] = useState<string>("decayed-skeleton");
+  const [selectedCreature, setSelectedCreature] = useState<string>("");
+  const bestiary = useGameStore((state) => state.bestiary);
   const emitEvent = useEmitEvent();
 
   // Listen for creatures toggle event
@@ -188,8 +212,13 @@ const Creatures: React.FC = () => {
     return null;
   }
 
-  const creatures = Object.values(MOCK_CREATURE_DATA);
-  const currentCreature = MOCK_CREATURE_DATA[selectedCreature as keyof typeof MOCK_CREATURE_DATA];
+  // Only creatures the player has defeated show up
+  const creatures = BestiaryService.getEncounteredMonsterIds()
+    .map((monsterId) => MonsterDictionary.getMonster(monsterId))
+    .filter((monster): monster is MonsterData => monster !== null)
+    .map((monster) => buildCreatureData(monster, bestiary.kills[monster.id] || 0));
+  const currentCreature =
+    creatures.find((creature) => creature.id === selectedCreature) || creatures[0];
 
   return (
     <div className="creatures-container">
@@ -204,11 +233,14 @@ const Creatures: React.FC = () => {
         <div className="creatures-navigation">
           <h3>Encountered Creatures</h3>
           <div className="creature-nav-list">
+            {creatures.length === 0 && (
+              <div className="creatures-empty">No creatures defeated yet.</div>
+            )}
             {creatures.map((creature) => (
               <CreatureNavigationItem
                 key={creature.id}
                 creature={creature}
-                isSelected={selectedCreature === creature.id}
+                isSelected={currentCreature?.id === creature.id}
                 onClick={() => setSelectedCreature(creature.id)}
               />
             ))}
@@ -1,31 +1,33 @@
 import React, { useState } from "react";
-import { useEventBus, useEmitEvent } from "../../hooks/useEventBus";
+import { useEventBus } from "../../hooks/useEventBus";
+import { respawnSystem } from "../../services/RespawnSystem";
+import { ItemInstance } from "../../types";
 
 const DeathManager: React.FC = () => {
   const [visible, setVisible] = useState(false);
-  const [respawnPoint, setRespawnPoint] = useState({ x: 1545, y: 2570 }); // Default respawn point
-  const emitEvent = useEmitEvent();
+  const [penalty, setPenalty] = useState<{
+    experienceLost: number;
+    droppedItems: ItemInstance[];
+  } | null>(null);
 
   // Listen for player death event
   useEventBus("player.died", () => {
     setVisible(true);
   });
 
+  // Listen for the penalty applied for this death
+  useEventBus("player.death.penalty", (data) => {
+    setPenalty(data);
+  });
+
   // Handle respawn button click
   const handleRespawn = () => {
     // Hide dialog
     setVisible(false);
+    setPenalty(null);
 
-    // Emit respawn event
-    emitEvent("player.respawn", respawnPoint);
-
-    // Show message
-    emitEvent("ui.message.show", "You have been respawned.");
-  };
-
-  // Update respawn point
-  const updateRespawnPoint = (x: number, y: number) => {
-    setRespawnPoint({ x, y });
+    // Respawn at the bound temple or the map's respawn point
+    respawnSystem.respawn();
   };
 
   if (!visible) {
@@ -37,6 +39,14 @@ const DeathManager: React.FC = () => {
       <div className="respawn-dialog-content">
         <h2 className="respawn-title">You have died!</h2>
         <p className="respawn-message">Your character has fallen in battle.</p>
+        {penalty && penalty.experienceLost > 0 && (
+          <p className="respawn-message">You lost {penalty.experienceLost} experience.</p>
+        )}
+        {penalty && penalty.droppedItems.length > 0 && (
+          <p className="respawn-message">
+            {penalty.droppedItems.length} item(s) were left in your corpse.
+          </p>
+        )}
         <div className="respawn-buttons">
           <button id="respawn-button" className="respawn-button" onClick={handleRespawn}>
             Respawn
@@ -4,6 +4,7 @@ import { useEmitEvent } from "../../hooks/useEventBus";
 import InventorySlot from "./InventorySlot";
 import { ItemInstance, ItemType } from "../../types";
 import { ItemDictionary } from "../../services/ItemDictionaryService";
+import { ConsumableService } from "../../services/ConsumableService";
 import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
 import { PhaserSceneManager } from "@/services/PhaserSceneManager";
 import { GameScene } from "@/scenes/GameScene";
@@ -11,6 +12,7 @@ import { GameScene } from "@/scenes/GameScene";
 const Inventory: React.FC = () => {
   const {
     playerCharacter,
+    calculatedStats,
     getItemInstanceById,
     removeItemInstanceFromInventory,
     setPlayerCharacterEquipment,
@@ -26,8 +28,20 @@ const Inventory: React.FC = () => {
   const [currentPage, setCurrentPage] = useState<number>(0);
   const SLOTS_PER_PAGE = 20;
 
-  // Calculate total pages based on inventory capacity
-  const totalPages = Math.ceil(playerCharacter.maxCapacity / SLOTS_PER_PAGE);
+  // Weight limits the inventory, so pages grow with its contents
+  const totalPages = Math.max(1, Math.ceil(playerCharacter.inventory.length / SLOTS_PER_PAGE));
+
+  // Stay on a page that still exists after items are removed
+  useEffect(() => {
+    if (currentPage > totalPages - 1) {
+      setCurrentPage(totalPages - 1);
+    }
+  }, [currentPage, totalPages]);
+
+  // Carried weight against the carrying capacity
+  const { encumbrance, totalCapacity } = calculatedStats;
+  const weightClass =
+    encumbrance === "overloaded" ? "full" : encumbrance === "encumbered" ? "warning" : "";
 
   // Minimization state
   const [minimized, setMinimized] = useState<boolean>(false);
@@ -66,7 +80,10 @@ const Inventory: React.FC = () => {
         playerX,
         playerY,
         itemInstance.instanceId,
-        itemInstance.bonusStats
+        itemInstance.bonusStats,
+        itemInstance.quantity,
+        itemInstance.rarity,
+        itemInstance.itemLevel
       );
 
       if (item) {
@@ -199,7 +216,7 @@ const Inventory: React.FC = () => {
         // If there was an item previously equipped, add it to inventory
         if (currentEquippedItem) {
           // Add to inventory - the ItemInstance is already preserved
-          if (!addItemInstanceToInventory(currentEquippedItem)) {
+          if (!addItemInstanceToInventory(currentEquippedItem, false)) {
             console.error("Failed to add previous item to inventory");
           }
         }
@@ -352,7 +369,7 @@ const Inventory: React.FC = () => {
         setPlayerCharacterEquipment(currentEquipment);
 
         // Add to inventory - currentItem is already an ItemInstance
-        if (addItemInstanceToInventory(currentItem)) {
+        if (addItemInstanceToInventory(currentItem, false)) {
           const itemName = ItemInstanceManager.getDisplayName(currentItem);
           emitEvent("ui.message.show", `Unequipped ${itemName}`);
         } else {
@@ -403,6 +420,12 @@ const Inventory: React.FC = () => {
       const itemData = ItemInstanceManager.getCombinedStats(instance);
       if (!itemData) return;
 
+      // Food and potions are consumed instead of equipped
+      if (ConsumableService.isConsumable(itemData)) {
+        ConsumableService.consumeItem(itemInstanceId);
+        return;
+      }
+
       // Determine which slot to equip to
       let targetSlot = "";
       if (itemData.type === ItemType.WEAPON) targetSlot = "weapon";
@@ -437,7 +460,7 @@ const Inventory: React.FC = () => {
       setPlayerCharacterEquipment(currentEquipment);
 
       // Add to inventory - currentItem is already an ItemInstance
-      if (addItemInstanceToInventory(currentItem)) {
+      if (addItemInstanceToInventory(currentItem, false)) {
         const itemName = ItemInstanceManager.getDisplayName(currentItem);
         emitEvent("ui.message.show", `Unequipped ${itemName}`);
       } else {
@@ -562,6 +585,23 @@ const Inventory: React.FC = () => {
                 →
               </button>
             </div>
+
+            <div className="resources-container">
+              <div className="resource-row capacity-container">
+                <div className="resource-capacity">
+                  <span className="resource-icon">📦</span>
+                  <span className="resource-label">Weight</span>
+                  {encumbrance !== "normal" && (
+                    <span className={`capacity-status ${weightClass}`}>
+                      {encumbrance === "overloaded" ? "Overloaded" : "Encumbered"}
+                    </span>
+                  )}
+                  <span className={`resource-value ${weightClass}`}>
+                    {playerCharacter.currentCapacity} / {totalCapacity}
+                  </span>
+                </div>
+              </div>
+            </div>
           </>
         )}
       </div>
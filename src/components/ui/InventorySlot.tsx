@@ -177,6 +177,7 @@ const InventorySlot: React.FC<InventorySlotProps> = ({
       ? "item-with-bonus"
       : "",
     itemData?.type === "product" ? "product-item" : "",
+    itemInstance?.rarity && !itemData?.set ? `item-rarity-${itemInstance.rarity}` : "",
   ]
     .filter(Boolean)
     .join(" ");
@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useRef } from "react";
 import { useEventBus, useEmitEvent } from "../../hooks/useEventBus";
-import { MainQuets } from "../../data/main-quests";
-import { Riddles } from "../../data/riddles";
-import { SideQuests } from "@/data/side-quests.";
+import { useGameStore } from "../../stores/gameStore";
+import { QuestService } from "../../services/QuestService";
+import { NPCService } from "../../services/NPCService";
+import { Quest, QuestCategory, QuestDefinition, QuestObjectiveType } from "../../types";
 
 enum QuestTab {
   MAIN = "main",
@@ -10,27 +11,8 @@ enum QuestTab {
   RIDDLES = "riddles",
 }
 
-interface MainQuestStep {
-  page: number;
-  step: number;
-  task: string;
-  img: string;
-}
-
-interface SideQuest {
-  name: string;
-  type: string;
-  amount: number;
-  reward: number;
-  description: string;
-  isRepeatable: boolean;
-}
-
-interface Riddle {
-  name: string;
-  img: string;
-  reward: number;
-}
+const sideQuests = QuestService.getQuestDefinitions(QuestCategory.SIDE);
+const riddles = QuestService.getQuestDefinitions(QuestCategory.RIDDLE);
 
 const QuestLog: React.FC = () => {
   const [visible, setVisible] = useState<boolean>(false);
@@ -38,48 +20,31 @@ const QuestLog: React.FC = () => {
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [selectedQuest, setSelectedQuest] = useState<string | null>(null);
   const questItemRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const quests = useGameStore((state) => state.quests);
   const emitEvent = useEmitEvent();
 
-  // Data organization
-  const mainQuestsByPage = MainQuets.reduce<Record<number, MainQuestStep[]>>((acc, quest) => {
-    if (!acc[quest.page]) {
-      acc[quest.page] = [];
-    }
-    acc[quest.page].push(quest);
-    return acc;
-  }, {});
-
-  const maxPages = Math.max(...Object.keys(mainQuestsByPage).map(Number));
+  const findQuest = (list: Quest[], questId: string) =>
+    list.find((quest) => quest.id === questId) || null;
 
-  // Calculate total quest points (from completed quests)
-  const calculateTotalQuestPoints = (): number => {
-    let total = 0;
-
-    // Add points from completed side quests
-    SideQuests.forEach((quest) => {
-      const progress = getSideQuestProgress(quest);
-      if (progress >= quest.amount) {
-        total += quest.reward;
-      }
-    });
-
-    // Add points from completed riddles
-    Riddles.forEach((riddle) => {
-      if (isRiddleCompleted(riddle.name)) {
-        total += riddle.reward;
-      }
-    });
+  // Main quests get a book page once started
+  const mainQuests = QuestService.getQuestDefinitions(QuestCategory.MAIN).filter(
+    (quest) => findQuest(quests.active, quest.id) || findQuest(quests.completed, quest.id)
+  );
 
-    return total;
-  };
+  const maxPages = Math.max(1, mainQuests.length);
 
   // When side tab is activated, select the first quest by default
   useEffect(() => {
-    if (activeTab === QuestTab.SIDE && SideQuests.length > 0 && !selectedQuest) {
-      setSelectedQuest(SideQuests[0].name);
+    if (activeTab === QuestTab.SIDE && sideQuests.length > 0 && !selectedQuest) {
+      setSelectedQuest(sideQuests[0].id);
     }
   }, [activeTab, selectedQuest]);
 
+  // Open the book on the newest main quest
+  useEffect(() => {
+    setCurrentPage(maxPages);
+  }, [maxPages]);
+
   useEventBus("quests.toggle", (data: { visible: boolean }) => {
     setVisible(data.visible);
   });
@@ -103,28 +68,32 @@ const QuestLog: React.FC = () => {
     }
   }, [selectedQuest]);
 
-  // Mock completion status (would come from game state in a real implementation)
-  const isStepCompleted = (step: number, page: number): boolean => {
-    // For demo purposes: steps 1 and 2 of page 1 are completed
-    return page === 1 && (step === 1 || step === 2);
-  };
+  const getSideQuestStatus = (quest: QuestDefinition): string => {
+    const completed = findQuest(quests.completed, quest.id);
 
-  const isCurrentStep = (step: number, page: number): boolean => {
-    // For demo purposes: step 3 of page 1 is current
-    return page === 1 && step === 3;
-  };
+    if (findQuest(quests.active, quest.id)) return "In progress";
+    if (completed && !quest.repeatable) return "Completed";
 
-  const isRiddleCompleted = (name: string): boolean => {
-    // For demo purposes: first and third riddles are completed
-    return name === "FireSword" || name === "Abc2";
+    const giverName = quest.giverNpcId ? NPCService.getNPC(quest.giverNpcId)?.name : null;
+    const availability = giverName ? `Available from ${giverName}` : "Available";
+    return completed
+      ? `Completed ${completed.timesCompleted || 1}x • ${availability}`
+      : availability;
   };
 
-  const getSideQuestProgress = (quest: SideQuest): number => {
-    // For demo purposes: fixed progress values
-    if (quest.name === "SkeletonKiller") return 3;
-    if (quest.name === "GoblinKiller") return 19;
-    if (quest.name === "BerryCollect") return 3;
-    return Math.floor(Math.random() * quest.amount);
+  const getQuestTypeLabel = (quest: QuestDefinition): string => {
+    switch (quest.objectives[0]?.type) {
+      case QuestObjectiveType.KILL:
+        return "Hunt";
+      case QuestObjectiveType.COLLECT:
+        return "Collect";
+      case QuestObjectiveType.DELIVER:
+        return "Delivery";
+      case QuestObjectiveType.REACH:
+        return "Explore";
+      default:
+        return "Errand";
+    }
   };
 
   const handleClose = () => {
@@ -144,42 +113,61 @@ const QuestLog: React.FC = () => {
     }
   };
 
-  const handleSelectQuest = (questName: string) => {
-    setSelectedQuest(questName);
+  const handleSelectQuest = (questId: string) => {
+    setSelectedQuest(questId);
   };
 
   const renderMainQuests = () => {
-    const pageQuests = mainQuestsByPage[currentPage] || [];
-    pageQuests.sort((a, b) => a.step - b.step);
+    const definition = mainQuests[currentPage - 1];
+
+    if (!definition) {
+      return (
+        <div className="quest-book">
+          <div className="quest-book-right">
+            <div className="quest-steps">Your story has not begun yet.</div>
+          </div>
+        </div>
+      );
+    }
+
+    const quest =
+      findQuest(quests.active, definition.id) || findQuest(quests.completed, definition.id);
+    const objectives = quest?.objectives || [];
+    const currentIndex = objectives.findIndex((objective) => !objective.completed);
 
     return (
       <div className="quest-book">
         <div className="quest-book-left">
           <div className="quest-image-container">
             <img
-              src={`assets/quests/${pageQuests[0]?.img || "riddle.png"}`}
+              src={`assets/quests/${definition.img || "riddle.png"}`}
               alt="Quest"
               className="quest-image"
             />
           </div>
         </div>
         <div className="quest-book-right">
-          <div className="quest-page-number">Page {currentPage}</div>
+          <div className="quest-page-number">
+            Page {currentPage} - {definition.title}
+          </div>
           <div className="quest-steps">
-            {pageQuests.map((quest) => {
-              const completed = isStepCompleted(quest.step, quest.page);
-              const current = isCurrentStep(quest.step, quest.page);
+            {objectives.map((objective, index) => {
+              const completed = objective.completed;
+              const current = index === currentIndex;
 
               // Only show steps that are completed or current
               if (!completed && !current) return null;
 
               return (
                 <div
-                  key={`${quest.page}-${quest.step}`}
+                  key={`${definition.id}-${objective.id}`}
                   className={`quest-step ${completed ? "completed" : ""} ${current ? "current" : ""}`}
                 >
-                  <span className="quest-step-number">{quest.step}.</span>
-                  <span className="quest-step-text">{quest.task}</span>
+                  <span className="quest-step-number">{index + 1}.</span>
+                  <span className="quest-step-text">
+                    {objective.description}
+                    {objective.required > 1 && ` (${objective.progress}/${objective.required})`}
+                  </span>
                 </div>
               );
             })}
@@ -210,49 +198,61 @@ const QuestLog: React.FC = () => {
       <div className="side-quests-container">
         {/* Navigation panel */}
         <div className="side-quest-navigation">
-          {SideQuests.map((quest) => (
+          {sideQuests.map((quest) => (
             <div
-              key={quest.name}
-              className={`side-quest-nav-item ${selectedQuest === quest.name ? "active" : ""}`}
-              onClick={() => handleSelectQuest(quest.name)}
+              key={quest.id}
+              className={`side-quest-nav-item ${selectedQuest === quest.id ? "active" : ""}`}
+              onClick={() => handleSelectQuest(quest.id)}
             >
-              {quest.name}
+              {quest.title}
             </div>
           ))}
         </div>
 
         {/* Content panel */}
         <div className="side-quest-content">
-          {SideQuests.map((quest) => {
-            const progress = getSideQuestProgress(quest);
-            const progressPercentage = Math.min(100, (progress / quest.amount) * 100);
-            const isComplete = progress >= quest.amount;
+          {sideQuests.map((definition) => {
+            const activeQuest = findQuest(quests.active, definition.id);
+            const isComplete = !activeQuest && !!findQuest(quests.completed, definition.id);
+            const questPoints = definition.rewards.questPoints || 0;
 
             return (
               <div
-                key={quest.name}
+                key={definition.id}
                 className={`side-quest-item ${isComplete ? "completed" : ""}`}
-                ref={(el) => (questItemRefs.current[quest.name] = el)}
+                ref={(el) => (questItemRefs.current[definition.id] = el)}
               >
                 <div className="side-quest-header">
-                  <div className="side-quest-name">{quest.name}</div>
-                  <div className="side-quest-reward">{quest.reward} Quest Point</div>
-                </div>
-                <div className="side-quest-description">{quest.description}</div>
-                <div className="side-quest-progress">
-                  <div className="side-quest-progress-text">
-                    Progress: {progress}/{quest.amount}
-                  </div>
-                  <div className="side-quest-progress-bar-container">
-                    <div
-                      className="side-quest-progress-bar-fill"
-                      style={{ width: `${progressPercentage}%` }}
-                    ></div>
+                  <div className="side-quest-name">{definition.title}</div>
+                  <div className="side-quest-reward">
+                    {questPoints} Quest Point{questPoints === 1 ? "" : "s"}
                   </div>
                 </div>
+                <div className="side-quest-description">{definition.description}</div>
+                {activeQuest?.objectives.map((objective) => {
+                  const progressPercentage = Math.min(
+                    100,
+                    (objective.progress / objective.required) * 100
+                  );
+
+                  return (
+                    <div key={objective.id} className="side-quest-progress">
+                      <div className="side-quest-progress-text">
+                        {objective.description}: {objective.progress}/{objective.required}
+                      </div>
+                      <div className="side-quest-progress-bar-container">
+                        <div
+                          className="side-quest-progress-bar-fill"
+                          style={{ width: `${progressPercentage}%` }}
+                        ></div>
+                      </div>
+                    </div>
+                  );
+                })}
                 <div className="side-quest-type-tag">
-                  {quest.type === "kill" ? "Hunt" : "Collect"} •
-                  {quest.isRepeatable ? " Repeatable" : " One-time"}
+                  {getQuestTypeLabel(definition)} •
+                  {definition.repeatable ? " Repeatable" : " One-time"} •{" "}
+                  {getSideQuestStatus(definition)}
                 </div>
               </div>
             );
@@ -265,16 +265,16 @@ const QuestLog: React.FC = () => {
   const renderRiddles = () => {
     return (
       <div className="riddles-container">
-        {Riddles.map((riddle) => {
-          const completed = isRiddleCompleted(riddle.name);
+        {riddles.map((riddle) => {
+          const completed = !!findQuest(quests.completed, riddle.id);
 
           return (
-            <div key={riddle.name} className={`riddle-card ${completed ? "completed" : "hidden"}`}>
+            <div key={riddle.id} className={`riddle-card ${completed ? "completed" : "hidden"}`}>
               <div className="riddle-image-container">
                 {completed ? (
                   <img
-                    src={`assets/quests/${riddle.img}`}
-                    alt={riddle.name}
+                    src={`assets/quests/${riddle.img || "riddle.png"}`}
+                    alt={riddle.title}
                     className="riddle-image"
                   />
                 ) : (
@@ -282,8 +282,12 @@ const QuestLog: React.FC = () => {
                 )}
               </div>
               <div className="riddle-info">
-                <div className="riddle-name">{completed ? riddle.name : "???"}</div>
-                {completed && <div className="riddle-reward">{riddle.reward} Quest Points</div>}
+                <div className="riddle-name">{completed ? riddle.title : "???"}</div>
+                {completed && (
+                  <div className="riddle-reward">
+                    {riddle.rewards.questPoints || 0} Quest Points
+                  </div>
+                )}
               </div>
             </div>
           );
@@ -301,7 +305,7 @@ const QuestLog: React.FC = () => {
       <div className="quest-log-header">
         <h2>Quest Log</h2>
         <div className="total-quest-points">
-          <span>{calculateTotalQuestPoints()} Quest Points</span>
+          <span>{QuestService.getQuestPoints()} Quest Points</span>
         </div>
         <button className="close-button" onClick={handleClose}>
           ✕
@@ -1,9 +1,11 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { useGameStore } from "../../stores/gameStore";
 import { useEventBus } from "../../hooks/useEventBus";
+import { statusEffectSystem } from "../../services/StatusEffectSystem";
+import { ActiveStatusEffect, StatusEffectType } from "../../types";
 
 const Resources: React.FC = () => {
-  const { playerCharacter } = useGameStore();
+  const { playerCharacter, calculatedStats, systems } = useGameStore();
 
   // Health state
   const [currentHealth, setCurrentHealth] = useState(playerCharacter.health);
@@ -11,17 +13,36 @@ const Resources: React.FC = () => {
   const [isHealthFlashing, setIsHealthFlashing] = useState(false);
 
   // Resource/Mana state
-  const [currentResource, setCurrentResource] = useState(100);
-  const [maxResource, setMaxResource] = useState(100);
+  const [currentResource, setCurrentResource] = useState(playerCharacter.mana);
+  const [maxResource, setMaxResource] = useState(calculatedStats.totalMana);
   const [isResourceFlashing, setIsResourceFlashing] = useState(false);
 
   // Status states (would be connected to actual game state in a real implementation)
   const [inCombat, setInCombat] = useState(true);
-  const [isFed, setIsFed] = useState(true);
-  const [isBurning, setIsBurning] = useState(true);
-  const [isPoisoned, setIsPoisoned] = useState(true);
-  const [isSlowed, setIsSlowed] = useState(true);
-  const [isExtraRegen, setIsExtraRegen] = useState(true);
+  const [statusEffects, setStatusEffects] = useState<ActiveStatusEffect[]>(() =>
+    statusEffectSystem.getActiveEffects(systems?.gameScene?.playerCharacter)
+  );
+
+  // Listen for status effect changes on the player
+  useEventBus("playerCharacter.statusEffects.changed", (effects: ActiveStatusEffect[]) => {
+    setStatusEffects(effects);
+  });
+
+  const getEffect = (type: StatusEffectType) =>
+    statusEffects.find((effect) => effect.type === type);
+
+  const getEffectTitle = (type: StatusEffectType) => {
+    const effect = getEffect(type);
+    const name = statusEffectSystem.getDefinition(type)?.name || type;
+    return effect && effect.stacks > 1 ? `${name} (x${effect.stacks})` : name;
+  };
+
+  const isStunned = !!getEffect(StatusEffectType.STUN);
+  const isBurning = !!getEffect(StatusEffectType.BURN);
+  const isPoisoned = !!getEffect(StatusEffectType.POISON);
+  const isSlowed = !!getEffect(StatusEffectType.SLOW);
+  const isExtraRegen = !!getEffect(StatusEffectType.REGEN);
+  const isFed = !!getEffect(StatusEffectType.FED);
 
   // Listen for health changes
   useEventBus("playerCharacter.health.changed", (health: number) => {
@@ -38,14 +59,20 @@ const Resources: React.FC = () => {
     setMaxHealth(maxHealth);
   });
 
-  // Mock resource regeneration (would be replaced with actual system)
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setCurrentResource((prev) => Math.min(maxResource, prev + 0.5));
-    }, 1000);
+  // Listen for mana changes
+  useEventBus("playerCharacter.mana.changed", (mana: number) => {
+    // Flash when mana is spent
+    if (mana < currentResource) {
+      setIsResourceFlashing(true);
+      setTimeout(() => setIsResourceFlashing(false), 300);
+    }
+    setCurrentResource(mana);
+  });
 
-    return () => clearInterval(interval);
-  }, [maxResource]);
+  // Max mana follows the calculated stats
+  useEventBus("player.stats.updated", (stats: { totalMana: number }) => {
+    setMaxResource(stats.totalMana);
+  });
 
   // Calculate health percentage
   const healthPercentage = Math.max(0, Math.min(100, (currentHealth / maxHealth) * 100));
@@ -90,27 +117,35 @@ const Resources: React.FC = () => {
           </div>
         )}
         {isFed && (
-          <div className="status-icon is-fed" title="Well Fed">
+          <div className="status-icon is-fed" title={getEffectTitle(StatusEffectType.FED)}>
             🍖
           </div>
         )}
+        {isStunned && (
+          <div className="status-icon is-stunned" title={getEffectTitle(StatusEffectType.STUN)}>
+            💫
+          </div>
+        )}
         {isBurning && (
-          <div className="status-icon is-burning" title="Burning">
+          <div className="status-icon is-burning" title={getEffectTitle(StatusEffectType.BURN)}>
             🔥
           </div>
         )}
         {isPoisoned && (
-          <div className="status-icon is-poisoned" title="Poisoned">
+          <div className="status-icon is-poisoned" title={getEffectTitle(StatusEffectType.POISON)}>
             ☠️
           </div>
         )}
         {isSlowed && (
-          <div className="status-icon is-slowed" title="Slowed">
+          <div className="status-icon is-slowed" title={getEffectTitle(StatusEffectType.SLOW)}>
             🐌
           </div>
         )}
         {isExtraRegen && (
-          <div className="status-icon is-extra-regen" title="Extra Regeneration">
+          <div
+            className="status-icon is-extra-regen"
+            title={getEffectTitle(StatusEffectType.REGEN)}
+          >
             💗
           </div>
         )}
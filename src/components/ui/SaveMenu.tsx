@@ -0,0 +1,179 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { useEventBus, useEmitEvent } from "../../hooks/useEventBus";
+import { useGameStore } from "../../stores/gameStore";
+import { SaveGameService, AUTOSAVE_SLOT } from "@/services/SaveGameService";
+import { MapService } from "@/services/MapService";
+import { SaveSlotInfo } from "@/types";
+
+interface SaveSlotRowProps {
+  info: SaveSlotInfo;
+  onSave: (slot: string) => void;
+  onLoad: (slot: string) => void;
+  onDelete: (slot: string) => void;
+}
+
+const SaveSlotRow: React.FC<SaveSlotRowProps> = ({ info, onSave, onLoad, onDelete }) => {
+  const isAutosave = info.slot === AUTOSAVE_SLOT;
+
+  return (
+    <div className={`save-slot-row ${isAutosave ? "autosave" : ""}`}>
+      <div className="save-slot-info">
+        <div className="save-slot-name">{isAutosave ? "Autosave" : info.slot}</div>
+        <div className="save-slot-details">
+          Level {info.playerLevel} · {MapService.getMapName(info.currentMap)} ·{" "}
+          {new Date(info.savedAt).toLocaleString()}
+        </div>
+      </div>
+      <div className="save-slot-actions">
+        {!isAutosave && (
+          <button className="save-menu-button" onClick={() => onSave(info.slot)}>
+            Overwrite
+          </button>
+        )}
+        <button className="save-menu-button" onClick={() => onLoad(info.slot)}>
+          Load
+        </button>
+        <button className="save-menu-button danger" onClick={() => onDelete(info.slot)}>
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const SaveMenu: React.FC = () => {
+  const [visible, setVisible] = useState(false);
+  const [slots, setSlots] = useState<SaveSlotInfo[]>([]);
+  const [newSlotName, setNewSlotName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const emitEvent = useEmitEvent();
+
+  const refreshSlots = useCallback(() => {
+    setSlots(SaveGameService.listSlots());
+  }, []);
+
+  // Listen for save menu toggle event
+  useEventBus("saveMenu.toggle", (data: { visible: boolean }) => {
+    setVisible(data.visible);
+    if (data.visible) {
+      refreshSlots();
+    }
+  });
+
+  // Keep the slot list fresh while open
+  useEventBus("save.written", () => visible && refreshSlots());
+  useEventBus("save.deleted", () => visible && refreshSlots());
+
+  const handleClose = () => {
+    setVisible(false);
+    useGameStore.getState().setInputFocused(false);
+    emitEvent("saveMenu.visibility.changed", false);
+  };
+
+  // Handle ESC key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && visible) {
+        handleClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [visible]);
+
+  const handleSave = (slot: string) => {
+    if (SaveGameService.saveToSlot(slot)) {
+      setNewSlotName("");
+    }
+  };
+
+  const handleLoad = (slot: string) => {
+    if (SaveGameService.loadFromSlot(slot)) {
+      handleClose();
+    }
+  };
+
+  const handleDelete = (slot: string) => {
+    SaveGameService.deleteSlot(slot);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const slot = `imported-${file.name.replace(/\.json$/i, "")}`.slice(0, 32);
+    if (await SaveGameService.importFromFile(file, slot)) {
+      handleClose();
+    }
+  };
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <div className="save-menu-container">
+      <div className="save-menu-header">
+        <h2>Save Game</h2>
+        <button className="save-menu-close-button" onClick={handleClose}>
+          ✕
+        </button>
+      </div>
+
+      <div className="save-menu-content">
+        <div className="save-menu-new-slot">
+          <input
+            type="text"
+            placeholder="New save name"
+            value={newSlotName}
+            maxLength={32}
+            onChange={(e) => setNewSlotName(e.target.value)}
+            onFocus={() => useGameStore.getState().setInputFocused(true)}
+            onBlur={() => useGameStore.getState().setInputFocused(false)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave(newSlotName)}
+          />
+          <button
+            className="save-menu-button"
+            disabled={!newSlotName.trim() || newSlotName.trim() === AUTOSAVE_SLOT}
+            onClick={() => handleSave(newSlotName)}
+          >
+            Save
+          </button>
+        </div>
+
+        <div className="save-menu-transfer">
+          <button className="save-menu-button" onClick={() => SaveGameService.exportToFile()}>
+            Export Character
+          </button>
+          <button className="save-menu-button" onClick={() => fileInputRef.current?.click()}>
+            Import Character
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            style={{ display: "none" }}
+            onChange={handleImport}
+          />
+        </div>
+
+        <div className="save-slot-list">
+          {slots.length === 0 && <div className="save-slot-empty">No saved games yet</div>}
+          {slots.map((info) => (
+            <SaveSlotRow
+              key={info.slot}
+              info={info}
+              onSave={handleSave}
+              onLoad={handleLoad}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveMenu;
@@ -2,37 +2,48 @@ import React, { useState, useEffect } from "react";
 import { useGameStore } from "../../stores/gameStore";
 import { useEventBus, useEmitEvent } from "../../hooks/useEventBus";
 import { ItemDictionary } from "@/services/ItemDictionaryService";
-import { ShopItem } from "@/services/NPCService";
+import { NPCService } from "@/services/NPCService";
+import { MerchantService } from "@/services/MerchantService";
 import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
+import { BuybackEntry, ItemInstance, MerchantStockItem } from "@/types";
 
 interface BuyItemRowProps {
-  item: ShopItem;
-  onBuy: (item: ShopItem) => void;
+  item: MerchantStockItem;
+  price: number;
+  onBuy: (stockId: string) => void;
   canAfford: boolean;
 }
 
-const BuyItemRow: React.FC<BuyItemRowProps> = ({ item, onBuy, canAfford }) => {
+const BuyItemRow: React.FC<BuyItemRowProps> = ({ item, price, onBuy, canAfford }) => {
   const itemData = ItemDictionary.getItem(item.itemId);
 
   if (!itemData) return null;
 
   const folder = ItemDictionary.getItemFolder(itemData);
   const imageSrc = `assets/equipment/${folder}/${itemData.texture}.png`;
+  const name = item.instance
+    ? ItemInstanceManager.getDisplayName({ ...item.instance, quantity: 1 })
+    : itemData.name;
+  const soldOut = item.quantity <= 0;
+  const canBuy = canAfford && !soldOut;
 
   return (
-    <div className="shop-item-row" data-item-id={item.itemId} data-price={item.price}>
+    <div className="shop-item-row" data-item-id={item.itemId} data-price={price}>
       <div className="item-image-container">
         <img src={imageSrc} alt={itemData.name} />
       </div>
       <div className="item-details">
-        <div className="item-name">{itemData.name}</div>
+        <div className="item-name">{name}</div>
         <div className="item-description">{itemData.description || ""}</div>
+        <div className={`item-stock ${soldOut ? "sold-out" : ""}`}>
+          {soldOut ? "Sold out" : `${item.quantity} in stock`}
+        </div>
       </div>
-      <div className="item-price">{item.price} gold</div>
+      <div className="item-price">{price} gold</div>
       <button
-        className={`buy-button ${!canAfford ? "disabled" : ""}`}
-        onClick={() => canAfford && onBuy(item)}
-        disabled={!canAfford}
+        className={`buy-button ${!canBuy ? "disabled" : ""}`}
+        onClick={() => canBuy && onBuy(item.stockId)}
+        disabled={!canBuy}
       >
         Buy
       </button>
@@ -41,14 +52,13 @@ const BuyItemRow: React.FC<BuyItemRowProps> = ({ item, onBuy, canAfford }) => {
 };
 
 interface SellItemRowProps {
-  instanceId: string;
-  templateId: string;
+  instance: ItemInstance;
   sellValue: number;
   onSell: (instanceId: string, sellValue: number) => void;
 }
 
-const SellItemRow: React.FC<SellItemRowProps> = ({ instanceId, templateId, sellValue, onSell }) => {
-  const itemData = ItemDictionary.getItem(templateId);
+const SellItemRow: React.FC<SellItemRowProps> = ({ instance, sellValue, onSell }) => {
+  const itemData = ItemDictionary.getItem(instance.templateId);
 
   if (!itemData) return null;
 
@@ -56,48 +66,139 @@ const SellItemRow: React.FC<SellItemRowProps> = ({ instanceId, templateId, sellV
   const imageSrc = `assets/equipment/${folder}/${itemData.texture}.png`;
 
   return (
-    <div className="shop-item-row" data-instance-id={instanceId} data-price={sellValue}>
+    <div className="shop-item-row" data-instance-id={instance.instanceId} data-price={sellValue}>
       <div className="item-image-container">
         <img src={imageSrc} alt={itemData.name} />
       </div>
       <div className="item-details">
-        <div className="item-name">{itemData.name}</div>
+        <div className="item-name">{ItemInstanceManager.getDisplayName(instance)}</div>
         <div className="item-description">{itemData.description || ""}</div>
       </div>
       <div className="item-price">{sellValue} gold</div>
-      <button className="sell-button" onClick={() => onSell(instanceId, sellValue)}>
+      <button className="sell-button" onClick={() => onSell(instance.instanceId, sellValue)}>
         Sell
       </button>
     </div>
   );
 };
 
+interface BuybackItemRowProps {
+  entry: BuybackEntry;
+  onBuyBack: (buybackId: string) => void;
+  canAfford: boolean;
+}
+
+const BuybackItemRow: React.FC<BuybackItemRowProps> = ({ entry, onBuyBack, canAfford }) => {
+  const itemData = ItemDictionary.getItem(entry.instance.templateId);
+
+  if (!itemData) return null;
+
+  const folder = ItemDictionary.getItemFolder(itemData);
+  const imageSrc = `assets/equipment/${folder}/${itemData.texture}.png`;
+  const minutesLeft = Math.max(1, Math.ceil((entry.expiresAt - Date.now()) / 60000));
+
+  return (
+    <div className="shop-item-row" data-buyback-id={entry.buybackId} data-price={entry.price}>
+      <div className="item-image-container">
+        <img src={imageSrc} alt={itemData.name} />
+      </div>
+      <div className="item-details">
+        <div className="item-name">{ItemInstanceManager.getDisplayName(entry.instance)}</div>
+        <div className="item-description">{itemData.description || ""}</div>
+        <div className="item-stock">{minutesLeft} min left</div>
+      </div>
+      <div className="item-price">{entry.price} gold</div>
+      <button
+        className={`buy-button ${!canAfford ? "disabled" : ""}`}
+        onClick={() => canAfford && onBuyBack(entry.buybackId)}
+        disabled={!canAfford}
+      >
+        Buy Back
+      </button>
+    </div>
+  );
+};
+
+interface SellConfirmDialogProps {
+  instance: ItemInstance;
+  price: number;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const SellConfirmDialog: React.FC<SellConfirmDialogProps> = ({
+  instance,
+  price,
+  onConfirm,
+  onCancel,
+}) => (
+  <div className="shop-confirmation-overlay">
+    <div className="shop-confirmation-dialog">
+      <div className="shop-confirmation-title">Confirm Sale</div>
+      <div className="shop-confirmation-message">
+        Sell {ItemInstanceManager.getDisplayName({ ...instance, quantity: 1 })} for {price} gold?
+      </div>
+      <div className="shop-confirmation-buttons">
+        <button className="sell-button" onClick={onConfirm}>
+          Sell
+        </button>
+        <button className="shop-cancel-button" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
 const Shop: React.FC = () => {
-  const {
-    playerCharacter,
-    updatePlayerGold,
-    addItemInstanceToInventory,
-    removeItemInstanceFromInventory,
-  } = useGameStore();
+  const { playerCharacter } = useGameStore();
 
   const [visible, setVisible] = useState(false);
   const [npcId, setNpcId] = useState("");
   const [npcName, setNpcName] = useState("");
-  const [shopItems, setShopItems] = useState<ShopItem[]>([]);
+  const [stock, setStock] = useState<MerchantStockItem[]>([]);
+  const [buyback, setBuyback] = useState<BuybackEntry[]>([]);
+  const [activeTab, setActiveTab] = useState<"buy" | "buyback">("buy");
+  const [pendingSell, setPendingSell] = useState<{ instance: ItemInstance; price: number } | null>(
+    null
+  );
 
   const emitEvent = useEmitEvent();
 
   // Listen for shop.open event
-  useEventBus("shop.open", (data: { npcId: string; npcName: string; shopItems: ShopItem[] }) => {
+  useEventBus("shop.open", (data: { npcId: string; npcName: string }) => {
     setNpcId(data.npcId);
     setNpcName(data.npcName);
-    setShopItems(data.shopItems);
+    setStock(MerchantService.getStock(data.npcId));
+    setBuyback(MerchantService.getBuyback(data.npcId));
+    setActiveTab("buy");
     setVisible(true);
 
     // Focus input
     emitEvent("input.focused", true);
   });
 
+  // Stock and prices change with every trade and restock
+  useEventBus("merchant.stock.updated", (data: { npcId: string; stock: MerchantStockItem[] }) => {
+    if (data.npcId === npcId) {
+      setStock(data.stock);
+    }
+  });
+
+  useEventBus("merchant.buyback.updated", (data: { npcId: string; buyback: BuybackEntry[] }) => {
+    if (data.npcId === npcId) {
+      setBuyback(data.buyback);
+    }
+  });
+
+  // Merchants shut the shop when their opening hours end
+  useEventBus("world.time.changed", () => {
+    if (!visible || NPCService.isShopOpen(npcId)) return;
+
+    handleClose();
+    emitEvent("ui.message.show", `${npcName} closes the shop for today.`);
+  });
+
   // Listen for ESC key to close shop
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -113,46 +214,42 @@ const Shop: React.FC = () => {
   // Close shop
   const handleClose = () => {
     setVisible(false);
+    setPendingSell(null);
     emitEvent("input.focused", false);
   };
 
-  // Buy an item
-  const handleBuy = (item: ShopItem) => {
-    // Check if player has enough gold
-    if (playerCharacter.gold < item.price) {
-      emitEvent("ui.message.show", "You don't have enough gold for that!");
-      return;
-    }
-
-    // Create a new item instance
-    const itemInstance = ItemInstanceManager.createItemInstance(item.itemId);
-
-    // Add to inventory
-    addItemInstanceToInventory(itemInstance);
-
-    // Deduct gold
-    updatePlayerGold(playerCharacter.gold - item.price);
+  // Buy one unit of a stock line, the merchant handles gold, weight and stock
+  const handleBuy = (stockId: string) => {
+    MerchantService.buyItem(npcId, stockId);
+  };
 
-    // Show message
-    const itemData = ItemDictionary.getItem(item.itemId);
-    emitEvent("ui.message.show", `Purchased ${itemData?.name || item.itemId}!`);
+  // Buy back a sold item for what the player was paid
+  const handleBuyBack = (buybackId: string) => {
+    MerchantService.buyBack(npcId, buybackId);
   };
 
-  // Sell an item
+  // Sell one unit of an inventory item, valuable ones need confirming first
   const handleSell = (instanceId: string, sellValue: number) => {
-    // Remove from inventory
-    const removed = removeItemInstanceFromInventory(instanceId);
+    const instance = playerCharacter.inventory.find((item) => item.instanceId === instanceId);
+    if (!instance) return;
 
-    if (!removed) {
-      console.error("Failed to remove item from inventory:", instanceId);
+    if (MerchantService.needsSellConfirmation(npcId, instance)) {
+      setPendingSell({ instance, price: sellValue });
       return;
     }
 
-    // Add gold
-    updatePlayerGold(playerCharacter.gold + sellValue);
+    MerchantService.sellSingleItem(npcId, instanceId);
+  };
 
-    // Show message
-    emitEvent("ui.message.show", `Sold item for ${sellValue} gold!`);
+  const handleConfirmSell = () => {
+    if (pendingSell) {
+      MerchantService.sellSingleItem(npcId, pendingSell.instance.instanceId);
+    }
+    setPendingSell(null);
+  };
+
+  const handleSellJunk = () => {
+    MerchantService.sellJunk(npcId);
   };
 
   // Check if player can afford item
@@ -160,21 +257,12 @@ const Shop: React.FC = () => {
     return playerCharacter.gold >= price;
   };
 
-  // Get sellable items from inventory
+  // Inventory items this merchant buys, with what they'd pay for one
   const getSellableItems = () => {
     return playerCharacter.inventory
       .map((instance) => {
-        const template = ItemDictionary.getItem(instance.templateId);
-
-        if (!template || !template.sellValue || template.sellValue <= 0) {
-          return null;
-        }
-
-        return {
-          instanceId: instance.instanceId,
-          templateId: instance.templateId,
-          sellValue: template.sellValue,
-        };
+        const sellValue = MerchantService.getSellPrice(npcId, instance);
+        return sellValue === null ? null : { instance, sellValue };
       })
       .filter((item) => item !== null);
   };
@@ -184,6 +272,7 @@ const Shop: React.FC = () => {
   }
 
   const sellableItems = getSellableItems();
+  const junkCount = MerchantService.getJunkItems(npcId).length;
 
   return (
     <div className="shop-container">
@@ -197,25 +286,66 @@ const Shop: React.FC = () => {
 
       <div className="shop-content">
         <div className="buy-panel">
-          <h3>Buy Items</h3>
-          <div id="buy-items-container" className="items-container">
-            {shopItems.length === 0 ? (
-              <div className="no-items-message">No items available for purchase</div>
-            ) : (
-              shopItems.map((item) => (
-                <BuyItemRow
-                  key={item.itemId}
-                  item={item}
-                  onBuy={handleBuy}
-                  canAfford={canAfford(item.price)}
-                />
-              ))
-            )}
+          <div className="shop-tabs">
+            <button
+              className={`shop-tab ${activeTab === "buy" ? "active" : ""}`}
+              onClick={() => setActiveTab("buy")}
+            >
+              Buy Items
+            </button>
+            <button
+              className={`shop-tab ${activeTab === "buyback" ? "active" : ""}`}
+              onClick={() => setActiveTab("buyback")}
+            >
+              Buyback ({buyback.length})
+            </button>
           </div>
+          {activeTab === "buyback" ? (
+            <div id="buyback-items-container" className="items-container">
+              {buyback.length === 0 ? (
+                <div className="no-items-message">Nothing to buy back</div>
+              ) : (
+                buyback.map((entry) => (
+                  <BuybackItemRow
+                    key={entry.buybackId}
+                    entry={entry}
+                    onBuyBack={handleBuyBack}
+                    canAfford={canAfford(entry.price)}
+                  />
+                ))
+              )}
+            </div>
+          ) : (
+            <div id="buy-items-container" className="items-container">
+              {stock.length === 0 ? (
+                <div className="no-items-message">No items available for purchase</div>
+              ) : (
+                stock.map((item) => {
+                  const price = MerchantService.getBuyPrice(npcId, item.stockId);
+                  return (
+                    <BuyItemRow
+                      key={item.stockId}
+                      item={item}
+                      price={price}
+                      onBuy={handleBuy}
+                      canAfford={canAfford(price)}
+                    />
+                  );
+                })
+              )}
+            </div>
+          )}
         </div>
 
         <div className="sell-panel">
           <h3>Sell Items</h3>
+          <button
+            className={`sell-junk-button ${junkCount === 0 ? "disabled" : ""}`}
+            onClick={handleSellJunk}
+            disabled={junkCount === 0}
+          >
+            Sell All Junk ({junkCount})
+          </button>
           <div id="sell-items-container" className="items-container">
             {sellableItems.length === 0 ? (
               <div className="no-items-message">No items to sell</div>
@@ -224,9 +354,8 @@ const Shop: React.FC = () => {
                 (item) =>
                   item && (
                     <SellItemRow
-                      key={item.instanceId}
-                      instanceId={item.instanceId}
-                      templateId={item.templateId}
+                      key={item.instance.instanceId}
+                      instance={item.instance}
                       sellValue={item.sellValue}
                       onSell={handleSell}
                     />
@@ -236,6 +365,15 @@ const Shop: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {pendingSell && (
+        <SellConfirmDialog
+          instance={pendingSell.instance}
+          price={pendingSell.price}
+          onConfirm={handleConfirmSell}
+          onCancel={() => setPendingSell(null)}
+        />
+      )}
     </div>
   );
 };
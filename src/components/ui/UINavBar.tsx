@@ -10,6 +10,8 @@ export enum NavButtonType {
   BACKPACK = "backpack",
   SKILLS = "skills",
   CREATURES = "creatures", // Added creatures button
+  CRAFTING = "crafting",
+  SAVES = "saves",
 }
 
 // Props for individual navigation button
@@ -54,6 +56,8 @@ const UINavBar: React.FC = () => {
     [NavButtonType.BACKPACK]: false,
     [NavButtonType.SKILLS]: false,
     [NavButtonType.CREATURES]: false, // Added creatures state
+    [NavButtonType.CRAFTING]: false,
+    [NavButtonType.SAVES]: false,
   });
 
   // Skills window state
@@ -98,6 +102,19 @@ const UINavBar: React.FC = () => {
       event: "creatures.toggle",
       shortcutKey: "C",
     },
+    {
+      type: NavButtonType.CRAFTING,
+      icon: "⚒️",
+      label: "Crafting",
+      event: "crafting.toggle",
+      shortcutKey: "J",
+    },
+    {
+      type: NavButtonType.SAVES,
+      icon: "💾",
+      label: "Saves",
+      event: "saveMenu.toggle",
+    },
   ];
 
   // Handle button click
@@ -158,6 +175,22 @@ const UINavBar: React.FC = () => {
     }));
   });
 
+  // Listen for crafting window toggle events
+  useEventBus("crafting.visibility.changed", (isVisible: boolean) => {
+    setActiveButtons((prev) => ({
+      ...prev,
+      [NavButtonType.CRAFTING]: isVisible,
+    }));
+  });
+
+  // Listen for save menu toggle events
+  useEventBus("saveMenu.visibility.changed", (isVisible: boolean) => {
+    setActiveButtons((prev) => ({
+      ...prev,
+      [NavButtonType.SAVES]: isVisible,
+    }));
+  });
+
   return (
     <div className="nav-buttons-grid">
       {navButtons.map((button) => (
@@ -0,0 +1,24 @@
+import React, { useState } from "react";
+import { useEventBus } from "../../hooks/useEventBus";
+import { worldClock } from "../../services/WorldClockSystem";
+import { WorldTime } from "../../types";
+
+const WorldClock: React.FC = () => {
+  const [time, setTime] = useState<WorldTime>(() => worldClock.getTime());
+
+  useEventBus("world.time.changed", (worldTime: WorldTime) => {
+    setTime(worldTime);
+  });
+
+  const isNight = time.timeOfDay === "night";
+
+  return (
+    <div className={`world-clock ${isNight ? "night" : "day"}`}>
+      <span className="world-clock-icon">{isNight ? "☾" : "☀"}</span>
+      <span className="world-clock-time">{worldClock.formatTime(time.hour, time.minute)}</span>
+      <span className="world-clock-day">Day {time.day}</span>
+    </div>
+  );
+};
+
+export default WorldClock;
@@ -1,6 +1,28 @@
 import React, { useState, useEffect } from "react";
-import { ItemData, ItemInstance, ItemType } from "../../../types";
+import {
+  ConsumableEffectType,
+  ItemBonusStats,
+  ItemData,
+  ItemInstance,
+  ItemRarity,
+  ItemType,
+} from "../../../types";
 import { ItemInstanceManager } from "../../../utils/ItemInstanceManager";
+import { BONUS_STAT_LABELS, RARITY_TIERS } from "../../../data/item-affixes";
+
+const consumeEffectLabels: Record<ConsumableEffectType, string> = {
+  [ConsumableEffectType.HEAL]: "Heals",
+  [ConsumableEffectType.MANA]: "Mana",
+  [ConsumableEffectType.REGEN]: "Regeneration",
+  [ConsumableEffectType.FED]: "Well Fed",
+};
+
+const consumeEffectIcons: Record<ConsumableEffectType, string> = {
+  [ConsumableEffectType.HEAL]: "❤️",
+  [ConsumableEffectType.MANA]: "💙",
+  [ConsumableEffectType.REGEN]: "💗",
+  [ConsumableEffectType.FED]: "🍖",
+};
 
 interface ItemTooltipProps {
   itemInstance?: ItemInstance;
@@ -56,6 +78,8 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
   const isSetItem = !!itemData.set;
   const isFood = itemData.type === ItemType.FOOD;
   const isProduct = itemData.type === ItemType.PRODUCT; // Add product type check
+  const rarity = itemInstance ? ItemInstanceManager.getRarity(itemInstance) : ItemRarity.COMMON;
+  const rarityTier = RARITY_TIERS[rarity];
 
   // Get quantity for stackable items
   const quantity = itemInstance?.quantity || 1;
@@ -66,7 +90,7 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
   // Get item name color based on properties and type
   const getItemNameColor = () => {
     if (isSetItem) return "#2ecc71"; // Green for set items
-    if (hasBonuses) return "#6ab5ff"; // Blue for bonus items
+    if (rarity !== ItemRarity.COMMON) return rarityTier.color;
     if (isFood) return "#ffd280"; // Gold for food items
     if (isProduct) return "#ff9d5a"; // Orange/copper for products
     return "#d0e0ff"; // White for normal items
@@ -161,23 +185,40 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
                 {getCategoryDisplayName(itemData.category)}
               </div>
             )}
+            {/* Rarity, only for items that rolled one */}
+            {itemInstance?.rarity && (
+              <div className="item-rarity" style={{ color: rarityTier.color }}>
+                {rarityTier.name}
+                {itemInstance.itemLevel ? ` · Item Level ${itemInstance.itemLevel}` : ""}
+              </div>
+            )}
           </div>
         </div>
 
         <div className="item-tooltip-divider"></div>
 
         <div className="item-tooltip-stats">
-          {/* Food items show hp/mp regen */}
+          {/* Food items show what eating them does, or hp/mp regen */}
           {isFood ? (
             <>
-              {itemData.hpRegen && (
+              {(itemData.consumeEffects || []).map((effect, index) => (
+                <div key={`${effect.type}-${index}`} className="stat-row">
+                  <span className="stat-icon">{consumeEffectIcons[effect.type]}</span>
+                  <span className="stat-label">{consumeEffectLabels[effect.type]}:</span>
+                  <span className="stat-value positive">
+                    +{effect.amount}
+                    {effect.duration ? ` for ${Math.round(effect.duration / 1000)}s` : ""}
+                  </span>
+                </div>
+              ))}
+              {!itemData.consumeEffects && itemData.hpRegen && (
                 <div className="stat-row">
                   <span className="stat-icon">💗</span>
                   <span className="stat-label">HP Regen:</span>
                   <span className="stat-value positive">+{itemData.hpRegen}</span>
                 </div>
               )}
-              {itemData.mpRegen && (
+              {!itemData.consumeEffects && itemData.mpRegen && (
                 <div className="stat-row">
                   <span className="stat-icon">💙</span>
                   <span className="stat-label">MP Regen:</span>
@@ -272,7 +313,9 @@ const ItemTooltip: React.FC<ItemTooltipProps> = ({ itemInstance, visible }) => {
             {itemInstance?.bonusStats &&
               Object.entries(itemInstance.bonusStats).map(([stat, value]) => (
                 <div key={stat} className="bonus-stat">
-                  +{value} {stat.charAt(0).toUpperCase() + stat.slice(1)}
+                  +{value}{" "}
+                  {BONUS_STAT_LABELS[stat as keyof ItemBonusStats] ||
+                    stat.charAt(0).toUpperCase() + stat.slice(1)}
                 </div>
               ))}
           </div>
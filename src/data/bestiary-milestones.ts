@@ -0,0 +1,15 @@
+import { BestiaryUnlock, ProgressMilestone } from "@/types";
+
+/**
+ * Kill milestones shared by every bestiary entry, in ascending order
+ */
+export const BESTIARY_MILESTONES: ProgressMilestone[] = [
+  { kills: 5, unlocks: BestiaryUnlock.STATS },
+  { kills: 15, unlocks: BestiaryUnlock.LOOT },
+  { kills: 50, unlocks: BestiaryUnlock.DROP_CHANCES, bonusDamage: 5 },
+  { kills: 150, damageReduction: 5 },
+  { kills: 300, bonusDamage: 5, damageReduction: 5 },
+];
+
+// Highest bonus a category can reach, however many of its monsters are mastered
+export const BESTIARY_MAX_CATEGORY_BONUS = 20;
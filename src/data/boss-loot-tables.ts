@@ -0,0 +1,12 @@
+import { LootEntry } from "./chest-loot-tables";
+
+// Loot tables for boss monsters, referenced by MonsterData.boss.lootTable
+export const BOSS_LOOT_TABLES: Record<string, LootEntry[]> = {
+  "skeleton-king": [
+    { itemId: "boneCharm", chance: 1.0 },
+    { itemId: "skeletalMedallion", chance: 0.5 },
+    { itemId: "skeletalArmor", chance: 0.35 },
+    { itemId: "fireSword", chance: 0.15 },
+    { itemId: "goldCoins", chance: 1.0, minQuantity: 40, maxQuantity: 75 },
+  ],
+};
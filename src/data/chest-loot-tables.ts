@@ -12,6 +12,8 @@ export const CHEST_LOOT_TABLES: Record<string, LootEntry[]> = {
   "noob-cave-table-poor": [
     { itemId: "greatSword", chance: 0.8 },
     { itemId: "sword1", chance: 0.9 },
+    { itemId: "healthPotion", chance: 0.5, minQuantity: 1, maxQuantity: 2 },
+    { itemId: "manaPotion", chance: 0.3 },
     { itemId: "goldCoins", chance: 1.0, minQuantity: 2, maxQuantity: 5 },
   ],
   default: [{ itemId: "goldCoins", chance: 1.0 }],
@@ -0,0 +1,51 @@
+import { CraftingRecipe } from "@/types";
+
+// Most inputs a recipe can have, one per crafting slot
+export const MAX_CRAFTING_INPUTS = 3;
+
+// Chance a crafted item rolls a rarity and affixes, unless the recipe sets its own
+export const DEFAULT_BONUS_STAT_CHANCE = 0.25;
+
+// All crafting recipes, keyed by recipe id
+export const CRAFTING_RECIPES: Record<string, CraftingRecipe> = {
+  skullCap: {
+    id: "skullCap",
+    inputs: [{ itemId: "shinySkull", quantity: 2 }],
+    output: { itemId: "skullCap", quantity: 1 },
+  },
+  throwableSkull: {
+    id: "throwableSkull",
+    inputs: [{ itemId: "shinySkull", quantity: 3 }],
+    output: { itemId: "throwableSkull", quantity: 1 },
+    requiredSkill: { skillId: "archery", level: 2 },
+  },
+  boneShield: {
+    id: "boneShield",
+    inputs: [
+      { itemId: "shinySkull", quantity: 3 },
+      { itemId: "boneClub", quantity: 1 },
+    ],
+    output: { itemId: "boneShield", quantity: 1 },
+    requiredSkill: { skillId: "shield", level: 3 },
+  },
+  skeletalArmor: {
+    id: "skeletalArmor",
+    inputs: [
+      { itemId: "shinySkull", quantity: 4 },
+      { itemId: "boneClub", quantity: 1 },
+      { itemId: "skullCap", quantity: 1 },
+    ],
+    output: { itemId: "skeletalArmor", quantity: 1 },
+    requiredSkill: { skillId: "shield", level: 4 },
+  },
+  fireSword: {
+    id: "fireSword",
+    inputs: [
+      { itemId: "sword1", quantity: 1 },
+      { itemId: "shinySkull", quantity: 5 },
+    ],
+    output: { itemId: "fireSword", quantity: 1 },
+    requiredSkill: { skillId: "meleeWeapons", level: 5 },
+    bonusStatChance: 0.5,
+  },
+};
@@ -0,0 +1,254 @@
+import {
+  DialogActionType,
+  DialogCondition,
+  DialogConditionType,
+  DialogQuestState,
+  DialogTree,
+} from "@/types";
+
+// Shorthands for the conditions most dialog branches check
+const questIs = (
+  questId: string,
+  questState: DialogQuestState,
+  objectiveId?: string
+): DialogCondition => ({ type: DialogConditionType.QUEST, questId, questState, objectiveId });
+
+const holds = (itemId: string, quantity: number = 1): DialogCondition => ({
+  type: DialogConditionType.ITEM,
+  itemId,
+  quantity,
+});
+
+export const ALDEE_DIALOG: DialogTree = {
+  start: "greeting",
+  entries: [
+    {
+      node: "merchants-intro",
+      conditions: [questIs("main-merchants-request", "active", "talk-aldee")],
+    },
+    {
+      node: "merchants-deliver",
+      conditions: [questIs("main-merchants-request", "active", "deliver-sword")],
+    },
+  ],
+  nodes: {
+    greeting: {
+      id: "greeting",
+      text: "Hello there! I'm Al Dee, the finest merchant in these parts. What can I do for you?",
+      options: [
+        { text: "Show me your wares.", actions: [{ type: DialogActionType.OPEN_SHOP }] },
+        { text: "Any work for me?", next: "work" },
+        {
+          text: "I brought the swords you wanted.",
+          conditions: [
+            questIs("side-sword-collector", "active", "deliver-swords"),
+            holds("sword1", 3),
+          ],
+          actions: [
+            {
+              type: DialogActionType.COMPLETE_OBJECTIVE,
+              questId: "side-sword-collector",
+              objectiveId: "deliver-swords",
+            },
+          ],
+          next: "swords-thanks",
+        },
+        { text: "Goodbye." },
+      ],
+    },
+    work: {
+      id: "work",
+      text: "Always! Skeletons carry old swords, bring me three and I'll pay for them. I also pay a bounty for every fifty skeletons laid to rest.",
+      options: [
+        {
+          text: "I'll collect swords for you.",
+          conditions: [questIs("side-sword-collector", "available")],
+          actions: [{ type: DialogActionType.START_QUEST, questId: "side-sword-collector" }],
+          next: "work-accepted",
+        },
+        {
+          text: "I'll hunt skeletons.",
+          conditions: [questIs("side-skeleton-slayer", "available")],
+          actions: [{ type: DialogActionType.START_QUEST, questId: "side-skeleton-slayer" }],
+          next: "work-accepted",
+        },
+        { text: "Maybe later.", next: "greeting" },
+      ],
+    },
+    "work-accepted": {
+      id: "work-accepted",
+      text: "Splendid! Come back when it's done.",
+    },
+    "swords-thanks": {
+      id: "swords-thanks",
+      text: "Fine blades, a little rusty, but fine! Here's your payment.",
+    },
+    "merchants-intro": {
+      id: "merchants-intro",
+      text: "The Supreme Mage sent you? Good. I need a Great Sword from the Noob Cave below. Will you fetch one for me?",
+      options: [
+        {
+          text: "I'll find one.",
+          actions: [
+            {
+              type: DialogActionType.COMPLETE_OBJECTIVE,
+              questId: "main-merchants-request",
+              objectiveId: "talk-aldee",
+            },
+          ],
+          next: "merchants-intro-done",
+        },
+        { text: "Show me your wares first.", actions: [{ type: DialogActionType.OPEN_SHOP }] },
+      ],
+    },
+    "merchants-intro-done": {
+      id: "merchants-intro-done",
+      text: "The cave entrance isn't far. Mind the skeletons, they don't take kindly to visitors.",
+    },
+    "merchants-deliver": {
+      id: "merchants-deliver",
+      text: "Did you find a Great Sword?",
+      options: [
+        {
+          text: "Here it is.",
+          conditions: [holds("greatSword")],
+          actions: [
+            {
+              type: DialogActionType.COMPLETE_OBJECTIVE,
+              questId: "main-merchants-request",
+              objectiveId: "deliver-sword",
+            },
+          ],
+          next: "merchants-thanks",
+        },
+        { text: "Show me your wares.", actions: [{ type: DialogActionType.OPEN_SHOP }] },
+        { text: "Not yet." },
+      ],
+    },
+    "merchants-thanks": {
+      id: "merchants-thanks",
+      text: "Magnificent! Go tell The Supreme Mage the good news.",
+    },
+  },
+};
+
+export const SUPREME_MAGE_DIALOG: DialogTree = {
+  start: "greeting",
+  entries: [
+    {
+      node: "merchants-report",
+      conditions: [questIs("main-merchants-request", "active", "report-mage")],
+    },
+    { node: "cave-report", conditions: [questIs("main-clear-the-cave", "active", "report-mage")] },
+    { node: "merchants-offer", conditions: [questIs("main-merchants-request", "available")] },
+    { node: "cave-offer", conditions: [questIs("main-clear-the-cave", "available")] },
+    { node: "merchants-reminder", conditions: [questIs("main-merchants-request", "active")] },
+    { node: "cave-reminder", conditions: [questIs("main-clear-the-cave", "active")] },
+  ],
+  nodes: {
+    greeting: {
+      id: "greeting",
+      text: "The stars are patient, and so am I. What brings you here?",
+      options: [
+        {
+          text: "Send me to the Noob Cave.",
+          conditions: [
+            questIs("main-merchants-request", "completed"),
+            { type: DialogConditionType.SKILL, skillId: "playerLevel", level: 2 },
+          ],
+          actions: [{ type: DialogActionType.TELEPORT, mapKey: "noob-cave-map" }],
+        },
+        {
+          text: "Send me to the Noob Cave.",
+          conditions: [
+            questIs("main-merchants-request", "completed"),
+            { type: DialogConditionType.SKILL, skillId: "playerLevel", level: 2, negate: true },
+          ],
+          next: "teleport-refused",
+        },
+        { text: "Farewell." },
+      ],
+    },
+    "teleport-refused": {
+      id: "teleport-refused",
+      text: "My magic would tear a novice apart. Return when you have grown stronger.",
+    },
+    "merchants-offer": {
+      id: "merchants-offer",
+      text: "Ah, a new face. The merchant Al Dee needs someone with a steady hand. Will you help him?",
+      options: [
+        {
+          text: "I will help.",
+          actions: [{ type: DialogActionType.START_QUEST, questId: "main-merchants-request" }],
+          next: "merchants-accepted",
+        },
+        { text: "Not now." },
+      ],
+    },
+    "merchants-accepted": {
+      id: "merchants-accepted",
+      text: "Good. Find Al Dee at the market and hear what he needs.",
+    },
+    "merchants-reminder": {
+      id: "merchants-reminder",
+      text: "Al Dee is still waiting for your help.",
+    },
+    "merchants-report": {
+      id: "merchants-report",
+      text: "The blade reached Al Dee? Then you are ready for what lies ahead.",
+      options: [
+        {
+          text: "It is done.",
+          actions: [
+            {
+              type: DialogActionType.COMPLETE_OBJECTIVE,
+              questId: "main-merchants-request",
+              objectiveId: "report-mage",
+            },
+          ],
+          next: "merchants-done",
+        },
+      ],
+    },
+    "merchants-done": {
+      id: "merchants-done",
+      text: "Something stirs in the Noob Cave. Speak to me again when you are ready to hear of it.",
+    },
+    "cave-offer": {
+      id: "cave-offer",
+      text: "The dead walk in the Noob Cave. Put five of them back to rest.",
+      options: [
+        {
+          text: "Consider it done.",
+          actions: [{ type: DialogActionType.START_QUEST, questId: "main-clear-the-cave" }],
+          next: "cave-accepted",
+        },
+        { text: "Not yet." },
+      ],
+    },
+    "cave-accepted": {
+      id: "cave-accepted",
+      text: "May your blade stay sharp.",
+    },
+    "cave-reminder": {
+      id: "cave-reminder",
+      text: "The skeletons still walk. Return when five of them have fallen.",
+    },
+    "cave-report": {
+      id: "cave-report",
+      text: "The cave is quiet again. Take this charm, you have earned it.",
+      options: [
+        {
+          text: "Thank you.",
+          actions: [
+            {
+              type: DialogActionType.COMPLETE_OBJECTIVE,
+              questId: "main-clear-the-cave",
+              objectiveId: "report-mage",
+            },
+          ],
+        },
+      ],
+    },
+  },
+};
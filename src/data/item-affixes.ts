@@ -0,0 +1,148 @@
+import {
+  ItemAffix,
+  ItemBonusStats,
+  ItemCategory,
+  ItemData,
+  ItemRarity,
+  ItemType,
+  RarityTier,
+} from "@/types";
+
+// Rarity tiers from least to most valuable
+export const RARITY_ORDER: ItemRarity[] = [
+  ItemRarity.COMMON,
+  ItemRarity.UNCOMMON,
+  ItemRarity.RARE,
+  ItemRarity.EPIC,
+  ItemRarity.LEGENDARY,
+];
+
+// Colours match the @quality-* variables in styles/variables.less
+export const RARITY_TIERS: Record<ItemRarity, RarityTier> = {
+  [ItemRarity.COMMON]: {
+    name: "Common",
+    affixCount: 0,
+    weight: 70,
+    valueMultiplier: 1,
+    color: "#9d9d9d",
+    glowColor: 0x9d9d9d,
+  },
+  [ItemRarity.UNCOMMON]: {
+    name: "Uncommon",
+    affixCount: 1,
+    weight: 18,
+    valueMultiplier: 1,
+    color: "#1eff00",
+    glowColor: 0x1eff00,
+  },
+  [ItemRarity.RARE]: {
+    name: "Rare",
+    affixCount: 2,
+    weight: 8,
+    valueMultiplier: 1.2,
+    color: "#0070dd",
+    glowColor: 0x0070dd,
+  },
+  [ItemRarity.EPIC]: {
+    name: "Epic",
+    affixCount: 3,
+    weight: 3,
+    valueMultiplier: 1.4,
+    color: "#a335ee",
+    glowColor: 0xa335ee,
+  },
+  [ItemRarity.LEGENDARY]: {
+    name: "Legendary",
+    affixCount: 4,
+    weight: 1,
+    valueMultiplier: 1.75,
+    color: "#ff8000",
+    glowColor: 0xff8000,
+  },
+};
+
+// Affix values grow by this share of their rolled value per item level above 1
+export const AFFIX_LEVEL_SCALING = 0.1;
+
+/**
+ * Affixes by item type, shared by every item of that type
+ */
+export const TYPE_AFFIX_POOLS: Partial<Record<ItemType, ItemAffix[]>> = {
+  [ItemType.WEAPON]: [
+    { stat: "power", min: 1, max: 3, weight: 10 },
+    { stat: "attackSpeed", min: 1, max: 2, weight: 4, minRarity: ItemRarity.RARE },
+  ],
+  [ItemType.OFFHAND]: [
+    { stat: "armor", min: 1, max: 3, weight: 10 },
+    { stat: "health", min: 5, max: 15, weight: 6 },
+  ],
+  [ItemType.ARMOR]: [
+    { stat: "armor", min: 1, max: 3, weight: 10 },
+    { stat: "health", min: 5, max: 15, weight: 8 },
+    { stat: "healthRegen", min: 1, max: 2, weight: 3, minRarity: ItemRarity.RARE },
+  ],
+  [ItemType.HELMET]: [
+    { stat: "armor", min: 1, max: 2, weight: 10 },
+    { stat: "mana", min: 5, max: 10, weight: 6 },
+  ],
+  [ItemType.AMULET]: [
+    { stat: "health", min: 5, max: 15, weight: 8 },
+    { stat: "mana", min: 5, max: 15, weight: 8 },
+    { stat: "manaRegen", min: 1, max: 2, weight: 3, minRarity: ItemRarity.RARE },
+  ],
+  [ItemType.TRINKET]: [
+    { stat: "moveSpeed", min: 5, max: 10, weight: 6 },
+    { stat: "capacity", min: 10, max: 25, weight: 8 },
+    { stat: "healthRegen", min: 1, max: 2, weight: 3, minRarity: ItemRarity.RARE },
+  ],
+};
+
+/**
+ * Affixes by item category, on top of the type pool
+ */
+export const CATEGORY_AFFIX_POOLS: Partial<Record<ItemCategory, ItemAffix[]>> = {
+  [ItemCategory.WEAPON_MELEE]: [{ stat: "melee", min: 1, max: 2, weight: 6 }],
+  [ItemCategory.WEAPON_MAGIC]: [
+    { stat: "mana", min: 5, max: 15, weight: 6 },
+    { stat: "manaRegen", min: 1, max: 2, weight: 3, minRarity: ItemRarity.RARE },
+  ],
+  [ItemCategory.WEAPON_RANGED]: [{ stat: "moveSpeed", min: 5, max: 10, weight: 6 }],
+  [ItemCategory.SHIELD]: [
+    { stat: "healthRegen", min: 1, max: 2, weight: 3, minRarity: ItemRarity.RARE },
+  ],
+};
+
+// Tooltip labels for bonus stats
+export const BONUS_STAT_LABELS: Partial<Record<keyof ItemBonusStats, string>> = {
+  power: "Power",
+  armor: "Armor",
+  magic: "Magic",
+  health: "Health",
+  mana: "Mana",
+  melee: "Melee",
+  moveSpeed: "Move Speed",
+  attackSpeed: "Attack Speed",
+  healthRegen: "HP Regen",
+  manaRegen: "MP Regen",
+  capacity: "Capacity",
+};
+
+/**
+ * Affixes an item can roll: its category pool, then its type pool. A stat in
+ * both pools only appears once, with the category entry winning
+ */
+export function getAffixPool(template: ItemData): ItemAffix[] {
+  const categoryPool = (template.category && CATEGORY_AFFIX_POOLS[template.category]) || [];
+  const typePool = TYPE_AFFIX_POOLS[template.type] || [];
+
+  return [...categoryPool, ...typePool].filter(
+    (affix, index, pool) => pool.findIndex((other) => other.stat === affix.stat) === index
+  );
+}
+
+/**
+ * Compares two rarities, negative when `a` is the lesser one
+ */
+export function compareRarity(a: ItemRarity, b: ItemRarity): number {
+  return RARITY_ORDER.indexOf(a) - RARITY_ORDER.indexOf(b);
+}
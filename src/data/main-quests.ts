@@ -1,32 +0,0 @@
-export const MainQuets = [
-  {
-    page: 1,
-    step: 1,
-    task: "Talk to The Supreme Mage",
-    img: "riddle.png",
-  },
-  {
-    page: 1,
-    step: 2,
-    task: "Deliver object to Al Dee",
-    img: "riddle.png",
-  },
-  {
-    page: 1,
-    step: 3,
-    task: "Find Rare object",
-    img: "riddle.png",
-  },
-  {
-    page: 2,
-    step: 1,
-    task: "One thing",
-    img: "riddle.png",
-  },
-  {
-    page: 2,
-    step: 2,
-    task: "ASFASFASDF",
-    img: "riddle.png",
-  },
-];
@@ -0,0 +1,153 @@
+import { QuestCategory, QuestDefinition, QuestObjectiveType } from "@/types";
+
+// Define all quests
+export const QUEST_DEFINITIONS: QuestDefinition[] = [
+  // Main quests - one book page each, objectives are completed in order
+  {
+    id: "main-merchants-request",
+    title: "The Merchant's Request",
+    description:
+      "The Supreme Mage sends you to Al Dee, who needs a blade fetched from the Noob Cave.",
+    category: QuestCategory.MAIN,
+    img: "riddle.png",
+    giverNpcId: "supreme-mage",
+    sequential: true,
+    objectives: [
+      {
+        id: "talk-aldee",
+        type: QuestObjectiveType.TALK,
+        description: "Talk to Al Dee",
+        npcId: "merchant-aldee",
+      },
+      {
+        id: "enter-cave",
+        type: QuestObjectiveType.REACH,
+        description: "Enter the Noob Cave",
+        mapKey: "noob-cave-map",
+      },
+      {
+        id: "find-sword",
+        type: QuestObjectiveType.COLLECT,
+        description: "Find a Great Sword",
+        itemIds: ["greatSword"],
+      },
+      {
+        id: "deliver-sword",
+        type: QuestObjectiveType.DELIVER,
+        description: "Deliver the Great Sword to Al Dee",
+        itemIds: ["greatSword"],
+        npcId: "merchant-aldee",
+      },
+      {
+        id: "report-mage",
+        type: QuestObjectiveType.TALK,
+        description: "Return to The Supreme Mage",
+        npcId: "supreme-mage",
+      },
+    ],
+    rewards: { gold: 50, experience: 100, questPoints: 5 },
+  },
+  {
+    id: "main-clear-the-cave",
+    title: "Clear the Cave",
+    description: "The dead stir in the Noob Cave. Put them back to rest.",
+    category: QuestCategory.MAIN,
+    img: "riddle.png",
+    prerequisites: ["main-merchants-request"],
+    giverNpcId: "supreme-mage",
+    sequential: true,
+    objectives: [
+      {
+        id: "kill-skeletons",
+        type: QuestObjectiveType.KILL,
+        description: "Defeat 5 Decayed Skeletons",
+        monsterId: "decayed-skeleton",
+        amount: 5,
+      },
+      {
+        id: "report-mage",
+        type: QuestObjectiveType.TALK,
+        description: "Report back to The Supreme Mage",
+        npcId: "supreme-mage",
+      },
+    ],
+    rewards: { gold: 100, experience: 200, items: [{ itemId: "boneCharm" }], questPoints: 5 },
+  },
+
+  // Side quests - offered by NPCs and can be repeated
+  {
+    id: "side-skeleton-slayer",
+    title: "Skeleton Slayer",
+    description: "Al Dee pays a bounty for every fifty skeletons laid to rest.",
+    category: QuestCategory.SIDE,
+    giverNpcId: "merchant-aldee",
+    repeatable: true,
+    objectives: [
+      {
+        id: "kill-skeletons",
+        type: QuestObjectiveType.KILL,
+        description: "Defeat Decayed Skeletons",
+        monsterId: "decayed-skeleton",
+        amount: 50,
+      },
+    ],
+    rewards: { gold: 25, experience: 50, questPoints: 1 },
+  },
+  {
+    id: "side-sword-collector",
+    title: "Sword Collector",
+    description: "Skeletons sometimes carry old swords. Al Dee will buy a bundle of them.",
+    category: QuestCategory.SIDE,
+    giverNpcId: "merchant-aldee",
+    repeatable: true,
+    objectives: [
+      {
+        id: "deliver-swords",
+        type: QuestObjectiveType.DELIVER,
+        description: "Deliver Swords to Al Dee",
+        itemIds: ["sword1"],
+        npcId: "merchant-aldee",
+        amount: 3,
+      },
+    ],
+    rewards: { gold: 40, experience: 30, questPoints: 1 },
+  },
+
+  // Riddles - hidden until solved
+  {
+    id: "riddle-fire-sword",
+    title: "Fire Sword",
+    description: "Hold a blade that burns with eternal flame.",
+    category: QuestCategory.RIDDLE,
+    img: "riddle.png",
+    autoStart: true,
+    objectives: [
+      {
+        id: "hold-fire-sword",
+        type: QuestObjectiveType.COLLECT,
+        description: "Obtain a Fire Sword",
+        itemIds: ["fireSword"],
+      },
+    ],
+    rewards: { questPoints: 15 },
+  },
+  {
+    id: "riddle-forgotten-corner",
+    title: "Forgotten Corner",
+    description: "Stand where the cave keeps its oldest treasure.",
+    category: QuestCategory.RIDDLE,
+    img: "riddle.png",
+    autoStart: true,
+    objectives: [
+      {
+        id: "reach-corner",
+        type: QuestObjectiveType.REACH,
+        description: "Find the forgotten corner of the Noob Cave",
+        mapKey: "noob-cave-map",
+        tile: { x: -17, y: -16 },
+        radius: 1,
+      },
+    ],
+    rewards: { questPoints: 25 },
+  },
+];
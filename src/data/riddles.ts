@@ -1,27 +0,0 @@
-export const Riddles = [
-  {
-    name: "FireSword",
-    img: "riddle.png",
-    reward: 15,
-  },
-  {
-    name: "Abc1",
-    img: "riddle.png",
-    reward: 15,
-  },
-  {
-    name: "Abc2",
-    img: "riddle.png",
-    reward: 25,
-  },
-  {
-    name: "Abc3",
-    img: "riddle.png",
-    reward: 40,
-  },
-  {
-    name: "Abc4",
-    img: "riddle.png",
-    reward: 55,
-  },
-];
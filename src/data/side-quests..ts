@@ -1,29 +0,0 @@
-export const SideQuests = [
-  {
-    name: "SkeletonKiller",
-    type: "kill",
-    amount: 50,
-    reward: 1,
-    description:
-      "asdf asdf asdf asdf asdf asdf asdf asf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf",
-    isRepeatable: true,
-  },
-  {
-    name: "GoblinKiller",
-    type: "kill",
-    amount: 50,
-    reward: 1,
-    description:
-      "asdf asdf asdf asdf asdf asdf asdf asf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf",
-    isRepeatable: true,
-  },
-  {
-    name: "BerryCollect",
-    type: "collect",
-    amount: 15,
-    reward: 1,
-    description:
-      "asdf asdf asdf asdf asdf asdf asdf asf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf asdf",
-    isRepeatable: true,
-  },
-];
@@ -1,6 +1,7 @@
 import { Entity } from "./Entity";
 import { eventBus } from "@/utils/EventBus";
 import { useGameStore } from "@/stores/gameStore";
+import { statusEffectSystem } from "@/services/StatusEffectSystem";
 
 export abstract class Character extends Entity {
   health: number = 100;
@@ -11,7 +12,12 @@ export abstract class Character extends Entity {
     super(scene, x, y, texture, id);
   }
 
-  takeDamage(amount: number): boolean {
+  // The attacker is unused here, subclasses read it for threat and bestiary bonuses
+  takeDamage(
+    amount: number,
+    isMagicDamage: boolean = false,
+    _attacker: Character | null = null
+  ): boolean {
     try {
       if (this.isDead) return false;
 
@@ -22,6 +28,7 @@ export abstract class Character extends Entity {
       eventBus.emit("character.damage.taken", {
         id: this.id,
         amount,
+        isMagicDamage,
         currentHealth: this.health,
         previousHealth,
       });
@@ -63,6 +70,9 @@ export abstract class Character extends Entity {
     try {
       this.isDead = true;
 
+      // Death removes all lingering effects
+      statusEffectSystem.clearEffects(this);
+
       // Emit death event
       eventBus.emit("character.died", { id: this.id });
 
@@ -0,0 +1,48 @@
+// src/entities/Corpse.ts
+import { Entity } from "./Entity";
+
+export class Corpse extends Entity {
+  public corpseId: string;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, corpseId: string) {
+    super(scene, x, y, "playerCharacter", `corpse-${corpseId}`);
+
+    this.corpseId = corpseId;
+
+    // The player sprite lying on its side, greyed out
+    this.setFrame(0);
+    this.setAngle(90);
+    this.setTint(0x777777);
+    this.setAlpha(0.8);
+    this.setDepth(2);
+
+    this.setupPhysics();
+  }
+
+  private setupPhysics(): void {
+    try {
+      // Corpses never move, and should not block the player
+      if (this.body) {
+        (this.body as Phaser.Physics.Arcade.Body).setImmovable(true);
+        (this.body as Phaser.Physics.Arcade.Body).moves = false;
+      }
+    } catch (error) {
+      console.error("Error setting up corpse physics:", error);
+    }
+  }
+
+  /**
+   * Get the distance from a point to this corpse
+   */
+  public getDistanceFrom(x: number, y: number): number {
+    return Phaser.Math.Distance.Between(x, y, this.x, this.y);
+  }
+
+  destroy(): void {
+    try {
+      super.destroy();
+    } catch (error) {
+      console.error("Error destroying corpse:", error);
+    }
+  }
+}
@@ -48,11 +48,14 @@ export class HealthComponent extends Component {
         displayName = (this.character as any).npcName;
       }
 
+      // Elites and champions show their name in their rank's color
+      const nameColor = (this.character as { nameColor?: string | null }).nameColor || "#4bf542";
+
       // Create name text with improved styling and higher depth
       this.nameText = this.entity.scene.add.text(this.entity.x, this.entity.y - 42, displayName, {
         fontFamily: "Arial, sans-serif",
         fontSize: "10px",
-        color: "#4bf542",
+        color: nameColor,
         shadow: {
           offsetX: 2,
           offsetY: 2,
@@ -3,7 +3,8 @@ import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
 import { eventBus } from "@/utils/EventBus";
 import { useGameStore } from "@/stores/gameStore";
 import Phaser from "phaser";
-import { ItemBonusStats } from "@/types";
+import { ItemBonusStats, ItemRarity } from "@/types";
+import { RARITY_TIERS } from "@/data/item-affixes";
 
 export class Item extends Phaser.Physics.Arcade.Sprite {
   templateId!: string;
@@ -21,6 +22,9 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
   sparkleEmitter: Phaser.GameObjects.Particles.ParticleEmitter | null = null;
   sparkleGraphics: Phaser.GameObjects.Graphics | null = null;
   quantity?: number;
+  rarity!: ItemRarity;
+  itemLevel?: number;
+  rarityGlow: Phaser.GameObjects.Arc | null = null;
 
   constructor(
     scene: Phaser.Scene,
@@ -29,13 +33,17 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
     templateId: string,
     instanceId: string,
     bonusStats?: ItemBonusStats,
-    quantity?: number
+    quantity?: number,
+    rarity?: ItemRarity,
+    itemLevel?: number
   ) {
     // Create an item instance object for consistent handling
     const instance = {
       templateId,
       instanceId,
       bonusStats,
+      rarity,
+      itemLevel,
     };
 
     // Get combined stats that include bonus stats if any
@@ -60,6 +68,8 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
       this.itemType = ItemDictionary.getItemType(templateId);
       this.bonusStats = bonusStats;
       this.quantity = quantity;
+      this.rarity = ItemInstanceManager.getRarity(instance);
+      this.itemLevel = itemLevel;
 
       // Check if this is a set item
       this.isSetItem = !!itemData?.set;
@@ -84,7 +94,8 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
       // Add floating effect
       this.startFloatingEffect();
 
-      // Add appropriate sparkle effect based on item properties
+      // Glow and sparkles in the colour of the item's rarity
+      this.addRarityGlow();
       this.addSparkleEffect();
 
       // Setup direct overlap with playerCharacter
@@ -99,6 +110,7 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
         isSetItem: this.isSetItem,
         setType: this.setType,
         bonusStats: this.bonusStats,
+        rarity: this.rarity,
       });
     } catch (error) {
       console.error(`Error creating item ${templateId}:`, error);
@@ -213,12 +225,40 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
     }
   }
 
+  // Soft pulsing glow under items above common rarity
+  addRarityGlow(): void {
+    try {
+      if (this.rarity === ItemRarity.COMMON) return;
+
+      const color = RARITY_TIERS[this.rarity].glowColor;
+      this.rarityGlow = this.scene.add.circle(this.x, this.y, 14, color, 0.25);
+      this.rarityGlow.setDepth(this.depth - 0.1);
+
+      this.scene.tweens.add({
+        targets: this.rarityGlow,
+        scale: { from: 0.9, to: 1.2 },
+        alpha: { from: 0.6, to: 1 },
+        duration: 1000,
+        ease: "Sine.easeInOut",
+        yoyo: true,
+        repeat: -1,
+      });
+    } catch (error) {
+      console.error(`Error adding rarity glow to item ${this.instanceId}:`, error);
+      eventBus.emit("error.item.glow", {
+        instanceId: this.instanceId,
+        error,
+      });
+    }
+  }
+
   // Add sparkle effects for special items
   addSparkleEffect(): void {
     try {
-      const hasBonusStats = this.bonusStats && Object.keys(this.bonusStats).length > 0;
+      const hasRarity = this.rarity !== ItemRarity.COMMON;
+      const rarityColor = RARITY_TIERS[this.rarity].glowColor;
 
-      if (hasBonusStats || this.isSetItem) {
+      if (hasRarity || this.isSetItem) {
         // Create sparkle graphics object
         this.sparkleGraphics = this.scene.add.graphics();
 
@@ -240,16 +280,16 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
               const size = Math.random() * 2 + 1;
 
               // Set color based on item type
-              if (this.isSetItem && hasBonusStats) {
+              if (this.isSetItem && hasRarity) {
                 // Alternate colors
-                const color = i % 2 === 0 ? 0x3498db : 0x2ecc71;
+                const color = i % 2 === 0 ? rarityColor : 0x2ecc71;
                 this.sparkleGraphics.fillStyle(color, 0.7);
               } else if (this.isSetItem) {
                 // Green for set items
                 this.sparkleGraphics.fillStyle(0x2ecc71, 0.7);
-              } else if (hasBonusStats) {
-                // Blue for bonus items
-                this.sparkleGraphics.fillStyle(0x3498db, 0.7);
+              } else {
+                // Rarity colour for everything else
+                this.sparkleGraphics.fillStyle(rarityColor, 0.7);
               }
 
               this.sparkleGraphics.fillCircle(x, y, size);
@@ -333,6 +373,11 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
         this.glowSprite.x = this.x;
         this.glowSprite.y = this.y;
       }
+
+      // The rarity glow follows the floating sprite
+      if (this.rarityGlow) {
+        this.rarityGlow.setPosition(this.x, this.y);
+      }
     } catch (error) {
       // Silent fail for update - happens too frequently to log
     }
@@ -356,6 +401,12 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
         this.glowSprite = null;
       }
 
+      if (this.rarityGlow) {
+        this.scene?.tweens.killTweensOf(this.rarityGlow);
+        this.rarityGlow.destroy();
+        this.rarityGlow = null;
+      }
+
       // Clean up particle emitter
       if (this.sparkleEmitter) {
         this.sparkleEmitter.destroy();
@@ -432,6 +483,7 @@ export class Item extends Phaser.Physics.Arcade.Sprite {
         templateId: this.templateId,
         name: this.name,
         bonusStats: this.bonusStats,
+        rarity: this.rarity,
         isSetItem: this.isSetItem,
         setType: this.setType,
       });
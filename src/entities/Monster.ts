@@ -1,30 +1,64 @@
 import { Character } from "./Character";
 import { MonsterAIComponent } from "./monster/MonsterAIComponent";
 import { MonsterCombatComponent } from "./monster/MonsterCombatComponent";
+import { MonsterAbilityComponent } from "./monster/MonsterAbilityComponent";
 import { MonsterDropComponent } from "./monster/MonsterDropComponent";
 import { MonsterMovementComponent } from "./monster/MonsterMovementComponent";
+import { MonsterThreatComponent } from "./monster/MonsterThreatComponent";
+import { MonsterBossComponent } from "./monster/MonsterBossComponent";
+import { MonsterAffixComponent } from "./monster/MonsterAffixComponent";
 import { HealthComponent } from "./HealthComponent";
+import { StatusEffectComponent } from "./StatusEffectComponent";
 import { DamageFormulas } from "@/utils/formulas"; // ADDED: Only new import
 import { eventBus } from "@/utils/EventBus";
 import { MonsterDictionary } from "@/services/MonsterDictionaryService";
 import { MonsterAnimationSystem } from "@/services/MonsterAnimationSystems";
-import { MonsterData, MonsterAttackType } from "@/types";
+import { BestiaryService } from "@/services/BestiaryService";
+import { BOSS_LOOT_TABLES } from "@/data/boss-loot-tables";
+import { MonsterVariantManager } from "@/utils/MonsterVariantManager";
+import {
+  MonsterData,
+  MonsterAttackType,
+  MonsterCategory,
+  MonsterVariant,
+  TimeOfDay,
+} from "@/types";
+import type { GameScene } from "@/scenes/GameScene";
 
 export class Monster extends Character {
   monsterType!: string;
   monsterName!: string;
   experience!: number;
   armor!: number; // ADDED: Only new property
+  category?: MonsterCategory;
+  attackType: string = MonsterAttackType.Melee;
+  groupId: string | null = null; // Spawn group, set by the monster group system
+  isBoss: boolean = false;
+  activeTime: TimeOfDay | null = null; // Only seeks out targets at this time of day
+  variant: MonsterVariant | null = null; // Elite or champion roll, null for regular spawns
+  nameColor: string | null = null; // Name plate color, set for elites and champions
   facing: string = "down";
   isMoving: boolean = false;
   isAggressive: boolean = false;
   initialPosition: { x: number; y: number } = { x: 0, y: 0 };
   spriteSize: number = 64;
+  isResetting: boolean = false; // Leashed: walking home, immune and regenerating
+  private resetStartTime: number = 0;
+  private readonly resetRegenPerSecond: number = 0.25; // Fraction of max health per second
+  private readonly maxResetDuration: number = 15000; // Give up walking home after this long
   private targetIndicator: Phaser.GameObjects.Graphics | null = null;
 
-  constructor(scene: Phaser.Scene, x: number, y: number, monsterType: string) {
-    // Get monster data from dictionary
-    const monsterData = MonsterDictionary.getMonster(monsterType);
+  constructor(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    monsterType: string,
+    variant: MonsterVariant | null = null
+  ) {
+    // Get monster data from dictionary, with the elite or champion roll applied
+    const baseData = MonsterDictionary.getMonster(monsterType);
+    const monsterData =
+      baseData && variant ? MonsterVariantManager.applyVariant(baseData, variant) : baseData;
 
     // Determine sprite key
     const spriteKey = monsterData?.sprite ? monsterType : "monster-fallback";
@@ -42,6 +76,12 @@ export class Monster extends Character {
       this.armor = monsterData?.armor || 0; // ADDED: Only new line
       this.isAggressive = monsterData?.isAggressive || false;
       this.spriteSize = monsterData?.spriteSize || 64;
+      this.category = monsterData?.category;
+      this.attackType = monsterData?.attackType || MonsterAttackType.Melee;
+      this.isBoss = !!monsterData?.boss;
+      this.activeTime = monsterData?.activeTime || null;
+      this.variant = variant;
+      this.nameColor = MonsterVariantManager.getNameColor(variant);
 
       // Store initial position for non-aggressive wandering
       this.initialPosition = { x, y };
@@ -72,6 +112,7 @@ export class Monster extends Character {
         health: this.health,
         maxHealth: this.maxHealth,
         isAggressive: this.isAggressive,
+        variant: this.variant,
         // Include color and scale in the event for debugging/tracking
         color: monsterData?.color,
         scale: monsterData?.scale,
@@ -87,6 +128,12 @@ export class Monster extends Character {
       // Health component
       this.components.add("health", new HealthComponent(this));
 
+      // Status effect component (stuns, slows, damage and healing over time)
+      this.components.add("statusEffects", new StatusEffectComponent(this));
+
+      // Threat table, decides who the monster fights
+      this.components.add("threat", new MonsterThreatComponent(this));
+
       // Combat component first, so we can get the attack type
       const combatComponent = new MonsterCombatComponent(
         this,
@@ -95,6 +142,14 @@ export class Monster extends Character {
       );
       this.components.add("combat", combatComponent);
 
+      // Ability component for monsters with castable abilities (boss phases may add some later)
+      if ((monsterData?.abilities && monsterData.abilities.length > 0) || monsterData?.boss) {
+        this.components.add(
+          "abilities",
+          new MonsterAbilityComponent(this, monsterData?.abilities || [])
+        );
+      }
+
       // Movement component with correct distance behavior
       const movementComponent = new MonsterMovementComponent(
         this,
@@ -119,15 +174,175 @@ export class Monster extends Character {
       aiComponent.setRunawayPercent(monsterData?.runawayPercent || 0);
       this.components.add("ai", aiComponent);
 
-      // Drop component
-      const dropComponent = new MonsterDropComponent(this, monsterData?.drops || []);
+      // Drop component, bosses roll their own loot table instead of the regular drops
+      const lootTable = monsterData?.boss?.lootTable;
+      const drops = (lootTable && BOSS_LOOT_TABLES[lootTable]) || monsterData?.drops || [];
+      const dropComponent = new MonsterDropComponent(this, drops);
       this.components.add("drop", dropComponent);
+
+      // Combat-reactive affixes of elites and champions
+      if (this.variant && this.variant.affixes.length > 0) {
+        this.components.add("affixes", new MonsterAffixComponent(this, this.variant.affixes));
+      }
+
+      // Boss phases last, the opening phase configures the components above
+      if (monsterData?.boss) {
+        this.components.add("boss", new MonsterBossComponent(this, monsterData.boss));
+      }
     } catch (error) {
       console.error(`Error adding components to monster ${this.monsterType}:`, error);
       eventBus.emit("error.monster.components", { id: this.id, type: this.monsterType, error });
     }
   }
 
+  /**
+   * Tie the monster to its spawn point
+   */
+  setLeash(x: number, y: number, radius: number): void {
+    const movementComponent = this.components.get<MonsterMovementComponent>("movement");
+    if (movementComponent) {
+      movementComponent.setLeash(x, y, radius);
+    }
+  }
+
+  /**
+   * Who the monster fights: the top of its threat table, or the player until anyone has threat
+   */
+  getCombatTarget(): Character | null {
+    const threatComponent = this.components.get<MonsterThreatComponent>("threat");
+    return threatComponent?.getTarget() || (this.scene as GameScene).playerCharacter || null;
+  }
+
+  /**
+   * Switch between melee, ranged and magic combat, e.g. when a boss enters a new phase
+   */
+  setAttackType(attackType: string): void {
+    this.attackType = attackType;
+
+    this.components.get<MonsterCombatComponent>("combat")?.setAttackType(attackType);
+    this.components.get<MonsterMovementComponent>("movement")?.setAttackTypeAndDistance(attackType);
+    this.components.get<MonsterAIComponent>("ai")?.setAttackType(attackType);
+  }
+
+  /**
+   * Whether the monster is currently fighting (aggressive or provoked)
+   */
+  isEngaged(): boolean {
+    const aiComponent = this.components.get<MonsterAIComponent>("ai");
+    return aiComponent?.isEngaged() || false;
+  }
+
+  /**
+   * Join a packmate's fight against a target
+   * @returns false if the monster can't help or is already fighting that target
+   */
+  assist(target: Character, threat: number): boolean {
+    if (this.isDead || this.isResetting || !target || target.isDead) return false;
+
+    const threatComponent = this.components.get<MonsterThreatComponent>("threat");
+    if (threatComponent?.hasThreat(target.id)) return false;
+
+    threatComponent?.addThreat(target, threat);
+
+    const aiComponent = this.components.get<MonsterAIComponent>("ai");
+    if (aiComponent) {
+      aiComponent.setProvokedState(true);
+    }
+
+    eventBus.emit("monster.assist", { id: this.id, type: this.monsterType, targetId: target.id });
+    return true;
+  }
+
+  /**
+   * Move to a formation slot around the group leader, which becomes the monster's new home
+   */
+  followFormationSlot(x: number, y: number): void {
+    const movementComponent = this.components.get<MonsterMovementComponent>("movement");
+    if (!movementComponent) return;
+
+    this.initialPosition = { x, y };
+    movementComponent.followFormationSlot(x, y);
+  }
+
+  /**
+   * Go back to wandering around the current home, e.g. after the group leader died
+   */
+  leaveFormation(): void {
+    const movementComponent = this.components.get<MonsterMovementComponent>("movement");
+    if (movementComponent) {
+      movementComponent.leaveFormation();
+    }
+  }
+
+  /**
+   * Disengage after being pulled past the leash: drop aggro, walk home immune and regenerate
+   */
+  leash(): void {
+    try {
+      if (this.isDead || this.isResetting) return;
+
+      this.isResetting = true;
+      this.resetStartTime = this.scene.time.now;
+
+      const aiComponent = this.components.get<MonsterAIComponent>("ai");
+      if (aiComponent) {
+        aiComponent.resetAggro();
+      }
+
+      this.hideTargetIndicator();
+
+      const movementComponent = this.components.get<MonsterMovementComponent>("movement");
+      if (movementComponent) {
+        movementComponent.returnHome();
+      }
+
+      eventBus.emit("monster.leashed", {
+        id: this.id,
+        type: this.monsterType,
+        name: this.monsterName,
+      });
+    } catch (error) {
+      console.error(`Error leashing monster ${this.id}:`, error);
+      eventBus.emit("error.monster.leash", { id: this.id, error });
+    }
+  }
+
+  /**
+   * Walk home while leashed, finishing the reset once there
+   */
+  private updateReset(time: number, delta: number): void {
+    if (this.health < this.maxHealth) {
+      this.heal(this.maxHealth * this.resetRegenPerSecond * (delta / 1000));
+    }
+
+    const movementComponent = this.components.get<MonsterMovementComponent>("movement");
+    const timedOut = time - this.resetStartTime > this.maxResetDuration;
+    if (!movementComponent || timedOut) {
+      this.completeReset();
+      return;
+    }
+
+    if (movementComponent.isReturningHome()) return;
+
+    if (movementComponent.isAtHome()) {
+      this.completeReset();
+    } else {
+      // No path home last time (search budget spent), try again
+      movementComponent.returnHome();
+    }
+  }
+
+  private completeReset(): void {
+    this.isResetting = false;
+    this.heal(this.maxHealth);
+
+    eventBus.emit("monster.reset", {
+      id: this.id,
+      type: this.monsterType,
+      name: this.monsterName,
+    });
+  }
+
   /**
    * Create and show a target indicator
    */
@@ -226,18 +441,32 @@ export class Monster extends Character {
     }
   }
 
-  takeDamage(amount: number, isMagicDamage: boolean = false): boolean {
+  takeDamage(
+    amount: number,
+    isMagicDamage: boolean = false,
+    attacker: Character | null = null
+  ): boolean {
     // MODIFIED: Added isMagicDamage parameter
     try {
+      // Leashed monsters can't be hurt on their way home
+      if (this.isResetting) {
+        eventBus.emit("monster.immune", { id: this.id, type: this.monsterType });
+        return false;
+      }
+
       // Monster-specific behavior before damage
       const aiComponent = this.components.get<MonsterAIComponent>("ai");
       if (aiComponent) {
         aiComponent.setProvokedState(true);
       }
 
-      // ADDED: Calculate damage using formulas
+      // ADDED: Calculate damage using formulas, the player's bestiary mastery of the category first
+      const byPlayer = !attacker || attacker === (this.scene as GameScene).playerCharacter;
+      const bonusDamage = byPlayer
+        ? BestiaryService.getBonusesAgainst(this.monsterType).bonusDamage
+        : 0;
       const finalDamage = DamageFormulas.applyDamageReduction(
-        amount,
+        DamageFormulas.applyBestiaryDamageBonus(amount, bonusDamage),
         DamageFormulas.calculateMonsterDamageReduction(this.armor),
         isMagicDamage
       );
@@ -260,6 +489,18 @@ export class Monster extends Character {
         },
       });
 
+      // Report the hit for threat. Reported before the damage event so packmates
+      // called for help see the attacker
+      eventBus.emit("damage.dealt", {
+        source: "hit",
+        weaponType: "",
+        targetType: "monster",
+        targetId: this.monsterType,
+        targetEntityId: this.id,
+        attackerId: attacker?.id,
+        damage: finalDamage,
+      });
+
       // Emit monster damage event
       eventBus.emit("monster.damage", {
         id: this.id,
@@ -292,6 +533,11 @@ export class Monster extends Character {
       // Call parent method to set isDead flag
       super.die();
 
+      const bossComponent = this.components.get<MonsterBossComponent>("boss");
+      if (bossComponent) {
+        bossComponent.handleDeath();
+      }
+
       // Stop all AI components immediately
       const aiComponent = this.components.get<MonsterAIComponent>("ai");
       if (aiComponent) {
@@ -320,6 +566,11 @@ export class Monster extends Character {
       const monsterX = this.x;
       const monsterY = this.y;
 
+      const affixComponent = this.components.get<MonsterAffixComponent>("affixes");
+      if (affixComponent) {
+        affixComponent.handleDeath(monsterX, monsterY);
+      }
+
       // Ensure destruction happens even if animation fails
       let destroyCalled = false;
 
@@ -384,6 +635,10 @@ export class Monster extends Character {
     try {
       super.update(time, delta);
 
+      if (this.isResetting && !this.isDead) {
+        this.updateReset(time, delta);
+      }
+
       // Update target indicator position if visible
       if (this.targetIndicator) {
         this.updateTargetIndicatorPosition();
@@ -2,13 +2,15 @@ import { Character } from "./Character";
 import { HealthComponent } from "./HealthComponent";
 import { NPCDialogComponent } from "./npc/NPCDialogComponent";
 import { eventBus } from "@/utils/EventBus";
-import { ShopItem } from "@/services/NPCService";
+import { NPCService, ShopItem } from "@/services/NPCService";
+import { DialogTree } from "@/types";
 
 export interface NPCData {
   id: string;
   name: string;
   texture: string;
   dialog?: string[];
+  dialogTree?: DialogTree;
   interactionRadius?: number;
   isMerchant?: boolean;
   shopItems?: ShopItem[];
@@ -18,6 +20,7 @@ export class NPC extends Character {
   npcName: string = "";
   facing: string = "down";
   dialogData: string[] = [];
+  dialogTree: DialogTree | null = null;
   interactionRadius: number = 64;
   isMerchant: boolean = false;
   shopItems: ShopItem[] = [];
@@ -35,6 +38,7 @@ export class NPC extends Character {
       this.id = npcData.id;
       this.npcName = npcData.name || "Unnamed NPC";
       this.dialogData = npcData.dialog || ["Hello, adventurer!"];
+      this.dialogTree = npcData.dialogTree || null;
       this.interactionRadius = npcData.interactionRadius || 64;
       this.isMerchant = npcData.isMerchant || false;
       this.shopItems = npcData.shopItems || [];
@@ -101,7 +105,7 @@ export class NPC extends Character {
       this.components.add("health", new HealthComponent(this));
 
       // Dialog component
-      const dialogComponent = new NPCDialogComponent(this, this.dialogData);
+      const dialogComponent = new NPCDialogComponent(this, this.dialogTree || this.dialogData);
       this.components.add("dialog", dialogComponent);
     } catch (error) {
       console.error(`Error adding components to NPC ${this.id}:`, error);
@@ -175,7 +179,7 @@ export class NPC extends Character {
     }
   }
 
-  private handleClick(): void {
+  handleClick(): void {
     try {
       // Check distance to player
       const scene = this.scene as any;
@@ -185,7 +189,8 @@ export class NPC extends Character {
       const distance = Phaser.Math.Distance.Between(this.x, this.y, player.x, player.y);
 
       // If player is within interaction radius and this is a merchant, open shop
-      if (distance <= this.interactionRadius && this.isMerchant) {
+      // (merchants with a dialog tree offer their shop as a reply instead)
+      if (distance <= this.interactionRadius && this.isMerchant && !this.dialogTree) {
         this.openShop();
       } else if (distance <= this.interactionRadius) {
         // For non-merchants, just show dialog
@@ -208,12 +213,8 @@ export class NPC extends Character {
         return;
       }
 
-      // Emit an event that the shop UI can listen to
-      eventBus.emit("shop.open", {
-        npcId: this.id,
-        npcName: this.npcName,
-        shopItems: this.shopItems,
-      });
+      // Opening hours live with the NPC data, the service tells the player when it's closed
+      NPCService.openShop(this.id);
     } catch (error) {
       console.error(`Error opening shop for NPC ${this.id}:`, error);
       eventBus.emit("error.npc.shop", {
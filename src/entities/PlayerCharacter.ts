@@ -1,5 +1,6 @@
 import { Character } from "./Character";
 import { HealthComponent } from "./HealthComponent";
+import { StatusEffectComponent } from "./StatusEffectComponent";
 import { MovementComponent } from "./player/MovementComponent";
 import { PlayerInputComponent } from "./player/PlayerInputComponent";
 import { PlayerItemInteractionComponent } from "./player/PlayerItemInteractionComponent";
@@ -7,6 +8,8 @@ import { eventBus } from "@/utils/EventBus";
 import { useGameStore } from "@/stores/gameStore";
 import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
 import { DamageFormulas } from "@/utils/formulas";
+import { BestiaryService } from "@/services/BestiaryService";
+import { PlayerLevelUpEvent } from "@/types";
 
 export class PlayerCharacter extends Character {
   equipment: any;
@@ -57,8 +60,15 @@ export class PlayerCharacter extends Character {
       // Add components
       this.addComponents();
 
+      // Bind once so destroy() can remove the same references
+      this.handleEquipmentChanged = this.handleEquipmentChanged.bind(this);
+      this.showLevelUpEffect = this.showLevelUpEffect.bind(this);
+
       // Listen for equipment changes to update local equipment
-      eventBus.on("equipment.changed", this.handleEquipmentChanged.bind(this));
+      eventBus.on("equipment.changed", this.handleEquipmentChanged);
+
+      // Celebrate level-ups above the player
+      eventBus.on("player.level.up", this.showLevelUpEffect);
 
       // Emit player created event
       eventBus.emit("player.created", {
@@ -113,6 +123,9 @@ export class PlayerCharacter extends Character {
       // Health component
       this.components.add("health", new HealthComponent(this));
 
+      // Status effect component
+      this.components.add("statusEffects", new StatusEffectComponent(this));
+
       // Movement component
       const movementComponent = new MovementComponent(this);
       this.components.add("movement", movementComponent);
@@ -218,7 +231,11 @@ export class PlayerCharacter extends Character {
     }
   }
 
-  takeDamage(amount: number, isMagicDamage: boolean = false): boolean {
+  takeDamage(
+    amount: number,
+    isMagicDamage: boolean = false,
+    attacker: Character | null = null
+  ): boolean {
     try {
       // Skip if already dead
       if (this.isDead) return false;
@@ -228,12 +245,19 @@ export class PlayerCharacter extends Character {
       const equipment = store.playerCharacter.equipment;
       const skills = store.playerCharacter.skills;
 
+      // Bestiary mastery of a monster's category softens its blows
+      const monsterType = (attacker as { monsterType?: string } | null)?.monsterType;
+      const bestiaryReduction = monsterType
+        ? BestiaryService.getBonusesAgainst(monsterType).damageReduction
+        : 0;
+
       // Calculate final damage using our new formulas
       const finalDamage = DamageFormulas.calculatePlayerDamageTaken(
         amount,
         equipment,
         skills,
-        isMagicDamage
+        isMagicDamage,
+        bestiaryReduction
       );
 
       // Calculate new health
@@ -293,6 +317,20 @@ export class PlayerCharacter extends Character {
     }
   }
 
+  heal(amount: number): void {
+    try {
+      if (this.isDead) return;
+
+      super.heal(amount);
+
+      // Keep global game state in sync with the entity
+      useGameStore.getState().updatePlayerHealth(this.health);
+    } catch (error) {
+      console.error("Error in PlayerCharacter heal:", error);
+      eventBus.emit("error.player.heal", { error, amount });
+    }
+  }
+
   refreshUIComponents(): void {
     try {
       // Force refresh the health component with proper typing
@@ -333,6 +371,41 @@ export class PlayerCharacter extends Character {
     }
   }
 
+  private showLevelUpEffect(data: PlayerLevelUpEvent): void {
+    try {
+      if (!this.scene || !this.active) return;
+
+      const text = this.scene.add.text(this.x, this.y - 30, `Level Up! (${data.level})`, {
+        fontFamily: "Arial",
+        fontSize: "18px",
+        color: "#ffd700",
+        stroke: "#000000",
+        strokeThickness: 4,
+      });
+
+      text.setOrigin(0.5);
+      text.setDepth(100);
+
+      this.scene.tweens.add({
+        targets: text,
+        y: this.y - 90,
+        alpha: 0,
+        scale: 1.3,
+        duration: 2000,
+        ease: "Cubic.easeOut",
+        onComplete: () => {
+          text.destroy();
+        },
+      });
+
+      // Brief golden glow on the player
+      this.setTint(0xffd700);
+      this.scene.time.delayedCall(400, () => this.clearTint());
+    } catch (error) {
+      console.error("Error showing level up effect:", error);
+    }
+  }
+
   die(): void {
     try {
       if (this.isDead) return;
@@ -369,12 +442,13 @@ export class PlayerCharacter extends Character {
 
   respawn(position: { x: number; y: number }): void {
     try {
-      // Reset health
+      // Reset health, the death penalty may have lowered max health
+      const store = useGameStore.getState();
+      this.maxHealth = store.playerCharacter.maxHealth;
       this.health = this.maxHealth;
       this.isDead = false;
 
       // Update game state health
-      const store = useGameStore.getState();
       store.updatePlayerHealth(this.health);
       store.updatePlayerMaxHealth(this.maxHealth);
 
@@ -408,8 +482,9 @@ export class PlayerCharacter extends Character {
 
   destroy(): void {
     try {
-      // Clean up equipment change listener
+      // Clean up event listeners
       eventBus.off("equipment.changed", this.handleEquipmentChanged);
+      eventBus.off("player.level.up", this.showLevelUpEffect);
 
       // Call parent destroy
       super.destroy();
@@ -0,0 +1,217 @@
+import { Component } from "./Component";
+import { Character } from "./Character";
+import { eventBus } from "@/utils/EventBus";
+import { statusEffectSystem, StatusEffectOptions } from "@/services/StatusEffectSystem";
+import { ActiveStatusEffect, StatusEffectType } from "@/types";
+
+export class StatusEffectComponent extends Component {
+  private effects: Map<StatusEffectType, ActiveStatusEffect> = new Map();
+
+  // Slows can never fully root a character
+  private minSpeedMultiplier: number = 0.2;
+
+  constructor(entity: Character) {
+    super(entity);
+  }
+
+  get character(): Character {
+    return this.entity as Character;
+  }
+
+  /**
+   * Apply a status effect, following the stacking rule of its definition
+   * @returns true if the effect was applied or refreshed
+   */
+  applyEffect(type: StatusEffectType, options: StatusEffectOptions = {}): boolean {
+    try {
+      if (!this.isEnabled || this.character.isDead) return false;
+
+      const definition = statusEffectSystem.getDefinition(type);
+      if (!definition) {
+        console.warn(`Unknown status effect type: ${type}`);
+        return false;
+      }
+
+      const now = Date.now();
+      const duration = options.duration ?? definition.defaultDuration;
+      const potency = options.potency ?? definition.defaultPotency;
+      const existing = this.effects.get(type);
+
+      if (existing) {
+        if (definition.stacking === "stack") {
+          existing.stacks = Math.min(definition.maxStacks, existing.stacks + 1);
+        }
+        existing.potency = Math.max(existing.potency, potency);
+        existing.expiresAt =
+          definition.stacking === "extend"
+            ? Math.min(
+                now + (definition.maxDuration ?? duration),
+                Math.max(existing.expiresAt, now) + duration
+              )
+            : Math.max(existing.expiresAt, now + duration);
+        existing.sourceId = options.sourceId ?? existing.sourceId;
+      } else {
+        this.effects.set(type, {
+          type,
+          potency,
+          stacks: 1,
+          appliedAt: now,
+          expiresAt: now + duration,
+          nextTickAt: now + (definition.tickInterval || 0),
+          sourceId: options.sourceId,
+        });
+
+        this.showEffectText(definition.name, definition.isDebuff);
+      }
+
+      eventBus.emit("statusEffect.applied", {
+        entityId: this.entity.id,
+        type,
+        stacks: this.effects.get(type)!.stacks,
+        duration,
+      });
+      this.emitChanged();
+
+      return true;
+    } catch (error) {
+      console.error(`Error applying status effect ${type} to entity ${this.entity.id}:`, error);
+      eventBus.emit("error.statusEffect.apply", { entityId: this.entity.id, type, error });
+      return false;
+    }
+  }
+
+  removeEffect(type: StatusEffectType): void {
+    if (!this.effects.delete(type)) return;
+
+    eventBus.emit("statusEffect.removed", { entityId: this.entity.id, type });
+    this.emitChanged();
+  }
+
+  clearEffects(): void {
+    if (this.effects.size === 0) return;
+
+    this.effects.clear();
+    this.emitChanged();
+  }
+
+  hasEffect(type: StatusEffectType): boolean {
+    return this.effects.has(type);
+  }
+
+  isStunned(): boolean {
+    return this.effects.has(StatusEffectType.STUN);
+  }
+
+  /**
+   * Movement speed multiplier from active slows (1 = unaffected)
+   */
+  getSpeedMultiplier(): number {
+    const slow = this.effects.get(StatusEffectType.SLOW);
+    if (!slow) return 1;
+
+    return Math.max(this.minSpeedMultiplier, 1 - slow.potency);
+  }
+
+  getActiveEffects(): ActiveStatusEffect[] {
+    return Array.from(this.effects.values()).map((effect) => ({ ...effect }));
+  }
+
+  update(): void {
+    try {
+      if (!this.isEnabled || this.effects.size === 0) return;
+
+      if (this.character.isDead) {
+        this.clearEffects();
+        return;
+      }
+
+      const now = Date.now();
+
+      this.effects.forEach((effect, type) => {
+        const definition = statusEffectSystem.getDefinition(type);
+
+        // Process every tick that has elapsed, including one landing on expiry
+        if (definition?.tickInterval) {
+          while (effect.nextTickAt <= Math.min(now, effect.expiresAt)) {
+            this.tick(effect);
+            effect.nextTickAt += definition.tickInterval;
+            if (this.character.isDead) return;
+          }
+        }
+
+        if (now >= effect.expiresAt) {
+          this.removeEffect(type);
+        }
+      });
+    } catch (error) {
+      console.error(`Error updating status effects for entity ${this.entity.id}:`, error);
+      eventBus.emit("error.statusEffect.update", { entityId: this.entity.id, error });
+    }
+  }
+
+  private tick(effect: ActiveStatusEffect): void {
+    const amount = Math.max(1, Math.round(effect.potency * effect.stacks));
+
+    switch (effect.type) {
+      case StatusEffectType.BURN:
+      case StatusEffectType.POISON:
+        // Damage over time ignores armor
+        this.character.takeDamage(amount, true);
+        break;
+      case StatusEffectType.REGEN:
+      case StatusEffectType.FED:
+        this.character.heal(amount);
+        break;
+    }
+
+    eventBus.emit("statusEffect.tick", {
+      entityId: this.entity.id,
+      type: effect.type,
+      amount,
+    });
+  }
+
+  private emitChanged(): void {
+    const effects = this.getActiveEffects();
+
+    eventBus.emit(`entity.${this.entity.id}.statusEffects.changed`, effects);
+
+    if (this.entity.id === "player") {
+      eventBus.emit("playerCharacter.statusEffects.changed", effects);
+    }
+  }
+
+  private showEffectText(label: string, isDebuff: boolean): void {
+    try {
+      const scene = this.entity.scene;
+      if (!scene) return;
+
+      const text = scene.add.text(this.entity.x, this.entity.y - 48, label, {
+        fontFamily: "Arial",
+        fontSize: "11px",
+        color: isDebuff ? "#ffcc66" : "#66ff99",
+        stroke: "#000000",
+        strokeThickness: 3,
+      });
+      text.setOrigin(0.5);
+      text.setDepth(100);
+
+      scene.tweens.add({
+        targets: text,
+        y: this.entity.y - 70,
+        alpha: 0,
+        duration: 900,
+        onComplete: () => {
+          text.destroy();
+        },
+      });
+    } catch (error) {
+      console.error("Error showing status effect text:", error);
+    }
+  }
+
+  destroy(): void {
+    this.clearEffects();
+    super.destroy();
+  }
+}
@@ -2,7 +2,11 @@ import { Component } from "../Component";
 import { Monster } from "../Monster";
 import { MonsterMovementComponent } from "./MonsterMovementComponent";
 import { MonsterCombatComponent } from "./MonsterCombatComponent";
+import { MonsterAbilityComponent } from "./MonsterAbilityComponent";
+import { MonsterThreatComponent } from "./MonsterThreatComponent";
 import { eventBus } from "@/utils/EventBus";
+import { statusEffectSystem } from "@/services/StatusEffectSystem";
+import { worldClock } from "@/services/WorldClockSystem";
 
 export class MonsterAIComponent extends Component {
   private isAggressive: boolean = false;
@@ -41,8 +45,44 @@ export class MonsterAIComponent extends Component {
     });
   }
 
+  setAttackType(attackType: string): void {
+    this.attackType = attackType;
+  }
+
+  isEngaged(): boolean {
+    return this.isAggressive || this.isProvoked;
+  }
+
+  /**
+   * Monsters with an active time only go looking for a fight at that time of day
+   */
+  isActiveNow(): boolean {
+    const activeTime = this.monster.activeTime;
+    return !activeTime || activeTime === worldClock.getTimeOfDay();
+  }
+
+  /**
+   * Forget all aggro and threat, used when the monster is leashed back to its spawn
+   */
+  resetAggro(): void {
+    this.isAggressive = false;
+    this.setProvokedState(false);
+    this.monster.components.get<MonsterThreatComponent>("threat")?.clear();
+
+    const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
+    if (movementComponent) {
+      movementComponent.setAggression(false);
+    }
+  }
+
   setRunawayPercent(percent: number): void {
     this.runawayPercent = percent;
+
+    // Movement decides when to flee along a path
+    const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
+    if (movementComponent) {
+      movementComponent.setRunawayPercent(percent);
+    }
   }
 
   update(time: number, delta: number): void {
@@ -54,6 +94,19 @@ export class MonsterAIComponent extends Component {
       if (now - this.lastPlayerCheck < this.checkDelay) return;
       this.lastPlayerCheck = now;
 
+      // Leashed monsters ignore the player until they are back home
+      if (this.monster.isResetting) return;
+
+      // Stunned monsters can't move, attack or cast
+      if (statusEffectSystem.isStunned(this.monster)) return;
+
+      // Pulled too far from the spawn, give up and walk back
+      const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
+      if ((this.isAggressive || this.isProvoked) && movementComponent?.isBeyondLeash()) {
+        this.monster.leash();
+        return;
+      }
+
       this.updateAggro();
     } catch (error) {
       console.error(`Error in MonsterAIComponent update for ${this.entity.id}:`, error);
@@ -67,26 +120,34 @@ export class MonsterAIComponent extends Component {
 
   updateAggro(): void {
     try {
-      const gameScene = this.entity.scene as any;
-      if (!gameScene.playerCharacter) return;
+      // Whoever tops the threat table, the player before anyone has threat
+      const target = this.monster.getCombatTarget();
+      if (!target) return;
 
-      const player = gameScene.playerCharacter;
-
-      // Calculate distance to player
+      // Calculate distance to target
       const distance = Phaser.Math.Distance.Between(
         this.entity.x,
         this.entity.y,
-        player.x,
-        player.y
+        target.x,
+        target.y
       );
 
-      // If not yet aggressive or provoked, check if player is in aggro range
-      if (!this.isProvoked && !this.isAggressive && distance <= this.aggroRange) {
-        // Become aggressive when player enters range
+      const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
+
+      // If not yet aggressive or provoked, check if target is in aggro range
+      // (a target standing outside the leash area, or outside the monster's active
+      // time of day, is never engaged)
+      if (
+        !this.isProvoked &&
+        !this.isAggressive &&
+        this.isActiveNow() &&
+        distance <= this.aggroRange &&
+        (!movementComponent || movementComponent.isWithinLeash(target.x, target.y))
+      ) {
+        // Become aggressive when target enters range
         this.isAggressive = true;
 
         // Update movement component aggression
-        const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
         if (movementComponent) {
           movementComponent.setAggression(true);
         }
@@ -99,17 +160,21 @@ export class MonsterAIComponent extends Component {
         });
       }
 
-      // Check if player is within aggro range or monster is provoked
-      if ((this.isAggressive || this.isProvoked) && distance <= this.aggroRange) {
-        const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
+      // Check if target is within aggro range or monster is provoked
+      const isHunting = this.isProvoked || (this.isAggressive && this.isActiveNow());
+      if (isHunting && distance <= this.aggroRange) {
         const combatComponent = this.monster.components.get<MonsterCombatComponent>("combat");
 
         if (!movementComponent || !combatComponent) return;
 
-        // Move towards player or maintain distance
+        // Move towards target or maintain distance
         movementComponent.approachPlayer(distance, this.attackType);
 
-        // Try to attack player
+        // Casters prefer a ready ability over a basic attack
+        const abilityComponent = this.monster.components.get<MonsterAbilityComponent>("abilities");
+        if (abilityComponent && abilityComponent.tryCastAbility()) return;
+
+        // Try to attack target
         const attacked = combatComponent.attackPlayerCharacter();
 
         // Emit attack event if successful
@@ -119,6 +184,7 @@ export class MonsterAIComponent extends Component {
             type: this.monster.monsterType,
             name: this.monster.monsterName,
             attackType: this.attackType,
+            targetId: target.id,
           });
         }
       }
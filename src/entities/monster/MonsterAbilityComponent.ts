@@ -0,0 +1,218 @@
+import { Component } from "../Component";
+import { Monster } from "../Monster";
+import { PlayerCharacter } from "../PlayerCharacter";
+import { MonsterCombatComponent } from "./MonsterCombatComponent";
+import { MonsterMovementComponent } from "./MonsterMovementComponent";
+import { MonsterAffixComponent } from "./MonsterAffixComponent";
+import { AbilityDictionary } from "@/services/AbilityDictionaryService";
+import { AbilityRegistry } from "@/abilityAnimations/AbilityRegistry";
+import { AnimationStrategy } from "@/abilityAnimations/AnimationStrategy";
+import { DamageFormulas } from "@/utils/formulas";
+import { eventBus } from "@/utils/EventBus";
+import { Ability } from "@/types";
+import type { GameScene } from "@/scenes/GameScene";
+
+export class MonsterAbilityComponent extends Component {
+  private abilities: Ability[] = [];
+  private cooldowns: Map<string, number> = new Map();
+  private activeAnimations: Map<string, Phaser.GameObjects.GameObject[]> = new Map();
+  private isCasting: boolean = false;
+  private lastCastTime: number = 0;
+
+  // Monsters cast far less often than the player's 1 second ability cooldowns
+  private minAbilityCooldown: number = 6000;
+  private globalCooldown: number = 2500;
+  private castChance: number = 0.35;
+  private defaultRange: number = 64;
+
+  constructor(entity: Monster, abilityIds: string[] = []) {
+    super(entity);
+
+    this.abilities = this.resolveAbilities(abilityIds);
+
+    eventBus.emit("monster.abilities.initialized", {
+      entityId: this.entity.id,
+      abilities: this.abilities.map((ability) => ability.id),
+    });
+  }
+
+  get monster(): Monster {
+    return this.entity as Monster;
+  }
+
+  hasAbilities(): boolean {
+    return this.abilities.length > 0;
+  }
+
+  getAbilityIds(): string[] {
+    return this.abilities.map((ability) => ability.id);
+  }
+
+  /**
+   * Swap the whole ability set, e.g. when a boss enters a new phase.
+   * Cooldowns of abilities kept across the swap carry over.
+   */
+  setAbilities(abilityIds: string[]): void {
+    this.abilities = this.resolveAbilities(abilityIds);
+
+    eventBus.emit("monster.abilities.changed", {
+      entityId: this.entity.id,
+      abilities: this.abilities.map((ability) => ability.id),
+    });
+  }
+
+  private resolveAbilities(abilityIds: string[]): Ability[] {
+    const abilities: Ability[] = [];
+
+    abilityIds.forEach((abilityId) => {
+      const ability = AbilityDictionary.getAbility(abilityId);
+      if (ability) {
+        abilities.push(ability);
+      } else {
+        console.warn(`Monster ${this.entity.id} has unknown ability: ${abilityId}`);
+      }
+    });
+
+    return abilities;
+  }
+
+  /**
+   * Try to cast a ready ability at the player
+   * @returns true if an ability was cast
+   */
+  tryCastAbility(): boolean {
+    try {
+      if (!this.isEnabled || this.isCasting || this.monster.isDead) return false;
+
+      const now = Date.now();
+      if (now - this.lastCastTime < this.globalCooldown) return false;
+
+      // Abilities are only ever aimed at the player character
+      const player = this.monster.getCombatTarget();
+      if (!(player instanceof PlayerCharacter) || player.isDead) return false;
+      if ((this.entity.scene as GameScene).isChangingMap) return false;
+
+      const distance = Phaser.Math.Distance.Between(
+        this.entity.x,
+        this.entity.y,
+        player.x,
+        player.y
+      );
+
+      // Pick a random ability that is off cooldown and in range
+      const readyAbilities = this.abilities.filter(
+        (ability) =>
+          (this.cooldowns.get(ability.id) || 0) <= now && distance <= this.getAbilityRange(ability)
+      );
+      if (readyAbilities.length === 0 || Math.random() > this.castChance) return false;
+
+      const ability = readyAbilities[Math.floor(Math.random() * readyAbilities.length)];
+      const strategy = this.getStrategy(ability);
+      if (!strategy || typeof strategy.playAtTarget !== "function") return false;
+
+      this.castAbility(ability, strategy, player);
+      return true;
+    } catch (error) {
+      console.error(
+        `Error in MonsterAbilityComponent tryCastAbility for ${this.entity.id}:`,
+        error
+      );
+      eventBus.emit("error.monster.ability", { entityId: this.entity.id, error });
+      return false;
+    }
+  }
+
+  private castAbility(
+    ability: Ability,
+    strategy: AnimationStrategy,
+    player: PlayerCharacter
+  ): void {
+    const now = Date.now();
+    this.isCasting = true;
+    this.lastCastTime = now;
+    this.cooldowns.set(ability.id, now + this.getAbilityCooldown(ability));
+
+    // Share the swing timer so a cast replaces the next auto attack
+    const combatComponent = this.monster.components.get<MonsterCombatComponent>("combat");
+    if (combatComponent) {
+      combatComponent.lastAttackTime = now;
+    }
+
+    const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
+    if (movementComponent) {
+      movementComponent.facePlayer();
+    }
+
+    const baseDamage = combatComponent?.damage || 0;
+    const damage = DamageFormulas.calculateMonsterAbilityDamage(ability.damage || 0, baseDamage);
+
+    eventBus.emit("monster.ability.cast", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      name: this.monster.monsterName,
+      abilityId: ability.id,
+    });
+
+    strategy.playAtTarget!(
+      this.entity.scene,
+      this.monster,
+      player,
+      ability,
+      damage,
+      this.activeAnimations
+    )
+      .then((hit) => {
+        if (hit) {
+          eventBus.emit(
+            "ui.message.show",
+            `${this.monster.monsterName} hits you with ${ability.name}!`
+          );
+          eventBus.emit("monster.ability.hit", {
+            id: this.entity.id,
+            abilityId: ability.id,
+            damage,
+          });
+          this.monster.components.get<MonsterAffixComponent>("affixes")?.handleDamageDealt(damage);
+        }
+      })
+      .catch((error) => {
+        console.error(`Error playing monster ability ${ability.id}:`, error);
+      })
+      .finally(() => {
+        this.isCasting = false;
+      });
+  }
+
+  private getStrategy(ability: Ability): AnimationStrategy | null {
+    if (AbilityRegistry.hasStrategy(ability.id)) {
+      return AbilityRegistry.getStrategy(ability.id);
+    }
+
+    if (ability.animationType && AbilityRegistry.hasStrategy(ability.animationType)) {
+      return AbilityRegistry.getStrategy(ability.animationType);
+    }
+
+    return null;
+  }
+
+  private getAbilityRange(ability: Ability): number {
+    return ability.range || ability.areaSize || this.defaultRange;
+  }
+
+  private getAbilityCooldown(ability: Ability): number {
+    return Math.max(ability.cooldown * 1000, this.minAbilityCooldown);
+  }
+
+  destroy(): void {
+    this.activeAnimations.forEach((objects) => {
+      objects.forEach((obj) => {
+        if (obj.active) {
+          obj.destroy();
+        }
+      });
+    });
+    this.activeAnimations.clear();
+
+    super.destroy();
+  }
+}
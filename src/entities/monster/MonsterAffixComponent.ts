@@ -0,0 +1,108 @@
+import { Component } from "../Component";
+import { Monster } from "../Monster";
+import { MonsterCombatComponent } from "./MonsterCombatComponent";
+import { eventBus } from "@/utils/EventBus";
+import { DamageFormulas } from "@/utils/formulas";
+import { MONSTER_VARIANTS } from "@/utils/MonsterVariantManager";
+import { MonsterAffix } from "@/types";
+
+/**
+ * Runtime side of elite affixes. Stat affixes are baked into the monster's data when
+ * it spawns; this handles the ones that react to combat (vampiric, explosive).
+ */
+export class MonsterAffixComponent extends Component {
+  private affixes: MonsterAffix[] = [];
+
+  constructor(entity: Monster, affixes: MonsterAffix[]) {
+    super(entity);
+    this.affixes = affixes;
+  }
+
+  get monster(): Monster {
+    return this.entity as Monster;
+  }
+
+  hasAffix(affix: MonsterAffix): boolean {
+    return this.affixes.includes(affix);
+  }
+
+  getAffixes(): MonsterAffix[] {
+    return [...this.affixes];
+  }
+
+  /**
+   * Vampiric monsters heal for part of the damage they deal
+   */
+  handleDamageDealt(damage: number): void {
+    try {
+      if (!this.isEnabled || this.monster.isDead || damage <= 0) return;
+      if (!this.hasAffix(MonsterAffix.VAMPIRIC)) return;
+
+      const amount = Math.ceil((damage * MONSTER_VARIANTS.VAMPIRIC_LEECH_PERCENT) / 100);
+      this.monster.heal(amount);
+
+      eventBus.emit("monster.affix.leech", { id: this.entity.id, amount });
+    } catch (error) {
+      console.error(`Error in MonsterAffixComponent leech for ${this.entity.id}:`, error);
+      eventBus.emit("error.monster.affix.leech", { id: this.entity.id, error });
+    }
+  }
+
+  /**
+   * Explosive monsters blow up shortly after dying, hurting the player if close by
+   */
+  handleDeath(x: number, y: number): void {
+    try {
+      if (!this.hasAffix(MonsterAffix.EXPLOSIVE)) return;
+
+      const scene = this.entity.scene;
+      const radius = MONSTER_VARIANTS.EXPLOSION_RADIUS;
+      const combatComponent = this.monster.components.get<MonsterCombatComponent>("combat");
+      const damage = DamageFormulas.calculateMonsterDamage(
+        (combatComponent?.damage || 5) * MONSTER_VARIANTS.EXPLOSION_DAMAGE_MULTIPLIER,
+        1
+      );
+
+      // Warning ring that fills up until the blast
+      const warning = scene.add.circle(x, y, radius, 0xff4500, 0.15);
+      warning.setStrokeStyle(2, 0xff4500, 0.8);
+      warning.setDepth(4);
+      scene.tweens.add({
+        targets: warning,
+        fillAlpha: 0.45,
+        duration: MONSTER_VARIANTS.EXPLOSION_DELAY,
+        ease: "Sine.easeIn",
+      });
+
+      // The monster itself is destroyed by then, so everything hangs off the scene
+      scene.time.delayedCall(MONSTER_VARIANTS.EXPLOSION_DELAY, () => {
+        warning.destroy();
+
+        const blast = scene.add.circle(x, y, radius / 2, 0xffaa00, 0.8);
+        blast.setDepth(6);
+        scene.tweens.add({
+          targets: blast,
+          scale: 2,
+          alpha: 0,
+          duration: 300,
+          onComplete: () => blast.destroy(),
+        });
+
+        const player = (scene as any).playerCharacter;
+        if (
+          player &&
+          !player.isDead &&
+          Phaser.Math.Distance.Between(x, y, player.x, player.y) <= radius
+        ) {
+          player.takeDamage(damage, false, this.monster);
+          eventBus.emit("ui.message.show", "You are caught in the explosion!");
+        }
+
+        eventBus.emit("monster.affix.exploded", { x, y, damage });
+      });
+    } catch (error) {
+      console.error(`Error in MonsterAffixComponent explosion for ${this.entity.id}:`, error);
+      eventBus.emit("error.monster.affix.explode", { id: this.entity.id, error });
+    }
+  }
+}
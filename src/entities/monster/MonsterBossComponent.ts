@@ -0,0 +1,208 @@
+import { Component } from "../Component";
+import { Monster } from "../Monster";
+import { MonsterAbilityComponent } from "./MonsterAbilityComponent";
+import { MonsterMovementComponent } from "./MonsterMovementComponent";
+import { eventBus } from "@/utils/EventBus";
+import { useGameStore } from "@/stores/gameStore";
+import { monsterGroupSystem, PACK } from "@/services/MonsterGroupSystem";
+import { BossData, BossPhase, MonsterAttackType } from "@/types";
+
+/**
+ * Drives a boss encounter: moves through health-threshold phases, each swapping the
+ * boss's abilities, speed and attack type and possibly summoning adds
+ */
+export class MonsterBossComponent extends Component {
+  private phases: BossPhase[] = [];
+  private phaseIndex: number = 0;
+  private openingPhase: BossPhase | null = null; // First phase filled in with the boss's base stats
+  private engaged: boolean = false;
+  private adds: Monster[] = [];
+
+  constructor(entity: Monster, bossData: BossData) {
+    super(entity);
+
+    // Highest threshold first, so phases are entered in order as health drops
+    this.phases = [...bossData.phases].sort((a, b) => b.healthPercent - a.healthPercent);
+  }
+
+  get monster(): Monster {
+    return this.entity as Monster;
+  }
+
+  getPhase(): BossPhase | null {
+    return this.phases[this.phaseIndex] || null;
+  }
+
+  isEngaged(): boolean {
+    return this.engaged;
+  }
+
+  /**
+   * Apply the opening phase. The boss component is added last, so the components
+   * the phase configures already exist.
+   */
+  initialize(): void {
+    super.initialize();
+
+    const first = this.phases[0];
+    if (!first) return;
+
+    // Later phases only list what they change, so a reset has to restore everything
+    const abilityComponent = this.monster.components.get<MonsterAbilityComponent>("abilities");
+    const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
+    this.openingPhase = {
+      ...first,
+      abilities: first.abilities ?? abilityComponent?.getAbilityIds(),
+      speed: first.speed ?? movementComponent?.getMoveSpeed(),
+      attackType: first.attackType ?? (this.monster.attackType as MonsterAttackType),
+    };
+
+    this.applyPhase(this.openingPhase);
+  }
+
+  update(): void {
+    try {
+      if (!this.isEnabled || this.monster.isDead) return;
+
+      // Leashed back home: the encounter starts over
+      if (this.monster.isResetting) {
+        if (this.engaged) this.resetEncounter();
+        return;
+      }
+
+      if (!this.engaged && this.monster.isEngaged()) {
+        this.engaged = true;
+        eventBus.emit("boss.engaged", this.getBossState());
+      }
+
+      if (!this.engaged) return;
+
+      const healthPercent = (this.monster.health / this.monster.maxHealth) * 100;
+      const next = this.phases[this.phaseIndex + 1];
+      if (next && healthPercent <= next.healthPercent) {
+        this.enterPhase(this.phaseIndex + 1);
+      }
+    } catch (error) {
+      console.error(`Error in MonsterBossComponent update for ${this.entity.id}:`, error);
+      eventBus.emit("error.monster.boss.update", { id: this.entity.id, error });
+    }
+  }
+
+  /**
+   * Called by the monster when it dies
+   */
+  handleDeath(): void {
+    if (!this.engaged) return;
+    this.engaged = false;
+
+    eventBus.emit("boss.defeated", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      name: this.monster.monsterName,
+    });
+  }
+
+  private enterPhase(index: number): void {
+    const phase = this.phases[index];
+    if (!phase) return;
+
+    this.phaseIndex = index;
+    this.applyPhase(phase);
+    this.spawnAdds(phase);
+
+    if (phase.message) {
+      eventBus.emit("ui.message.show", phase.message);
+    }
+
+    eventBus.emit("boss.phaseChanged", {
+      ...this.getBossState(),
+      phaseIndex: index,
+    });
+  }
+
+  private applyPhase(phase: BossPhase | null): void {
+    if (!phase) return;
+
+    if (phase.abilities) {
+      this.monster.components
+        .get<MonsterAbilityComponent>("abilities")
+        ?.setAbilities(phase.abilities);
+    }
+
+    if (phase.speed !== undefined) {
+      this.monster.components.get<MonsterMovementComponent>("movement")?.setSpeed(phase.speed);
+    }
+
+    if (phase.attackType) {
+      this.monster.setAttackType(phase.attackType);
+    }
+  }
+
+  /**
+   * Summon the phase's adds next to the boss, already fighting its target
+   */
+  private spawnAdds(phase: BossPhase): void {
+    if (!phase.adds || phase.adds.length === 0) return;
+
+    const spawnSystem = useGameStore.getState().systems?.monsterSpawnSystem;
+    if (!spawnSystem) return;
+
+    const target = this.monster.getCombatTarget();
+
+    phase.adds.forEach(({ monsterType, count }) => {
+      const spawned: Monster[] = spawnSystem.spawnAdds(
+        monsterType,
+        count,
+        this.monster.x,
+        this.monster.y
+      );
+
+      spawned.forEach((add) => {
+        if (this.monster.groupId) {
+          monsterGroupSystem.addMember(this.monster.groupId, add);
+        }
+        if (target) {
+          add.assist(target, PACK.ASSIST_THREAT);
+        }
+      });
+
+      this.adds.push(...spawned);
+    });
+  }
+
+  /**
+   * Back to the opening phase with the adds gone
+   */
+  private resetEncounter(): void {
+    this.engaged = false;
+    this.phaseIndex = 0;
+    this.applyPhase(this.openingPhase);
+
+    this.adds.forEach((add) => {
+      if (add.active && !add.isDead) add.destroy();
+    });
+    this.adds = [];
+
+    eventBus.emit("boss.reset", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      name: this.monster.monsterName,
+    });
+  }
+
+  private getBossState() {
+    return {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      name: this.monster.monsterName,
+      health: this.monster.health,
+      maxHealth: this.monster.maxHealth,
+      phaseName: this.getPhase()?.name || "",
+    };
+  }
+
+  destroy(): void {
+    this.adds = [];
+    super.destroy();
+  }
+}
@@ -1,6 +1,7 @@
 import { Component } from "../Component";
 import { Monster } from "../Monster";
 import { MonsterMovementComponent } from "./MonsterMovementComponent";
+import { MonsterAffixComponent } from "./MonsterAffixComponent";
 import { DamageFormulas } from "@/utils/formulas"; // ADDED: Only new import
 import { eventBus } from "@/utils/EventBus";
 
@@ -14,16 +15,7 @@ export class MonsterCombatComponent extends Component {
   constructor(entity: Monster, damage: number = 5, attackType: string = "melee") {
     super(entity);
     this.damage = damage;
-    this.attackType = attackType;
-
-    // Set attack range based on attack type
-    if (this.attackType === "melee") {
-      this.attackRange = 40; // ~1.25 tiles
-    } else if (this.attackType === "ranged") {
-      this.attackRange = 384; // 12 tiles
-    } else if (this.attackType === "magic") {
-      this.attackRange = 384; // 12 tiles
-    }
+    this.setAttackType(attackType);
 
     // Emit initialization event
     eventBus.emit("monster.combat.initialized", {
@@ -39,17 +31,31 @@ export class MonsterCombatComponent extends Component {
     return this.entity as Monster;
   }
 
+  /**
+   * Change the attack type, e.g. when a boss enters a new phase
+   */
+  setAttackType(attackType: string): void {
+    this.attackType = attackType;
+
+    // Set attack range based on attack type
+    if (this.attackType === "melee") {
+      this.attackRange = 40; // ~1.25 tiles
+    } else if (this.attackType === "ranged") {
+      this.attackRange = 384; // 12 tiles
+    } else if (this.attackType === "magic") {
+      this.attackRange = 384; // 12 tiles
+    }
+  }
+
   attackPlayerCharacter(): boolean {
     try {
       if (Date.now() - this.lastAttackTime < this.attackCooldown) {
         return false;
       }
 
-      // Get player character
-      const gameScene = this.entity.scene as any;
-      if (!gameScene.playerCharacter) return false;
-
-      const player = gameScene.playerCharacter;
+      // Attack whoever tops the threat table
+      const player = this.monster.getCombatTarget();
+      if (!player) return false;
 
       // Check if player is in range
       const distance = Phaser.Math.Distance.Between(
@@ -77,10 +83,10 @@ export class MonsterCombatComponent extends Component {
         direction = dy > 0 ? "down" : "up";
       }
 
-      // Make sure the monster is facing the player when attacking
+      // Make sure the monster is facing whoever it attacks
       const movementComponent = this.monster.components.get<MonsterMovementComponent>("movement");
       if (movementComponent) {
-        movementComponent.facePlayer();
+        movementComponent.faceTarget(player);
       } else {
         // Fallback if no movement component
         this.monster.playAnimation(direction, false);
@@ -100,12 +106,13 @@ export class MonsterCombatComponent extends Component {
       const isMagicDamage = DamageFormulas.isMagicDamage(this.attackType);
 
       // CHANGED: Call player's takeDamage method with calculated damage and magic flag
-      player.takeDamage(finalDamage, isMagicDamage);
+      player.takeDamage(finalDamage, isMagicDamage, this.monster);
+      this.monster.components.get<MonsterAffixComponent>("affixes")?.handleDamageDealt(finalDamage);
 
       // Emit attack event
       eventBus.emit("monster.attack.hit", {
         entityId: this.entity.id,
-        targetId: "player",
+        targetId: player.id,
         damage: finalDamage, // CHANGED: Use calculated damage
         attackType: this.attackType,
         direction: direction,
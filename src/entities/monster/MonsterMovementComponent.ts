@@ -1,9 +1,13 @@
 import { MovementComponent } from "../player/MovementComponent";
 import { Monster } from "../Monster";
+import { Character } from "../Character";
 import { MonsterAttackType } from "@/types";
 import { eventBus } from "@/utils/EventBus";
 import { MapService } from "@/services/MapService";
+import { GridPoint, pathfindingSystem } from "@/services/PathfindingSystem";
 import { useGameStore } from "@/stores/gameStore";
+import { PACK, monsterGroupSystem } from "@/services/MonsterGroupSystem";
+import type { GameScene } from "@/scenes/GameScene";
 
 export class MonsterMovementComponent extends MovementComponent {
   private speed: number = 120; // FIXED: Add monster-specific speed property
@@ -20,6 +24,16 @@ export class MonsterMovementComponent extends MovementComponent {
   private wanderTimer: Phaser.Time.TimerEvent | null = null;
   private moveInProgress: boolean = false;
   private continuousPursuit: boolean = false;
+  private returningHome: boolean = false;
+  private leashAnchor: { x: number; y: number } | null = null; // Spawn point, defaults to the initial position
+  private leashRadius: number = 384; // 12 tiles
+  private followingFormation: boolean = false; // Holds a slot next to its group leader instead of wandering
+
+  // Cached path, re-planned when the goal moves or the next step gets blocked
+  private path: GridPoint[] = [];
+  private pathGoal: GridPoint | null = null;
+  private pathPurpose: "chase" | "retreat" | "home" | null = null;
+  private readonly fleeSearchSteps: number = 8;
 
   // Movement parameters
   private moveChance: number = 0.8; // Increased chance to move
@@ -35,7 +49,7 @@ export class MonsterMovementComponent extends MovementComponent {
     this.isAggressive = isAggressive;
 
     // Override parent's moveSpeed for monsters
-    (this as any).moveSpeed = speed;
+    this.moveSpeed = speed;
 
     if (!isAggressive) {
       this.setupWanderingBehavior();
@@ -105,8 +119,14 @@ export class MonsterMovementComponent extends MovementComponent {
     }
   }
 
+  setSpeed(speed: number): void {
+    this.speed = speed;
+    this.moveSpeed = speed;
+  }
+
   setAggression(aggressive: boolean): void {
     this.isAggressive = aggressive;
+    if (aggressive) this.returningHome = false;
 
     if (!aggressive && !this.wanderTimer) {
       this.setupWanderingBehavior();
@@ -124,6 +144,7 @@ export class MonsterMovementComponent extends MovementComponent {
 
   setProvokedState(provoked: boolean): void {
     this.isProvoked = provoked;
+    if (provoked) this.returningHome = false;
 
     if (provoked && this.wanderTimer) {
       this.wanderTimer.remove();
@@ -141,10 +162,95 @@ export class MonsterMovementComponent extends MovementComponent {
     this.aggroRange = range;
   }
 
+  setRunawayPercent(percent: number): void {
+    this.runawayPercent = percent;
+  }
+
+  /**
+   * Whether the monster is hurt enough to run from the player
+   */
+  shouldRunAway(): boolean {
+    if (this.runawayPercent <= 0 || this.monster.maxHealth <= 0) return false;
+    return (this.monster.health / this.monster.maxHealth) * 100 <= this.runawayPercent;
+  }
+
   setInitialPosition(x: number, y: number): void {
     this.initialPosition = { x, y };
   }
 
+  /**
+   * Tie the monster to its spawn point, pulled further than the radius it disengages
+   */
+  setLeash(x: number, y: number, radius: number): void {
+    this.leashAnchor = { x, y };
+    this.leashRadius = radius;
+  }
+
+  /**
+   * Whether a world position lies inside the leash area
+   */
+  isWithinLeash(x: number, y: number): boolean {
+    const anchor = this.leashAnchor || this.initialPosition;
+    return Phaser.Math.Distance.Between(x, y, anchor.x, anchor.y) <= this.leashRadius;
+  }
+
+  /**
+   * Whether the monster has been pulled past its leash
+   */
+  isBeyondLeash(): boolean {
+    return !this.isWithinLeash(this.entity.x, this.entity.y);
+  }
+
+  isReturningHome(): boolean {
+    return this.returningHome;
+  }
+
+  /**
+   * Whether the monster stands on its home tile
+   */
+  isAtHome(): boolean {
+    const current = pathfindingSystem.worldToGrid(this.entity.x, this.entity.y);
+    const home = pathfindingSystem.worldToGrid(this.initialPosition.x, this.initialPosition.y);
+    return current.x === home.x && current.y === home.y;
+  }
+
+  /**
+   * Take a formation slot: the slot becomes home and the monster stops wandering on its own
+   */
+  followFormationSlot(x: number, y: number): void {
+    this.followingFormation = true;
+    this.initialPosition = { x, y };
+
+    const current = pathfindingSystem.worldToGrid(this.entity.x, this.entity.y);
+    const slot = pathfindingSystem.worldToGrid(x, y);
+    const offSlot = Math.abs(current.x - slot.x) + Math.abs(current.y - slot.y) > 1;
+
+    if (offSlot && !this.moveInProgress && !this.returningHome) {
+      this.returnHome();
+    }
+  }
+
+  leaveFormation(): void {
+    this.followingFormation = false;
+  }
+
+  /**
+   * Distance to keep from the target. Ranged and magic monsters hang back behind
+   * melee packmates already fighting it.
+   */
+  getPreferredDistance(): number {
+    if (this.attackType === MonsterAttackType.Melee) return this.preferredDistance;
+
+    const target = this.monster.getCombatTarget();
+    const frontline = target ? monsterGroupSystem.getFrontlineDistance(this.monster, target) : null;
+    if (frontline === null) return this.preferredDistance;
+
+    return Math.min(
+      Math.max(this.preferredDistance, frontline + PACK.BACKLINE_GAP),
+      PACK.MAX_BACKLINE_DISTANCE
+    );
+  }
+
   setAttackTypeAndDistance(attackType: string): void {
     this.attackType = attackType;
 
@@ -185,7 +291,7 @@ export class MonsterMovementComponent extends MovementComponent {
   moveToTile(tileX: number, tileY: number): Promise<void> {
     return new Promise<void>((resolve) => {
       try {
-        if (this.moveInProgress) {
+        if (this.moveInProgress || this.isMovementImpaired()) {
           resolve();
           return;
         }
@@ -220,7 +326,7 @@ export class MonsterMovementComponent extends MovementComponent {
         // FIXED: Calculate duration based on monster's speed
         let moveDuration = 400; // Base duration
         const baseMoveSpeed = 120; // Base monster speed
-        moveDuration = moveDuration * (baseMoveSpeed / this.speed);
+        moveDuration = moveDuration * (baseMoveSpeed / this.getEffectiveMoveSpeed());
 
         // If it's a ranged or magic monster maintaining distance, move faster
         if (
@@ -250,6 +356,8 @@ export class MonsterMovementComponent extends MovementComponent {
             if (this.continuousPursuit && (this.isAggressive || this.isProvoked)) {
               // For all monster types, continue pursuit if needed
               this.continuePursuit();
+            } else if (this.returningHome) {
+              this.continueReturningHome();
             } else if (this.isAggressive || this.isProvoked) {
               this.facePlayer();
             } else {
@@ -292,18 +400,22 @@ export class MonsterMovementComponent extends MovementComponent {
         return;
       }
 
-      const gameScene = this.entity.scene as any;
-      if (!gameScene || !gameScene.playerCharacter) return;
-
-      const player = gameScene.playerCharacter;
+      const target = this.monster.getCombatTarget();
+      if (!target) return;
 
       const distance = Phaser.Math.Distance.Between(
         this.entity.x,
         this.entity.y,
-        player.x,
-        player.y
+        target.x,
+        target.y
       );
 
+      // Badly hurt monsters run regardless of attack type
+      if (this.shouldRunAway()) {
+        this.continueRetreating();
+        return;
+      }
+
       // Different behavior based on attack type
       if (this.attackType === MonsterAttackType.Melee) {
         // Melee monsters always chase until in range
@@ -316,15 +428,17 @@ export class MonsterMovementComponent extends MovementComponent {
         this.attackType === MonsterAttackType.Magic ||
         this.attackType === MonsterAttackType.Ranged
       ) {
-        // If too close to player, retreat
-        if (distance < this.preferredDistance * 0.8) {
+        const preferredDistance = this.getPreferredDistance();
+
+        // If too close to target, retreat
+        if (distance < preferredDistance * 0.8) {
           this.continueRetreating();
         }
-        // If too far from player, chase
-        else if (distance > this.preferredDistance * 1.2) {
+        // If too far from target, chase
+        else if (distance > preferredDistance * 1.2) {
           this.continueChasing();
         }
-        // If at good distance, face player
+        // If at good distance, face target
         else {
           this.facePlayer();
         }
@@ -377,21 +491,27 @@ export class MonsterMovementComponent extends MovementComponent {
       const gameScene = this.entity.scene as any;
 
       // Safety checks
-      if (
-        gameScene.isChangingMap ||
-        !gameScene.playerCharacter ||
-        !this.entity.active ||
-        this.entity.scene !== gameScene
-      ) {
+      if (gameScene.isChangingMap || !this.entity.active || this.entity.scene !== gameScene) {
         return null;
       }
 
-      const player = gameScene.playerCharacter;
+      const target = this.monster.getCombatTarget();
+      if (!target) return null;
+
+      // Follow a planned path around walls and other blockers
+      const targetGrid = pathfindingSystem.worldToGrid(target.x, target.y);
+      const step = towards ? this.getPathStep(targetGrid, "chase") : this.getFleeStep(targetGrid);
+      if (step) return step;
+
+      // Chasing into the target's own tile means we are already next to them
+      if (towards && this.isAdjacentTo(targetGrid)) return null;
+
+      // No path this frame (search budget spent or none exists), fall back to a greedy step
       const monsterTile = this.worldToTiledTile(this.entity.x, this.entity.y);
-      const playerTile = this.worldToTiledTile(player.x, player.y);
+      const targetTile = this.worldToTiledTile(target.x, target.y);
 
-      const diffX = playerTile.x - monsterTile.x;
-      const diffY = playerTile.y - monsterTile.y;
+      const diffX = targetTile.x - monsterTile.x;
+      const diffY = targetTile.y - monsterTile.y;
 
       return this.calculateMovementDirection(monsterTile, diffX, diffY, towards);
     } catch (error) {
@@ -403,6 +523,128 @@ export class MonsterMovementComponent extends MovementComponent {
     }
   }
 
+  /**
+   * Next step along a cached path to a goal tile, re-planning when the goal moved,
+   * the purpose changed or the next tile got blocked
+   */
+  private getPathStep(
+    goal: GridPoint,
+    purpose: "chase" | "home"
+  ): { dx: number; dy: number } | null {
+    const scene = this.entity.scene as GameScene;
+    const current = pathfindingSystem.worldToGrid(this.entity.x, this.entity.y);
+
+    const goalMoved = !this.pathGoal || this.pathGoal.x !== goal.x || this.pathGoal.y !== goal.y;
+    if (purpose !== this.pathPurpose || goalMoved || !this.isPathUsable(current)) {
+      this.path = pathfindingSystem.findPath(scene, current, goal, { ignore: this.entity }) || [];
+      this.pathGoal = goal;
+      this.pathPurpose = purpose;
+    }
+
+    return this.takePathStep(current, purpose === "chase" ? goal : null);
+  }
+
+  /**
+   * Next step away from a threat, re-planning when the threat moved
+   */
+  private getFleeStep(threat: GridPoint): { dx: number; dy: number } | null {
+    const scene = this.entity.scene as GameScene;
+    const current = pathfindingSystem.worldToGrid(this.entity.x, this.entity.y);
+
+    const threatMoved =
+      !this.pathGoal || this.pathGoal.x !== threat.x || this.pathGoal.y !== threat.y;
+    if (this.pathPurpose !== "retreat" || threatMoved || !this.isPathUsable(current)) {
+      this.path =
+        pathfindingSystem.findFleePath(scene, current, threat, this.fleeSearchSteps, {
+          ignore: this.entity,
+        }) || [];
+      this.pathGoal = threat;
+      this.pathPurpose = "retreat";
+    }
+
+    return this.takePathStep(current, threat);
+  }
+
+  /**
+   * A cached path is usable while its next tile is adjacent and free
+   */
+  private isPathUsable(current: GridPoint): boolean {
+    const next = this.path[0];
+    if (!next) return false;
+    if (Math.abs(next.x - current.x) + Math.abs(next.y - current.y) !== 1) return false;
+
+    return pathfindingSystem.isWalkable(this.entity.scene as GameScene, next, this.entity);
+  }
+
+  /**
+   * Pop the next path tile as a direction, never stepping onto the avoided tile (the player)
+   */
+  private takePathStep(
+    current: GridPoint,
+    avoid: GridPoint | null
+  ): { dx: number; dy: number } | null {
+    const next = this.path[0];
+    if (!next || Math.abs(next.x - current.x) + Math.abs(next.y - current.y) !== 1) return null;
+    if (avoid && next.x === avoid.x && next.y === avoid.y) return null;
+
+    this.path.shift();
+    return { dx: next.x - current.x, dy: next.y - current.y };
+  }
+
+  private isAdjacentTo(target: GridPoint): boolean {
+    const current = pathfindingSystem.worldToGrid(this.entity.x, this.entity.y);
+    return Math.abs(target.x - current.x) + Math.abs(target.y - current.y) <= 1;
+  }
+
+  private clearPath(): void {
+    this.path = [];
+    this.pathGoal = null;
+    this.pathPurpose = null;
+  }
+
+  /**
+   * Walk back to the spawn position along a path
+   */
+  returnHome(): void {
+    this.returningHome = true;
+    this.clearPath();
+
+    if (!this.moveInProgress) {
+      this.continueReturningHome();
+    }
+  }
+
+  private continueReturningHome(): void {
+    try {
+      if (!this.entity || !this.entity.scene || !this.entity.active || this.monster.isDead) {
+        return;
+      }
+
+      const home = pathfindingSystem.worldToGrid(this.initialPosition.x, this.initialPosition.y);
+      const step = this.getPathStep(home, "home");
+
+      if (!step) {
+        // Home reached, or no way back this frame
+        this.returningHome = false;
+        this.clearPath();
+        this.monster.playAnimation(this.facing, false);
+
+        eventBus.emit("monster.returnedHome", { entityId: this.entity.id });
+        return;
+      }
+
+      const currentTiledTile = this.worldToTiledTile(this.entity.x, this.entity.y);
+      this.moveToTileWithPursuit(currentTiledTile.x + step.dx, currentTiledTile.y + step.dy);
+    } catch (error) {
+      console.error(`Error in monster ${this.entity.id} continueReturningHome:`, error);
+      this.returningHome = false;
+      eventBus.emit("error.monster.returnHome", {
+        entityId: this.entity.id,
+        error,
+      });
+    }
+  }
+
   private calculateMovementDirection(
     monsterTile: { x: number; y: number },
     diffX: number,
@@ -525,10 +767,11 @@ export class MonsterMovementComponent extends MovementComponent {
 
       // Check if player is too far to maintain aggro
       if (distance > this.loseAggroRange) {
-        // Lost aggro, return to wandering behavior
+        // Lost aggro, walk home and return to wandering behavior
         this.isProvoked = false;
         this.setAggression(false);
         this.setupWanderingBehavior();
+        this.returnHome();
 
         // Emit lost aggro event
         eventBus.emit("monster.lostAggro", {
@@ -537,6 +780,29 @@ export class MonsterMovementComponent extends MovementComponent {
         return;
       }
 
+      // Badly hurt monsters run regardless of attack type
+      if (this.shouldRunAway()) {
+        const move = this.calculateNextMove(false);
+        if (!move) {
+          this.facePlayer();
+          return;
+        }
+
+        const currentTiledTile = this.worldToTiledTile(this.entity.x, this.entity.y);
+        this.moveToTileWithPursuit(
+          currentTiledTile.x + move.dx,
+          currentTiledTile.y + move.dy,
+          true
+        );
+
+        // Emit retreating event
+        eventBus.emit("monster.retreating", {
+          entityId: this.entity.id,
+          attackType: attackType,
+        });
+        return;
+      }
+
       // Different behavior based on attack type
       if (attackType === MonsterAttackType.Melee) {
         // Melee monsters always chase aggressively
@@ -572,8 +838,10 @@ export class MonsterMovementComponent extends MovementComponent {
         if (now - this.lastDecisionTime < 250) return; // Only 250ms between decisions
         this.lastDecisionTime = now;
 
+        const preferredDistance = this.getPreferredDistance();
+
         // If too close to player, retreat
-        if (distance < this.preferredDistance * 0.8) {
+        if (distance < preferredDistance * 0.8) {
           const move = this.calculateNextMove(false);
           if (!move) {
             this.facePlayer();
@@ -594,7 +862,7 @@ export class MonsterMovementComponent extends MovementComponent {
           });
         }
         // If too far from player, chase aggressively
-        else if (distance > this.preferredDistance * 1.2) {
+        else if (distance > preferredDistance * 1.2) {
           const move = this.calculateNextMove(true);
           if (!move) {
             this.facePlayer();
@@ -635,20 +903,25 @@ export class MonsterMovementComponent extends MovementComponent {
     }
   }
 
+  /**
+   * Turn towards whoever the monster is fighting
+   */
   facePlayer(): void {
+    const target = this.monster.getCombatTarget();
+    if (target) {
+      this.faceTarget(target);
+    }
+  }
+
+  faceTarget(target: Character): void {
     try {
       // FIXED: Add validation check
       if (!this.entity || !this.entity.scene || !this.entity.active || this.monster.isDead) {
         return;
       }
 
-      const gameScene = this.entity.scene as any;
-      if (!gameScene || !gameScene.playerCharacter) return;
-
-      const player = gameScene.playerCharacter;
-
-      const dx = player.x - this.entity.x;
-      const dy = player.y - this.entity.y;
+      const dx = target.x - this.entity.x;
+      const dy = target.y - this.entity.y;
 
       let direction;
       if (Math.abs(dx) > Math.abs(dy)) {
@@ -665,7 +938,7 @@ export class MonsterMovementComponent extends MovementComponent {
         direction: direction,
       });
     } catch (error) {
-      console.error(`Error in monster ${this.entity.id} facePlayer:`, error);
+      console.error(`Error in monster ${this.entity.id} faceTarget:`, error);
       eventBus.emit("error.monster.face", {
         entityId: this.entity.id,
         error,
@@ -675,7 +948,14 @@ export class MonsterMovementComponent extends MovementComponent {
 
   private wander(): void {
     try {
-      if (this.monster.isDead || this.isAggressive || this.isProvoked || this.moveInProgress) {
+      if (
+        this.monster.isDead ||
+        this.isAggressive ||
+        this.isProvoked ||
+        this.moveInProgress ||
+        this.returningHome ||
+        this.followingFormation
+      ) {
         return;
       }
 
@@ -733,7 +1013,11 @@ export class MonsterMovementComponent extends MovementComponent {
       dy = 0;
 
     if (distFromInitial > this.wanderRange / this.tileSize) {
-      // Return to initial position
+      // Return to initial position around any walls in the way
+      const home = pathfindingSystem.worldToGrid(this.initialPosition.x, this.initialPosition.y);
+      const step = this.getPathStep(home, "home");
+      if (step) return step;
+
       if (currentTile.x < initialTile.x) dx = 1;
       else if (currentTile.x > initialTile.x) dx = -1;
       else if (currentTile.y < initialTile.y) dy = 1;
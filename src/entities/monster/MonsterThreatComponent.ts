@@ -0,0 +1,200 @@
+import { Component } from "../Component";
+import { Monster } from "../Monster";
+import { Character } from "../Character";
+import { eventBus } from "@/utils/EventBus";
+import { THREAT } from "@/services/ThreatSystem";
+
+interface ThreatEntry {
+  source: Character;
+  threat: number;
+}
+
+/**
+ * Per-monster threat table. Damage, healing and taunts add threat, it decays over
+ * time, and the entry on top is who the monster fights.
+ */
+export class MonsterThreatComponent extends Component {
+  private table: Map<string, ThreatEntry> = new Map();
+  private currentTarget: Character | null = null;
+  private tauntedBy: Character | null = null;
+  private tauntExpiresAt: number = 0;
+  private lastDecayTime: number = 0;
+
+  constructor(entity: Monster) {
+    super(entity);
+  }
+
+  get monster(): Monster {
+    return this.entity as Monster;
+  }
+
+  /**
+   * Add threat from a source, putting it on the table if needed
+   */
+  addThreat(source: Character, amount: number): void {
+    if (!source || amount <= 0 || source === this.entity) return;
+
+    const entry = this.table.get(source.id);
+    if (entry) {
+      entry.threat += amount;
+    } else {
+      this.table.set(source.id, { source, threat: amount });
+    }
+
+    this.updateTarget();
+  }
+
+  /**
+   * Add threat to a source that is already on the table
+   * @returns false if the source has no threat on this monster
+   */
+  raiseThreat(sourceId: string, amount: number): boolean {
+    const entry = this.table.get(sourceId);
+    if (!entry || amount <= 0) return false;
+
+    entry.threat += amount;
+    this.updateTarget();
+    return true;
+  }
+
+  /**
+   * Force the monster onto a source: it jumps to the top of the table and is held
+   * there for the taunt duration
+   */
+  taunt(source: Character): void {
+    if (!source || source === this.entity) return;
+
+    const top = this.getTopEntry();
+    const threat = Math.max(top?.threat || 0, THREAT.MINIMUM) * THREAT.SWITCH_THRESHOLD;
+    const entry = this.table.get(source.id);
+
+    if (entry) {
+      entry.threat = Math.max(entry.threat, threat);
+    } else {
+      this.table.set(source.id, { source, threat });
+    }
+
+    this.tauntedBy = source;
+    this.tauntExpiresAt = Date.now() + THREAT.TAUNT_DURATION;
+    this.updateTarget();
+
+    eventBus.emit("monster.taunted", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      sourceId: source.id,
+    });
+  }
+
+  getThreat(source: Character): number {
+    return this.table.get(source.id)?.threat || 0;
+  }
+
+  hasThreat(sourceId?: string): boolean {
+    return sourceId ? this.table.has(sourceId) : this.table.size > 0;
+  }
+
+  /**
+   * Who the monster should be fighting, null while the table is empty
+   */
+  getTarget(): Character | null {
+    return this.currentTarget;
+  }
+
+  /**
+   * Threat entries from highest to lowest, for UI and debugging
+   */
+  getEntries(): Array<{ sourceId: string; threat: number }> {
+    return Array.from(this.table.values())
+      .sort((a, b) => b.threat - a.threat)
+      .map((entry) => ({ sourceId: entry.source.id, threat: Math.floor(entry.threat) }));
+  }
+
+  /**
+   * Wipe the table, e.g. when the monster leashes back to its spawn
+   */
+  clear(): void {
+    this.table.clear();
+    this.tauntedBy = null;
+    this.tauntExpiresAt = 0;
+    this.setTarget(null);
+  }
+
+  update(time: number): void {
+    try {
+      if (!this.isEnabled || this.monster.isDead || this.table.size === 0) return;
+
+      if (time - this.lastDecayTime < THREAT.DECAY_INTERVAL) return;
+      this.lastDecayTime = time;
+
+      const decay = 1 - THREAT.DECAY_PERCENT / 100;
+      this.table.forEach((entry, id) => {
+        entry.threat *= decay;
+
+        // Sources that died, left or cooled off fall off the table
+        if (!entry.source.active || entry.source.isDead || entry.threat < THREAT.MINIMUM) {
+          this.table.delete(id);
+        }
+      });
+
+      this.updateTarget();
+    } catch (error) {
+      console.error(`Error in MonsterThreatComponent update for ${this.entity.id}:`, error);
+      eventBus.emit("error.monster.threat.update", {
+        id: this.entity.id,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Re-pick the target. The current target keeps aggro until someone beats its threat
+   * by the switch threshold, so pulls stay predictable.
+   */
+  private updateTarget(): void {
+    if (this.tauntedBy && Date.now() < this.tauntExpiresAt && this.table.has(this.tauntedBy.id)) {
+      this.setTarget(this.tauntedBy);
+      return;
+    }
+    this.tauntedBy = null;
+
+    const top = this.getTopEntry();
+    if (!top) {
+      this.setTarget(null);
+      return;
+    }
+
+    const current = this.currentTarget ? this.table.get(this.currentTarget.id) : undefined;
+    if (current && top.threat < current.threat * THREAT.SWITCH_THRESHOLD) return;
+
+    this.setTarget(top.source);
+  }
+
+  private getTopEntry(): ThreatEntry | null {
+    let top: ThreatEntry | null = null;
+    this.table.forEach((entry) => {
+      if (!top || entry.threat > top.threat) top = entry;
+    });
+    return top;
+  }
+
+  private setTarget(target: Character | null): void {
+    if (this.currentTarget === target) return;
+
+    const previous = this.currentTarget;
+    this.currentTarget = target;
+
+    eventBus.emit("monster.threat.targetChanged", {
+      id: this.entity.id,
+      type: this.monster.monsterType,
+      targetId: target?.id || null,
+      previousTargetId: previous?.id || null,
+    });
+  }
+
+  destroy(): void {
+    this.table.clear();
+    this.currentTarget = null;
+    this.tauntedBy = null;
+    super.destroy();
+  }
+}
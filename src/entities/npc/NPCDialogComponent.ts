@@ -2,17 +2,20 @@ import { Component } from "../Component";
 import { NPC } from "../NPC";
 import { eventBus } from "@/utils/EventBus";
 import { useGameStore } from "@/stores/gameStore";
+import { DialogService } from "@/services/DialogService";
+import { DialogNode, DialogOption, DialogTree } from "@/types";
 
 export class NPCDialogComponent extends Component {
-  private dialogLines: string[] = [];
-  private currentLineIndex: number = 0;
+  private dialogTree: DialogTree;
+  private currentNode: DialogNode | null = null;
+  private currentOptions: DialogOption[] = [];
   private dialogContainer: HTMLElement | null = null;
   private isDialogActive: boolean = false;
   private keyPressListener: ((event: KeyboardEvent) => void) | null = null;
 
-  constructor(entity: NPC, dialogLines: string[] = []) {
+  constructor(entity: NPC, dialog: string[] | DialogTree = []) {
     super(entity);
-    this.dialogLines = dialogLines.length > 0 ? dialogLines : ["Hello, adventurer!"];
+    this.dialogTree = Array.isArray(dialog) ? this.createLinearTree(dialog) : dialog;
   }
 
   get npc(): NPC {
@@ -80,6 +83,16 @@ export class NPCDialogComponent extends Component {
       const textContainer = document.createElement("div");
       textContainer.className = "npc-dialog-text";
 
+      // Create list for the player's replies
+      const optionsContainer = document.createElement("div");
+      optionsContainer.className = "npc-dialog-options";
+      Object.assign(optionsContainer.style, {
+        display: "flex",
+        flexDirection: "column",
+        gap: "6px",
+        marginTop: "12px",
+      });
+
       // Create instruction text
       const instruction = document.createElement("div");
       instruction.className = "npc-dialog-instruction";
@@ -94,6 +107,7 @@ export class NPCDialogComponent extends Component {
       // Add all elements to the dialog container
       this.dialogContainer.appendChild(nameContainer);
       this.dialogContainer.appendChild(textContainer);
+      this.dialogContainer.appendChild(optionsContainer);
       this.dialogContainer.appendChild(instruction);
 
       // Add to document body
@@ -117,19 +131,10 @@ export class NPCDialogComponent extends Component {
         this.createDialogElements();
       }
 
-      // Reset to first line
-      this.currentLineIndex = 0;
-
       // Show the dialog
       if (this.dialogContainer) {
         this.dialogContainer.style.display = "block";
 
-        // Update the text
-        const textElement = this.dialogContainer.querySelector(".npc-dialog-text");
-        if (textElement) {
-          textElement.textContent = this.dialogLines[this.currentLineIndex];
-        }
-
         // Set dialog as active
         this.isDialogActive = true;
 
@@ -141,12 +146,14 @@ export class NPCDialogComponent extends Component {
         document.addEventListener("keydown", this.keyPressListener);
 
         // Emit dialog started event
+        const entryNodeId = DialogService.getEntryNodeId(this.dialogTree);
         eventBus.emit("npc.dialog.started", {
           npcId: this.npc.id,
           npcName: this.npc.npcName,
-          dialog: this.dialogLines,
-          currentLine: this.currentLineIndex,
+          nodeId: entryNodeId,
         });
+
+        this.showNode(entryNodeId);
       }
     } catch (error) {
       console.error("Error in NPCDialogComponent.startDialog:", error);
@@ -166,6 +173,13 @@ export class NPCDialogComponent extends Component {
         this.advanceDialog();
       }
 
+      // Number keys pick a reply
+      const optionIndex = parseInt(event.key, 10) - 1;
+      if (optionIndex >= 0 && optionIndex < this.currentOptions.length) {
+        event.preventDefault();
+        this.selectOption(optionIndex);
+      }
+
       // Allow Escape key to close dialog
       if (event.code === "Escape" || event.key === "Escape") {
         event.preventDefault();
@@ -181,34 +195,37 @@ export class NPCDialogComponent extends Component {
     }
   }
 
-  private advanceDialog(): void {
+  /**
+   * Show a dialog node, running its actions and listing the replies the player can pick
+   */
+  private showNode(nodeId: string | undefined): void {
     try {
-      // Move to next line
-      this.currentLineIndex++;
-
-      // Check if we've reached the end
-      if (this.currentLineIndex >= this.dialogLines.length) {
+      const node = nodeId ? this.dialogTree.nodes[nodeId] : undefined;
+      if (!node) {
         this.closeDialog();
         return;
       }
 
-      // Update the text
-      if (this.dialogContainer) {
-        const textElement = this.dialogContainer.querySelector(".npc-dialog-text");
-        if (textElement) {
-          textElement.textContent = this.dialogLines[this.currentLineIndex];
-        }
+      this.currentNode = node;
+
+      if (!DialogService.executeActions(node.actions, { npcId: this.npc.id })) {
+        this.closeDialog();
+        return;
       }
 
+      this.currentOptions = DialogService.getAvailableOptions(node);
+      this.renderNode(node);
+
       // Emit dialog advanced event
       eventBus.emit("npc.dialog.advanced", {
         npcId: this.npc.id,
         npcName: this.npc.npcName,
-        currentLine: this.currentLineIndex,
-        text: this.dialogLines[this.currentLineIndex],
+        nodeId: node.id,
+        text: node.text,
+        options: this.currentOptions.map((option) => option.text),
       });
     } catch (error) {
-      console.error("Error in NPCDialogComponent.advanceDialog:", error);
+      console.error("Error in NPCDialogComponent.showNode:", error);
       eventBus.emit("error.dialog.advance", {
         entityId: this.entity.id,
         npcId: this.npc.id,
@@ -217,6 +234,91 @@ export class NPCDialogComponent extends Component {
     }
   }
 
+  private renderNode(node: DialogNode): void {
+    if (!this.dialogContainer) return;
+
+    const textElement = this.dialogContainer.querySelector(".npc-dialog-text");
+    if (textElement) {
+      textElement.textContent = node.text;
+    }
+
+    const optionsElement = this.dialogContainer.querySelector(".npc-dialog-options");
+    if (optionsElement) {
+      optionsElement.replaceChildren(
+        ...this.currentOptions.map((option, index) => this.createOptionElement(option, index))
+      );
+    }
+
+    const instruction = this.dialogContainer.querySelector(".npc-dialog-instruction");
+    if (instruction) {
+      instruction.textContent =
+        this.currentOptions.length > 0
+          ? "Press a number or click a reply"
+          : "Press Space to continue";
+    }
+  }
+
+  private createOptionElement(option: DialogOption, index: number): HTMLElement {
+    const optionElement = document.createElement("div");
+    optionElement.className = "npc-dialog-option";
+    optionElement.textContent = `${index + 1}. ${option.text}`;
+    Object.assign(optionElement.style, {
+      color: "#e8d5a9",
+      cursor: "pointer",
+      padding: "4px 8px",
+      border: "1px solid #664f33",
+      borderRadius: "3px",
+    });
+
+    optionElement.addEventListener("mouseenter", () => {
+      optionElement.style.backgroundColor = "rgba(102, 79, 51, 0.5)";
+    });
+    optionElement.addEventListener("mouseleave", () => {
+      optionElement.style.backgroundColor = "";
+    });
+    optionElement.addEventListener("click", (event) => {
+      event.stopPropagation();
+      this.selectOption(index);
+    });
+
+    return optionElement;
+  }
+
+  private selectOption(index: number): void {
+    try {
+      const option = this.currentOptions[index];
+      if (!option || !this.currentNode) return;
+
+      eventBus.emit("npc.dialog.option.selected", {
+        npcId: this.npc.id,
+        nodeId: this.currentNode.id,
+        text: option.text,
+        next: option.next,
+      });
+
+      if (!DialogService.executeActions(option.actions, { npcId: this.npc.id })) {
+        this.closeDialog();
+        return;
+      }
+
+      this.showNode(option.next);
+    } catch (error) {
+      console.error("Error in NPCDialogComponent.selectOption:", error);
+      eventBus.emit("error.dialog.option", {
+        entityId: this.entity.id,
+        npcId: this.npc.id,
+        error,
+      });
+    }
+  }
+
+  private advanceDialog(): void {
+    // Nodes with replies wait for the player to pick one
+    if (!this.currentNode || this.currentOptions.length > 0) return;
+
+    this.showNode(this.currentNode.next);
+  }
+
   closeDialog(): void {
     try {
       // Hide the dialog
@@ -226,6 +328,8 @@ export class NPCDialogComponent extends Component {
 
       // Set dialog as inactive
       this.isDialogActive = false;
+      this.currentNode = null;
+      this.currentOptions = [];
 
       // Release input focus
       useGameStore.getState().setInputFocused(false);
@@ -253,29 +357,27 @@ export class NPCDialogComponent extends Component {
 
   setDialogLines(dialogLines: string[]): void {
     if (dialogLines.length > 0) {
-      this.dialogLines = dialogLines;
-
-      // Emit dialog updated event
-      eventBus.emit("npc.dialog.updated", {
-        npcId: this.npc.id,
-        npcName: this.npc.npcName,
-        dialog: this.dialogLines,
-      });
+      this.setDialogTree(this.createLinearTree(dialogLines));
     }
   }
 
-  addDialogLine(line: string): void {
-    this.dialogLines.push(line);
+  setDialogTree(dialogTree: DialogTree): void {
+    this.dialogTree = dialogTree;
 
-    // Emit dialog line added event
-    eventBus.emit("npc.dialog.lineAdded", {
+    // Emit dialog updated event
+    eventBus.emit("npc.dialog.updated", {
       npcId: this.npc.id,
       npcName: this.npc.npcName,
-      line: line,
-      totalLines: this.dialogLines.length,
+      dialog: this.dialogTree,
     });
   }
 
+  private createLinearTree(dialogLines: string[]): DialogTree {
+    return DialogService.createLinearTree(
+      dialogLines.length > 0 ? dialogLines : ["Hello, adventurer!"]
+    );
+  }
+
   isActive(): boolean {
     return this.isDialogActive;
   }
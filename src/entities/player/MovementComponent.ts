@@ -1,18 +1,40 @@
 import { Component } from "../Component";
 import { Character } from "../Character";
+import { PlayerCharacter } from "../PlayerCharacter";
 import { eventBus } from "@/utils/EventBus";
 import { useGameStore } from "@/stores/gameStore";
+import { StatusEffectComponent } from "../StatusEffectComponent";
+import { GridPoint, pathfindingSystem } from "@/services/PathfindingSystem";
 
 interface Scene extends Phaser.Scene {
   collisionLayer?: Phaser.Tilemaps.TilemapLayer;
   monsters?: Phaser.GameObjects.Group;
 }
 
+/**
+ * Options for a click-to-walk path
+ */
+export interface WalkPathOptions {
+  // Stop on the tile next to the destination instead of on it (NPCs, chests, corpses)
+  stopAdjacent?: boolean;
+  // Called once the destination is reached
+  onArrive?: () => void;
+}
+
 export class MovementComponent extends Component {
   tileSize: number = 32;
   facing: string = "down";
   isMoving: boolean = false;
-  private moveSpeed: number = 250; // Default base move speed
+  protected moveSpeed: number = 250; // Default base move speed
+
+  // Click-to-walk state
+  private walkQueue: GridPoint[] = [];
+  private walkDestination: GridPoint | null = null;
+  private walkOptions: WalkPathOptions = {};
+  private walkMarker: Phaser.GameObjects.Rectangle | null = null;
+  private walkRepathsLeft: number = 0;
+  private readonly maxWalkRepaths: number = 3;
+  private readonly walkSearchNodes: number = 2500; // Player clicks are rare, search further than monsters
 
   constructor(entity: Character) {
     super(entity);
@@ -66,13 +88,36 @@ export class MovementComponent extends Component {
     return this.moveSpeed;
   }
 
+  /**
+   * Move speed after status effects such as slows are applied
+   */
+  getEffectiveMoveSpeed(): number {
+    return this.getMoveSpeed() * this.getStatusSpeedMultiplier();
+  }
+
+  /**
+   * Speed multiplier from the entity's status effects (1 = unaffected)
+   */
+  protected getStatusSpeedMultiplier(): number {
+    const statusEffects = this.entity.components.get<StatusEffectComponent>("statusEffects");
+    return statusEffects ? statusEffects.getSpeedMultiplier() : 1;
+  }
+
+  /**
+   * Whether a status effect currently prevents the entity from moving
+   */
+  isMovementImpaired(): boolean {
+    const statusEffects = this.entity.components.get<StatusEffectComponent>("statusEffects");
+    return statusEffects ? statusEffects.isStunned() : false;
+  }
+
   /**
    * Move to position - CORRECT SIGNATURE (3 parameters as expected by PlayerInputComponent)
    */
   moveToPosition(x: number, y: number, time: number): void {
     try {
-      // Don't start a new movement if we're already moving
-      if (this.isMoving) return;
+      // Don't start a new movement if we're already moving or stunned
+      if (this.isMoving || this.isMovementImpaired()) return;
 
       this.isMoving = true;
 
@@ -87,7 +132,7 @@ export class MovementComponent extends Component {
       // FIXED: Convert move speed to duration (higher speed = lower duration = faster movement)
       const baseDuration = 400; // Base time to move one tile (400ms)
       const baseMoveSpeed = 250; // Base move speed
-      const duration = baseDuration * (baseMoveSpeed / this.moveSpeed);
+      const duration = baseDuration * (baseMoveSpeed / this.getEffectiveMoveSpeed());
 
       // Use tweening for smooth movement
       this.entity.scene.tweens.add({
@@ -235,7 +280,7 @@ export class MovementComponent extends Component {
     const targetY = tileY * this.tileSize + this.tileSize / 2;
 
     return new Promise((resolve) => {
-      if (this.isMoving) {
+      if (this.isMoving || this.isMovementImpaired()) {
         resolve();
         return;
       }
@@ -252,7 +297,7 @@ export class MovementComponent extends Component {
       // FIXED: Convert move speed to duration (higher speed = faster movement)
       const baseDuration = 400; // Base time to move one tile
       const baseMoveSpeed = 250; // Base move speed
-      const duration = baseDuration * (baseMoveSpeed / this.moveSpeed);
+      const duration = baseDuration * (baseMoveSpeed / this.getEffectiveMoveSpeed());
 
       this.isMoving = true;
 
@@ -271,6 +316,207 @@ export class MovementComponent extends Component {
     });
   }
 
+  // ============================================================================
+  // CLICK-TO-WALK
+  // ============================================================================
+
+  /**
+   * Plan a path over the collision layer and start walking it tile by tile
+   * @returns false if there is no way to the destination
+   */
+  walkPath(destination: GridPoint, options: WalkPathOptions = {}): boolean {
+    try {
+      this.cancelWalkPath();
+
+      if (!this.planWalkPath(destination, options.stopAdjacent)) {
+        eventBus.emit("ui.message.show", "There is no way.");
+        return false;
+      }
+
+      this.walkDestination = destination;
+      this.walkOptions = options;
+      this.walkRepathsLeft = this.maxWalkRepaths;
+      this.showWalkMarker(destination);
+
+      eventBus.emit("player.walk.started", {
+        entityId: this.entity.id,
+        destination,
+        steps: this.walkQueue.length,
+      });
+      return true;
+    } catch (error) {
+      console.error("Error in MovementComponent.walkPath:", error);
+      eventBus.emit("error.movement.walk", {
+        entityId: this.entity.id,
+        destination,
+        error,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Take the next step of the walk path, called each frame while a path is active
+   */
+  followWalkPath(time: number): void {
+    try {
+      if (!this.walkDestination || this.isMoving || this.isMovementImpaired()) return;
+
+      if (this.character.isDead) {
+        this.cancelWalkPath();
+        return;
+      }
+
+      const current = pathfindingSystem.worldToGrid(this.entity.x, this.entity.y);
+
+      if (this.walkQueue.length === 0) {
+        this.finishWalkPath(current);
+        return;
+      }
+
+      // Re-plan when the next tile is no longer adjacent or something stepped onto it
+      let next = this.walkQueue[0];
+      const nextX = next.x * this.tileSize + this.tileSize / 2;
+      const nextY = next.y * this.tileSize + this.tileSize / 2;
+      const adjacent = Math.abs(next.x - current.x) + Math.abs(next.y - current.y) === 1;
+
+      if (!adjacent || !this.isValidMove(this.entity.scene, nextX, nextY)) {
+        if (this.walkRepathsLeft <= 0 || !this.replanWalkPath()) {
+          eventBus.emit("ui.message.show", "There is no way.");
+          this.cancelWalkPath();
+          return;
+        }
+
+        // The new plan may already have us at the destination
+        if (this.walkQueue.length === 0) return;
+        next = this.walkQueue[0];
+      }
+
+      this.walkQueue.shift();
+
+      const direction = { dx: next.x - current.x, dy: next.y - current.y };
+      this.updateFacing(direction);
+      if (this.entity instanceof PlayerCharacter) {
+        this.entity.playAnimation(this.facing, true);
+      }
+
+      this.moveToPosition(
+        next.x * this.tileSize + this.tileSize / 2,
+        next.y * this.tileSize + this.tileSize / 2,
+        time
+      );
+    } catch (error) {
+      console.error("Error in MovementComponent.followWalkPath:", error);
+      this.cancelWalkPath();
+      eventBus.emit("error.movement.walk", {
+        entityId: this.entity.id,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Drop the walk path and its marker, the current step still finishes
+   */
+  cancelWalkPath(): void {
+    const wasWalking = this.walkDestination !== null;
+
+    this.walkQueue = [];
+    this.walkDestination = null;
+    this.walkOptions = {};
+    this.clearWalkMarker();
+
+    if (wasWalking) {
+      eventBus.emit("player.walk.cancelled", { entityId: this.entity.id });
+    }
+  }
+
+  /**
+   * Whether a click-to-walk path is being followed
+   */
+  hasWalkPath(): boolean {
+    return this.walkDestination !== null;
+  }
+
+  private planWalkPath(destination: GridPoint, stopAdjacent: boolean = false): boolean {
+    const current = pathfindingSystem.worldToGrid(this.entity.x, this.entity.y);
+    const distance = Math.abs(destination.x - current.x) + Math.abs(destination.y - current.y);
+
+    if (distance === 0 || (stopAdjacent && distance === 1)) {
+      this.walkQueue = [];
+      return true;
+    }
+
+    const path = pathfindingSystem.findPath(this.entity.scene as Scene, current, destination, {
+      ignore: this.entity,
+      maxNodes: this.walkSearchNodes,
+      // Monsters chasing can use up the frame budget, a valid click must still find its path
+      bypassBudget: true,
+    });
+
+    // Partial paths lead somewhere else, the destination is unreachable
+    const last = path?.[path.length - 1];
+    if (!path || !last || last.x !== destination.x || last.y !== destination.y) return false;
+
+    if (stopAdjacent) path.pop();
+    this.walkQueue = path;
+    return true;
+  }
+
+  private replanWalkPath(): boolean {
+    if (!this.walkDestination) return false;
+
+    this.walkRepathsLeft--;
+    return this.planWalkPath(this.walkDestination, this.walkOptions.stopAdjacent);
+  }
+
+  private finishWalkPath(current: GridPoint): void {
+    const destination = this.walkDestination!;
+    const onArrive = this.walkOptions.onArrive;
+    const distance = Math.abs(destination.x - current.x) + Math.abs(destination.y - current.y);
+    const arrived = this.walkOptions.stopAdjacent ? distance <= 1 : distance === 0;
+
+    this.walkQueue = [];
+    this.walkDestination = null;
+    this.walkOptions = {};
+    this.clearWalkMarker();
+
+    if (!arrived) return;
+
+    eventBus.emit("player.walk.arrived", {
+      entityId: this.entity.id,
+      destination,
+    });
+    onArrive?.();
+  }
+
+  private showWalkMarker(destination: GridPoint): void {
+    this.walkMarker = this.entity.scene.add.rectangle(
+      destination.x * this.tileSize + this.tileSize / 2,
+      destination.y * this.tileSize + this.tileSize / 2,
+      this.tileSize - 4,
+      this.tileSize - 4
+    );
+    this.walkMarker.setStrokeStyle(2, 0xffff00, 0.9);
+    this.walkMarker.setDepth(1);
+
+    this.entity.scene.tweens.add({
+      targets: this.walkMarker,
+      alpha: 0.3,
+      duration: 500,
+      yoyo: true,
+      repeat: -1,
+    });
+  }
+
+  private clearWalkMarker(): void {
+    if (!this.walkMarker) return;
+
+    this.entity.scene?.tweens.killTweensOf(this.walkMarker);
+    this.walkMarker.destroy();
+    this.walkMarker = null;
+  }
+
   /**
    * Stop current movement
    */
@@ -304,6 +550,7 @@ export class MovementComponent extends Component {
 
       // Stop any ongoing movement
       this.stopMovement();
+      this.cancelWalkPath();
 
       super.destroy();
     } catch (error) {
@@ -1,11 +1,18 @@
 // src/entities/player/PlayerInputComponent.ts
 import { Component } from "../Component";
 import { Character } from "../Character";
-import { MovementComponent } from "./MovementComponent";
+import { MovementComponent, WalkPathOptions } from "./MovementComponent";
+import { PlayerItemInteractionComponent } from "./PlayerItemInteractionComponent";
+import { NPC } from "../NPC";
+import { Item } from "../Item";
 import { eventBus } from "@/utils/EventBus";
 import { useGameStore } from "@/stores/gameStore";
 import { autoAttackSystem } from "@/services/AutoAttackSystem";
 import { MapService } from "@/services/MapService";
+import { ConsumableService } from "@/services/ConsumableService";
+import { respawnSystem } from "@/services/RespawnSystem";
+import { pathfindingSystem } from "@/services/PathfindingSystem";
+import { ItemCategory } from "@/types";
 
 export class PlayerInputComponent extends Component {
   private cursors: Phaser.Types.Input.Keyboard.CursorKeys | null = null;
@@ -21,6 +28,7 @@ export class PlayerInputComponent extends Component {
 
   constructor(entity: Character) {
     super(entity);
+    this.handleMapChanged = this.handleMapChanged.bind(this);
   }
 
   initialize(): void {
@@ -46,9 +54,15 @@ export class PlayerInputComponent extends Component {
       // Setup item pickup handler
       keyboard.on("keydown-E", this.handleItemPickup, this);
 
+      // Eat the first food in the inventory
+      keyboard.on("keydown-F", this.handleEatFood, this);
+
       // Setup monster targeting with mouse
       this.setupLeftClick();
 
+      // A path planned on the old map means nothing on the new one
+      eventBus.on("map.changed", this.handleMapChanged);
+
       // Emit input initialized event
       eventBus.emit("player.input.initialized", {
         entityId: this.entity.id,
@@ -86,17 +100,50 @@ export class PlayerInputComponent extends Component {
           return;
         }
 
+        // Check for a corpse to recover items from
+        if (this.checkCorpseClick(worldPoint)) return;
+
         // Check for chest interaction using tile-based system
         if (this.checkChestClick(worldPoint)) return;
 
-        // Nothing was clicked - clear target
+        // NPCs handle clicks in range themselves, out of range we walk up to them
+        if (this.checkNpcClick(worldPoint)) return;
+
+        // Check for an item on the ground to walk to and pick up
+        if (this.checkItemClick(worldPoint)) return;
+
+        // Nothing was clicked - clear target and walk to the clicked tile
         autoAttackSystem.clearTarget();
+        this.walkTo(worldPoint.x, worldPoint.y);
       });
     } catch (error) {
       console.error("Error setting up interaction system:", error);
     }
   }
 
+  private checkCorpseClick(worldPoint: Phaser.Math.Vector2): boolean {
+    try {
+      const corpse = respawnSystem.getCorpseAt(worldPoint.x, worldPoint.y);
+      if (!corpse) return false;
+
+      const distanceInTiles =
+        Phaser.Math.Distance.Between(this.entity.x, this.entity.y, corpse.x, corpse.y) / 32;
+      if (distanceInTiles > 1.5) {
+        this.walkTo(corpse.x, corpse.y, {
+          stopAdjacent: true,
+          onArrive: () => respawnSystem.lootCorpse(corpse.id),
+        });
+        return true;
+      }
+
+      respawnSystem.lootCorpse(corpse.id);
+      return true;
+    } catch (error) {
+      console.error("Error checking for corpse click:", error);
+      return false;
+    }
+  }
+
   // UPDATED: New tile-based chest interaction system
   private checkChestClick(worldPoint: Phaser.Math.Vector2): boolean {
     try {
@@ -147,9 +194,13 @@ export class PlayerInputComponent extends Component {
         return false; // No chest found
       }
 
-      // Check if player is close enough to the chest
+      // Walk up to the chest first if the player is too far away
       if (!this.isPlayerCloseToTile(clickedTileX, clickedTileY)) {
-        eventBus.emit("ui.message.show", "You are too far away to open this chest");
+        const chestWorld = MapService.tiledToPhaser(currentMap, clickedTileX, clickedTileY);
+        this.walkTo(chestWorld.x, chestWorld.y, {
+          stopAdjacent: true,
+          onArrive: () => this.tryOpenChest(gameScene, chest),
+        });
         return true;
       }
 
@@ -209,6 +260,72 @@ export class PlayerInputComponent extends Component {
     }
   }
 
+  private checkNpcClick(worldPoint: Phaser.Math.Vector2): boolean {
+    try {
+      const gameScene = this.entity.scene as Phaser.Scene & { npcs?: Phaser.GameObjects.Group };
+      const npcs = (gameScene.npcs?.getChildren() || []) as NPC[];
+
+      const npc = npcs.find(
+        (candidate) =>
+          candidate.active &&
+          Phaser.Math.Distance.Between(worldPoint.x, worldPoint.y, candidate.x, candidate.y) <= 24
+      );
+      if (!npc) return false;
+
+      // In range the NPC's own click handler already opened the dialog or shop
+      const distance = Phaser.Math.Distance.Between(this.entity.x, this.entity.y, npc.x, npc.y);
+      if (distance <= npc.interactionRadius) return true;
+
+      this.walkTo(npc.x, npc.y, {
+        stopAdjacent: true,
+        onArrive: () => npc.handleClick(),
+      });
+      return true;
+    } catch (error) {
+      console.error("Error checking for NPC click:", error);
+      return false;
+    }
+  }
+
+  private checkItemClick(worldPoint: Phaser.Math.Vector2): boolean {
+    try {
+      const gameScene = this.entity.scene as Phaser.Scene & { items?: Phaser.GameObjects.Group };
+      const items = (gameScene.items?.getChildren() || []) as Item[];
+
+      const item = items.find(
+        (candidate) =>
+          candidate.active &&
+          Phaser.Math.Distance.Between(worldPoint.x, worldPoint.y, candidate.x, candidate.y) <= 16
+      );
+      if (!item) return false;
+
+      const interactionComponent =
+        this.entity.components.get<PlayerItemInteractionComponent>("interaction");
+      if (!interactionComponent) return false;
+
+      this.walkTo(item.x, item.y, {
+        onArrive: () => interactionComponent.pickupItem(item),
+      });
+      return true;
+    } catch (error) {
+      console.error("Error checking for item click:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Walk to the tile under a world position along a path
+   */
+  private walkTo(x: number, y: number, options: WalkPathOptions = {}): boolean {
+    if (!this.movementComponent) return false;
+
+    return this.movementComponent.walkPath(pathfindingSystem.worldToGrid(x, y), options);
+  }
+
+  handleMapChanged(): void {
+    this.movementComponent?.cancelWalkPath();
+  }
+
   private checkMonsterClick(worldPoint: Phaser.Math.Vector2): boolean {
     try {
       const gameScene = this.entity.scene as any;
@@ -224,8 +341,8 @@ export class PlayerInputComponent extends Component {
       let closestDistance = Number.MAX_VALUE;
 
       for (const monster of monsters) {
-        // Skip inactive monsters
-        if (!monster.active) continue;
+        // Skip inactive monsters and leashed ones walking home
+        if (!monster.active || monster.isResetting) continue;
 
         // Calculate distance to monster center
         const distance = Phaser.Math.Distance.Between(
@@ -265,6 +382,16 @@ export class PlayerInputComponent extends Component {
       // Check if input is focused in the UI
       const inputFocused = useGameStore.getState().inputFocused;
 
+      // Keyboard movement takes over from a click-to-walk path
+      if (this.movementComponent?.hasWalkPath()) {
+        if (inputFocused || !this.isMovementKeyDown()) {
+          this.movementComponent.followWalkPath(time);
+          return;
+        }
+
+        this.movementComponent.cancelWalkPath();
+      }
+
       if (!inputFocused) {
         this.handleGridMovement(time);
       }
@@ -282,6 +409,9 @@ export class PlayerInputComponent extends Component {
     try {
       if (!this.movementComponent || !this.cursors || !this.wasdKeys) return;
 
+      // Stunned players can't move or turn
+      if (this.movementComponent.isMovementImpaired()) return;
+
       const direction = this.getMovementDirection();
       if (!direction.dx && !direction.dy) return;
 
@@ -322,6 +452,18 @@ export class PlayerInputComponent extends Component {
     }
   }
 
+  private isMovementKeyDown(): boolean {
+    if (!this.cursors || !this.wasdKeys) return false;
+
+    return [
+      this.cursors.left,
+      this.cursors.right,
+      this.cursors.up,
+      this.cursors.down,
+      ...Object.values(this.wasdKeys),
+    ].some((key) => key.isDown);
+  }
+
   private getMovementDirection(): { dx: number; dy: number } {
     let dx = 0,
       dy = 0;
@@ -390,6 +532,12 @@ export class PlayerInputComponent extends Component {
     };
   }
 
+  handleEatFood(): void {
+    if (!this.isEnabled || useGameStore.getState().inputFocused) return;
+
+    ConsumableService.consumeFirstOfCategory(ItemCategory.FOOD);
+  }
+
   handleItemPickup(): void {
     try {
       const interactionComponent = this.entity.components.get("interaction");
@@ -426,10 +574,12 @@ export class PlayerInputComponent extends Component {
       // Remove keyboard listeners
       if (this.entity.scene.input.keyboard) {
         this.entity.scene.input.keyboard.off("keydown-E", this.handleItemPickup, this);
+        this.entity.scene.input.keyboard.off("keydown-F", this.handleEatFood, this);
       }
 
       // Remove pointer listeners
       this.entity.scene.input.off("pointerdown");
+      eventBus.off("map.changed", this.handleMapChanged);
 
       this.cursors = null;
       this.wasdKeys = null;
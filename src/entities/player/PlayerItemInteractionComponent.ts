@@ -146,65 +146,75 @@ export class PlayerItemInteractionComponent extends Component {
   }
 
   pickupNearbyItem(): void {
+    if (this.nearbyItems.length > 0) {
+      this.pickupItem(this.nearbyItems[0]);
+    } else {
+      eventBus.emit("ui.message.show", "Nothing to pick up nearby");
+    }
+  }
+
+  /**
+   * Pick up a specific item lying on the ground
+   */
+  pickupItem(item: Item): void {
     try {
-      if (this.nearbyItems.length > 0) {
-        const item = this.nearbyItems[0];
-        const store = useGameStore.getState();
+      if (!item.active) return;
 
-        if (typeof store.addItemInstanceToInventory !== "function") {
-          eventBus.emit("ui.message.show", "Inventory system not available");
-          return;
-        }
+      const store = useGameStore.getState();
 
-        if (item) {
-          // Check if this is a gold/currency item
-          const itemData = ItemDictionary.getItem(item.templateId);
-          const isGoldItem =
-            item.templateId === "goldCoins" || itemData?.category === ItemCategory.CURRENCY;
-
-          if (isGoldItem) {
-            // Handle gold pickup - add to player's gold count instead of inventory
-            // Use the actual quantity from the item, not a hardcoded default!
-            const goldAmount = item.quantity || 1; // Get the actual gold amount
-            const currentGold = store.playerCharacter.gold;
-
-            // Use the simpler method that just sets the new total
-            store.updatePlayerGold(currentGold + goldAmount);
-
-            // Remove the item from the world
-            this.removeNearbyItem(item);
-            item.destroy();
-
-            // Show pickup message with actual amount
-            eventBus.emit("ui.message.show", `Picked up ${goldAmount} gold`);
-            eventBus.emit("player.gold.pickup", {
-              amount: goldAmount,
-              totalGold: currentGold + goldAmount,
-            });
-          } else {
-            // Handle regular item pickup - add to inventory
-            const added = store.addItemInstanceToInventory({
-              templateId: item.templateId,
-              instanceId: item.instanceId,
-              bonusStats: item.bonusStats,
-              quantity: item.quantity, // Make sure to include quantity for stackable items
-            });
-
-            if (added) {
-              this.removeNearbyItem(item);
-              item.destroy();
-
-              eventBus.emit("ui.message.show", `Picked up ${item.name}`);
-              eventBus.emit("player.item.pickup", {
-                itemId: item.instanceId,
-                name: item.name,
-                templateId: item.templateId,
-              });
-            }
-          }
-        }
+      if (typeof store.addItemInstanceToInventory !== "function") {
+        eventBus.emit("ui.message.show", "Inventory system not available");
+        return;
+      }
+
+      // Check if this is a gold/currency item
+      const itemData = ItemDictionary.getItem(item.templateId);
+      const isGoldItem =
+        item.templateId === "goldCoins" || itemData?.category === ItemCategory.CURRENCY;
+
+      if (isGoldItem) {
+        // Handle gold pickup - add to player's gold count instead of inventory
+        // Use the actual quantity from the item, not a hardcoded default!
+        const goldAmount = item.quantity || 1; // Get the actual gold amount
+        const currentGold = store.playerCharacter.gold;
+
+        // Use the simpler method that just sets the new total
+        store.updatePlayerGold(currentGold + goldAmount);
+
+        // Remove the item from the world
+        this.removeNearbyItem(item);
+        item.destroy();
+
+        // Show pickup message with actual amount
+        eventBus.emit("ui.message.show", `Picked up ${goldAmount} gold`);
+        eventBus.emit("player.gold.pickup", {
+          amount: goldAmount,
+          totalGold: currentGold + goldAmount,
+        });
       } else {
-        eventBus.emit("ui.message.show", "Nothing to pick up nearby");
+        // Handle regular item pickup - add to inventory
+        const added = store.addItemInstanceToInventory({
+          templateId: item.templateId,
+          instanceId: item.instanceId,
+          bonusStats: item.bonusStats,
+          quantity: item.quantity, // Make sure to include quantity for stackable items
+          rarity: item.rarity,
+          itemLevel: item.itemLevel,
+        });
+
+        if (added) {
+          this.removeNearbyItem(item);
+          item.destroy();
+
+          eventBus.emit("ui.message.show", `Picked up ${item.name}`);
+          eventBus.emit("player.item.pickup", {
+            itemId: item.instanceId,
+            name: item.name,
+            templateId: item.templateId,
+          });
+        } else {
+          eventBus.emit("ui.message.show", `${item.name} is too heavy to carry.`);
+        }
       }
     } catch (error) {
       console.error("Error picking up item:", error);
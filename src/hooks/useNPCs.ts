@@ -49,8 +49,7 @@ export function useNPCs() {
         ...prev,
         [data.npcId]: {
           npcName: data.npcName,
-          dialog: data.dialog,
-          currentLine: data.currentLine,
+          nodeId: data.nodeId,
         },
       }));
     }
@@ -63,8 +62,9 @@ export function useNPCs() {
         ...prev,
         [data.npcId]: {
           ...prev[data.npcId],
-          currentLine: data.currentLine,
+          nodeId: data.nodeId,
           text: data.text,
+          options: data.options,
         },
       }));
     }
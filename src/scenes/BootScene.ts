@@ -2,6 +2,8 @@ import Phaser from "phaser";
 import { ItemDictionary } from "@/services/ItemDictionaryService";
 import { MonsterAnimationSystem } from "@/services/MonsterAnimationSystems";
 import { MonsterDictionary } from "@/services/MonsterDictionaryService";
+import { SaveGameService } from "@/services/SaveGameService";
+import { QuestService } from "@/services/QuestService";
 import { eventBus } from "@/utils/EventBus";
 
 export class BootScene extends Phaser.Scene {
@@ -367,6 +369,14 @@ export class BootScene extends Phaser.Scene {
       // Emit assets loaded event
       eventBus.emit("assets.loaded", null);
 
+      // Restore the last autosave so the game scene starts on the saved map
+      if (SaveGameService.restoreAutosave()) {
+        eventBus.emit("ui.message.show", "Welcome back! Your progress has been restored.");
+      }
+
+      // Start auto-start quests for new games and quests added since the last save
+      QuestService.startAvailableQuests();
+
       // Start the game scene
       this.scene.start("game");
     } catch (error) {
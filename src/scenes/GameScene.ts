@@ -8,13 +8,21 @@ import { PlayerCharacter } from "@/entities/PlayerCharacter";
 import { CursorPositionSystem } from "@/services/CursorPositionSystem";
 import { ItemHoverSystem } from "@/services/ItemHoverSystem";
 import { useGameStore } from "@/stores/gameStore";
-import { ItemBonusStats, ItemCategory, ItemData } from "@/types";
+import { ItemBonusStats, ItemCategory, ItemData, ItemRarity, MonsterVariant } from "@/types";
 import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
+import { MonsterVariantManager } from "@/utils/MonsterVariantManager";
 import { autoAttackSystem } from "@/services/AutoAttackSystem";
+import { regenerationSystem } from "@/services/RegenerationSystem";
+import { respawnSystem } from "@/services/RespawnSystem";
+import { pathfindingSystem } from "@/services/PathfindingSystem";
+import { monsterGroupSystem } from "@/services/MonsterGroupSystem";
 import { NPCService } from "@/services/NPCService";
 import { PortalSystem } from "@/services/PortalSystem";
 import { MonsterSpawnSystem } from "@/services/MonsterSpawnSystem";
+import { LightingSystem } from "@/services/LightingSystem";
+import { worldClock } from "@/services/WorldClockSystem";
 import { Chest } from "@/entities/Chest";
+import { Corpse } from "@/entities/Corpse";
 import { ChestLootTables } from "@/data/chest-loot-tables";
 import { ItemDictionary } from "@/services/ItemDictionaryService";
 
@@ -35,12 +43,14 @@ export class GameScene extends Phaser.Scene {
   declare items: Phaser.GameObjects.Group;
   declare monsters: Phaser.GameObjects.Group;
   declare npcs: Phaser.GameObjects.Group;
+  declare corpses: Phaser.GameObjects.Group;
   declare chests: Phaser.GameObjects.Group;
 
   itemHoverSystem?: ItemHoverSystem;
   cursorPositionSystem!: CursorPositionSystem;
   portalSystem?: PortalSystem;
   monsterSpawnSystem?: MonsterSpawnSystem;
+  lightingSystem?: LightingSystem;
   map?: Phaser.Tilemaps.Tilemap;
   groundLayer?: Phaser.Tilemaps.TilemapLayer;
   interactLayer?: Phaser.Tilemaps.ObjectLayer | null;
@@ -144,12 +154,42 @@ export class GameScene extends Phaser.Scene {
       const store = useGameStore.getState();
       const systems = store.systems || {};
 
+      // Advance the in-game clock before anything reads it
+      if (systems.worldClock) {
+        systems.worldClock.update(time);
+      }
+
+      // Refill the pathfinding search budget before monsters plan their moves
+      if (systems.pathfindingSystem) {
+        systems.pathfindingSystem.update();
+      }
+
       // Update auto attack if available
       if (systems.autoAttackSystem) {
         // Call the auto attack system update with a direct reference to this scene
         systems.autoAttackSystem.update();
       }
 
+      // Apply periodic health and mana regeneration
+      if (systems.regenerationSystem) {
+        systems.regenerationSystem.update(time);
+      }
+
+      // Bind temples and decay corpses
+      if (systems.respawnSystem) {
+        systems.respawnSystem.update(time);
+      }
+
+      // Retry spawn points waiting on their conditions or off-screen space
+      if (systems.monsterSpawnSystem) {
+        systems.monsterSpawnSystem.update(time);
+      }
+
+      // Keep group followers in formation around their leaders
+      if (systems.monsterGroupSystem) {
+        systems.monsterGroupSystem.update(time);
+      }
+
       // Update items
       if (this.items) {
         this.items.getChildren().forEach((item) => {
@@ -188,6 +228,11 @@ export class GameScene extends Phaser.Scene {
           }
         });
       }
+
+      // Darken the view at night, after the camera has moved
+      if (this.lightingSystem) {
+        this.lightingSystem.update(time);
+      }
     } catch (error) {
       console.error("Error in GameScene.update:", error);
     }
@@ -204,6 +249,7 @@ export class GameScene extends Phaser.Scene {
       this.monsters = this.add.group();
       this.npcs = this.add.group();
       this.chests = this.add.group();
+      this.corpses = this.add.group();
     } catch (error) {
       console.error("Error creating game groups:", error);
       eventBus.emit("ui.error.show", `Error creating game groups: ${(error as Error).message}`);
@@ -242,11 +288,21 @@ export class GameScene extends Phaser.Scene {
       this.monsterSpawnSystem = new MonsterSpawnSystem(this);
       this.monsterSpawnSystem.initialize();
 
+      // Initialize night lighting and the map's torches
+      this.lightingSystem = new LightingSystem(this);
+      this.lightingSystem.initialize();
+
       // Register systems
       store.registerSystem("itemHoverSystem", this.itemHoverSystem);
       store.registerSystem("gameScene", this);
       store.registerSystem("autoAttackSystem", autoAttackSystem);
+      store.registerSystem("regenerationSystem", regenerationSystem);
+      store.registerSystem("respawnSystem", respawnSystem);
+      store.registerSystem("pathfindingSystem", pathfindingSystem);
+      store.registerSystem("monsterGroupSystem", monsterGroupSystem);
       store.registerSystem("monsterSpawnSystem", this.monsterSpawnSystem);
+      store.registerSystem("worldClock", worldClock);
+      store.registerSystem("lightingSystem", this.lightingSystem);
 
       // Setup systems
       this.itemHoverSystem.setupGlobalPointerHandler(this);
@@ -292,6 +348,7 @@ export class GameScene extends Phaser.Scene {
   private spawnInitialContent(): void {
     this.spawnInitialNPCs();
     this.spawnTestItems();
+    respawnSystem.syncCorpses();
     // Monster spawning is now handled by MonsterSpawnSystem
   }
 
@@ -542,6 +599,9 @@ export class GameScene extends Phaser.Scene {
       if (this.chests) {
         this.chests.clear(true, true);
       }
+      if (this.corpses) {
+        this.corpses.clear(true, true);
+      }
     } catch (error) {
       console.error("Error cleaning up chests:", error);
     }
@@ -637,6 +697,12 @@ export class GameScene extends Phaser.Scene {
       if (this.map) {
         // Get the interact layer (which is an object layer, not a tile layer)
         this.interactLayer = this.map.getObjectLayer("interact-layer");
+
+        // Temples can also be placed as interact-layer objects
+        respawnSystem.registerTemplesFromLayer(
+          useGameStore.getState().currentMap,
+          this.interactLayer
+        );
       }
 
       // Set physics bounds to match the visible area
@@ -690,7 +756,9 @@ export class GameScene extends Phaser.Scene {
     y: number,
     instanceId?: string,
     bonusStats?: ItemBonusStats,
-    quantity?: number
+    quantity?: number,
+    rarity?: ItemRarity,
+    itemLevel?: number
   ): Item | null {
     try {
       // If no instanceId is provided, always create a new instance
@@ -699,12 +767,20 @@ export class GameScene extends Phaser.Scene {
         const itemData = ItemDictionary.getItem(templateId);
         const shouldGetBonusStats = this.isEligibleForBonusStats(itemData);
 
-        // For equipment items dropped in the world, 20% chance of random bonus stats
-        if (shouldGetBonusStats && Math.random() < 0.2) {
-          const instance = ItemInstanceManager.createRandomInstance(templateId, quantity);
+        // Equipment dropped in the world rolls a rarity and affixes at the player's level
+        if (shouldGetBonusStats && !bonusStats) {
+          const playerLevel =
+            useGameStore.getState().playerCharacter.skills.playerLevel?.level || 1;
+          const instance = ItemInstanceManager.createRandomInstance(
+            templateId,
+            quantity,
+            playerLevel
+          );
           instanceId = instance.instanceId;
           bonusStats = instance.bonusStats;
           quantity = instance.quantity;
+          rarity = instance.rarity;
+          itemLevel = instance.itemLevel;
         } else {
           const instance = ItemInstanceManager.createItemInstance(templateId, bonusStats, quantity);
           instanceId = instance.instanceId;
@@ -712,7 +788,17 @@ export class GameScene extends Phaser.Scene {
         }
       }
 
-      const item = new Item(this, x, y, templateId, instanceId, bonusStats, quantity);
+      const item = new Item(
+        this,
+        x,
+        y,
+        templateId,
+        instanceId,
+        bonusStats,
+        quantity,
+        rarity,
+        itemLevel
+      );
       this.items.add(item);
 
       // Set up overlap with player
@@ -750,17 +836,23 @@ export class GameScene extends Phaser.Scene {
     return equipmentCategories.includes(itemData.category);
   }
 
-  spawnMonster(monsterType: string, x: number, y: number): Monster | null {
+  spawnMonster(
+    monsterType: string,
+    x: number,
+    y: number,
+    variant: MonsterVariant | null = null
+  ): Monster | null {
     try {
-      const monster = new Monster(this, x, y, monsterType);
+      const monster = new Monster(this, x, y, monsterType, variant);
       this.monsters.add(monster);
 
       // Initialize monster with a default animation
       // Use the animation system to play the idle animation
       monster.playAnimation("down", false);
 
-      // Let the player know a monster has appeared
-      eventBus.emit("ui.message.show", `A ${monster.monsterName} has appeared!`);
+      // Let the player know a monster has appeared, elites with their affixes
+      const affixes = variant ? ` (${MonsterVariantManager.describeAffixes(variant)})` : "";
+      eventBus.emit("ui.message.show", `A ${monster.monsterName}${affixes} has appeared!`);
 
       return monster;
     } catch (error) {
@@ -785,6 +877,17 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  spawnCorpse(corpseId: string, x: number, y: number): Corpse | null {
+    try {
+      const corpse = new Corpse(this, x, y, corpseId);
+      this.corpses.add(corpse);
+      return corpse;
+    } catch (error) {
+      console.error("Error in GameScene.spawnCorpse:", error);
+      return null;
+    }
+  }
+
   private spawnInitialNPCs(): void {
     try {
       // Get the current map from the store
@@ -798,6 +901,12 @@ export class GameScene extends Phaser.Scene {
         if (alDeeData) {
           this.spawnNPC(alDeeData, 2128, 1328);
         }
+
+        // Spawn The Supreme Mage - main quest giver
+        const supremeMageData = NPCService.getNPC("supreme-mage");
+        if (supremeMageData) {
+          this.spawnNPC(supremeMageData, 1936, 1328);
+        }
       }
     } catch (error) {
       console.error("Error in GameScene.spawnInitialNPCs:", error);
@@ -901,6 +1010,9 @@ export class GameScene extends Phaser.Scene {
           // Initialize chests for the new map
           this.initializeChests();
 
+          // Show corpses left on the new map
+          respawnSystem.syncCorpses();
+
           // Set up new collisions
           this.setupCollisions();
 
@@ -975,6 +1087,11 @@ export class GameScene extends Phaser.Scene {
         this.monsterSpawnSystem.cleanup();
       }
 
+      // Forget the old map's torches
+      if (this.lightingSystem) {
+        this.lightingSystem.cleanup();
+      }
+
       // Clean up ItemHoverSystem first
       if (this.itemHoverSystem) {
         this.itemHoverSystem.cleanup();
@@ -1047,6 +1164,11 @@ export class GameScene extends Phaser.Scene {
         this.monsterSpawnSystem.initialize();
       }
 
+      // Load the new map's torches
+      if (this.lightingSystem) {
+        this.lightingSystem.initialize();
+      }
+
       // Reinitialize portal system
       this.initPortalSystem();
 
@@ -1090,6 +1212,10 @@ export class GameScene extends Phaser.Scene {
         this.monsterSpawnSystem.destroy();
       }
 
+      if (this.lightingSystem) {
+        this.lightingSystem.destroy();
+      }
+
       // Cleanup other systems
       if (this.itemHoverSystem) {
         this.itemHoverSystem.cleanup();
@@ -1,4 +1,4 @@
-import { Ability } from "@/types";
+import { Ability, StatusEffectType } from "@/types";
 import { eventBus } from "../utils/EventBus";
 
 // Define a proper interface for the class
@@ -25,6 +25,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "A basic sword attack that deals damage to enemies in front of you.",
         icon: "assets/abilities/sword-slash.png",
         cooldown: 1,
+        manaCost: 5,
         damage: 2,
         weaponType: "weapon",
         requiredWeapon: "melee",
@@ -44,6 +45,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "Spin around with your sword, damaging all nearby enemies.",
         icon: "assets/abilities/whirlwind.png",
         cooldown: 1,
+        manaCost: 15,
         damage: 1,
         weaponType: "weapon",
         requiredWeapon: "melee",
@@ -61,9 +63,11 @@ class AbilityDictionaryService implements IAbilityDictionary {
       this.abilityDatabase.bash = {
         id: "bash",
         name: "Bash",
-        description: "A powerful strike that stuns enemies directly in front of you.",
+        description:
+          "A powerful strike that stuns enemies directly in front of you and draws their attention.",
         icon: "assets/abilities/bash.png",
         cooldown: 1,
+        manaCost: 10,
         damage: 3,
         weaponType: "weapon",
         requiredWeapon: "melee",
@@ -77,6 +81,11 @@ class AbilityDictionaryService implements IAbilityDictionary {
           lineWidth: 5,
           particleColors: [0xffcc00, 0xff9900],
         },
+        statusEffect: {
+          type: StatusEffectType.STUN,
+          duration: 1500,
+        },
+        taunt: true,
       };
 
       // Fireball spell (for mages)
@@ -87,6 +96,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
           "Launch a ball of fire that travels in a straight line, exploding on impact with enemies or obstacles.",
         icon: "assets/abilities/fireball.png",
         cooldown: 1,
+        manaCost: 20,
         damage: 3,
         weaponType: "weapon",
         requiredWeapon: "magic",
@@ -100,6 +110,11 @@ class AbilityDictionaryService implements IAbilityDictionary {
           particleColors: [0xff0000, 0xff7700, 0xffff00],
           effectDuration: 1000,
         },
+        statusEffect: {
+          type: StatusEffectType.BURN,
+          duration: 3000,
+          potency: 1,
+        },
       };
 
       // Ice Nova (for mages)
@@ -109,6 +124,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "Create an expanding ring of ice that damages and slows enemies.",
         icon: "assets/abilities/ice_nova.png",
         cooldown: 1,
+        manaCost: 30,
         damage: 2,
         weaponType: "weapon",
         requiredWeapon: "magic",
@@ -123,6 +139,11 @@ class AbilityDictionaryService implements IAbilityDictionary {
           particleColors: [0xaaddff, 0x00aaff, 0xffffff],
           effectDuration: 1200,
         },
+        statusEffect: {
+          type: StatusEffectType.SLOW,
+          duration: 3000,
+          potency: 0.5,
+        },
       };
 
       // Fire Wall ability
@@ -133,6 +154,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
           "Create a wall of fire that damages enemies passing through it every 0.5 seconds.",
         icon: "assets/abilities/firewall.png",
         cooldown: 1, // Increased cooldown to balance continuous damage
+        manaCost: 40,
         damage: 1, // Damage per tick (every 0.5 seconds)
         weaponType: "weapon",
         requiredWeapon: "magic",
@@ -158,6 +180,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
           "Release a powerful wave of arcane energy that damages enemies in a cone in front of you.",
         icon: "assets/abilities/energy-wave.png",
         cooldown: 2,
+        manaCost: 35,
         damage: 2,
         weaponType: "weapon",
         requiredWeapon: "magic",
@@ -179,6 +202,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "Fire a high-velocity arrow that pierces through enemies in a straight line.",
         icon: "assets/abilities/power-shot.png",
         cooldown: 1,
+        manaCost: 10,
         damage: 2,
         weaponType: "weapon",
         requiredWeapon: "archery",
@@ -200,6 +224,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
         description: "Increase your attack speed for 10 seconds.",
         icon: "assets/abilities/focus.png",
         cooldown: 1,
+        manaCost: 15,
         damage: 0, // No direct damage
         weaponType: "weapon",
         requiredWeapon: "archery",
@@ -221,6 +246,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
           "Create a storm of arrows at your target location, dealing damage to all enemies in the area.",
         icon: "assets/abilities/rain-of-arrows.png",
         cooldown: 1,
+        manaCost: 30,
         damage: 1, // Damage per tick
         weaponType: "weapon",
         requiredWeapon: "archery",
@@ -246,6 +272,7 @@ class AbilityDictionaryService implements IAbilityDictionary {
           "Summons razor-sharp bone spikes at the target location, dealing more damage to enemies in the center.",
         icon: "assets/abilities/bone-spike.png",
         cooldown: 1.5,
+        manaCost: 25,
         damage: 15, // Center damage (outer damage will be 70% of this)
         weaponType: "trinket", // Special type for item-granted abilities
         requiredWeapon: "any", // Can be used with any weapon type
@@ -260,6 +287,48 @@ class AbilityDictionaryService implements IAbilityDictionary {
         },
       };
 
+      // Boss abilities, telegraphed on the tile grid before they land
+      this.abilityDatabase.graveQuake = {
+        id: "graveQuake",
+        name: "Grave Quake",
+        description: "Slams the ground, hitting everything within two tiles of the caster.",
+        icon: "assets/abilities/bone-spike.png",
+        cooldown: 8,
+        damage: 8,
+        weaponType: "monster", // Only cast by monsters
+        requiredWeapon: "none",
+        range: 64,
+        areaSize: 160, // 5x5 tiles
+        animationType: "tileGrid",
+        animationConfig: {
+          effectDuration: 800,
+          telegraphDuration: 1500, // Time to step out of the marked tiles
+          telegraphRadius: 2,
+          centerOnCaster: true,
+          particleColors: [0xb0e0e6, 0xffffff],
+        },
+      };
+
+      this.abilityDatabase.boneRain = {
+        id: "boneRain",
+        name: "Bone Rain",
+        description: "Bones rain down around the target after a short warning.",
+        icon: "assets/abilities/bone-spike.png",
+        cooldown: 6,
+        damage: 6,
+        weaponType: "monster", // Only cast by monsters
+        requiredWeapon: "none",
+        range: 256,
+        areaSize: 96, // 3x3 tiles
+        animationType: "tileGrid",
+        animationConfig: {
+          effectDuration: 800,
+          telegraphDuration: 1200,
+          telegraphRadius: 1,
+          particleColors: [0xffffff, 0xe0e0e0],
+        },
+      };
+
       // Emit initialization event
       eventBus.emit("abilityDictionary.initialized", {
         count: Object.keys(this.abilityDatabase).length,
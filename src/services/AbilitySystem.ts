@@ -3,6 +3,7 @@ import { eventBus } from "../utils/EventBus";
 import { AbilityDictionary } from "../services/AbilityDictionaryService";
 import { abilityAnimationSystem } from "./AbilityAnimationSystem";
 import { ItemDictionary } from "./ItemDictionaryService";
+import { statusEffectSystem } from "./StatusEffectSystem";
 import { Ability, PlayerCharacterEquipment } from "@/types";
 import { useGameStore } from "@/stores/gameStore";
 
@@ -280,6 +281,11 @@ class AbilitySystemService {
     const ability = this.activeAbilities[index];
     if (!ability) return;
 
+    if (statusEffectSystem.isPlayerStunned()) {
+      eventBus.emit("ui.message.show", "You are stunned!");
+      return;
+    }
+
     // Check if ability is on cooldown
     const now = Date.now();
     if (this.abilityCooldowns[ability.id] && this.abilityCooldowns[ability.id] > now) {
@@ -292,6 +298,16 @@ class AbilitySystemService {
       return;
     }
 
+    // Check if the player can pay for the cast
+    const manaCost = ability.manaCost || 0;
+    if (useGameStore.getState().playerCharacter.mana < manaCost) {
+      eventBus.emit(
+        "ui.message.show",
+        `Not enough mana to cast ${ability.name} (${manaCost} needed).`
+      );
+      return;
+    }
+
     // Get the current weapon type for the skill progression event
     const equipment = useGameStore.getState().playerCharacter.equipment;
     // Fix: Get weapon type from ItemDictionary using templateId
@@ -302,6 +318,12 @@ class AbilitySystemService {
     // Play the ability animation
     abilityAnimationSystem.playAbilityAnimation(ability.id).then((success) => {
       if (success) {
+        // Spend mana only once the cast actually went off
+        if (manaCost > 0) {
+          const store = useGameStore.getState();
+          store.updatePlayerMana(store.playerCharacter.mana - manaCost);
+        }
+
         // Start cooldown
         this.abilityCooldowns[ability.id] = now + ability.cooldown * 1000;
 
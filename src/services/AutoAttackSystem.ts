@@ -2,6 +2,7 @@
 import { eventBus } from "../utils/EventBus";
 import { useGameStore } from "../stores/gameStore";
 import { ItemDictionary } from "./ItemDictionaryService";
+import { statusEffectSystem } from "./StatusEffectSystem";
 import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
 import { DamageFormulas } from "@/utils/formulas";
 
@@ -36,6 +37,9 @@ class AutoAttackSystemService {
     // Subscribe to monster death
     eventBus.on("monster.died", this.handleMonsterDeath.bind(this));
 
+    // Leashed monsters are immune on their way home, stop attacking them
+    eventBus.on("monster.leashed", this.handleMonsterLeashed.bind(this));
+
     // Initialize attack properties
     this.updateAttackProperties();
   }
@@ -122,6 +126,17 @@ class AutoAttackSystemService {
     }
   }
 
+  /**
+   * Handle a monster disengaging back to its spawn
+   */
+  private handleMonsterLeashed(data: { id: string }): void {
+    if (!data || !this.targetedEnemy) return;
+
+    if (this.targetedEnemy.id === data.id) {
+      this.clearTarget();
+    }
+  }
+
   /**
    * Update attack properties based on equipped weapon
    * Now properly reads from GameStore as single source of truth
@@ -353,7 +368,7 @@ class AutoAttackSystemService {
       }
 
       const player = gameScene.playerCharacter;
-      if (!player) {
+      if (!player || statusEffectSystem.isStunned(player)) {
         return false;
       }
 
@@ -551,6 +566,7 @@ class AutoAttackSystemService {
 
     // Clean up event listeners
     eventBus.off("monster.died", this.handleMonsterDeath);
+    eventBus.off("monster.leashed", this.handleMonsterLeashed);
 
     // Clear state
     this.clearTarget();
@@ -0,0 +1,169 @@
+// src/services/BestiaryService.ts
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+import { MonsterDictionary } from "./MonsterDictionaryService";
+import { BESTIARY_MAX_CATEGORY_BONUS, BESTIARY_MILESTONES } from "@/data/bestiary-milestones";
+import { BestiaryUnlock, MonsterCategory, MonsterDeathEvent, ProgressMilestone } from "@/types";
+
+/**
+ * Milestone bonuses that apply against a monster category
+ */
+export interface BestiaryBonuses {
+  bonusDamage: number; // Percent
+  damageReduction: number; // Percent
+}
+
+class BestiaryServiceClass {
+  constructor() {
+    this.handleMonsterDied = this.handleMonsterDied.bind(this);
+    eventBus.on("monster.died", this.handleMonsterDied);
+  }
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  getMilestones(): ProgressMilestone[] {
+    return BESTIARY_MILESTONES;
+  }
+
+  getKillCount(monsterId: string): number {
+    return useGameStore.getState().bestiary.kills[monsterId] || 0;
+  }
+
+  /**
+   * Monsters the player has killed at least once
+   */
+  getEncounteredMonsterIds(): string[] {
+    const kills = useGameStore.getState().bestiary.kills;
+    return MonsterDictionary.getMonsterIds().filter((monsterId) => (kills[monsterId] || 0) > 0);
+  }
+
+  getAchievedMilestones(monsterId: string): ProgressMilestone[] {
+    const kills = this.getKillCount(monsterId);
+    return BESTIARY_MILESTONES.filter((milestone) => kills >= milestone.kills);
+  }
+
+  isUnlocked(monsterId: string, unlock: BestiaryUnlock): boolean {
+    return this.getAchievedMilestones(monsterId).some((milestone) => milestone.unlocks === unlock);
+  }
+
+  /**
+   * Bonuses earned against a category, summed over the milestones of every
+   * monster in it and capped
+   */
+  getCategoryBonuses(category: MonsterCategory): BestiaryBonuses {
+    const bonuses = MonsterDictionary.getMonstersByCategory(category).reduce(
+      (total, monster) => this.addMilestoneBonuses(total, monster.id),
+      { bonusDamage: 0, damageReduction: 0 }
+    );
+
+    return this.capBonuses(bonuses);
+  }
+
+  /**
+   * Bonuses that apply when fighting a monster, through its category when it has one
+   */
+  getBonusesAgainst(monsterId: string): BestiaryBonuses {
+    const category = MonsterDictionary.getMonster(monsterId)?.category;
+    if (category) {
+      return this.getCategoryBonuses(category);
+    }
+
+    return this.capBonuses(
+      this.addMilestoneBonuses({ bonusDamage: 0, damageReduction: 0 }, monsterId)
+    );
+  }
+
+  /**
+   * Reward text of a milestone, e.g. "Drop chances revealed, 5% bonus damage against Undead"
+   */
+  describeMilestone(milestone: ProgressMilestone, categoryName: string): string {
+    const parts: string[] = [];
+
+    if (milestone.unlocks === BestiaryUnlock.STATS) parts.push("Stats revealed");
+    if (milestone.unlocks === BestiaryUnlock.LOOT) parts.push("Loot revealed");
+    if (milestone.unlocks === BestiaryUnlock.DROP_CHANCES) parts.push("Drop chances revealed");
+    if (milestone.bonusDamage) {
+      parts.push(`${milestone.bonusDamage}% bonus damage against ${categoryName}`);
+    }
+    if (milestone.damageReduction) {
+      parts.push(`${milestone.damageReduction}% damage reduction against ${categoryName}`);
+    }
+
+    return parts.join(", ");
+  }
+
+  // ============================================================================
+  // KILL TRACKING
+  // ============================================================================
+
+  private handleMonsterDied(data: MonsterDeathEvent): void {
+    try {
+      if (!data?.type) return;
+      this.recordKill(data.type);
+    } catch (error) {
+      console.error("Error in BestiaryService.handleMonsterDied:", error);
+      eventBus.emit("error.bestiary.kill", { error });
+    }
+  }
+
+  private recordKill(monsterId: string): void {
+    const store = useGameStore.getState();
+    const previous = store.bestiary.kills[monsterId] || 0;
+    const kills = previous + 1;
+
+    store.updateBestiary({
+      ...store.bestiary,
+      kills: { ...store.bestiary.kills, [monsterId]: kills },
+    });
+
+    eventBus.emit("bestiary.kill", { monsterId, kills });
+
+    const milestone = BESTIARY_MILESTONES.find((m) => m.kills > previous && m.kills <= kills);
+    if (!milestone) return;
+
+    const monster = MonsterDictionary.getMonster(monsterId);
+    const name = monster?.name || monsterId;
+    const reward = this.describeMilestone(milestone, this.getCategoryName(monster?.category));
+
+    eventBus.emit("ui.message.show", `Bestiary: ${kills} ${name} kills. ${reward}!`);
+    eventBus.emit("bestiary.milestone.reached", { monsterId, kills, milestone });
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Readable category name, e.g. "dark_elf" -> "Dark Elf"
+   */
+  getCategoryName(category?: MonsterCategory): string {
+    if (!category) return "this creature";
+
+    return category
+      .split("_")
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(" ");
+  }
+
+  private capBonuses(bonuses: BestiaryBonuses): BestiaryBonuses {
+    return {
+      bonusDamage: Math.min(BESTIARY_MAX_CATEGORY_BONUS, bonuses.bonusDamage),
+      damageReduction: Math.min(BESTIARY_MAX_CATEGORY_BONUS, bonuses.damageReduction),
+    };
+  }
+
+  private addMilestoneBonuses(total: BestiaryBonuses, monsterId: string): BestiaryBonuses {
+    return this.getAchievedMilestones(monsterId).reduce(
+      (sum, milestone) => ({
+        bonusDamage: sum.bonusDamage + (milestone.bonusDamage || 0),
+        damageReduction: sum.damageReduction + (milestone.damageReduction || 0),
+      }),
+      total
+    );
+  }
+}
+
+// Create and export singleton instance
+export const BestiaryService = new BestiaryServiceClass();
@@ -0,0 +1,159 @@
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+import { healthSystem } from "./HealthSystem";
+import { ItemDictionary } from "./ItemDictionaryService";
+import { regenerationSystem } from "./RegenerationSystem";
+import { statusEffectSystem } from "./StatusEffectSystem";
+import {
+  ConsumableEffect,
+  ConsumableEffectType,
+  ItemCategory,
+  ItemData,
+  ItemInstance,
+  StatusEffectType,
+} from "@/types";
+
+class ConsumableServiceClass {
+  // Items of the same category share one cooldown (milliseconds)
+  private readonly categoryCooldowns: Partial<Record<ItemCategory, number>> = {
+    [ItemCategory.FOOD]: 1000,
+    [ItemCategory.CONSUMABLE]: 1000,
+  };
+
+  private cooldownUntil: Partial<Record<ItemCategory, number>> = {};
+
+  isConsumable(itemData: ItemData | null | undefined): boolean {
+    return !!itemData?.consumeEffects && itemData.consumeEffects.length > 0;
+  }
+
+  getCooldownRemaining(category: ItemCategory): number {
+    return Math.max(0, (this.cooldownUntil[category] || 0) - Date.now());
+  }
+
+  /**
+   * Consume one item from an inventory stack and apply its effects
+   * @returns true if the item was consumed
+   */
+  consumeItem(instanceId: string): boolean {
+    try {
+      const store = useGameStore.getState();
+      const instance = store.playerCharacter.inventory.find(
+        (item) => item.instanceId === instanceId
+      );
+      if (!instance) return false;
+
+      const itemData = ItemDictionary.getItem(instance.templateId);
+      if (!itemData || !this.isConsumable(itemData)) {
+        eventBus.emit("ui.message.show", "You can't consume that.");
+        return false;
+      }
+
+      const player = store.systems?.gameScene?.playerCharacter;
+      if (player?.isDead || store.playerCharacter.health <= 0) return false;
+
+      const category = itemData.category || ItemCategory.CONSUMABLE;
+      if (this.getCooldownRemaining(category) > 0) {
+        eventBus.emit("ui.message.show", "You can't use that yet.");
+        return false;
+      }
+
+      if (this.isFull(itemData.consumeEffects!)) {
+        eventBus.emit("ui.message.show", "You are full.");
+        return false;
+      }
+
+      // Take one off the stack before applying so a failed removal can't be exploited
+      if (!store.removeItemInstanceFromInventory(instance.instanceId, 1)) return false;
+
+      itemData.consumeEffects!.forEach((effect) => this.applyEffect(effect, itemData.id));
+
+      const cooldown = this.categoryCooldowns[category] || 0;
+      this.cooldownUntil[category] = Date.now() + cooldown;
+
+      eventBus.emit("item.consumed", {
+        itemId: itemData.id,
+        instanceId: instance.instanceId,
+        category,
+        cooldown,
+      });
+      eventBus.emit("ui.message.show", `You consumed ${itemData.name}.`);
+
+      return true;
+    } catch (error) {
+      console.error(`Error consuming item ${instanceId}:`, error);
+      eventBus.emit("error.item.consume", { instanceId, error });
+      return false;
+    }
+  }
+
+  /**
+   * Consume the first item of a category in the inventory, used by hotkeys
+   */
+  consumeFirstOfCategory(category: ItemCategory): boolean {
+    const instance = useGameStore
+      .getState()
+      .playerCharacter.inventory.find((item: ItemInstance) => {
+        const itemData = ItemDictionary.getItem(item.templateId);
+        return itemData?.category === category && this.isConsumable(itemData);
+      });
+
+    if (!instance) {
+      eventBus.emit("ui.message.show", "You have nothing to eat.");
+      return false;
+    }
+
+    return this.consumeItem(instance.instanceId);
+  }
+
+  /**
+   * Food is refused once another meal would not fit in the fed timer
+   */
+  private isFull(effects: ConsumableEffect[]): boolean {
+    const fed = effects.find((effect) => effect.type === ConsumableEffectType.FED);
+    if (!fed) return false;
+
+    const definition = statusEffectSystem.getDefinition(StatusEffectType.FED);
+    const player = useGameStore.getState().systems?.gameScene?.playerCharacter;
+    const active = statusEffectSystem
+      .getActiveEffects(player)
+      .find((effect) => effect.type === StatusEffectType.FED);
+
+    if (!definition?.maxDuration || !active) return false;
+
+    const remaining = active.expiresAt - Date.now();
+    const duration = fed.duration ?? definition.defaultDuration;
+    return remaining + duration > definition.maxDuration;
+  }
+
+  private applyEffect(effect: ConsumableEffect, itemId: string): void {
+    const player = useGameStore.getState().systems?.gameScene?.playerCharacter;
+
+    switch (effect.type) {
+      case ConsumableEffectType.HEAL:
+        healthSystem.applyHealing(effect.amount, itemId);
+        break;
+      case ConsumableEffectType.MANA:
+        regenerationSystem.applyMana(effect.amount, itemId);
+        break;
+      case ConsumableEffectType.REGEN:
+        statusEffectSystem.applyEffect(player, StatusEffectType.REGEN, {
+          duration: effect.duration,
+          potency: effect.amount,
+          sourceId: itemId,
+        });
+        break;
+      case ConsumableEffectType.FED:
+        statusEffectSystem.applyEffect(player, StatusEffectType.FED, {
+          duration: effect.duration,
+          potency: effect.amount,
+          sourceId: itemId,
+        });
+        break;
+      default:
+        console.warn(`Unknown consumable effect type: ${effect.type}`);
+    }
+  }
+}
+
+// Create and export singleton instance
+export const ConsumableService = new ConsumableServiceClass();
@@ -0,0 +1,209 @@
+// src/services/CraftingService.ts
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+import { ItemDictionary } from "./ItemDictionaryService";
+import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
+import { getAffixPool, RARITY_TIERS } from "@/data/item-affixes";
+import { CRAFTING_RECIPES, DEFAULT_BONUS_STAT_CHANCE } from "@/data/crafting-recipes";
+import { CraftingRecipe, ItemInstance, ItemRarity } from "@/types";
+
+class CraftingServiceClass {
+  // ============================================================================
+  // RECIPES
+  // ============================================================================
+
+  getRecipes(): CraftingRecipe[] {
+    return Object.values(CRAFTING_RECIPES);
+  }
+
+  getRecipe(recipeId: string): CraftingRecipe | undefined {
+    return CRAFTING_RECIPES[recipeId];
+  }
+
+  /**
+   * Recipes are named after what they make
+   */
+  getRecipeName(recipe: CraftingRecipe): string {
+    return ItemDictionary.getItem(recipe.output.itemId)?.name || recipe.output.itemId;
+  }
+
+  hasRequiredSkill(recipe: CraftingRecipe): boolean {
+    if (!recipe.requiredSkill) return true;
+
+    const { skillId, level } = recipe.requiredSkill;
+    const skill = useGameStore.getState().playerCharacter.skills[skillId];
+    return (skill?.level || 1) >= level;
+  }
+
+  /**
+   * Readable skill name, e.g. "meleeWeapons" -> "Melee Weapons"
+   */
+  getSkillName(skillId: string): string {
+    const words = skillId.replace(/([A-Z])/g, " $1");
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  // ============================================================================
+  // INGREDIENTS
+  // ============================================================================
+
+  /**
+   * Whether an inventory item can fill a recipe's input slot
+   */
+  isValidInput(recipe: CraftingRecipe, slotIndex: number, instance: ItemInstance): boolean {
+    return recipe.inputs[slotIndex]?.itemId === instance.templateId;
+  }
+
+  /**
+   * Picks inventory items for every input slot, null where nothing fits.
+   * Plain items are used before rolled ones so gear with affixes isn't eaten.
+   */
+  findIngredients(recipe: CraftingRecipe): (string | null)[] {
+    const inventory = useGameStore.getState().playerCharacter.inventory;
+    const used = new Set<string>();
+
+    return recipe.inputs.map((input) => {
+      const candidate = inventory
+        .filter(
+          (item) =>
+            item.templateId === input.itemId &&
+            (item.quantity || 1) >= input.quantity &&
+            !used.has(item.instanceId)
+        )
+        .sort(
+          (a, b) =>
+            ItemInstanceManager.getBonusStatTotal(a) - ItemInstanceManager.getBonusStatTotal(b)
+        )[0];
+
+      if (!candidate) return null;
+
+      used.add(candidate.instanceId);
+      return candidate.instanceId;
+    });
+  }
+
+  /**
+   * Why the recipe can't be crafted from the given slots
+   * @param slots Inventory instance id in each input slot
+   * @returns A message for the player, or null when it can be crafted
+   */
+  getCraftError(recipe: CraftingRecipe, slots: (string | null)[]): string | null {
+    if (!this.hasRequiredSkill(recipe)) {
+      const { skillId, level } = recipe.requiredSkill!;
+      return `Requires ${this.getSkillName(skillId)} level ${level}.`;
+    }
+
+    const inventory = useGameStore.getState().playerCharacter.inventory;
+    const instances = recipe.inputs.map((_input, index) =>
+      inventory.find((item) => item.instanceId === slots[index])
+    );
+
+    for (let index = 0; index < recipe.inputs.length; index++) {
+      const input = recipe.inputs[index];
+      const instance = instances[index];
+      const name = ItemDictionary.getItem(input.itemId)?.name || input.itemId;
+
+      if (!instance || !this.isValidInput(recipe, index, instance)) {
+        return `Add ${input.quantity}x ${name} to craft this.`;
+      }
+      if ((instance.quantity || 1) < input.quantity) {
+        return `You need ${input.quantity}x ${name}.`;
+      }
+      if (slots.indexOf(slots[index]) !== index) {
+        return `Each slot needs its own ${name}.`;
+      }
+    }
+
+    if (
+      this.getWeightAfterCrafting(recipe) > useGameStore.getState().calculatedStats.totalCapacity
+    ) {
+      return "You can't carry that much weight!";
+    }
+
+    return null;
+  }
+
+  // ============================================================================
+  // CRAFTING
+  // ============================================================================
+
+  /**
+   * Consume the items in the input slots and add the recipe's output to the inventory
+   * @param slots Inventory instance id in each input slot
+   * @returns The crafted item, or null if nothing was crafted
+   */
+  craft(recipeId: string, slots: (string | null)[]): ItemInstance | null {
+    try {
+      const recipe = this.getRecipe(recipeId);
+      if (!recipe) return null;
+
+      const error = this.getCraftError(recipe, slots);
+      if (error) {
+        eventBus.emit("ui.message.show", error);
+        return null;
+      }
+
+      const store = useGameStore.getState();
+      recipe.inputs.forEach((input, index) => {
+        store.removeItemInstanceFromInventory(slots[index]!, input.quantity);
+      });
+
+      const output = this.createOutput(recipe);
+
+      // Weight was checked against the inputs it replaces
+      useGameStore.getState().addItemInstanceToInventory(output, false);
+
+      const rarity = ItemInstanceManager.getRarity(output);
+      const rarityText = rarity !== ItemRarity.COMMON ? ` (${RARITY_TIERS[rarity].name})` : "";
+      eventBus.emit(
+        "ui.message.show",
+        `You crafted ${ItemInstanceManager.getDisplayName(output)}${rarityText}!`
+      );
+      eventBus.emit("crafting.item.crafted", { recipeId, itemInstance: output });
+      return output;
+    } catch (error) {
+      console.error(`Error crafting recipe ${recipeId}:`, error);
+      eventBus.emit("error.crafting.craft", { recipeId, error });
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Items that can roll affixes get a chance at a rarity, rolled at the player's level
+   */
+  private createOutput(recipe: CraftingRecipe): ItemInstance {
+    const { itemId, quantity } = recipe.output;
+    const template = ItemDictionary.getItem(itemId);
+    const chance = recipe.bonusStatChance ?? DEFAULT_BONUS_STAT_CHANCE;
+
+    if (template && getAffixPool(template).length > 0 && Math.random() < chance) {
+      const playerLevel = useGameStore.getState().playerCharacter.skills.playerLevel?.level || 1;
+      return ItemInstanceManager.createRandomInstance(itemId, quantity, playerLevel);
+    }
+
+    return ItemInstanceManager.createItemInstance(itemId, undefined, quantity);
+  }
+
+  private getWeightAfterCrafting(recipe: CraftingRecipe): number {
+    const weightOf = (itemId: string, quantity: number) =>
+      (ItemDictionary.getItem(itemId)?.weight || 0) * quantity;
+
+    const inputWeight = recipe.inputs.reduce(
+      (total, input) => total + weightOf(input.itemId, input.quantity),
+      0
+    );
+
+    return (
+      useGameStore.getState().playerCharacter.currentCapacity -
+      inputWeight +
+      weightOf(recipe.output.itemId, recipe.output.quantity)
+    );
+  }
+}
+
+// Create and export singleton instance
+export const CraftingService = new CraftingServiceClass();
@@ -0,0 +1,196 @@
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+import { MapService } from "./MapService";
+import { NPCService } from "./NPCService";
+import { QuestService } from "./QuestService";
+import {
+  DialogAction,
+  DialogActionType,
+  DialogCondition,
+  DialogConditionType,
+  DialogNode,
+  DialogOption,
+  DialogTree,
+} from "@/types";
+
+/**
+ * Who a conversation is with, for actions that default to the speaking NPC
+ */
+export interface DialogContext {
+  npcId: string;
+}
+
+class DialogServiceClass {
+  /**
+   * Wrap flat dialog lines in a tree that walks them one after another
+   */
+  createLinearTree(lines: string[]): DialogTree {
+    const nodes: Record<string, DialogNode> = {};
+
+    lines.forEach((text, index) => {
+      const id = `line-${index}`;
+      nodes[id] = { id, text, next: index < lines.length - 1 ? `line-${index + 1}` : undefined };
+    });
+
+    return { start: "line-0", nodes };
+  }
+
+  /**
+   * Node a conversation opens with
+   */
+  getEntryNodeId(tree: DialogTree): string {
+    const entry = (tree.entries || []).find((candidate) =>
+      this.checkConditions(candidate.conditions)
+    );
+    return entry ? entry.node : tree.start;
+  }
+
+  /**
+   * Options of a node the player is currently allowed to pick
+   */
+  getAvailableOptions(node: DialogNode): DialogOption[] {
+    return (node.options || []).filter((option) => this.checkConditions(option.conditions));
+  }
+
+  checkConditions(conditions?: DialogCondition[]): boolean {
+    return (conditions || []).every((condition) => this.checkCondition(condition));
+  }
+
+  checkCondition(condition: DialogCondition): boolean {
+    try {
+      const passed = this.evaluateCondition(condition);
+      return condition.negate ? !passed : passed;
+    } catch (error) {
+      console.error("Error checking dialog condition:", condition, error);
+      eventBus.emit("error.dialog.condition", { condition, error });
+      return false;
+    }
+  }
+
+  private evaluateCondition(condition: DialogCondition): boolean {
+    const playerCharacter = useGameStore.getState().playerCharacter;
+
+    switch (condition.type) {
+      case DialogConditionType.QUEST:
+        return this.checkQuestState(condition);
+
+      case DialogConditionType.ITEM:
+        if (!condition.itemId) return false;
+        return QuestService.countItems([condition.itemId]) >= (condition.quantity || 1);
+
+      case DialogConditionType.SKILL: {
+        const skill = condition.skillId ? playerCharacter.skills[condition.skillId] : undefined;
+        return !!skill && skill.level >= (condition.level || 1);
+      }
+
+      case DialogConditionType.GOLD:
+        return playerCharacter.gold >= (condition.amount || 0);
+
+      default:
+        console.warn(`Unknown dialog condition type: ${condition.type}`);
+        return false;
+    }
+  }
+
+  private checkQuestState(condition: DialogCondition): boolean {
+    const { questId, objectiveId, questState } = condition;
+    if (!questId) return false;
+
+    if (objectiveId) {
+      return questState === "completed"
+        ? QuestService.isObjectiveCompleted(questId, objectiveId)
+        : QuestService.isObjectiveActive(questId, objectiveId);
+    }
+
+    switch (questState) {
+      case "available":
+        return QuestService.canStartQuest(questId);
+      case "active":
+        return QuestService.isQuestActive(questId);
+      case "completed":
+        return QuestService.isQuestCompleted(questId);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Run dialog actions in order
+   * @returns false if an action ended the conversation
+   */
+  executeActions(actions: DialogAction[] | undefined, context: DialogContext): boolean {
+    let keepTalking = true;
+
+    (actions || []).forEach((action) => {
+      try {
+        if (!this.executeAction(action, context)) {
+          keepTalking = false;
+        }
+
+        eventBus.emit("npc.dialog.action", { npcId: context.npcId, action });
+      } catch (error) {
+        console.error("Error executing dialog action:", action, error);
+        eventBus.emit("error.dialog.action", { npcId: context.npcId, action, error });
+      }
+    });
+
+    return keepTalking;
+  }
+
+  private executeAction(action: DialogAction, context: DialogContext): boolean {
+    switch (action.type) {
+      case DialogActionType.START_QUEST:
+        if (action.questId) QuestService.startQuest(action.questId);
+        return true;
+
+      case DialogActionType.COMPLETE_OBJECTIVE:
+        if (action.questId && action.objectiveId) {
+          QuestService.completeObjective(action.questId, action.objectiveId);
+        }
+        return true;
+
+      case DialogActionType.COMPLETE_QUEST:
+        if (action.questId) QuestService.turnInQuest(action.questId);
+        return true;
+
+      case DialogActionType.GIVE_ITEM:
+        if (action.itemId) QuestService.giveItem(action.itemId, action.quantity);
+        return true;
+
+      case DialogActionType.TAKE_ITEM:
+        if (action.itemId) QuestService.removeItems([action.itemId], action.quantity || 1);
+        return true;
+
+      case DialogActionType.OPEN_SHOP:
+        NPCService.openShop(action.npcId || context.npcId);
+        return false;
+
+      case DialogActionType.TELEPORT:
+        this.teleport(action);
+        return false;
+
+      default:
+        console.warn(`Unknown dialog action type: ${action.type}`);
+        return true;
+    }
+  }
+
+  private teleport(action: DialogAction): void {
+    const gameScene = useGameStore.getState().systems?.gameScene;
+    if (!gameScene || !action.mapKey || !MapService.getMap(action.mapKey)) return;
+
+    const destination = action.tile
+      ? MapService.tiledToPhaser(action.mapKey, action.tile.x, action.tile.y)
+      : MapService.getDefaultSpawn(action.mapKey);
+
+    gameScene.changeMap(
+      action.mapKey,
+      destination.x,
+      destination.y,
+      "You are teleported to a new location."
+    );
+  }
+}
+
+// Create and export singleton instance
+export const DialogService = new DialogServiceClass();
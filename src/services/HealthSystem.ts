@@ -43,14 +43,22 @@ class HealthSystemService {
     if (!data) return;
 
     const store = useGameStore.getState();
-    const currentHealth = store.playerCharacter.health;
-    const maxHealth = store.playerCharacter.maxHealth;
+    const player = store.systems?.gameScene?.playerCharacter;
 
-    // Calculate new health, capped at max
-    const newHealth = Math.min(maxHealth, currentHealth + data.amount);
+    if (player) {
+      // Heal the entity so combat sees the new health, it syncs the store itself
+      if (player.isDead) return;
+      player.heal(data.amount);
+    } else {
+      const currentHealth = store.playerCharacter.health;
+      const maxHealth = store.playerCharacter.maxHealth;
 
-    // Update health in store
-    store.updatePlayerHealth(newHealth);
+      // Calculate new health, capped at max
+      const newHealth = Math.min(maxHealth, currentHealth + data.amount);
+
+      // Update health in store
+      store.updatePlayerHealth(newHealth);
+    }
 
     // Show healing effect
     eventBus.emit("playerCharacter.healing.received", data.amount);
@@ -1,4 +1,11 @@
-import { ItemData, ItemCategory, ItemSets, ItemType } from "@/types";
+import {
+  ConsumableEffectType,
+  ItemData,
+  ItemCategory,
+  ItemRarity,
+  ItemSets,
+  ItemType,
+} from "@/types";
 import { eventBus } from "../utils/EventBus";
 
 // ITEM_DATA import moved to internal service
@@ -17,7 +24,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     texture: "commoner-sword",
     attackSpeed: 1000,
     isTwoHanded: false,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -33,7 +40,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     description: "A magical sword engulfed in flames. Deal bonus magic damage",
     texture: "fire-sword",
     isTwoHanded: false,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -53,7 +60,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     },
     texture: "bone-club",
     isTwoHanded: false,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -69,7 +76,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     description: "A two-handed sword that deals heavy damage.",
     texture: "great-sword",
     isTwoHanded: true,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -86,7 +93,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     description: "A simple wooden staff for casting spells.",
     texture: "wooden-staff",
     isTwoHanded: true,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
     moveSpeed: 500,
   },
@@ -107,7 +114,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     },
     texture: "bone-wand",
     isTwoHanded: false,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -124,7 +131,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     description: "A simple bow made from flexible twigs.",
     texture: "twig-bow",
     isTwoHanded: true,
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -143,7 +150,7 @@ const ITEM_DATA: Record<string, ItemData> = {
       archery: 1,
     },
     texture: "throwable-skull",
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -161,7 +168,7 @@ const ITEM_DATA: Record<string, ItemData> = {
       armor: 1,
     },
     texture: "bone-shield",
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -179,7 +186,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     weight: 10,
     description: "A cheap coat encased in skeletal ribs.",
     texture: "skeletal-armor",
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -199,7 +206,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     weight: 10,
     description: "Bone charm",
     texture: "bone-charm",
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -217,7 +224,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     weight: 10,
     description: "A hollowed out skull.",
     texture: "skull-cap",
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -235,7 +242,7 @@ const ITEM_DATA: Record<string, ItemData> = {
     weight: 10,
     description: "skeletalMedallion",
     texture: "skeletal-medallion",
-    rarity: "common",
+    rarity: ItemRarity.COMMON,
     sellValue: 10,
   },
 
@@ -249,6 +256,8 @@ const ITEM_DATA: Record<string, ItemData> = {
     stackable: true,
     description: "A shiny skull",
     texture: "shiny-skull",
+    rarity: ItemRarity.COMMON,
+    sellValue: 3,
   },
 
   // FOOD
@@ -262,6 +271,10 @@ const ITEM_DATA: Record<string, ItemData> = {
     hpRegen: 1,
     mpRegen: 3,
     stackable: true,
+    consumeEffects: [
+      { type: ConsumableEffectType.FED, amount: 1, duration: 60000 },
+      { type: ConsumableEffectType.MANA, amount: 15 },
+    ],
   },
   chickenLegs: {
     id: "chickenLegs",
@@ -273,6 +286,10 @@ const ITEM_DATA: Record<string, ItemData> = {
     hpRegen: 3,
     mpRegen: 1,
     stackable: true,
+    consumeEffects: [
+      { type: ConsumableEffectType.HEAL, amount: 15 },
+      { type: ConsumableEffectType.FED, amount: 3, duration: 90000 },
+    ],
   },
   dirtyFish: {
     id: "dirtyFish",
@@ -284,6 +301,38 @@ const ITEM_DATA: Record<string, ItemData> = {
     hpRegen: 2,
     mpRegen: 2,
     stackable: true,
+    consumeEffects: [
+      { type: ConsumableEffectType.FED, amount: 2, duration: 60000 },
+      { type: ConsumableEffectType.REGEN, amount: 1, duration: 10000 },
+    ],
+  },
+
+  // POTIONS
+  healthPotion: {
+    id: "healthPotion",
+    name: "Health Potion",
+    type: ItemType.PRODUCT,
+    category: ItemCategory.CONSUMABLE,
+    weight: 1,
+    stackable: true,
+    description: "A small flask of red liquid that closes wounds instantly",
+    texture: "health-potion",
+    rarity: ItemRarity.COMMON,
+    sellValue: 8,
+    consumeEffects: [{ type: ConsumableEffectType.HEAL, amount: 40 }],
+  },
+  manaPotion: {
+    id: "manaPotion",
+    name: "Mana Potion",
+    type: ItemType.PRODUCT,
+    category: ItemCategory.CONSUMABLE,
+    weight: 1,
+    stackable: true,
+    description: "A small flask of blue liquid that restores mana instantly",
+    texture: "mana-potion",
+    rarity: ItemRarity.COMMON,
+    sellValue: 8,
+    consumeEffects: [{ type: ConsumableEffectType.MANA, amount: 40 }],
   },
 
   goldCoins: {
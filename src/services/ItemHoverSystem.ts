@@ -186,6 +186,8 @@ export class ItemHoverSystem {
         instanceId: closestItem.instanceId,
         bonusStats: closestItem.bonusStats,
         quantity: closestItem.quantity, // THIS WAS MISSING!
+        rarity: closestItem.rarity,
+        itemLevel: closestItem.itemLevel,
       };
 
       // Emit event for React tooltip component to display
@@ -0,0 +1,211 @@
+// src/services/LightingSystem.ts
+import { eventBus } from "../utils/EventBus";
+import { MapService } from "./MapService";
+import { useGameStore } from "../stores/gameStore";
+import { worldClock } from "./WorldClockSystem";
+import type { GameScene } from "../scenes/GameScene";
+
+/**
+ * Night lighting tuning
+ */
+export const LIGHTING = {
+  NIGHT_COLOR: 0x0a0a24,
+  // Above the world and effects, below floating combat text and name plates
+  DEPTH: 50,
+  PLAYER_LIGHT_RADIUS: 4 * 32,
+  TORCH_LIGHT_RADIUS: 3, // Tiles, when the Tiled object doesn't set a radius
+  // Torch radius wobble, as a fraction of the radius
+  FLICKER_AMOUNT: 0.06,
+  FLICKER_SPEED: 0.008,
+};
+
+const LIGHT_TEXTURE_KEY = "light-radial";
+const LIGHT_TEXTURE_SIZE = 256;
+
+interface LightSource {
+  x: number;
+  y: number;
+  radius: number; // Pixels
+  flicker: boolean;
+  phase: number; // Offsets the flicker so torches don't pulse in sync
+}
+
+export class LightingSystem {
+  private scene: GameScene;
+  private overlay: Phaser.GameObjects.RenderTexture | null = null;
+  private brush: Phaser.GameObjects.Image | null = null;
+  private torches: LightSource[] = [];
+
+  constructor(scene: GameScene) {
+    this.scene = scene;
+  }
+
+  /**
+   * Create the darkness overlay and read torches from the current map's light-layer
+   */
+  initialize(): void {
+    try {
+      this.createOverlay();
+      this.loadTorchesFromMap();
+    } catch (error) {
+      console.error("Error initializing LightingSystem:", error);
+      eventBus.emit("error.lighting.initialize", { error });
+    }
+  }
+
+  private createOverlay(): void {
+    if (!this.scene.textures.exists(LIGHT_TEXTURE_KEY)) {
+      // Soft white disc, erasing with it cuts a light hole into the darkness
+      const texture = this.scene.textures.createCanvas(
+        LIGHT_TEXTURE_KEY,
+        LIGHT_TEXTURE_SIZE,
+        LIGHT_TEXTURE_SIZE
+      );
+      if (texture) {
+        const context = texture.getContext();
+        const center = LIGHT_TEXTURE_SIZE / 2;
+        const gradient = context.createRadialGradient(center, center, 0, center, center, center);
+        gradient.addColorStop(0, "rgba(255, 255, 255, 1)");
+        gradient.addColorStop(0.5, "rgba(255, 255, 255, 0.8)");
+        gradient.addColorStop(1, "rgba(255, 255, 255, 0)");
+        context.fillStyle = gradient;
+        context.fillRect(0, 0, LIGHT_TEXTURE_SIZE, LIGHT_TEXTURE_SIZE);
+        texture.refresh();
+      }
+    }
+
+    if (!this.brush) {
+      this.brush = this.scene.make.image({ key: LIGHT_TEXTURE_KEY, add: false });
+    }
+
+    if (!this.overlay) {
+      this.overlay = this.scene.add.renderTexture(0, 0, 1, 1);
+      this.overlay.setOrigin(0, 0);
+      this.overlay.setDepth(LIGHTING.DEPTH);
+      this.overlay.setVisible(false);
+    }
+  }
+
+  /**
+   * Torches are point or rectangle objects on the light-layer with an optional
+   * radius (tiles) and flicker (bool) property
+   */
+  private loadTorchesFromMap(): void {
+    this.torches = [];
+
+    const lightLayer = this.scene.map?.getObjectLayer("light-layer");
+    if (!lightLayer) return;
+
+    const currentMap = useGameStore.getState().currentMap;
+    const tileSize = 32;
+
+    lightLayer.objects.forEach((obj: any) => {
+      const properties: { name: string; value: any }[] = obj.properties || [];
+      const getProperty = (name: string, defaultValue: any) =>
+        properties.find((prop) => prop.name === name)?.value ?? defaultValue;
+
+      // Same conversion as chests, Tiled object center to a Phaser tile position
+      const tileX = Math.floor((obj.x + (obj.width || 0) / 2) / tileSize);
+      const tileY = Math.floor((obj.y + (obj.height || 0) / 2) / tileSize);
+      const position = MapService.tiledToPhaser(currentMap, tileX, tileY);
+
+      this.torches.push({
+        x: position.x,
+        y: position.y,
+        radius: Number(getProperty("radius", LIGHTING.TORCH_LIGHT_RADIUS)) * tileSize,
+        flicker: Boolean(getProperty("flicker", true)),
+        phase: Math.random() * Math.PI * 2,
+      });
+    });
+  }
+
+  /**
+   * Redraw the darkness around the camera - called each frame with the scene time
+   */
+  update(time: number): void {
+    try {
+      if (!this.overlay || !this.brush) return;
+
+      const darkness = worldClock.getDarkness();
+      if (darkness <= 0) {
+        this.overlay.setVisible(false);
+        return;
+      }
+
+      // The overlay lives in world space and covers exactly what the camera sees
+      const view = this.scene.cameras.main.worldView;
+      const width = Math.ceil(view.width) + 2;
+      const height = Math.ceil(view.height) + 2;
+      if (this.overlay.width !== width || this.overlay.height !== height) {
+        this.overlay.resize(width, height);
+      }
+      this.overlay.setPosition(Math.floor(view.x), Math.floor(view.y));
+      this.overlay.setVisible(true);
+
+      this.overlay.clear();
+      this.overlay.fill(LIGHTING.NIGHT_COLOR, darkness);
+
+      const lights = this.getVisibleLights(view, time);
+      lights.forEach((light) => {
+        this.brush!.setScale((light.radius * 2) / LIGHT_TEXTURE_SIZE);
+        this.overlay!.erase(this.brush, light.x - this.overlay!.x, light.y - this.overlay!.y);
+      });
+    } catch (error) {
+      console.error("Error updating LightingSystem:", error);
+      eventBus.emit("error.lighting.update", { error });
+    }
+  }
+
+  /**
+   * The player's light and every torch that reaches into the view, flicker applied
+   */
+  private getVisibleLights(view: Phaser.Geom.Rectangle, time: number): LightSource[] {
+    const lights: LightSource[] = [];
+
+    const player = this.scene.playerCharacter;
+    if (player && player.active) {
+      lights.push({
+        x: player.x,
+        y: player.y,
+        radius: LIGHTING.PLAYER_LIGHT_RADIUS,
+        flicker: false,
+        phase: 0,
+      });
+    }
+
+    this.torches.forEach((torch) => {
+      const isInView =
+        torch.x + torch.radius > view.x &&
+        torch.x - torch.radius < view.right &&
+        torch.y + torch.radius > view.y &&
+        torch.y - torch.radius < view.bottom;
+      if (!isInView) return;
+
+      const flicker = torch.flicker
+        ? 1 + Math.sin(time * LIGHTING.FLICKER_SPEED + torch.phase) * LIGHTING.FLICKER_AMOUNT
+        : 1;
+      lights.push({ ...torch, radius: torch.radius * flicker });
+    });
+
+    return lights;
+  }
+
+  /**
+   * Forget the current map's torches, the overlay is kept for the next map
+   */
+  cleanup(): void {
+    this.torches = [];
+  }
+
+  destroy(): void {
+    try {
+      this.cleanup();
+      this.overlay?.destroy();
+      this.brush?.destroy();
+      this.overlay = null;
+      this.brush = null;
+    } catch (error) {
+      console.error("Error destroying LightingSystem:", error);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 // src/services/MapService.ts
 import { eventBus } from "@/utils/EventBus";
+import { TempleData } from "@/types";
 
 export interface MapConfig {
   displayName: string;
@@ -11,6 +12,13 @@ export interface MapConfig {
     startX: number;
     startY: number;
   };
+  // Where the player respawns on this map without a bound temple (defaults to defaultSpawn)
+  respawnPoint?: {
+    x: number;
+    y: number;
+  };
+  // Tiles the player can bind their respawn point to
+  temples?: TempleData[];
 }
 
 interface MapConfigs {
@@ -28,6 +36,8 @@ class MapServiceClass {
       displayName: "Devground",
       defaultSpawn: { x: 0, y: 0 },
       chunkInfo: { startX: -32, startY: -64 },
+      respawnPoint: { x: 16, y: 16 },
+      temples: [{ id: "devground-temple", name: "Devground Temple", x: 16, y: 16 }],
     },
     "noob-cave-map": {
       displayName: "Noob Cave",
@@ -78,6 +88,60 @@ class MapServiceClass {
     return this.tiledToPhaser(mapKey, config.defaultSpawn.x, config.defaultSpawn.y);
   }
 
+  /**
+   * Get the map's own respawn point in Phaser coordinates
+   */
+  getRespawnPoint(mapKey: string): Coordinates {
+    const config = this.getMap(mapKey);
+    if (!config?.respawnPoint) {
+      return this.getDefaultSpawn(mapKey);
+    }
+
+    return this.tiledToPhaser(mapKey, config.respawnPoint.x, config.respawnPoint.y);
+  }
+
+  /**
+   * Get the temples declared for a map
+   */
+  getTemples(mapKey: string): TempleData[] {
+    return this.getMap(mapKey)?.temples || [];
+  }
+
+  /**
+   * Get a temple by id
+   */
+  getTemple(mapKey: string, templeId: string): TempleData | null {
+    return this.getTemples(mapKey).find((temple) => temple.id === templeId) || null;
+  }
+
+  /**
+   * Get the temple on a tile, if any
+   */
+  getTempleAt(mapKey: string, tiledX: number, tiledY: number): TempleData | null {
+    return (
+      this.getTemples(mapKey).find((temple) => temple.x === tiledX && temple.y === tiledY) || null
+    );
+  }
+
+  /**
+   * Register a temple found at runtime (e.g. a Tiled object), replacing one with the same id
+   */
+  registerTemple(mapKey: string, temple: TempleData): boolean {
+    const config = this.getMap(mapKey);
+    if (!config) {
+      console.error(`Cannot register temple on unknown map: ${mapKey}`);
+      return false;
+    }
+
+    if (!this.isValidCoordinate(temple.x) || !this.isValidCoordinate(temple.y)) {
+      console.error(`Invalid temple coordinates for ${temple.id} on ${mapKey}`);
+      return false;
+    }
+
+    config.temples = [...(config.temples || []).filter((t) => t.id !== temple.id), temple];
+    return true;
+  }
+
   /**
    * Get current map key
    */
@@ -274,6 +338,11 @@ class MapServiceClass {
       if (!this.isValidCoordinate(config.chunkInfo.startY)) return false;
     }
 
+    if (config.respawnPoint) {
+      if (!this.isValidCoordinate(config.respawnPoint.x)) return false;
+      if (!this.isValidCoordinate(config.respawnPoint.y)) return false;
+    }
+
     return true;
   }
 
@@ -0,0 +1,581 @@
+// src/services/MerchantService.ts
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+import { NPCService } from "./NPCService";
+import { ItemDictionary } from "./ItemDictionaryService";
+import { worldClock } from "./WorldClockSystem";
+import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
+import {
+  BuybackEntry,
+  ItemCategory,
+  ItemInstance,
+  ItemRarity,
+  MerchantState,
+  MerchantStockItem,
+  WorldTime,
+} from "@/types";
+
+/**
+ * Merchant stock and pricing tuning
+ */
+export const MERCHANT_ECONOMY = {
+  DEFAULT_STOCK: 3,
+  DEFAULT_RESTOCK_HOURS: 12,
+  // Buy price markup when a stocked item is sold out, scaled down as stock returns
+  SCARCITY_MARKUP: 0.5,
+  // Price drop for every unit a merchant holds above its normal stock
+  SURPLUS_DISCOUNT: 0.1,
+  MIN_PRICE_MULTIPLIER: 0.4,
+  // Each point of rolled bonus stats adds this share of the item's base value
+  BONUS_STAT_VALUE: 0.5,
+  // Items bought from the player go back on sale at this multiple of their value
+  RESALE_MARKUP: 2,
+  // Oldest items bought from the player are sold on to other customers past this
+  MAX_RESALE_ITEMS: 12,
+  // How long a sold item can be bought back for what the player was paid
+  BUYBACK_DURATION: 10 * 60 * 1000,
+  // Selling anything worth at least this (per sale) asks for confirmation
+  CONFIRM_SELL_VALUE: 25,
+  // What "sell all junk" picks
+  JUNK_CATEGORIES: [ItemCategory.MATERIAL, ItemCategory.PRODUCT],
+  JUNK_RARITIES: [ItemRarity.COMMON],
+};
+
+class MerchantServiceClass {
+  private merchants: Record<string, MerchantState> = {};
+  private nextStockId: number = 1;
+  private nextBuybackId: number = 1;
+
+  constructor() {
+    this.handleTimeChanged = this.handleTimeChanged.bind(this);
+    this.handleShopUpdated = this.handleShopUpdated.bind(this);
+
+    eventBus.on("world.time.changed", this.handleTimeChanged);
+    eventBus.on("npc.shop.updated", this.handleShopUpdated);
+  }
+
+  // ============================================================================
+  // STOCK
+  // ============================================================================
+
+  getStock(npcId: string): MerchantStockItem[] {
+    return [...(this.getMerchantState(npcId)?.stock || [])];
+  }
+
+  /**
+   * Refill every stocked item to its normal amount. Surplus from the player's
+   * sales is sold on to other customers, so prices settle again.
+   */
+  restock(npcId: string): void {
+    try {
+      const state = this.getMerchantState(npcId);
+      if (!state) return;
+
+      state.stock = state.stock.map((entry) =>
+        entry.maxStock > 0 ? { ...entry, quantity: entry.maxStock } : entry
+      );
+      state.lastRestock = worldClock.getTotalMinutes();
+
+      eventBus.emit("merchant.restocked", { npcId });
+      this.emitStockUpdated(state);
+    } catch (error) {
+      console.error(`Error restocking merchant ${npcId}:`, error);
+      eventBus.emit("error.merchant.restock", { npcId, error });
+    }
+  }
+
+  // ============================================================================
+  // PRICES
+  // ============================================================================
+
+  /**
+   * Value of an instance before supply, raised by its rolled bonus stats
+   */
+  getItemValue(instance: ItemInstance): number {
+    const template = ItemDictionary.getItem(instance.templateId);
+    if (!template?.sellValue) return 0;
+
+    const bonusPoints = ItemInstanceManager.getBonusStatTotal(instance);
+    return template.sellValue * (1 + bonusPoints * MERCHANT_ECONOMY.BONUS_STAT_VALUE);
+  }
+
+  /**
+   * Current price of a stock line, higher the scarcer it is
+   */
+  getBuyPrice(npcId: string, stockId: string): number {
+    const entry = this.findStockItem(npcId, stockId);
+    if (!entry) return 0;
+
+    if (entry.maxStock === 0) {
+      return Math.max(1, Math.round(entry.basePrice));
+    }
+
+    const multiplier = this.getSupplyMultiplier(entry.quantity, entry.maxStock);
+    return Math.max(1, Math.round(entry.basePrice * multiplier));
+  }
+
+  /**
+   * What the merchant pays for one unit of an instance, or null if they won't buy it
+   */
+  getSellPrice(npcId: string, instance: ItemInstance): number | null {
+    if (!this.buysItem(npcId, instance)) return null;
+
+    const state = this.getMerchantState(npcId);
+    const held = (state?.stock || [])
+      .filter((entry) => entry.itemId === instance.templateId)
+      .reduce((total, entry) => total + entry.quantity, 0);
+    const normalStock =
+      state?.stock.find((entry) => entry.itemId === instance.templateId && entry.maxStock > 0)
+        ?.maxStock || 0;
+
+    const multiplier = this.getSupplyMultiplier(held, normalStock);
+    return Math.max(1, Math.round(this.getItemValue(instance) * multiplier));
+  }
+
+  /**
+   * Merchants only buy items with a value in the categories they specialise in
+   */
+  buysItem(npcId: string, instance: ItemInstance): boolean {
+    const npc = NPCService.getNPC(npcId);
+    const template = ItemDictionary.getItem(instance.templateId);
+    if (!npc?.isMerchant || !template?.sellValue) return false;
+
+    if (!npc.buysCategories) return true;
+    return !!template.category && npc.buysCategories.includes(template.category);
+  }
+
+  // ============================================================================
+  // TRADING
+  // ============================================================================
+
+  /**
+   * Buy one unit of a stock line
+   * @returns true if the item was bought
+   */
+  buyItem(npcId: string, stockId: string): boolean {
+    try {
+      const state = this.getMerchantState(npcId);
+      const entry = this.findStockItem(npcId, stockId);
+      if (!state || !entry || entry.quantity <= 0) return false;
+
+      const store = useGameStore.getState();
+      const price = this.getBuyPrice(npcId, stockId);
+
+      if (store.playerCharacter.gold < price) {
+        eventBus.emit("ui.message.show", "You don't have enough gold for that!");
+        return false;
+      }
+
+      // Items bought from the player go back with their rolls and instance id
+      const instance = entry.instance || ItemInstanceManager.createItemInstance(entry.itemId);
+      if (!store.addItemInstanceToInventory(instance)) {
+        eventBus.emit("ui.message.show", "You can't carry that much weight!");
+        return false;
+      }
+
+      store.updatePlayerGold(store.playerCharacter.gold - price);
+
+      entry.quantity -= 1;
+      if (entry.quantity <= 0 && entry.maxStock === 0) {
+        state.stock = state.stock.filter((item) => item.stockId !== stockId);
+      }
+
+      // A rolled item bought from stock can't also be bought back
+      if (entry.instance) {
+        state.buyback = state.buyback.filter(
+          (buyback) => buyback.instance.instanceId !== entry.instance!.instanceId
+        );
+      }
+
+      eventBus.emit(
+        "ui.message.show",
+        `Purchased ${ItemInstanceManager.getDisplayName(instance)}!`
+      );
+      eventBus.emit("shop.item.bought", { npcId, itemId: entry.itemId, price, instance });
+      this.emitStockUpdated(state);
+      return true;
+    } catch (error) {
+      console.error(`Error buying ${stockId} from merchant ${npcId}:`, error);
+      eventBus.emit("error.merchant.buy", { npcId, stockId, error });
+      return false;
+    }
+  }
+
+  /**
+   * Sell units of an inventory item. They go on sale in the shop and can be
+   * bought back for a while.
+   * @returns Gold received, or null if nothing was sold
+   */
+  sellItem(npcId: string, instanceId: string, quantity: number = 1): number | null {
+    try {
+      const state = this.getMerchantState(npcId);
+      const store = useGameStore.getState();
+      const instance = store.playerCharacter.inventory.find(
+        (item) => item.instanceId === instanceId
+      );
+      if (!state || !instance || !(quantity > 0)) return null;
+
+      const unitPrice = this.getSellPrice(npcId, instance);
+      if (unitPrice === null) {
+        const npcName = NPCService.getNPC(npcId)?.name || "The merchant";
+        eventBus.emit("ui.message.show", `${npcName} isn't interested in that.`);
+        return null;
+      }
+
+      const units = Math.min(quantity, instance.quantity || 1);
+      if (!store.removeItemInstanceFromInventory(instanceId, units)) {
+        console.error("Failed to remove item from inventory:", instanceId);
+        return null;
+      }
+
+      const sold = { ...instance, quantity: units };
+      const price = unitPrice * units;
+
+      store.updatePlayerGold(store.playerCharacter.gold + price);
+      this.addToStock(state, sold);
+      state.buyback.unshift({
+        buybackId: `${npcId}-buyback-${this.nextBuybackId++}`,
+        instance: sold,
+        price,
+        expiresAt: Date.now() + MERCHANT_ECONOMY.BUYBACK_DURATION,
+      });
+
+      eventBus.emit("shop.item.sold", { npcId, instance: sold, price });
+      this.emitStockUpdated(state);
+      this.emitBuybackUpdated(state);
+      return price;
+    } catch (error) {
+      console.error(`Error selling ${instanceId} to merchant ${npcId}:`, error);
+      eventBus.emit("error.merchant.sell", { npcId, instanceId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Sell a single unit and tell the player what they got
+   * @returns true if the item was sold
+   */
+  sellSingleItem(npcId: string, instanceId: string): boolean {
+    const instance = useGameStore
+      .getState()
+      .playerCharacter.inventory.find((item) => item.instanceId === instanceId);
+    const price = this.sellItem(npcId, instanceId);
+    if (!instance || price === null) return false;
+
+    eventBus.emit(
+      "ui.message.show",
+      `Sold ${ItemInstanceManager.getDisplayName({ ...instance, quantity: 1 })} for ${price} gold!`
+    );
+    return true;
+  }
+
+  /**
+   * Whether selling an instance should be confirmed first: set pieces, rolled
+   * items and anything valuable
+   */
+  needsSellConfirmation(npcId: string, instance: ItemInstance): boolean {
+    const template = ItemDictionary.getItem(instance.templateId);
+    if (template?.set) return true;
+    if (ItemInstanceManager.getBonusStatTotal(instance) > 0) return true;
+
+    const price = this.getSellPrice(npcId, instance);
+    return price !== null && price >= MERCHANT_ECONOMY.CONFIRM_SELL_VALUE;
+  }
+
+  /**
+   * Plain common materials and products this merchant buys
+   */
+  getJunkItems(npcId: string): ItemInstance[] {
+    return useGameStore.getState().playerCharacter.inventory.filter((instance) => {
+      const template = ItemDictionary.getItem(instance.templateId);
+      if (!template?.category) return false;
+
+      return (
+        MERCHANT_ECONOMY.JUNK_CATEGORIES.includes(template.category) &&
+        MERCHANT_ECONOMY.JUNK_RARITIES.includes(ItemInstanceManager.getRarity(instance)) &&
+        !this.needsSellConfirmation(npcId, instance) &&
+        this.buysItem(npcId, instance)
+      );
+    });
+  }
+
+  /**
+   * Sell every junk stack in the inventory
+   * @returns Gold received
+   */
+  sellJunk(npcId: string): number {
+    const junk = this.getJunkItems(npcId);
+    if (junk.length === 0) {
+      eventBus.emit("ui.message.show", "You have no junk to sell.");
+      return 0;
+    }
+
+    let units = 0;
+    let total = 0;
+    junk.forEach((instance) => {
+      const price = this.sellItem(npcId, instance.instanceId, instance.quantity || 1);
+      if (price === null) return;
+
+      units += instance.quantity || 1;
+      total += price;
+    });
+
+    eventBus.emit(
+      "ui.message.show",
+      `Sold ${units} junk item${units === 1 ? "" : "s"} for ${total} gold!`
+    );
+    return total;
+  }
+
+  // ============================================================================
+  // BUYBACK
+  // ============================================================================
+
+  /**
+   * Items sold to this merchant that can still be bought back, newest first
+   */
+  getBuyback(npcId: string): BuybackEntry[] {
+    const state = this.getMerchantState(npcId);
+    if (!state) return [];
+
+    this.removeExpiredBuyback(state);
+    return [...state.buyback];
+  }
+
+  /**
+   * Buy back a sold item for what the player was paid, restoring the exact instance
+   * @returns true if the item was bought back
+   */
+  buyBack(npcId: string, buybackId: string): boolean {
+    try {
+      const state = this.getMerchantState(npcId);
+      if (!state) return false;
+
+      this.removeExpiredBuyback(state);
+      const entry = state.buyback.find((buyback) => buyback.buybackId === buybackId);
+      if (!entry) {
+        eventBus.emit("ui.message.show", "That item is no longer available for buyback.");
+        return false;
+      }
+
+      const store = useGameStore.getState();
+      if (store.playerCharacter.gold < entry.price) {
+        eventBus.emit("ui.message.show", "You don't have enough gold for that!");
+        return false;
+      }
+
+      if (!store.addItemInstanceToInventory(entry.instance)) {
+        eventBus.emit("ui.message.show", "You can't carry that much weight!");
+        return false;
+      }
+
+      store.updatePlayerGold(store.playerCharacter.gold - entry.price);
+      state.buyback = state.buyback.filter((buyback) => buyback.buybackId !== buybackId);
+      this.removeFromStock(state, entry.instance);
+
+      eventBus.emit(
+        "ui.message.show",
+        `Bought back ${ItemInstanceManager.getDisplayName(entry.instance)}!`
+      );
+      eventBus.emit("shop.item.boughtBack", {
+        npcId,
+        instance: entry.instance,
+        price: entry.price,
+      });
+      this.emitStockUpdated(state);
+      this.emitBuybackUpdated(state);
+      return true;
+    } catch (error) {
+      console.error(`Error buying back ${buybackId} from merchant ${npcId}:`, error);
+      eventBus.emit("error.merchant.buyback", { npcId, buybackId, error });
+      return false;
+    }
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Scarce items cost more and plentiful ones less, 1 at the normal stock
+   */
+  private getSupplyMultiplier(quantity: number, normalStock: number): number {
+    if (normalStock > 0 && quantity < normalStock) {
+      return 1 + MERCHANT_ECONOMY.SCARCITY_MARKUP * (1 - quantity / normalStock);
+    }
+
+    const surplus = quantity - normalStock;
+    return Math.max(
+      MERCHANT_ECONOMY.MIN_PRICE_MULTIPLIER,
+      1 - surplus * MERCHANT_ECONOMY.SURPLUS_DISCOUNT
+    );
+  }
+
+  /**
+   * Plain items join the matching stock line, rolled ones keep their own line
+   */
+  private addToStock(state: MerchantState, instance: ItemInstance): void {
+    const units = instance.quantity || 1;
+    const isPlain = ItemInstanceManager.getBonusStatTotal(instance) === 0;
+    const existing = isPlain
+      ? state.stock.find((entry) => entry.itemId === instance.templateId && !entry.instance)
+      : undefined;
+
+    if (existing) {
+      existing.quantity += units;
+      return;
+    }
+
+    state.stock.push({
+      stockId: this.createStockId(state.npcId),
+      itemId: instance.templateId,
+      quantity: units,
+      maxStock: 0,
+      basePrice: this.getItemValue(instance) * MERCHANT_ECONOMY.RESALE_MARKUP,
+      instance: isPlain ? undefined : instance,
+    });
+
+    const resale = state.stock.filter((entry) => entry.maxStock === 0);
+    if (resale.length > MERCHANT_ECONOMY.MAX_RESALE_ITEMS) {
+      state.stock = state.stock.filter((entry) => entry !== resale[0]);
+    }
+  }
+
+  /**
+   * Take bought back units off sale, if the merchant hasn't sold them on already
+   */
+  private removeFromStock(state: MerchantState, instance: ItemInstance): void {
+    const isPlain = ItemInstanceManager.getBonusStatTotal(instance) === 0;
+
+    if (!isPlain) {
+      state.stock = state.stock.filter(
+        (entry) => entry.instance?.instanceId !== instance.instanceId
+      );
+      return;
+    }
+
+    const entry = state.stock.find((item) => item.itemId === instance.templateId && !item.instance);
+    if (!entry) return;
+
+    entry.quantity = Math.max(0, entry.quantity - (instance.quantity || 1));
+    if (entry.quantity === 0 && entry.maxStock === 0) {
+      state.stock = state.stock.filter((item) => item !== entry);
+    }
+  }
+
+  private removeExpiredBuyback(state: MerchantState): boolean {
+    const now = Date.now();
+    const remaining = state.buyback.filter((entry) => entry.expiresAt > now);
+    if (remaining.length === state.buyback.length) return false;
+
+    state.buyback = remaining;
+    return true;
+  }
+
+  private findStockItem(npcId: string, stockId: string): MerchantStockItem | undefined {
+    return this.getMerchantState(npcId)?.stock.find((entry) => entry.stockId === stockId);
+  }
+
+  /**
+   * Merchant state is created from the NPC's shop items the first time it's needed
+   */
+  private getMerchantState(npcId: string): MerchantState | null {
+    if (this.merchants[npcId]) return this.merchants[npcId];
+
+    const npc = NPCService.getNPC(npcId);
+    if (!npc?.isMerchant) return null;
+
+    this.merchants[npcId] = {
+      npcId,
+      stock: NPCService.getShopItems(npcId).map((shopItem) => {
+        const maxStock = shopItem.stock ?? MERCHANT_ECONOMY.DEFAULT_STOCK;
+        return {
+          stockId: this.createStockId(npcId),
+          itemId: shopItem.itemId,
+          quantity: maxStock,
+          maxStock,
+          basePrice: shopItem.price,
+        };
+      }),
+      buyback: [],
+      lastRestock: worldClock.getTotalMinutes(),
+    };
+
+    return this.merchants[npcId];
+  }
+
+  private createStockId(npcId: string): string {
+    return `${npcId}-stock-${this.nextStockId++}`;
+  }
+
+  private emitStockUpdated(state: MerchantState): void {
+    eventBus.emit("merchant.stock.updated", { npcId: state.npcId, stock: [...state.stock] });
+  }
+
+  private emitBuybackUpdated(state: MerchantState): void {
+    eventBus.emit("merchant.buyback.updated", { npcId: state.npcId, buyback: [...state.buyback] });
+  }
+
+  private handleTimeChanged(_time: WorldTime): void {
+    try {
+      const now = worldClock.getTotalMinutes();
+
+      Object.values(this.merchants).forEach((state) => {
+        const hours =
+          NPCService.getNPC(state.npcId)?.restockHours ?? MERCHANT_ECONOMY.DEFAULT_RESTOCK_HOURS;
+        if (now - state.lastRestock >= hours * 60) {
+          this.restock(state.npcId);
+        }
+
+        // Expired buyback stays on sale in the shop
+        if (this.removeExpiredBuyback(state)) {
+          this.emitBuybackUpdated(state);
+        }
+      });
+    } catch (error) {
+      console.error("Error in MerchantService.handleTimeChanged:", error);
+      eventBus.emit("error.merchant.time", { error });
+    }
+  }
+
+  /**
+   * Keep stocked lines in step with shop items added or removed through NPCService
+   */
+  private handleShopUpdated(data: { npcId: string }): void {
+    const state = this.merchants[data?.npcId];
+    if (!state) return;
+
+    const shopItems = NPCService.getShopItems(data.npcId);
+
+    state.stock = state.stock
+      .filter(
+        (entry) =>
+          entry.maxStock === 0 || shopItems.some((shopItem) => shopItem.itemId === entry.itemId)
+      )
+      .map((entry) => {
+        const shopItem = shopItems.find((item) => item.itemId === entry.itemId);
+        return entry.maxStock > 0 && shopItem ? { ...entry, basePrice: shopItem.price } : entry;
+      });
+
+    shopItems
+      .filter(
+        (shopItem) =>
+          !state.stock.some((entry) => entry.maxStock > 0 && entry.itemId === shopItem.itemId)
+      )
+      .forEach((shopItem) => {
+        const maxStock = shopItem.stock ?? MERCHANT_ECONOMY.DEFAULT_STOCK;
+        state.stock.push({
+          stockId: this.createStockId(data.npcId),
+          itemId: shopItem.itemId,
+          quantity: maxStock,
+          maxStock,
+          basePrice: shopItem.price,
+        });
+      });
+
+    this.emitStockUpdated(state);
+  }
+}
+
+// Create and export singleton instance
+export const MerchantService = new MerchantServiceClass();
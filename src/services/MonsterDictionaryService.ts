@@ -16,6 +16,7 @@ const MONSTER_DATA: Record<string, MonsterData> = {
     armor: 2,
     drops: [
       { itemId: "sword1", chance: 0.15 },
+      { itemId: "healthPotion", chance: 0.1 },
       { itemId: "goldCoins", chance: 0.95, minQuantity: 5, maxQuantity: 8 },
     ],
     isAggressive: true,
@@ -26,6 +27,53 @@ const MONSTER_DATA: Record<string, MonsterData> = {
     scale: 1,
   },
 
+  // Bosses
+  "skeleton-king": {
+    id: "skeleton-king",
+    name: "Skeleton King",
+    category: MonsterCategory.UNDEAD,
+    sprite: "assets/sprites/skeleton.png",
+    health: 120,
+    maxHealth: 120,
+    speed: 45,
+    experience: 600,
+    damage: 6,
+    armor: 5,
+    drops: [],
+    isAggressive: true,
+    attackType: MonsterAttackType.Melee,
+    runawayPercent: 0,
+    description: "The restless ruler of the Noob Cave, guarding its deepest chamber.",
+    color: 0xe8d8a0,
+    scale: 1.5,
+    boss: {
+      phases: [
+        {
+          healthPercent: 100,
+          name: "Awakened",
+          abilities: ["graveQuake"],
+        },
+        {
+          healthPercent: 60,
+          name: "Call of the Grave",
+          message: "The Skeleton King calls his servants from the grave!",
+          abilities: ["graveQuake", "boneRain"],
+          speed: 55,
+          adds: [{ monsterType: "decayed-skeleton", count: 2 }],
+        },
+        {
+          healthPercent: 25,
+          name: "Last Stand",
+          message: "The Skeleton King backs away and starts chanting!",
+          abilities: ["boneRain"],
+          speed: 70,
+          attackType: MonsterAttackType.Magic,
+        },
+      ],
+      lootTable: "skeleton-king",
+    },
+  },
+
   // Dark Elf Category
   "dark-elf-mage": {
     id: "dark-elf-mage",
@@ -38,11 +86,15 @@ const MONSTER_DATA: Record<string, MonsterData> = {
     experience: 40,
     damage: 2,
     armor: 1,
-    drops: [{ itemId: "sword1", chance: 0.75 }],
+    drops: [
+      { itemId: "sword1", chance: 0.75 },
+      { itemId: "manaPotion", chance: 0.25 },
+    ],
     abilities: ["fireball"],
     isAggressive: true,
     attackType: MonsterAttackType.Magic,
     runawayPercent: 20,
+    activeTime: "night", // Dark elves only surface to hunt after dusk
     description: "A skilled practitioner of dark magic from the underground cities.",
   },
 
@@ -60,6 +112,7 @@ const MONSTER_DATA: Record<string, MonsterData> = {
     drops: [
       { itemId: "greatSword", chance: 0.5 },
       { itemId: "sword1", chance: 0.8 },
+      { itemId: "healthPotion", chance: 0.2 },
     ],
     abilities: ["swordSlash"],
     isAggressive: true,
@@ -0,0 +1,307 @@
+// src/services/MonsterGroupSystem.ts
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+import { MonsterAttackType } from "@/types";
+import type { Monster } from "../entities/Monster";
+import type { Character } from "../entities/Character";
+
+/**
+ * Pack behaviour tuning
+ */
+export const PACK = {
+  // Monsters of the same category this close to an attacked ally join the fight
+  CALL_FOR_HELP_RADIUS: 6 * 32,
+  // Threat an ally starts with on the attacker when it answers a call for help
+  ASSIST_THREAT: 10,
+  // Ranged and magic members stay this much further from the target than their melee packmates
+  BACKLINE_GAP: 2 * 32,
+  // ...but never further than this, so they stay within attack range
+  MAX_BACKLINE_DISTANCE: 10 * 32,
+  // How often followers re-take their formation slots (milliseconds)
+  FORMATION_INTERVAL: 1000,
+};
+
+export type FormationType = "line" | "column" | "wedge" | "circle";
+
+export const FORMATION_TYPES: FormationType[] = ["line", "column", "wedge", "circle"];
+
+/**
+ * Formation slots in tiles relative to the leader, filled in order (melee first)
+ */
+const FORMATIONS: Record<FormationType, { x: number; y: number }[]> = {
+  line: [
+    { x: -1, y: 0 },
+    { x: 1, y: 0 },
+    { x: -2, y: 0 },
+    { x: 2, y: 0 },
+  ],
+  column: [
+    { x: 0, y: 1 },
+    { x: 0, y: 2 },
+    { x: 0, y: 3 },
+    { x: 0, y: 4 },
+  ],
+  wedge: [
+    { x: -1, y: 1 },
+    { x: 1, y: 1 },
+    { x: -2, y: 2 },
+    { x: 2, y: 2 },
+  ],
+  circle: [
+    { x: 0, y: -1 },
+    { x: 1, y: 0 },
+    { x: 0, y: 1 },
+    { x: -1, y: 0 },
+    { x: 1, y: -1 },
+    { x: 1, y: 1 },
+    { x: -1, y: 1 },
+    { x: -1, y: -1 },
+  ],
+};
+
+interface MonsterGroup {
+  id: string;
+  formation: FormationType | null;
+  leader: Monster | null;
+  members: Monster[];
+}
+
+class MonsterGroupSystemService {
+  private readonly tileSize: number = 32;
+  private groups: Map<string, MonsterGroup> = new Map();
+  private lastFormationTime: number = 0;
+
+  constructor() {
+    eventBus.on("monster.damage", this.handleMonsterDamaged.bind(this));
+    eventBus.on("monster.aggro", this.handleMonsterAggro.bind(this));
+  }
+
+  // ============================================================================
+  // GROUPS
+  // ============================================================================
+
+  /**
+   * Add a monster to a spawn-declared group, creating the group if needed
+   */
+  addMember(
+    groupId: string,
+    monster: Monster,
+    options: { leader?: boolean; formation?: FormationType | null } = {}
+  ): void {
+    let group = this.groups.get(groupId);
+    if (!group) {
+      group = { id: groupId, formation: null, leader: null, members: [] };
+      this.groups.set(groupId, group);
+    }
+
+    if (options.formation && !group.formation) {
+      group.formation = options.formation;
+    }
+
+    if (!group.members.includes(monster)) {
+      group.members.push(monster);
+    }
+
+    monster.groupId = groupId;
+
+    // Leader spawns with several monsters only promote one, a respawned leader takes over again
+    if (options.leader && !(group.leader && this.isAlive(group.leader))) {
+      group.leader = monster;
+    }
+
+    eventBus.emit("monster.group.joined", {
+      id: monster.id,
+      groupId,
+      isLeader: group.leader === monster,
+    });
+  }
+
+  /**
+   * Monsters that fight alongside this one: its spawn group, or nearby monsters of
+   * the same category for monsters without a group
+   */
+  getPackmates(monster: Monster): Monster[] {
+    const group = monster.groupId ? this.groups.get(monster.groupId) : null;
+    if (group) {
+      return group.members.filter((member) => member !== monster && this.isAlive(member));
+    }
+
+    if (!monster.category) return [];
+
+    const gameScene = useGameStore.getState().systems?.gameScene;
+    const monsters: Monster[] = gameScene?.monsters?.getChildren() || [];
+
+    return monsters.filter(
+      (other) =>
+        other !== monster &&
+        this.isAlive(other) &&
+        other.category === monster.category &&
+        Phaser.Math.Distance.Between(monster.x, monster.y, other.x, other.y) <=
+          PACK.CALL_FOR_HELP_RADIUS
+    );
+  }
+
+  /**
+   * Distance from a target to the closest melee packmate fighting it, null without one.
+   * Ranged and magic members use this to stay behind their frontline.
+   */
+  getFrontlineDistance(monster: Monster, target: Character): number | null {
+    let closest: number | null = null;
+
+    this.getPackmates(monster).forEach((packmate) => {
+      if (packmate.attackType !== MonsterAttackType.Melee) return;
+      if (!packmate.isEngaged() || packmate.getCombatTarget() !== target) return;
+
+      const distance = Phaser.Math.Distance.Between(packmate.x, packmate.y, target.x, target.y);
+      if (closest === null || distance < closest) closest = distance;
+    });
+
+    return closest;
+  }
+
+  /**
+   * Drop every group, called when spawns are reloaded for a new map
+   */
+  clear(): void {
+    this.groups.clear();
+  }
+
+  // ============================================================================
+  // SOCIAL AGGRO
+  // ============================================================================
+
+  /**
+   * An attacked monster calls its packmates for help
+   */
+  handleMonsterDamaged(data: { id: string }): void {
+    try {
+      const monster = this.findMonster(data?.id);
+      if (!monster || monster.isResetting) return;
+
+      const attacker = monster.getCombatTarget();
+      if (attacker) {
+        this.callForHelp(monster, attacker, this.getPackmates(monster));
+      }
+    } catch (error) {
+      console.error("Error handling call for help:", error);
+      eventBus.emit("error.monster.group.help", { error });
+    }
+  }
+
+  /**
+   * A group member noticing the player pulls the whole group
+   */
+  handleMonsterAggro(data: { id: string }): void {
+    try {
+      const monster = this.findMonster(data?.id);
+      if (!monster?.groupId) return;
+
+      const target = monster.getCombatTarget();
+      if (target) {
+        this.callForHelp(monster, target, this.getPackmates(monster));
+      }
+    } catch (error) {
+      console.error("Error handling group aggro:", error);
+      eventBus.emit("error.monster.group.aggro", { error });
+    }
+  }
+
+  private callForHelp(monster: Monster, target: Character, packmates: Monster[]): void {
+    const helpers = packmates.filter((packmate) => packmate.assist(target, PACK.ASSIST_THREAT));
+    if (helpers.length === 0) return;
+
+    eventBus.emit("monster.calledForHelp", {
+      id: monster.id,
+      type: monster.monsterType,
+      targetId: target.id,
+      helperIds: helpers.map((helper) => helper.id),
+    });
+  }
+
+  // ============================================================================
+  // FORMATIONS
+  // ============================================================================
+
+  /**
+   * Keep idle followers in their slots around the leader
+   */
+  private updateFormation(group: MonsterGroup): void {
+    const leader = group.leader;
+    if (!group.formation || !leader || !this.isAlive(leader) || leader.isEngaged()) return;
+
+    const slots = FORMATIONS[group.formation];
+    const leaderTileX = Math.floor(leader.x / this.tileSize);
+    const leaderTileY = Math.floor(leader.y / this.tileSize);
+
+    // Melee in the front slots, ranged and magic behind them
+    const followers = group.members
+      .filter((member) => member !== leader && this.isAlive(member))
+      .sort(
+        (a, b) =>
+          Number(a.attackType !== MonsterAttackType.Melee) -
+          Number(b.attackType !== MonsterAttackType.Melee)
+      );
+
+    followers.forEach((follower, index) => {
+      if (follower.isEngaged() || follower.isResetting) return;
+
+      // Groups larger than the formation repeat it one ring further out
+      const slot = slots[index % slots.length];
+      const ring = 1 + Math.floor(index / slots.length);
+      const x = (leaderTileX + slot.x * ring) * this.tileSize + this.tileSize / 2;
+      const y = (leaderTileY + slot.y * ring) * this.tileSize + this.tileSize / 2;
+
+      follower.followFormationSlot(x, y);
+    });
+  }
+
+  /**
+   * Updates the system - called each frame with the scene time
+   */
+  update(time: number): void {
+    if (time - this.lastFormationTime < PACK.FORMATION_INTERVAL) return;
+    this.lastFormationTime = time;
+
+    try {
+      this.groups.forEach((group) => {
+        // Forget members that died, respawns join again through the spawn system
+        group.members = group.members.filter((member) => this.isAlive(member));
+        if (group.leader && !this.isAlive(group.leader)) {
+          group.leader = null;
+          group.members.forEach((member) => member.leaveFormation());
+        }
+
+        this.updateFormation(group);
+      });
+    } catch (error) {
+      console.error("Error in MonsterGroupSystem update:", error);
+      eventBus.emit("error.monster.group.update", { error });
+    }
+  }
+
+  // Private helper methods
+
+  private findMonster(id?: string): Monster | null {
+    if (!id) return null;
+
+    const gameScene = useGameStore.getState().systems?.gameScene;
+    const monsters: Monster[] = gameScene?.monsters?.getChildren() || [];
+    return monsters.find((monster) => monster.id === id) || null;
+  }
+
+  private isAlive(monster: Monster): boolean {
+    return monster.active && !monster.isDead;
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    eventBus.off("monster.damage", this.handleMonsterDamaged);
+    eventBus.off("monster.aggro", this.handleMonsterAggro);
+    this.groups.clear();
+  }
+}
+
+// Create and export singleton instance
+export const monsterGroupSystem = new MonsterGroupSystemService();
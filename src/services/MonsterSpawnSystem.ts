@@ -2,28 +2,83 @@
 import { eventBus } from "../utils/EventBus";
 import { MapService } from "../services/MapService";
 import { useGameStore } from "../stores/gameStore";
+import { MonsterDictionary } from "./MonsterDictionaryService";
+import { MonsterVariantManager } from "../utils/MonsterVariantManager";
+import { QuestService } from "./QuestService";
+import { pathfindingSystem } from "./PathfindingSystem";
+import { worldClock } from "./WorldClockSystem";
+import { TimeOfDay } from "@/types";
 import type { GameScene } from "../scenes/GameScene";
 import type { Monster } from "../entities/Monster";
+import { FORMATION_TYPES, FormationType, monsterGroupSystem } from "./MonsterGroupSystem";
+
+/**
+ * Spawn tuning
+ */
+export const SPAWNING = {
+  // How often spawn points held back by their conditions try again (milliseconds)
+  RETRY_INTERVAL: 1000,
+  // Extra margin around the camera view where monsters may not appear (pixels)
+  OFFSCREEN_MARGIN: 32,
+  // Random positions tried per monster before waiting for the next retry
+  POSITION_ATTEMPTS: 8,
+};
+
+type QuestRequirement = "active" | "completed" | "notStarted";
+
+const QUEST_REQUIREMENTS: QuestRequirement[] = ["active", "completed", "notStarted"];
+
+/**
+ * Monster type in a spawn point's pool, picked in proportion to its weight
+ */
+interface WeightedMonster {
+  monsterType: string;
+  weight: number;
+}
+
+/**
+ * Everything that has to hold for a spawn point to spawn, null when not required
+ */
+interface SpawnConditions {
+  minPlayerLevel: number | null;
+  maxPlayerLevel: number | null;
+  questId: string | null;
+  questState: QuestRequirement;
+  timeOfDay: TimeOfDay | null;
+  minPlayerDistance: number; // Pixels, 0 spawns regardless of the player's position
+}
 
 interface SpawnPoint {
   id: string;
   x: number;
   y: number;
-  monsterType: string;
+  monsterType: string; // First monster of the pool
+  pool: WeightedMonster[];
+  spawnRadius: number; // Pixels, monsters appear anywhere walkable within it
+  conditions: SpawnConditions;
+  rareMonsterType: string | null;
+  rareChance: number; // 0-1, replaces a regular pick with the rare monster
   respawnTime: number;
   maxCount: number;
+  leashRadius: number; // Pixels, monsters pulled further than this walk back and reset
+  groupId: string | null; // Monsters sharing a group fight and move together
+  isLeader: boolean;
+  formation: FormationType | null;
   currentMonsters: Monster[];
   lastRespawnTime: number;
   isActive: boolean;
+  isWaiting: boolean; // Below maxCount because conditions or visibility held a spawn back
 }
 
 export class MonsterSpawnSystem {
   private scene: GameScene;
   private spawnPoints: Map<string, SpawnPoint> = new Map();
   private respawnTimers: Map<string, Phaser.Time.TimerEvent> = new Map();
+  private lastRetryTime: number = 0;
 
   constructor(scene: GameScene) {
     this.scene = scene;
+    this.handleMonsterDeath = this.handleMonsterDeath.bind(this);
     this.setupEventListeners();
   }
 
@@ -61,11 +116,20 @@ export class MonsterSpawnSystem {
       try {
         // Extract properties from the Tiled object
         const monsterType = this.getObjectProperty(obj, "monsterType", "");
+        const monsterPool = this.getObjectProperty(obj, "monsterPool", "");
+        const spawnRadius = this.getObjectProperty(obj, "spawnRadius", 0); // In tiles
+        const rareMonsterType = this.getObjectProperty(obj, "rareMonsterType", "");
+        const rareChance = this.getObjectProperty(obj, "rareChance", 0);
         const respawnTime = this.getObjectProperty(obj, "respawnTime", 30);
         const maxCount = this.getObjectProperty(obj, "maxCount", 1);
-
-        if (!monsterType) {
-          console.warn("Spawn point missing monsterType property:", obj);
+        const leashRadius = this.getObjectProperty(obj, "leashRadius", 12); // In tiles
+        const group = this.getObjectProperty(obj, "group", "");
+        const isLeader = this.getObjectProperty(obj, "leader", false);
+        const formation = this.getObjectProperty(obj, "formation", "");
+
+        const pool = this.parseMonsterPool(monsterPool, monsterType);
+        if (pool.length === 0) {
+          console.warn("Spawn point missing monsterType or monsterPool property:", obj);
           return;
         }
 
@@ -97,12 +161,23 @@ export class MonsterSpawnSystem {
           id: `spawn_${obj.id}_${Date.now()}`,
           x: phaserCoords.x,
           y: phaserCoords.y,
-          monsterType,
+          monsterType: pool[0].monsterType,
+          pool,
+          spawnRadius: spawnRadius * tileSize,
+          conditions: this.parseConditions(obj, tileSize),
+          rareMonsterType: rareMonsterType || null,
+          rareChance: Math.max(0, Math.min(1, Number(rareChance) || 0)),
           respawnTime: respawnTime * 1000, // Convert to milliseconds
           maxCount,
+          leashRadius: leashRadius * tileSize,
+          // Groups are named per map, so the same name on another map is another group
+          groupId: group ? `${currentMap}_${group}` : null,
+          isLeader: Boolean(isLeader),
+          formation: FORMATION_TYPES.includes(formation) ? formation : null,
           currentMonsters: [],
           lastRespawnTime: 0,
           isActive: true,
+          isWaiting: false,
         };
 
         this.spawnPoints.set(spawnPoint.id, spawnPoint);
@@ -122,19 +197,91 @@ export class MonsterSpawnSystem {
     return property ? property.value : defaultValue;
   }
 
+  /**
+   * Parse a pool such as "decayed-skeleton:3, skeleton-archer:1", falling back to the
+   * single monsterType. Entries without a weight count as weight 1.
+   */
+  private parseMonsterPool(monsterPool: string, monsterType: string): WeightedMonster[] {
+    const pool: WeightedMonster[] = [];
+
+    String(monsterPool)
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .forEach((entry) => {
+        const [type, weight] = entry.split(":").map((part) => part.trim());
+        const parsedWeight = weight === undefined ? 1 : Number(weight);
+
+        if (!MonsterDictionary.getMonster(type)) {
+          console.warn(`Unknown monster "${type}" in spawn pool "${monsterPool}"`);
+          return;
+        }
+        if (parsedWeight > 0) {
+          pool.push({ monsterType: type, weight: parsedWeight });
+        }
+      });
+
+    if (pool.length === 0 && monsterType) {
+      pool.push({ monsterType, weight: 1 });
+    }
+
+    return pool;
+  }
+
+  /**
+   * Read the optional spawn conditions of a Tiled object
+   */
+  private parseConditions(obj: any, tileSize: number): SpawnConditions {
+    const minPlayerLevel = Number(this.getObjectProperty(obj, "minPlayerLevel", 0));
+    const maxPlayerLevel = Number(this.getObjectProperty(obj, "maxPlayerLevel", 0));
+    const questId = this.getObjectProperty(obj, "questId", "");
+    const questState = this.getObjectProperty(obj, "questState", "active");
+    const timeOfDay = this.getObjectProperty(obj, "timeOfDay", "");
+    const minPlayerDistance = Number(this.getObjectProperty(obj, "minPlayerDistance", 0)); // Tiles
+
+    return {
+      minPlayerLevel: minPlayerLevel > 0 ? minPlayerLevel : null,
+      maxPlayerLevel: maxPlayerLevel > 0 ? maxPlayerLevel : null,
+      questId: questId || null,
+      questState: QUEST_REQUIREMENTS.includes(questState) ? questState : "active",
+      timeOfDay: timeOfDay === "day" || timeOfDay === "night" ? timeOfDay : null,
+      minPlayerDistance: Math.max(0, minPlayerDistance) * tileSize,
+    };
+  }
+
   /**
    * Spawn initial monsters at all spawn points
    */
   private spawnInitialMonsters(): void {
     this.spawnPoints.forEach((spawnPoint) => {
-      this.spawnMonstersAtPoint(spawnPoint);
+      // The map fades in on load, so these may appear in view
+      this.spawnMonstersAtPoint(spawnPoint, true);
     });
   }
 
+  /**
+   * Retry spawn points that were held back by their conditions or by the camera
+   */
+  update(time: number): void {
+    try {
+      if (time - this.lastRetryTime < SPAWNING.RETRY_INTERVAL) return;
+      this.lastRetryTime = time;
+
+      this.spawnPoints.forEach((spawnPoint) => {
+        if (spawnPoint.isWaiting && !this.respawnTimers.has(spawnPoint.id)) {
+          this.spawnMonstersAtPoint(spawnPoint);
+        }
+      });
+    } catch (error) {
+      console.error("Error updating MonsterSpawnSystem:", error);
+      eventBus.emit("error.spawn.update", { error });
+    }
+  }
+
   /**
    * Spawn monsters at a specific spawn point up to maxCount
    */
-  private spawnMonstersAtPoint(spawnPoint: SpawnPoint): void {
+  private spawnMonstersAtPoint(spawnPoint: SpawnPoint, allowVisible: boolean = false): void {
     if (!spawnPoint.isActive) return;
 
     // Clean up any dead monsters from the list
@@ -144,34 +291,225 @@ export class MonsterSpawnSystem {
 
     // Determine how many monsters to spawn
     const monstersToSpawn = spawnPoint.maxCount - spawnPoint.currentMonsters.length;
+    if (monstersToSpawn <= 0) {
+      spawnPoint.isWaiting = false;
+      return;
+    }
+
+    // Wait until the conditions hold, update() checks again
+    if (!this.areConditionsMet(spawnPoint)) {
+      spawnPoint.isWaiting = true;
+      return;
+    }
 
+    let spawned = 0;
     for (let i = 0; i < monstersToSpawn; i++) {
-      this.spawnSingleMonster(spawnPoint);
+      if (this.spawnSingleMonster(spawnPoint, allowVisible)) {
+        spawned++;
+      }
+    }
+
+    spawnPoint.isWaiting = spawned < monstersToSpawn;
+  }
+
+  /**
+   * Whether the player and world currently allow a spawn point to spawn
+   */
+  private areConditionsMet(spawnPoint: SpawnPoint): boolean {
+    const conditions = spawnPoint.conditions;
+    const store = useGameStore.getState();
+    const playerLevel = store.playerCharacter.skills.playerLevel?.level || 1;
+
+    if (conditions.minPlayerLevel !== null && playerLevel < conditions.minPlayerLevel) {
+      return false;
+    }
+    if (conditions.maxPlayerLevel !== null && playerLevel > conditions.maxPlayerLevel) {
+      return false;
+    }
+
+    if (conditions.questId) {
+      const isActive = QuestService.isQuestActive(conditions.questId);
+      const isCompleted = QuestService.isQuestCompleted(conditions.questId);
+
+      if (conditions.questState === "active" && !isActive) return false;
+      if (conditions.questState === "completed" && !isCompleted) return false;
+      if (conditions.questState === "notStarted" && (isActive || isCompleted)) return false;
     }
+
+    if (conditions.timeOfDay && conditions.timeOfDay !== worldClock.getTimeOfDay()) {
+      return false;
+    }
+
+    const player = this.scene.playerCharacter;
+    if (conditions.minPlayerDistance > 0 && player && !player.isDead) {
+      const distance = Phaser.Math.Distance.Between(spawnPoint.x, spawnPoint.y, player.x, player.y);
+      if (distance < conditions.minPlayerDistance) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Pick the monster to spawn, the rare monster when its chance hits
+   */
+  private pickMonsterType(spawnPoint: SpawnPoint): { monsterType: string; isRare: boolean } {
+    if (spawnPoint.rareMonsterType && Math.random() < spawnPoint.rareChance) {
+      return { monsterType: spawnPoint.rareMonsterType, isRare: true };
+    }
+
+    const totalWeight = spawnPoint.pool.reduce((sum, entry) => sum + entry.weight, 0);
+    let roll = Math.random() * totalWeight;
+
+    for (const entry of spawnPoint.pool) {
+      roll -= entry.weight;
+      if (roll < 0) {
+        return { monsterType: entry.monsterType, isRare: false };
+      }
+    }
+
+    return { monsterType: spawnPoint.monsterType, isRare: false };
+  }
+
+  /**
+   * Find a walkable position within the spawn area, outside the camera view
+   * unless allowVisible is set
+   * @returns The position, or null if every attempt was blocked or on screen
+   */
+  private findSpawnPosition(
+    spawnPoint: SpawnPoint,
+    allowVisible: boolean
+  ): { x: number; y: number } | null {
+    const view = this.scene.cameras.main.worldView;
+    const margin = SPAWNING.OFFSCREEN_MARGIN;
+
+    for (let attempt = 0; attempt < SPAWNING.POSITION_ATTEMPTS; attempt++) {
+      let x: number;
+      let y: number;
+
+      if (spawnPoint.spawnRadius > 0) {
+        // Uniform over the circle, not bunched up in the middle
+        const angle = Math.random() * Math.PI * 2;
+        const distance = Math.sqrt(Math.random()) * spawnPoint.spawnRadius;
+        x = spawnPoint.x + Math.cos(angle) * distance;
+        y = spawnPoint.y + Math.sin(angle) * distance;
+
+        if (!pathfindingSystem.isWalkable(this.scene, pathfindingSystem.worldToGrid(x, y))) {
+          continue;
+        }
+      } else {
+        // Add some randomization to spawn position to prevent overlapping
+        const offsetRange = 16; // ±16 pixels
+        x = spawnPoint.x + (Math.random() - 0.5) * offsetRange;
+        y = spawnPoint.y + (Math.random() - 0.5) * offsetRange;
+      }
+
+      const isVisible =
+        x > view.x - margin &&
+        x < view.right + margin &&
+        y > view.y - margin &&
+        y < view.bottom + margin;
+
+      if (allowVisible || !isVisible) {
+        return { x, y };
+      }
+    }
+
+    return null;
   }
 
   /**
    * Spawn a single monster at a spawn point
+   * @returns Whether a monster was spawned
    */
-  private spawnSingleMonster(spawnPoint: SpawnPoint): void {
+  private spawnSingleMonster(spawnPoint: SpawnPoint, allowVisible: boolean): boolean {
     try {
-      // Add some randomization to spawn position to prevent overlapping
-      const offsetRange = 16; // ±16 pixels
-      const randomX = spawnPoint.x + (Math.random() - 0.5) * offsetRange;
-      const randomY = spawnPoint.y + (Math.random() - 0.5) * offsetRange;
+      const position = this.findSpawnPosition(spawnPoint, allowVisible);
+      if (!position) return false;
+
+      const { monsterType, isRare } = this.pickMonsterType(spawnPoint);
 
-      const monster = this.scene.spawnMonster(spawnPoint.monsterType, randomX, randomY);
+      // Now and then a spawn rolls as an elite or champion
+      const variant = MonsterVariantManager.rollVariant(MonsterDictionary.getMonster(monsterType));
+      const monster = this.scene.spawnMonster(monsterType, position.x, position.y, variant);
 
       if (monster) {
         // Store reference to the spawn point in the monster
         (monster as any).spawnPointId = spawnPoint.id;
+        monster.setLeash(spawnPoint.x, spawnPoint.y, spawnPoint.leashRadius);
+
+        if (spawnPoint.groupId) {
+          monsterGroupSystem.addMember(spawnPoint.groupId, monster, {
+            leader: spawnPoint.isLeader,
+            formation: spawnPoint.formation,
+          });
+        }
 
         // Add to spawn point's monster list
         spawnPoint.currentMonsters.push(monster);
+
+        if (isRare) {
+          eventBus.emit("ui.message.show", `A rare ${monster.monsterName} lurks nearby!`);
+          eventBus.emit("monster.rare.spawned", {
+            id: monster.id,
+            type: monsterType,
+            spawnPointId: spawnPoint.id,
+          });
+        }
       }
+
+      return !!monster;
     } catch (error) {
       console.error(`Error spawning monster at spawn point ${spawnPoint.id}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Spawn monsters around a position outside of any spawn point, e.g. adds summoned
+   * by a boss. They are leashed to the same area and never respawn.
+   */
+  spawnAdds(
+    monsterType: string,
+    count: number,
+    x: number,
+    y: number,
+    leashRadius: number = 12 * 32
+  ): Monster[] {
+    const spawned: Monster[] = [];
+
+    try {
+      const summonerTile = pathfindingSystem.worldToGrid(x, y);
+
+      for (let i = 0; i < count; i++) {
+        // Spread the adds around the summoner, one tile or two away
+        const angle = (i / count) * Math.PI * 2;
+        const distance = 32 * (1 + (i % 2));
+        const tile = pathfindingSystem.worldToGrid(
+          x + Math.cos(angle) * distance,
+          y + Math.sin(angle) * distance
+        );
+
+        // Tiles in walls or outside the arena fall back to the summoner's own tile
+        const position = pathfindingSystem.gridToWorld(
+          pathfindingSystem.isWalkable(this.scene, tile) ? tile : summonerTile
+        );
+        const monster = this.scene.spawnMonster(monsterType, position.x, position.y);
+
+        if (monster) {
+          monster.setLeash(x, y, leashRadius);
+          spawned.push(monster);
+        }
+      }
+
+      eventBus.emit("monster.adds.spawned", {
+        monsterType,
+        ids: spawned.map((monster) => monster.id),
+      });
+    } catch (error) {
+      console.error(`Error spawning adds of type ${monsterType}:`, error);
     }
+
+    return spawned;
   }
 
   /**
@@ -230,7 +568,7 @@ export class MonsterSpawnSystem {
    * Setup event listeners
    */
   private setupEventListeners(): void {
-    eventBus.on("monster.died", this.handleMonsterDeath.bind(this));
+    eventBus.on("monster.died", this.handleMonsterDeath);
   }
 
   /**
@@ -246,8 +584,9 @@ export class MonsterSpawnSystem {
       });
       this.respawnTimers.clear();
 
-      // Clear spawn points
+      // Clear spawn points and the groups they declared
       this.spawnPoints.clear();
+      monsterGroupSystem.clear();
     } catch (error) {
       console.error("Error during MonsterSpawnSystem cleanup:", error);
     }
@@ -259,10 +598,18 @@ export class MonsterSpawnSystem {
   getSpawnPointInfo(): Array<{
     id: string;
     monsterType: string;
+    pool: WeightedMonster[];
+    spawnRadius: number;
+    conditions: SpawnConditions;
+    isWaiting: boolean;
     position: { x: number; y: number };
     currentCount: number;
     maxCount: number;
     respawnTime: number;
+    leashRadius: number;
+    groupId: string | null;
+    isLeader: boolean;
+    formation: FormationType | null;
   }> {
     const info: Array<any> = [];
 
@@ -270,10 +617,18 @@ export class MonsterSpawnSystem {
       info.push({
         id: spawnPoint.id,
         monsterType: spawnPoint.monsterType,
+        pool: spawnPoint.pool,
+        spawnRadius: spawnPoint.spawnRadius / 32,
+        conditions: spawnPoint.conditions,
+        isWaiting: spawnPoint.isWaiting,
         position: { x: spawnPoint.x, y: spawnPoint.y },
         currentCount: spawnPoint.currentMonsters.length,
         maxCount: spawnPoint.maxCount,
         respawnTime: spawnPoint.respawnTime / 1000,
+        leashRadius: spawnPoint.leashRadius / 32,
+        groupId: spawnPoint.groupId,
+        isLeader: spawnPoint.isLeader,
+        formation: spawnPoint.formation,
       });
     });
 
@@ -285,7 +640,7 @@ export class MonsterSpawnSystem {
    */
   forceRespawnAll(): void {
     this.spawnPoints.forEach((spawnPoint) => {
-      this.spawnMonstersAtPoint(spawnPoint);
+      this.spawnMonstersAtPoint(spawnPoint, true);
     });
   }
 
@@ -295,7 +650,7 @@ export class MonsterSpawnSystem {
   destroy(): void {
     try {
       this.cleanup();
-      eventBus.off("monster.died", this.handleMonsterDeath.bind(this));
+      eventBus.off("monster.died", this.handleMonsterDeath);
     } catch (error) {
       console.error("Error destroying MonsterSpawnSystem:", error);
     }
@@ -1,9 +1,13 @@
 import { eventBus } from "../utils/EventBus";
+import { worldClock } from "./WorldClockSystem";
+import { ALDEE_DIALOG, SUPREME_MAGE_DIALOG } from "@/data/dialogs";
+import { DialogTree, ItemCategory, OpeningHours } from "@/types";
 
 // Interface for shop items
 export interface ShopItem {
   itemId: string;
-  price: number;
+  price: number; // Price at full stock
+  stock?: number; // Units the merchant restocks to, MERCHANT_ECONOMY.DEFAULT_STOCK when unset
 }
 
 // Interface for NPC data
@@ -12,8 +16,12 @@ export interface NPCData {
   name: string;
   texture: string;
   dialog: string[];
+  dialogTree?: DialogTree; // Takes over from `dialog` when present
   isMerchant?: boolean;
   shopItems?: ShopItem[];
+  shopHours?: OpeningHours; // In-game hours the shop trades, always open when unset
+  buysCategories?: ItemCategory[]; // What the merchant buys from the player, anything when unset
+  restockHours?: number; // In-game hours between restocks
   interactionRadius?: number;
 }
 
@@ -28,15 +36,38 @@ const NPC_DATA: Record<string, NPCData> = {
       "I have wares from across the realm!",
       "What can I interest you in today?",
     ],
+    dialogTree: ALDEE_DIALOG,
     isMerchant: true,
     shopItems: [
-      { itemId: "greatSword", price: 50 },
-      { itemId: "twigBow", price: 40 },
-      { itemId: "woodenStaff", price: 45 },
-      { itemId: "boneShield", price: 35 },
+      { itemId: "greatSword", price: 50, stock: 2 },
+      { itemId: "twigBow", price: 40, stock: 3 },
+      { itemId: "woodenStaff", price: 45, stock: 3 },
+      { itemId: "boneShield", price: 35, stock: 2 },
+      { itemId: "healthPotion", price: 20, stock: 10 },
+      { itemId: "manaPotion", price: 20, stock: 10 },
     ],
+    shopHours: { open: 7, close: 21 },
+    buysCategories: [
+      ItemCategory.WEAPON_MELEE,
+      ItemCategory.WEAPON_MAGIC,
+      ItemCategory.WEAPON_RANGED,
+      ItemCategory.SHIELD,
+      ItemCategory.ARMOR,
+      ItemCategory.HELMET,
+      ItemCategory.MATERIAL,
+      ItemCategory.PRODUCT,
+    ],
+    restockHours: 8,
     interactionRadius: 160, // 5 tiles at 32px per tile
   },
+  "supreme-mage": {
+    id: "supreme-mage",
+    name: "The Supreme Mage",
+    texture: "playerCharacter",
+    dialog: ["The stars are patient, and so am I."],
+    dialogTree: SUPREME_MAGE_DIALOG,
+    interactionRadius: 160,
+  },
 };
 
 class NPCServicel {
@@ -67,9 +98,30 @@ class NPCServicel {
       console.error("Invalid NPC data: missing id", npc);
       return;
     }
+    if (npc.dialogTree) {
+      this.validateDialogTree(npc.id, npc.dialogTree);
+    }
     this.npcs[npc.id] = npc;
   }
 
+  /**
+   * Warn about dialog links that point at missing nodes
+   */
+  private validateDialogTree(npcId: string, tree: DialogTree): void {
+    const links = [
+      tree.start,
+      ...(tree.entries || []).map((entry) => entry.node),
+      ...Object.values(tree.nodes).flatMap((node) => [
+        node.next,
+        ...(node.options || []).map((option) => option.next),
+      ]),
+    ];
+
+    links
+      .filter((nodeId): nodeId is string => !!nodeId && !tree.nodes[nodeId])
+      .forEach((nodeId) => console.warn(`NPC ${npcId} dialog links to missing node "${nodeId}"`));
+  }
+
   getNPC(npcId: string): NPCData | null {
     return this.npcs[npcId] || null;
   }
@@ -87,6 +139,16 @@ class NPCServicel {
     return npc?.shopItems || [];
   }
 
+  /**
+   * Whether the NPC's shop trades at the current in-game time
+   */
+  isShopOpen(npcId: string): boolean {
+    const npc = this.getNPC(npcId);
+    if (!npc || !npc.isMerchant) return false;
+
+    return !npc.shopHours || worldClock.isWithinHours(npc.shopHours);
+  }
+
   updateDialog(npcId: string, newDialog: string[]): boolean {
     const npc = this.npcs[npcId];
     if (!npc) return false;
@@ -167,6 +229,15 @@ class NPCServicel {
     const npc = this.getNPC(npcId);
     if (!npc || !npc.isMerchant) return;
 
+    if (!this.isShopOpen(npcId)) {
+      eventBus.emit(
+        "ui.message.show",
+        `${npc.name}'s shop is closed. Come back at ${worldClock.formatTime(npc.shopHours!.open)}.`
+      );
+      eventBus.emit("shop.closed", { npcId, npcName: npc.name, shopHours: npc.shopHours });
+      return;
+    }
+
     // Emit shop opened event
     eventBus.emit("shop.open", {
       npcId,
@@ -0,0 +1,409 @@
+// src/services/PathfindingSystem.ts
+import { eventBus } from "../utils/EventBus";
+import type { Character } from "@/entities/Character";
+import type { Chest } from "@/entities/Chest";
+import type { Entity } from "@/entities/Entity";
+
+/**
+ * A tile on the collision layer grid (local tile coordinates, world / tileSize)
+ */
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Options for a single path search
+ */
+export interface PathOptions {
+  // Entity doing the moving, never treated as its own blocker
+  ignore?: Entity;
+  // Maximum nodes this search may expand (capped by the remaining frame budget)
+  maxNodes?: number;
+  // Skip the shared frame budget (findPath only), for rare searches that must not fail
+  // because monsters used it up, e.g. player clicks
+  bypassBudget?: boolean;
+}
+
+/**
+ * Scene surface the pathfinder reads, GameScene provides all of it
+ */
+interface PathScene {
+  collisionLayer?: Phaser.Tilemaps.TilemapLayer;
+  monsters?: Phaser.GameObjects.Group;
+  npcs?: Phaser.GameObjects.Group;
+  chests?: Phaser.GameObjects.Group;
+}
+
+interface CollisionGrid {
+  layer: Phaser.Tilemaps.TilemapLayer;
+  width: number;
+  height: number;
+  blocked: Uint8Array;
+}
+
+const NEIGHBOURS: GridPoint[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+
+/**
+ * Binary min-heap keyed by f-score, used as the A* open set
+ */
+class NodeHeap {
+  private keys: number[] = [];
+  private scores: number[] = [];
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  push(key: number, score: number): void {
+    this.keys.push(key);
+    this.scores.push(score);
+    let index = this.keys.length - 1;
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.scores[parent] <= this.scores[index]) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.keys[0];
+    const lastKey = this.keys.pop()!;
+    const lastScore = this.scores.pop()!;
+
+    if (this.keys.length > 0) {
+      this.keys[0] = lastKey;
+      this.scores[0] = lastScore;
+      let index = 0;
+
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+
+        if (left < this.keys.length && this.scores[left] < this.scores[smallest]) {
+          smallest = left;
+        }
+        if (right < this.keys.length && this.scores[right] < this.scores[smallest]) {
+          smallest = right;
+        }
+        if (smallest === index) break;
+
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+    [this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]];
+  }
+}
+
+class PathfindingSystemService {
+  private readonly tileSize: number = 32;
+  private readonly nodeBudgetPerFrame: number = 3000; // Shared by every search in a frame
+  private readonly defaultMaxNodes: number = 1200;
+  private budgetRemaining: number = this.nodeBudgetPerFrame;
+  private grid: CollisionGrid | null = null;
+  private dynamicBlockers: Map<number, Character | Chest> | null = null;
+
+  constructor() {
+    eventBus.on("map.changed", this.handleMapChanged.bind(this));
+  }
+
+  /**
+   * Drop the cached grid, the next search rebuilds it from the new collision layer
+   */
+  handleMapChanged(): void {
+    this.grid = null;
+    this.dynamicBlockers = null;
+  }
+
+  /**
+   * Convert world coordinates to a grid tile
+   */
+  worldToGrid(x: number, y: number): GridPoint {
+    return { x: Math.floor(x / this.tileSize), y: Math.floor(y / this.tileSize) };
+  }
+
+  /**
+   * Convert a grid tile to the world coordinates of its centre
+   */
+  gridToWorld(point: GridPoint): { x: number; y: number } {
+    return {
+      x: point.x * this.tileSize + this.tileSize / 2,
+      y: point.y * this.tileSize + this.tileSize / 2,
+    };
+  }
+
+  /**
+   * Whether a tile can be walked on right now (static walls and dynamic blockers)
+   */
+  isWalkable(scene: PathScene, point: GridPoint, ignore?: Entity): boolean {
+    const grid = this.getGrid(scene);
+    if (!grid) return true;
+
+    const key = this.toKey(grid, point.x, point.y);
+    if (key < 0 || grid.blocked[key]) return false;
+
+    const blocker = this.getDynamicBlockers(scene, grid).get(key);
+    return !blocker || blocker === ignore;
+  }
+
+  /**
+   * A* search between two tiles over the collision layer
+   * @returns Tiles to walk (excluding start, including goal), or null if no path was found.
+   * When the node budget runs out the path leads to the explored tile closest to the goal.
+   */
+  findPath(
+    scene: PathScene,
+    start: GridPoint,
+    goal: GridPoint,
+    options: PathOptions = {}
+  ): GridPoint[] | null {
+    try {
+      const grid = this.getGrid(scene);
+      if (!grid || (!options.bypassBudget && this.budgetRemaining <= 0)) return null;
+
+      const startKey = this.toKey(grid, start.x, start.y);
+      const goalKey = this.toKey(grid, goal.x, goal.y);
+      if (startKey < 0 || goalKey < 0 || grid.blocked[goalKey]) return null;
+      if (startKey === goalKey) return [];
+
+      const blockers = this.getDynamicBlockers(scene, grid);
+      const requestedNodes = options.maxNodes ?? this.defaultMaxNodes;
+      const maxNodes = options.bypassBudget
+        ? requestedNodes
+        : Math.min(requestedNodes, this.budgetRemaining);
+
+      const open = new NodeHeap();
+      const cameFrom = new Map<number, number>();
+      const gScore = new Map<number, number>([[startKey, 0]]);
+      const closed = new Set<number>();
+
+      let bestKey = startKey;
+      let bestHeuristic = this.heuristic(start, goal);
+      let expanded = 0;
+
+      open.push(startKey, bestHeuristic);
+
+      while (open.size > 0 && expanded < maxNodes) {
+        const current = open.pop();
+        if (closed.has(current)) continue;
+        closed.add(current);
+        expanded++;
+
+        if (current === goalKey) {
+          bestKey = current;
+          break;
+        }
+
+        const cx = current % grid.width;
+        const cy = Math.floor(current / grid.width);
+        const currentG = gScore.get(current)!;
+
+        for (const offset of NEIGHBOURS) {
+          const nx = cx + offset.x;
+          const ny = cy + offset.y;
+          const next = this.toKey(grid, nx, ny);
+          if (next < 0 || closed.has(next) || grid.blocked[next]) continue;
+
+          // The goal may be occupied, e.g. by the player being chased
+          const blocker = blockers.get(next);
+          if (blocker && blocker !== options.ignore && next !== goalKey) continue;
+
+          const tentativeG = currentG + 1;
+          if (tentativeG >= (gScore.get(next) ?? Infinity)) continue;
+
+          cameFrom.set(next, current);
+          gScore.set(next, tentativeG);
+
+          const h = this.heuristic({ x: nx, y: ny }, goal);
+          if (h < bestHeuristic) {
+            bestHeuristic = h;
+            bestKey = next;
+          }
+
+          open.push(next, tentativeG + h);
+        }
+      }
+
+      if (!options.bypassBudget) this.budgetRemaining -= expanded;
+
+      if (bestKey === startKey) return null;
+      return this.reconstructPath(grid, cameFrom, bestKey);
+    } catch (error) {
+      console.error("Error in PathfindingSystem.findPath:", error);
+      eventBus.emit("error.pathfinding.search", { start, goal, error });
+      return null;
+    }
+  }
+
+  /**
+   * Search outwards for the reachable tile furthest from a threat
+   * @returns Tiles to walk to get there, or null if nothing is further away than the start
+   */
+  findFleePath(
+    scene: PathScene,
+    start: GridPoint,
+    threat: GridPoint,
+    maxSteps: number,
+    options: PathOptions = {}
+  ): GridPoint[] | null {
+    try {
+      const grid = this.getGrid(scene);
+      if (!grid || this.budgetRemaining <= 0) return null;
+
+      const startKey = this.toKey(grid, start.x, start.y);
+      if (startKey < 0) return null;
+
+      const blockers = this.getDynamicBlockers(scene, grid);
+      const maxNodes = Math.min(options.maxNodes ?? this.defaultMaxNodes, this.budgetRemaining);
+
+      const cameFrom = new Map<number, number>();
+      const steps = new Map<number, number>([[startKey, 0]]);
+      const queue: number[] = [startKey];
+
+      let bestKey = startKey;
+      let bestDistance = this.heuristic(start, threat);
+      let expanded = 0;
+
+      for (let head = 0; head < queue.length && expanded < maxNodes; head++) {
+        const current = queue[head];
+        expanded++;
+
+        const currentSteps = steps.get(current)!;
+        if (currentSteps >= maxSteps) continue;
+
+        const cx = current % grid.width;
+        const cy = Math.floor(current / grid.width);
+
+        for (const offset of NEIGHBOURS) {
+          const nx = cx + offset.x;
+          const ny = cy + offset.y;
+          const next = this.toKey(grid, nx, ny);
+          if (next < 0 || steps.has(next) || grid.blocked[next]) continue;
+
+          const blocker = blockers.get(next);
+          if (blocker && blocker !== options.ignore) continue;
+
+          cameFrom.set(next, current);
+          steps.set(next, currentSteps + 1);
+          queue.push(next);
+
+          // Breadth-first order means ties keep the shorter route
+          const distance = this.heuristic({ x: nx, y: ny }, threat);
+          if (distance > bestDistance) {
+            bestDistance = distance;
+            bestKey = next;
+          }
+        }
+      }
+
+      this.budgetRemaining -= expanded;
+
+      if (bestKey === startKey) return null;
+      return this.reconstructPath(grid, cameFrom, bestKey);
+    } catch (error) {
+      console.error("Error in PathfindingSystem.findFleePath:", error);
+      eventBus.emit("error.pathfinding.flee", { start, threat, error });
+      return null;
+    }
+  }
+
+  /**
+   * Updates the system - called once per frame to refill the search budget
+   */
+  update(): void {
+    this.budgetRemaining = this.nodeBudgetPerFrame;
+    this.dynamicBlockers = null;
+  }
+
+  // Private helper methods
+
+  private getGrid(scene: PathScene): CollisionGrid | null {
+    const layer = scene.collisionLayer;
+    if (!layer) return null;
+    if (this.grid?.layer === layer) return this.grid;
+
+    const width = layer.layer.width;
+    const height = layer.layer.height;
+    const blocked = new Uint8Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (layer.getTileAt(x, y)?.collides) {
+          blocked[y * width + x] = 1;
+        }
+      }
+    }
+
+    this.grid = { layer, width, height, blocked };
+    this.dynamicBlockers = null;
+    return this.grid;
+  }
+
+  /**
+   * Monsters, NPCs and chests occupying tiles this frame
+   */
+  private getDynamicBlockers(
+    scene: PathScene,
+    grid: CollisionGrid
+  ): Map<number, Character | Chest> {
+    if (this.dynamicBlockers) return this.dynamicBlockers;
+
+    const blockers = new Map<number, Character | Chest>();
+    [scene.monsters, scene.npcs, scene.chests].forEach((group) => {
+      group?.getChildren().forEach((child) => {
+        const entity = child as Character | Chest;
+        if (!entity.active || ("isDead" in entity && entity.isDead)) return;
+
+        const tile = this.worldToGrid(entity.x, entity.y);
+        const key = this.toKey(grid, tile.x, tile.y);
+        if (key >= 0) blockers.set(key, entity);
+      });
+    });
+
+    this.dynamicBlockers = blockers;
+    return blockers;
+  }
+
+  private reconstructPath(
+    grid: CollisionGrid,
+    cameFrom: Map<number, number>,
+    endKey: number
+  ): GridPoint[] {
+    const path: GridPoint[] = [];
+    let key: number | undefined = endKey;
+
+    while (key !== undefined && cameFrom.has(key)) {
+      path.push({ x: key % grid.width, y: Math.floor(key / grid.width) });
+      key = cameFrom.get(key);
+    }
+
+    return path.reverse();
+  }
+
+  private heuristic(a: GridPoint, b: GridPoint): number {
+    return Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+  }
+
+  private toKey(grid: CollisionGrid, x: number, y: number): number {
+    if (x < 0 || y < 0 || x >= grid.width || y >= grid.height) return -1;
+    return y * grid.width + x;
+  }
+}
+
+// Create and export singleton instance
+export const pathfindingSystem = new PathfindingSystemService();
@@ -0,0 +1,613 @@
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+import { MapService } from "./MapService";
+import { NPCService } from "./NPCService";
+import { skillProgressionSystem } from "./SkillProgressionSystem";
+import { ItemInstanceManager } from "@/utils/ItemInstanceManager";
+import { QUEST_DEFINITIONS } from "@/data/quests";
+import {
+  Quest,
+  QuestCategory,
+  QuestDefinition,
+  QuestObjective,
+  QuestObjectiveDefinition,
+  QuestObjectiveType,
+  QuestState,
+} from "@/types";
+
+/**
+ * Game events that can advance quest objectives
+ * - dialog completes a talk or deliver objective chosen in an NPC conversation
+ * - refresh re-checks objectives that depend on current state (items held, location)
+ */
+type QuestEvent =
+  | { type: "kill"; monsterId: string }
+  | { type: "talk"; npcId: string }
+  | { type: "dialog"; questId: string; objectiveId: string }
+  | { type: "location"; mapKey?: string }
+  | { type: "refresh" };
+
+interface PendingDelivery {
+  itemIds: string[];
+  amount: number;
+}
+
+class QuestServiceClass {
+  private definitions: Record<string, QuestDefinition> = {};
+  private isEvaluating: boolean = false;
+
+  constructor() {
+    QUEST_DEFINITIONS.forEach((definition) => {
+      this.definitions[definition.id] = definition;
+    });
+
+    this.handleMonsterDied = this.handleMonsterDied.bind(this);
+    this.handleNpcInteracted = this.handleNpcInteracted.bind(this);
+    this.handleMapChanged = this.handleMapChanged.bind(this);
+    this.handleMovementComplete = this.handleMovementComplete.bind(this);
+    this.handleInventoryUpdated = this.handleInventoryUpdated.bind(this);
+    this.handleSaveLoaded = this.handleSaveLoaded.bind(this);
+
+    eventBus.on("monster.died", this.handleMonsterDied);
+    eventBus.on("npc.interacted", this.handleNpcInteracted);
+    eventBus.on("map.changed", this.handleMapChanged);
+    eventBus.on("entity.movement.complete", this.handleMovementComplete);
+    eventBus.on("player.item.pickup", this.handleInventoryUpdated);
+    eventBus.on("inventory.updated", this.handleInventoryUpdated);
+    eventBus.on("save.loaded", this.handleSaveLoaded);
+  }
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  getQuestDefinition(questId: string): QuestDefinition | null {
+    return this.definitions[questId] || null;
+  }
+
+  getQuestDefinitions(category?: QuestCategory): QuestDefinition[] {
+    const definitions = Object.values(this.definitions);
+    return category ? definitions.filter((quest) => quest.category === category) : definitions;
+  }
+
+  getActiveQuest(questId: string): Quest | null {
+    return useGameStore.getState().quests.active.find((quest) => quest.id === questId) || null;
+  }
+
+  getCompletedQuest(questId: string): Quest | null {
+    return useGameStore.getState().quests.completed.find((quest) => quest.id === questId) || null;
+  }
+
+  isQuestActive(questId: string): boolean {
+    return this.getActiveQuest(questId) !== null;
+  }
+
+  isQuestCompleted(questId: string): boolean {
+    return this.getCompletedQuest(questId) !== null;
+  }
+
+  canStartQuest(questId: string): boolean {
+    const definition = this.getQuestDefinition(questId);
+    if (!definition || this.isQuestActive(questId)) return false;
+    if (this.isQuestCompleted(questId) && !definition.repeatable) return false;
+
+    return (definition.prerequisites || []).every((id) => this.isQuestCompleted(id));
+  }
+
+  /**
+   * Quests the given NPC can hand out right now
+   */
+  getAvailableQuestsForNpc(npcId: string): QuestDefinition[] {
+    return this.getQuestDefinitions().filter(
+      (quest) => quest.giverNpcId === npcId && this.canStartQuest(quest.id)
+    );
+  }
+
+  /**
+   * Whether the objective is incomplete and, for sequential quests, the current step
+   */
+  isObjectiveActive(questId: string, objectiveId: string): boolean {
+    const quest = this.getActiveQuest(questId);
+    if (!quest) return false;
+
+    const objective = quest.objectives.find((o) => o.id === objectiveId);
+    if (!objective || objective.completed) return false;
+
+    if (!this.getQuestDefinition(questId)?.sequential) return true;
+    return quest.objectives.find((o) => !o.completed)?.id === objectiveId;
+  }
+
+  isObjectiveCompleted(questId: string, objectiveId: string): boolean {
+    if (this.isQuestCompleted(questId) && !this.isQuestActive(questId)) return true;
+
+    const objective = this.getActiveQuest(questId)?.objectives.find((o) => o.id === objectiveId);
+    return objective?.completed || false;
+  }
+
+  /**
+   * Total quest points earned from completed quests, counting repeats
+   */
+  getQuestPoints(): number {
+    return useGameStore.getState().quests.completed.reduce((total, quest) => {
+      const points = this.getQuestDefinition(quest.id)?.rewards.questPoints || 0;
+      return total + points * (quest.timesCompleted || 1);
+    }, 0);
+  }
+
+  // ============================================================================
+  // QUEST LIFECYCLE
+  // ============================================================================
+
+  startQuest(questId: string, silent: boolean = false): boolean {
+    try {
+      if (!this.canStartQuest(questId)) return false;
+
+      const definition = this.definitions[questId];
+      const quests = useGameStore.getState().quests;
+      const quest: Quest = {
+        id: definition.id,
+        title: definition.title,
+        description: definition.description,
+        objectives: definition.objectives.map((objective) => ({
+          id: objective.id,
+          description: objective.description,
+          completed: false,
+          progress: 0,
+          required: this.getRequiredAmount(objective),
+        })),
+        completed: false,
+        startedAt: Date.now(),
+      };
+
+      this.setQuests({ ...quests, active: [...quests.active, quest] });
+
+      eventBus.emit("quest.started", { questId, category: definition.category });
+      if (!silent && definition.category !== QuestCategory.RIDDLE) {
+        eventBus.emit("ui.message.show", `New quest: ${definition.title}`);
+      }
+
+      // Objectives may already be satisfied (items held, standing on the map)
+      this.evaluate({ type: "refresh" });
+
+      return true;
+    } catch (error) {
+      console.error(`Error starting quest ${questId}:`, error);
+      eventBus.emit("error.quest.start", { questId, error });
+      return false;
+    }
+  }
+
+  abandonQuest(questId: string): boolean {
+    const quests = useGameStore.getState().quests;
+    if (!quests.active.some((quest) => quest.id === questId)) return false;
+
+    this.setQuests({
+      ...quests,
+      active: quests.active.filter((quest) => quest.id !== questId),
+    });
+
+    eventBus.emit("quest.abandoned", { questId });
+    return true;
+  }
+
+  /**
+   * Complete a talk or deliver objective from an NPC conversation
+   * @returns true if the objective is completed afterwards
+   */
+  completeObjective(questId: string, objectiveId: string): boolean {
+    if (!this.isObjectiveActive(questId, objectiveId)) return false;
+
+    this.evaluate({ type: "dialog", questId, objectiveId });
+
+    return this.isObjectiveCompleted(questId, objectiveId);
+  }
+
+  /**
+   * Hand in an active quest, completing any objectives that are left.
+   * Open deliver objectives still need their items, which are taken on hand-in.
+   * @returns true if the quest is completed afterwards
+   */
+  turnInQuest(questId: string): boolean {
+    const quest = this.getActiveQuest(questId);
+    const definition = this.getQuestDefinition(questId);
+    if (!quest || !definition) return false;
+
+    const deliveries: PendingDelivery[] = [];
+
+    for (const objective of quest.objectives) {
+      const objectiveDefinition = definition.objectives.find((o) => o.id === objective.id);
+      if (objective.completed || objectiveDefinition?.type !== QuestObjectiveType.DELIVER) {
+        continue;
+      }
+
+      const itemIds = objectiveDefinition.itemIds || [];
+      const held = this.countItems(itemIds);
+      if (held < objective.required) {
+        eventBus.emit(
+          "ui.message.show",
+          `${objective.description}: ${held}/${objective.required} in your inventory.`
+        );
+        return false;
+      }
+
+      deliveries.push({ itemIds, amount: objective.required });
+    }
+
+    deliveries.forEach((delivery) => this.removeItems(delivery.itemIds, delivery.amount));
+
+    this.completeQuest({
+      ...quest,
+      objectives: quest.objectives.map((objective) => ({
+        ...objective,
+        progress: objective.required,
+        completed: true,
+      })),
+    });
+
+    return this.isQuestCompleted(questId);
+  }
+
+  /**
+   * Start every auto-start quest whose prerequisites are met
+   */
+  startAvailableQuests(): void {
+    this.getQuestDefinitions()
+      .filter((quest) => quest.autoStart && !this.isQuestCompleted(quest.id))
+      .forEach((quest) => this.startQuest(quest.id, true));
+  }
+
+  private completeQuest(quest: Quest): void {
+    try {
+      // A nested evaluation may have completed it already
+      if (!this.isQuestActive(quest.id)) return;
+
+      const definition = this.getQuestDefinition(quest.id);
+      const quests = useGameStore.getState().quests;
+      const previous = quests.completed.find((completed) => completed.id === quest.id);
+
+      const completedQuest: Quest = {
+        ...quest,
+        completed: true,
+        completedAt: Date.now(),
+        timesCompleted: (previous?.timesCompleted || 0) + 1,
+      };
+
+      this.setQuests({
+        active: quests.active.filter((active) => active.id !== quest.id),
+        completed: [...quests.completed.filter((done) => done.id !== quest.id), completedQuest],
+      });
+
+      if (definition) {
+        this.grantRewards(definition);
+      }
+
+      eventBus.emit("quest.completed", {
+        questId: quest.id,
+        category: definition?.category,
+        timesCompleted: completedQuest.timesCompleted,
+      });
+      eventBus.emit("ui.message.show", `Quest completed: ${quest.title}`);
+
+      // Completing a quest may unlock follow-ups
+      this.startAvailableQuests();
+    } catch (error) {
+      console.error(`Error completing quest ${quest.id}:`, error);
+      eventBus.emit("error.quest.complete", { questId: quest.id, error });
+    }
+  }
+
+  private grantRewards(definition: QuestDefinition): void {
+    const store = useGameStore.getState();
+    const { gold, experience, items } = definition.rewards;
+
+    if (gold) {
+      store.updatePlayerGold(store.playerCharacter.gold + gold);
+      eventBus.emit("ui.message.show", `You received ${gold} gold.`);
+    }
+
+    if (experience) {
+      eventBus.emit("ui.message.show", `You gained ${experience} experience.`);
+      skillProgressionSystem.awardPlayerExperience(experience, "quest");
+    }
+
+    (items || []).forEach(({ itemId, quantity }) => this.giveItem(itemId, quantity));
+  }
+
+  // ============================================================================
+  // INVENTORY HELPERS
+  // ============================================================================
+
+  /**
+   * Give the player an item, dropping it at their feet when it is too heavy to carry
+   */
+  giveItem(itemId: string, quantity?: number): void {
+    const instance = ItemInstanceManager.createItemInstance(itemId, undefined, quantity);
+    const name = ItemInstanceManager.getDisplayName(instance);
+    const store = useGameStore.getState();
+
+    if (store.addItemInstanceToInventory(instance)) {
+      eventBus.emit("ui.message.show", `You received ${name}.`);
+      return;
+    }
+
+    const gameScene = store.systems?.gameScene;
+    const player = gameScene?.playerCharacter;
+    if (player && typeof gameScene.spawnItem === "function") {
+      gameScene.spawnItem(itemId, player.x, player.y, undefined, undefined, quantity);
+      eventBus.emit("ui.message.show", `You can't carry ${name}, it was dropped.`);
+    }
+  }
+
+  /**
+   * Number of the given item templates in the player's inventory
+   */
+  countItems(itemIds: string[]): number {
+    return useGameStore
+      .getState()
+      .playerCharacter.inventory.filter((item) => itemIds.includes(item.templateId))
+      .reduce((total, item) => total + (item.quantity || 1), 0);
+  }
+
+  /**
+   * Remove up to `amount` of the given item templates from the player's inventory
+   */
+  removeItems(itemIds: string[], amount: number): void {
+    let remaining = amount;
+    const store = useGameStore.getState();
+    const items = store.playerCharacter.inventory.filter((item) =>
+      itemIds.includes(item.templateId)
+    );
+
+    for (const item of items) {
+      if (remaining <= 0) break;
+
+      const quantity = Math.min(remaining, item.quantity || 1);
+      if (store.removeItemInstanceFromInventory(item.instanceId, quantity)) {
+        remaining -= quantity;
+      }
+    }
+  }
+
+  // ============================================================================
+  // OBJECTIVE TRACKING
+  // ============================================================================
+
+  private handleMonsterDied(data: { type: string }): void {
+    if (!data?.type) return;
+    this.evaluate({ type: "kill", monsterId: data.type });
+  }
+
+  private handleNpcInteracted(data: { id: string }): void {
+    if (!data?.id) return;
+
+    // NPCs with a dialog tree hand out and check quests through conversation
+    if (NPCService.getNPC(data.id)?.dialogTree) return;
+
+    this.evaluate({ type: "talk", npcId: data.id });
+
+    // Offer the NPC's quests after progress so a new quest isn't advanced by the same talk
+    this.getAvailableQuestsForNpc(data.id).forEach((quest) => this.startQuest(quest.id));
+  }
+
+  private handleMapChanged(mapKey: string): void {
+    this.evaluate({ type: "location", mapKey });
+  }
+
+  private handleMovementComplete(data: { entityId: string }): void {
+    if (data?.entityId !== "player") return;
+    this.evaluate({ type: "location" });
+  }
+
+  private handleInventoryUpdated(): void {
+    this.evaluate({ type: "refresh" });
+  }
+
+  private handleSaveLoaded(): void {
+    // Saves made before a quest existed still need its auto-start quests
+    this.startAvailableQuests();
+  }
+
+  /**
+   * Advance active quest objectives for a game event and complete finished quests
+   */
+  private evaluate(event: QuestEvent): void {
+    // Deliveries change the inventory, which would re-enter here mid-update
+    if (this.isEvaluating) return;
+
+    let deliveredItems = false;
+
+    try {
+      this.isEvaluating = true;
+
+      const quests = useGameStore.getState().quests;
+      if (quests.active.length === 0) return;
+
+      const deliveries: PendingDelivery[] = [];
+      let changed = false;
+
+      const active = quests.active.map((quest) => {
+        const definition = this.getQuestDefinition(quest.id);
+        if (!definition) return quest;
+
+        // Dialog choices only concern the quest they name
+        let questEvent: QuestEvent =
+          event.type === "dialog" && event.questId !== quest.id ? { type: "refresh" } : event;
+        let questChanged = false;
+
+        const objectives = quest.objectives.map((objective) => ({ ...objective }));
+
+        for (const objective of objectives) {
+          if (objective.completed) continue;
+
+          const objectiveDefinition = definition.objectives.find((o) => o.id === objective.id);
+          if (!objectiveDefinition) continue;
+
+          const progress = this.getObjectiveProgress(objectiveDefinition, objective, questEvent);
+
+          if (progress !== objective.progress) {
+            objective.progress = progress;
+            objective.completed = progress >= objective.required;
+            questChanged = true;
+
+            eventBus.emit("quest.progress", {
+              questId: quest.id,
+              objectiveId: objective.id,
+              progress,
+              required: objective.required,
+            });
+
+            if (objective.completed) {
+              if (objectiveDefinition.type === QuestObjectiveType.DELIVER) {
+                deliveries.push({
+                  itemIds: objectiveDefinition.itemIds || [],
+                  amount: objective.required,
+                });
+              }
+
+              eventBus.emit("quest.objective.completed", {
+                questId: quest.id,
+                objectiveId: objective.id,
+              });
+              eventBus.emit("ui.message.show", `${quest.title}: ${objective.description} ✓`);
+
+              // The next objectives only re-check state, the event itself is consumed
+              questEvent = { type: "refresh" };
+            }
+          }
+
+          if (definition.sequential && !objective.completed) break;
+        }
+
+        if (!questChanged) return quest;
+
+        changed = true;
+        return { ...quest, objectives };
+      });
+
+      if (!changed) return;
+
+      this.setQuests({ ...quests, active });
+
+      deliveries.forEach((delivery) => this.removeItems(delivery.itemIds, delivery.amount));
+      deliveredItems = deliveries.length > 0;
+    } catch (error) {
+      console.error("Error evaluating quest progress:", error);
+      eventBus.emit("error.quest.progress", { error });
+    } finally {
+      this.isEvaluating = false;
+    }
+
+    // Handed in items may lower other collect objectives
+    if (deliveredItems) {
+      this.evaluate({ type: "refresh" });
+    }
+
+    // Complete finished quests once objective updates are written
+    useGameStore
+      .getState()
+      .quests.active.filter((quest) => quest.objectives.every((objective) => objective.completed))
+      .forEach((quest) => this.completeQuest(quest));
+  }
+
+  /**
+   * Calculate an objective's progress after an event
+   */
+  private getObjectiveProgress(
+    definition: QuestObjectiveDefinition,
+    objective: QuestObjective,
+    event: QuestEvent
+  ): number {
+    switch (definition.type) {
+      case QuestObjectiveType.KILL:
+        if (event.type === "kill" && event.monsterId === definition.monsterId) {
+          return Math.min(objective.required, objective.progress + 1);
+        }
+        return objective.progress;
+
+      case QuestObjectiveType.COLLECT:
+        return Math.min(objective.required, this.countItems(definition.itemIds || []));
+
+      case QuestObjectiveType.TALK:
+        if (this.isTalkingTo(definition, objective, event)) {
+          return objective.required;
+        }
+        return objective.progress;
+
+      case QuestObjectiveType.DELIVER:
+        if (this.isTalkingTo(definition, objective, event)) {
+          const held = this.countItems(definition.itemIds || []);
+          if (held >= objective.required) return objective.required;
+
+          eventBus.emit(
+            "ui.message.show",
+            `${objective.description}: ${held}/${objective.required} in your inventory.`
+          );
+        }
+        return objective.progress;
+
+      case QuestObjectiveType.REACH: {
+        const mapKey = event.type === "location" && event.mapKey ? event.mapKey : undefined;
+        return this.isAtLocation(definition, mapKey) ? objective.required : objective.progress;
+      }
+
+      default:
+        return objective.progress;
+    }
+  }
+
+  private isTalkingTo(
+    definition: QuestObjectiveDefinition,
+    objective: QuestObjective,
+    event: QuestEvent
+  ): boolean {
+    if (event.type === "dialog") return event.objectiveId === objective.id;
+    return event.type === "talk" && event.npcId === definition.npcId;
+  }
+
+  private isAtLocation(definition: QuestObjectiveDefinition, mapKey?: string): boolean {
+    const store = useGameStore.getState();
+    const currentMap = mapKey || store.currentMap;
+
+    if (definition.mapKey && definition.mapKey !== currentMap) return false;
+    if (!definition.tile) return true;
+
+    const player = store.systems?.gameScene?.playerCharacter;
+    if (!player) return false;
+
+    const tile = MapService.phaserToTiled(currentMap, player.x, player.y);
+    const radius = definition.radius || 0;
+
+    return (
+      Math.abs(tile.x - definition.tile.x) <= radius &&
+      Math.abs(tile.y - definition.tile.y) <= radius
+    );
+  }
+
+  private getRequiredAmount(objective: QuestObjectiveDefinition): number {
+    switch (objective.type) {
+      case QuestObjectiveType.KILL:
+      case QuestObjectiveType.COLLECT:
+      case QuestObjectiveType.DELIVER:
+        return Math.max(1, objective.amount || 1);
+      default:
+        return 1;
+    }
+  }
+
+  private setQuests(quests: QuestState): void {
+    useGameStore.getState().updateQuests(quests);
+  }
+
+  dispose(): void {
+    eventBus.off("monster.died", this.handleMonsterDied);
+    eventBus.off("npc.interacted", this.handleNpcInteracted);
+    eventBus.off("map.changed", this.handleMapChanged);
+    eventBus.off("entity.movement.complete", this.handleMovementComplete);
+    eventBus.off("player.item.pickup", this.handleInventoryUpdated);
+    eventBus.off("inventory.updated", this.handleInventoryUpdated);
+    eventBus.off("save.loaded", this.handleSaveLoaded);
+  }
+}
+
+// Create and export singleton instance
+export const QuestService = new QuestServiceClass();
@@ -0,0 +1,76 @@
+// src/services/RegenerationSystem.ts
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+
+class RegenerationSystemService {
+  private readonly tickInterval: number = 2000; // Regen is applied every 2 seconds
+  private lastTickTime: number = 0;
+
+  constructor() {
+    this.handleManaReceived = this.handleManaReceived.bind(this);
+    eventBus.on("mana.received", this.handleManaReceived);
+  }
+
+  /**
+   * Handle mana restored by consumables and other sources
+   */
+  handleManaReceived(data: { amount: number; source: string }): void {
+    if (!data || data.amount <= 0) return;
+
+    this.restoreMana(data.amount);
+    eventBus.emit("playerCharacter.mana.received", data.amount);
+  }
+
+  /**
+   * Apply mana from a consumable or other direct source
+   */
+  applyMana(amount: number, source: string = "potion"): void {
+    this.handleManaReceived({ amount, source });
+  }
+
+  /**
+   * Restore mana to the player, capped at the calculated maximum
+   */
+  restoreMana(amount: number): void {
+    const store = useGameStore.getState();
+    store.updatePlayerMana(store.playerCharacter.mana + amount);
+  }
+
+  /**
+   * Updates the system - called each frame with the scene time
+   */
+  update(time: number): void {
+    if (time - this.lastTickTime < this.tickInterval) return;
+    this.lastTickTime = time;
+
+    try {
+      const store = useGameStore.getState();
+      const player = store.systems?.gameScene?.playerCharacter;
+      if (!player || player.isDead || store.playerCharacter.health <= 0) return;
+
+      const { totalHealthRegen, totalManaRegen, totalMana } = store.calculatedStats;
+
+      // Heal the entity so combat sees the new health, it syncs the store itself
+      if (totalHealthRegen > 0 && player.health < player.maxHealth) {
+        player.heal(totalHealthRegen);
+      }
+
+      if (totalManaRegen > 0 && store.playerCharacter.mana < totalMana) {
+        this.restoreMana(totalManaRegen);
+      }
+    } catch (error) {
+      console.error("Error in RegenerationSystem update:", error);
+      eventBus.emit("error.regeneration.update", { error });
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    eventBus.off("mana.received", this.handleManaReceived);
+  }
+}
+
+// Create and export singleton instance
+export const regenerationSystem = new RegenerationSystemService();
@@ -0,0 +1,374 @@
+// src/services/RespawnSystem.ts
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+import { MapService } from "./MapService";
+import { calculateTotalExperienceForLevel } from "@/utils/SkillProgressionFormula";
+import { CorpseData, ItemInstance, TempleData } from "@/types";
+
+/**
+ * Death penalty settings, in the spirit of old Tibia
+ */
+export const DEATH_PENALTY = {
+  // Percentage of total player level experience lost on death (can lose levels)
+  EXPERIENCE_LOSS_PERCENT: 10,
+  // Percentage of total progress lost in each combat skill
+  SKILL_LOSS_PERCENT: 5,
+  // Skills affected by the skill loss
+  PENALIZED_SKILLS: ["meleeWeapons", "archery", "magic", "shield", "armor"],
+  // Chance for each non-equipped inventory stack to drop into the corpse
+  ITEM_DROP_CHANCE: 0.1,
+  // How long a corpse keeps its items before decaying (milliseconds)
+  CORPSE_DURATION: 15 * 60 * 1000,
+};
+
+/**
+ * Minimal surface of the corpse entity, kept here so the system does not need to
+ * import entity code
+ */
+interface CorpseSprite {
+  corpseId: string;
+  active: boolean;
+  destroy(): void;
+}
+
+class RespawnSystemService {
+  private readonly tickInterval: number = 250; // Temple and corpse checks don't need every frame
+  private lastTickTime: number = 0;
+  private deathHandled: boolean = false;
+
+  constructor() {
+    this.handlePlayerDied = this.handlePlayerDied.bind(this);
+    this.handlePlayerRespawned = this.handlePlayerRespawned.bind(this);
+    this.handleCorpsesUpdated = this.handleCorpsesUpdated.bind(this);
+
+    eventBus.on("player.died", this.handlePlayerDied);
+    eventBus.on("player.respawned", this.handlePlayerRespawned);
+    eventBus.on("corpses.updated", this.handleCorpsesUpdated);
+  }
+
+  // ============================================================================
+  // DEATH PENALTY
+  // ============================================================================
+
+  /**
+   * Apply the death penalty once per death
+   */
+  handlePlayerDied(): void {
+    if (this.deathHandled) return;
+    this.deathHandled = true;
+
+    try {
+      const store = useGameStore.getState();
+      const player = store.systems?.gameScene?.playerCharacter;
+
+      const experienceLost = this.applyExperienceLoss();
+      DEATH_PENALTY.PENALIZED_SKILLS.forEach((skillId) =>
+        this.applySkillLoss(skillId, DEATH_PENALTY.SKILL_LOSS_PERCENT)
+      );
+
+      const droppedItems = player ? this.dropItems(store.currentMap, player.x, player.y) : [];
+
+      if (experienceLost > 0) {
+        eventBus.emit("ui.message.show", `You lost ${experienceLost} experience.`);
+      }
+      if (droppedItems.length > 0) {
+        eventBus.emit("ui.message.show", "Some of your items were left in your corpse.");
+      }
+
+      eventBus.emit("player.death.penalty", { experienceLost, droppedItems });
+    } catch (error) {
+      console.error("Error applying death penalty:", error);
+      eventBus.emit("error.death.penalty", { error });
+    }
+  }
+
+  handlePlayerRespawned(): void {
+    this.deathHandled = false;
+  }
+
+  /**
+   * Take a percentage of the player's total experience, dropping levels if needed
+   */
+  private applyExperienceLoss(): number {
+    const store = useGameStore.getState();
+    const previousLevel = store.playerCharacter.skills.playerLevel?.level || 1;
+
+    const lost = this.applySkillLoss("playerLevel", DEATH_PENALTY.EXPERIENCE_LOSS_PERCENT);
+    if (lost <= 0) return 0;
+
+    store.updatePlayerExperience(Math.max(0, store.playerCharacter.experience - lost));
+
+    const level = useGameStore.getState().playerCharacter.skills.playerLevel.level;
+    if (level < previousLevel) {
+      eventBus.emit(
+        "ui.message.show",
+        `You were downgraded from Level ${previousLevel} to Level ${level}.`
+      );
+    }
+
+    return lost;
+  }
+
+  /**
+   * Take a percentage of a skill's total accumulated experience
+   * @returns The experience lost
+   */
+  private applySkillLoss(skillId: string, percent: number): number {
+    const store = useGameStore.getState();
+    const skill = store.playerCharacter.skills[skillId];
+    if (!skill) return 0;
+
+    const totalExp = calculateTotalExperienceForLevel(skillId, skill.level) + skill.experience;
+    const lost = Math.floor((totalExp * percent) / 100);
+    if (lost <= 0) return 0;
+
+    store.updateSkill(skillId, skill.experience - lost);
+    return lost;
+  }
+
+  /**
+   * Roll each non-equipped inventory stack and move the losers into a corpse
+   */
+  private dropItems(mapKey: string, x: number, y: number): ItemInstance[] {
+    const store = useGameStore.getState();
+    const dropped = store.playerCharacter.inventory.filter(
+      () => Math.random() < DEATH_PENALTY.ITEM_DROP_CHANCE
+    );
+
+    dropped.forEach((item) => {
+      store.removeItemInstanceFromInventory(item.instanceId, item.quantity || 1);
+    });
+
+    if (dropped.length > 0) {
+      const now = Date.now();
+      const corpse: CorpseData = {
+        id: `${now}-${Math.floor(Math.random() * 10000)}`,
+        mapKey,
+        x,
+        y,
+        items: dropped,
+        createdAt: now,
+        expiresAt: now + DEATH_PENALTY.CORPSE_DURATION,
+      };
+
+      store.updateCorpses([...useGameStore.getState().corpses, corpse]);
+    }
+
+    return dropped;
+  }
+
+  // ============================================================================
+  // RESPAWN POINTS
+  // ============================================================================
+
+  /**
+   * Get where the player will respawn: their bound temple, or the current map's respawn point
+   */
+  getRespawnLocation(): { mapKey: string; x: number; y: number; temple: TempleData | null } {
+    const store = useGameStore.getState();
+    const bound = store.respawnPoint;
+    const temple = bound ? MapService.getTemple(bound.mapKey, bound.templeId) : null;
+
+    if (bound && temple) {
+      const position = MapService.tiledToPhaser(bound.mapKey, temple.x, temple.y);
+      return { mapKey: bound.mapKey, ...position, temple };
+    }
+
+    const position = MapService.getRespawnPoint(store.currentMap);
+    return { mapKey: store.currentMap, ...position, temple: null };
+  }
+
+  /**
+   * Revive the player at their respawn location, changing maps if needed
+   */
+  respawn(): void {
+    try {
+      const store = useGameStore.getState();
+      const location = this.getRespawnLocation();
+      const position = { x: location.x, y: location.y };
+      const message = location.temple
+        ? `You have been respawned at the ${location.temple.name}.`
+        : "You have been respawned.";
+
+      eventBus.emit("player.respawn", position);
+
+      const gameScene = store.systems?.gameScene;
+      if (location.mapKey !== store.currentMap && gameScene) {
+        gameScene.changeMap(location.mapKey, position.x, position.y, message);
+      } else {
+        eventBus.emit("ui.message.show", message);
+      }
+    } catch (error) {
+      console.error("Error respawning player:", error);
+      eventBus.emit("error.player.respawn", { error });
+    }
+  }
+
+  /**
+   * Bind the player's respawn point to a temple
+   */
+  bindTemple(mapKey: string, temple: TempleData): void {
+    const store = useGameStore.getState();
+    const bound = store.respawnPoint;
+    if (bound?.mapKey === mapKey && bound.templeId === temple.id) return;
+
+    store.updateRespawnPoint({ mapKey, templeId: temple.id });
+    eventBus.emit("ui.message.show", `You will now respawn at the ${temple.name}.`);
+  }
+
+  /**
+   * Register temples placed as Tiled objects with a "temple" property on the interact layer
+   */
+  registerTemplesFromLayer(mapKey: string, layer: Phaser.Tilemaps.ObjectLayer | null): void {
+    if (!layer) return;
+
+    layer.objects.forEach((obj: Phaser.Types.Tilemaps.TiledObject) => {
+      const properties: { name: string; value: any }[] = obj.properties || [];
+      const name = properties.find((prop) => prop.name === "temple")?.value;
+      if (!name) return;
+
+      // Same tile conversion as chests: Tiled objects have their origin at top-left
+      const tileX = Math.floor(((obj.x || 0) + (obj.width || 32) / 2) / 32);
+      const tileY = Math.floor(((obj.y || 0) + (obj.height || 32) / 2) / 32);
+      const id = properties.find((prop) => prop.name === "id")?.value || `${mapKey}-${name}`;
+
+      MapService.registerTemple(mapKey, { id, name, x: tileX, y: tileY });
+    });
+  }
+
+  // ============================================================================
+  // CORPSES
+  // ============================================================================
+
+  /**
+   * Return a corpse's items to the player. Items too heavy to carry stay on the corpse.
+   * @returns true if any item was looted
+   */
+  lootCorpse(corpseId: string): boolean {
+    try {
+      const store = useGameStore.getState();
+      const corpse = store.corpses.find((c) => c.id === corpseId);
+      if (!corpse) return false;
+
+      const looted = corpse.items.filter((item) => store.addItemInstanceToInventory(item));
+      const remaining = corpse.items.filter((item) => !looted.includes(item));
+      const corpses = useGameStore.getState().corpses;
+
+      store.updateCorpses(
+        remaining.length > 0
+          ? corpses.map((c) => (c.id === corpseId ? { ...c, items: remaining } : c))
+          : corpses.filter((c) => c.id !== corpseId)
+      );
+
+      if (looted.length > 0) {
+        eventBus.emit("corpse.looted", { corpseId, items: looted });
+        eventBus.emit(
+          "ui.message.show",
+          `You recovered ${looted.length} item${looted.length === 1 ? "" : "s"} from your corpse.`
+        );
+      }
+
+      if (remaining.length > 0) {
+        eventBus.emit(
+          "ui.message.show",
+          `You can't carry everything, ${remaining.length} item${remaining.length === 1 ? " is" : "s are"} left on your corpse.`
+        );
+      }
+
+      return looted.length > 0;
+    } catch (error) {
+      console.error(`Error looting corpse ${corpseId}:`, error);
+      eventBus.emit("error.corpse.loot", { corpseId, error });
+      return false;
+    }
+  }
+
+  /**
+   * Find a corpse on the current map near a world position
+   */
+  getCorpseAt(x: number, y: number, radius: number = 24): CorpseData | null {
+    const store = useGameStore.getState();
+    return (
+      store.corpses.find(
+        (corpse) =>
+          corpse.mapKey === store.currentMap &&
+          Phaser.Math.Distance.Between(x, y, corpse.x, corpse.y) <= radius
+      ) || null
+    );
+  }
+
+  /**
+   * Make sure the scene shows exactly the corpses left on the current map
+   */
+  syncCorpses(): void {
+    const store = useGameStore.getState();
+    const gameScene = store.systems?.gameScene;
+    if (!gameScene?.corpses) return;
+
+    const sprites: CorpseSprite[] = gameScene.corpses.getChildren();
+    const onMap = store.corpses.filter((corpse) => corpse.mapKey === store.currentMap);
+    const ids = new Set(onMap.map((corpse) => corpse.id));
+
+    sprites.forEach((sprite) => {
+      if (!ids.has(sprite.corpseId)) sprite.destroy();
+    });
+
+    const shown = new Set(sprites.filter((sprite) => sprite.active).map((s) => s.corpseId));
+    onMap
+      .filter((corpse) => !shown.has(corpse.id))
+      .forEach((corpse) => gameScene.spawnCorpse(corpse.id, corpse.x, corpse.y));
+  }
+
+  handleCorpsesUpdated(): void {
+    this.syncCorpses();
+  }
+
+  // ============================================================================
+  // UPDATE
+  // ============================================================================
+
+  /**
+   * Updates the system - called each frame with the scene time
+   */
+  update(time: number): void {
+    if (time - this.lastTickTime < this.tickInterval) return;
+    this.lastTickTime = time;
+
+    try {
+      const store = useGameStore.getState();
+
+      // Decay corpses whose time ran out
+      const now = Date.now();
+      const decayed = store.corpses.filter((corpse) => corpse.expiresAt <= now);
+      if (decayed.length > 0) {
+        store.updateCorpses(store.corpses.filter((corpse) => corpse.expiresAt > now));
+        eventBus.emit("ui.message.show", "Your corpse has decayed, the items in it are lost.");
+      }
+
+      // Standing on a temple binds the respawn point to it
+      const player = store.systems?.gameScene?.playerCharacter;
+      if (!player || player.isDead) return;
+
+      const tile = MapService.phaserToTiled(store.currentMap, player.x, player.y);
+      const temple = MapService.getTempleAt(store.currentMap, tile.x, tile.y);
+      if (temple) {
+        this.bindTemple(store.currentMap, temple);
+      }
+    } catch (error) {
+      console.error("Error in RespawnSystem update:", error);
+      eventBus.emit("error.respawn.update", { error });
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    eventBus.off("player.died", this.handlePlayerDied);
+    eventBus.off("player.respawned", this.handlePlayerRespawned);
+    eventBus.off("corpses.updated", this.handleCorpsesUpdated);
+  }
+}
+
+// Create and export singleton instance
+export const respawnSystem = new RespawnSystemService();
@@ -0,0 +1,540 @@
+// src/services/SaveGameService.ts
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+import { MapService } from "./MapService";
+import { Quest, QuestObjective, SaveGameData, SaveSlotInfo } from "@/types";
+import {
+  ExportedSaveFile,
+  SAVE_FILE_FORMAT,
+  computeSaveChecksum,
+  isExportedSaveFile,
+  verifySaveFile,
+  validateSaveData,
+} from "@/utils/SaveFileIntegrity";
+import { CARRY_WEIGHT } from "@/utils/CarryWeight";
+import { WORLD_TIME, worldClock } from "./WorldClockSystem";
+
+/**
+ * Current save schema version. Bump this and register a migration in
+ * SAVE_MIGRATIONS whenever the shape of SaveGameData changes.
+ */
+export const SAVE_SCHEMA_VERSION = 8;
+
+export const AUTOSAVE_SLOT = "autosave";
+
+const SAVE_KEY_PREFIX = "nminfas.save.";
+const AUTOSAVE_DELAY = 1000; // Debounce bursts of inventory updates into one write
+
+/**
+ * Quest as stored by older saves, before objectives tracked progress
+ */
+type VersionedQuest = Omit<Quest, "objectives"> & {
+  objectives?: Array<Partial<QuestObjective> & { id: string }>;
+};
+
+/**
+ * A parsed save at any schema version. Fields added by later versions may be missing.
+ */
+type VersionedSave = Omit<Partial<SaveGameData>, "version" | "playerCharacter" | "quests"> & {
+  version: number;
+  playerCharacter?: Partial<SaveGameData["playerCharacter"]>;
+  quests?: { active?: VersionedQuest[]; completed?: VersionedQuest[] };
+};
+
+type SaveMigration = (data: VersionedSave) => VersionedSave;
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * Each migration receives the raw parsed save and returns data for version + 1.
+ */
+const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  // v2: quest objectives track progress towards a required amount
+  1: (data) => {
+    const migrateQuest = (quest: VersionedQuest): VersionedQuest => ({
+      ...quest,
+      objectives: (quest.objectives || []).map((objective) => ({
+        ...objective,
+        progress: objective.progress ?? (objective.completed ? 1 : 0),
+        required: objective.required ?? 1,
+      })),
+    });
+
+    return {
+      ...data,
+      quests: {
+        active: (data.quests?.active || []).map(migrateQuest),
+        completed: (data.quests?.completed || []).map(migrateQuest),
+      },
+    };
+  },
+
+  // v3: main quests report back to The Supreme Mage instead of Al Dee
+  2: (data) => {
+    const reportStep = {
+      id: "report-mage",
+      description: "Return to The Supreme Mage",
+      completed: false,
+      progress: 0,
+      required: 1,
+    };
+
+    const migrateQuest = (quest: VersionedQuest): VersionedQuest => {
+      if (quest.id === "main-merchants-request") {
+        const objectives = quest.objectives || [];
+        return objectives.some((objective) => objective.id === reportStep.id)
+          ? quest
+          : { ...quest, objectives: [...objectives, reportStep] };
+      }
+
+      if (quest.id === "main-clear-the-cave") {
+        return {
+          ...quest,
+          objectives: (quest.objectives || []).map((objective) =>
+            objective.id === "report-aldee"
+              ? { ...objective, id: reportStep.id, description: "Report back to The Supreme Mage" }
+              : objective
+          ),
+        };
+      }
+
+      return quest;
+    };
+
+    return {
+      ...data,
+      quests: {
+        active: (data.quests?.active || []).map(migrateQuest),
+        completed: data.quests?.completed || [],
+      },
+    };
+  },
+
+  // v4: current mana is persisted, older saves start with a full pool
+  3: (data) => ({
+    ...data,
+    playerCharacter: {
+      ...data.playerCharacter,
+      mana: data.playerCharacter?.mana ?? (data.playerCharacter?.skills?.mana?.level || 10) * 10,
+    },
+  }),
+
+  // v5: bound temple and unrecovered corpses are persisted
+  4: (data) => ({
+    ...data,
+    respawnPoint: data.respawnPoint ?? null,
+    corpses: data.corpses ?? [],
+  }),
+
+  // v6: bestiary kill counts are persisted
+  5: (data) => ({
+    ...data,
+    bestiary: data.bestiary ?? { kills: {} },
+  }),
+
+  // v7: maxCapacity is the base carry weight instead of a slot count
+  6: (data) => ({
+    ...data,
+    playerCharacter: {
+      ...data.playerCharacter,
+      maxCapacity: Math.max(data.playerCharacter?.maxCapacity || 0, CARRY_WEIGHT.BASE_CAPACITY),
+    },
+  }),
+
+  // v8: the world clock is persisted, older saves start at the default hour of day 1
+  7: (data) => ({
+    ...data,
+    worldTime: data.worldTime ?? WORLD_TIME.START_HOUR * 60,
+  }),
+};
+
+class SaveGameServiceClass {
+  private autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+  private isRestoring: boolean = false;
+  private autosaveEnabled: boolean = true;
+
+  constructor() {
+    this.scheduleAutosave = this.scheduleAutosave.bind(this);
+    this.handleBeforeUnload = this.handleBeforeUnload.bind(this);
+
+    this.initialize();
+  }
+
+  initialize(): void {
+    try {
+      // Autosave on key progression events
+      eventBus.on("map.changed", this.scheduleAutosave);
+      eventBus.on("inventory.updated", this.scheduleAutosave);
+      eventBus.on("playerCharacter.level.changed", this.scheduleAutosave);
+      eventBus.on("quest.completed", this.scheduleAutosave);
+      eventBus.on("player.respawnPoint.changed", this.scheduleAutosave);
+      eventBus.on("corpses.updated", this.scheduleAutosave);
+      eventBus.on("bestiary.milestone.reached", this.scheduleAutosave);
+
+      // Flush pending progress when the page is closed or refreshed
+      window.addEventListener("beforeunload", this.handleBeforeUnload);
+    } catch (error) {
+      console.error("Error initializing SaveGameService:", error);
+    }
+  }
+
+  /**
+   * Serialize the current store into a versioned save
+   */
+  createSaveData(slot: string): SaveGameData {
+    const state = useGameStore.getState();
+    const pc = state.playerCharacter;
+
+    return {
+      version: SAVE_SCHEMA_VERSION,
+      slot,
+      savedAt: Date.now(),
+      playerCharacter: {
+        health: pc.health,
+        maxHealth: pc.maxHealth,
+        mana: pc.mana,
+        experience: pc.experience,
+        equipment: pc.equipment,
+        inventory: pc.inventory,
+        skills: pc.skills,
+        gold: pc.gold,
+        maxCapacity: pc.maxCapacity,
+        currentCapacity: pc.currentCapacity,
+      },
+      quests: state.quests,
+      setCollections: state.setCollections,
+      currentMap: state.currentMap,
+      position: this.getPlayerPosition(),
+      respawnPoint: state.respawnPoint,
+      corpses: state.corpses,
+      bestiary: state.bestiary,
+      worldTime: worldClock.getTotalMinutes(),
+    };
+  }
+
+  /**
+   * Write the current game state to a named slot
+   */
+  saveToSlot(slot: string, silent: boolean = false): boolean {
+    try {
+      const slotName = slot.trim();
+      if (!slotName) {
+        eventBus.emit("ui.error.show", "Save slot name cannot be empty");
+        return false;
+      }
+
+      const data = this.createSaveData(slotName);
+      localStorage.setItem(this.getStorageKey(slotName), JSON.stringify(data));
+
+      eventBus.emit("save.written", { slot: slotName, savedAt: data.savedAt });
+      if (!silent) {
+        eventBus.emit("ui.message.show", `Game saved to "${slotName}"`);
+      }
+      return true;
+    } catch (error) {
+      console.error("Error in SaveGameService.saveToSlot:", error);
+      eventBus.emit("ui.error.show", "Failed to save game");
+      return false;
+    }
+  }
+
+  /**
+   * Read, migrate and apply a save slot to the running game
+   */
+  loadFromSlot(slot: string): boolean {
+    try {
+      const data = this.readSlot(slot);
+      if (!data) {
+        eventBus.emit("ui.error.show", `No valid save found in "${slot}"`);
+        return false;
+      }
+
+      this.applySaveData(data);
+      eventBus.emit("ui.message.show", `Loaded save "${slot}"`);
+      return true;
+    } catch (error) {
+      console.error("Error in SaveGameService.loadFromSlot:", error);
+      eventBus.emit("ui.error.show", "Failed to load game");
+      return false;
+    }
+  }
+
+  /**
+   * Restore the autosave before the game scene is first created
+   * @returns true if an autosave was applied
+   */
+  restoreAutosave(): boolean {
+    try {
+      const data = this.readSlot(AUTOSAVE_SLOT);
+      if (!data) return false;
+
+      this.applySaveData(data);
+      return true;
+    } catch (error) {
+      console.error("Error in SaveGameService.restoreAutosave:", error);
+      return false;
+    }
+  }
+
+  deleteSlot(slot: string): void {
+    try {
+      localStorage.removeItem(this.getStorageKey(slot));
+      eventBus.emit("save.deleted", { slot });
+    } catch (error) {
+      console.error("Error in SaveGameService.deleteSlot:", error);
+    }
+  }
+
+  /**
+   * List all save slots, most recent first
+   */
+  listSlots(): SaveSlotInfo[] {
+    const slots: SaveSlotInfo[] = [];
+
+    try {
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key || !key.startsWith(SAVE_KEY_PREFIX)) continue;
+
+        const data = this.readSlot(key.substring(SAVE_KEY_PREFIX.length));
+        if (!data) continue;
+
+        slots.push({
+          slot: data.slot,
+          savedAt: data.savedAt,
+          version: data.version,
+          currentMap: data.currentMap,
+          playerLevel: data.playerCharacter.skills.playerLevel?.level || 1,
+        });
+      }
+    } catch (error) {
+      console.error("Error in SaveGameService.listSlots:", error);
+    }
+
+    return slots.sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  /**
+   * Download the current character as a checksummed save file
+   */
+  async exportToFile(): Promise<boolean> {
+    try {
+      const data = this.createSaveData("export");
+      const file: ExportedSaveFile = {
+        format: SAVE_FILE_FORMAT,
+        exportedAt: Date.now(),
+        checksum: await computeSaveChecksum(data),
+        data,
+      };
+
+      const blob = new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const level = data.playerCharacter.skills.playerLevel?.level || 1;
+
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `character-lvl${level}-${new Date(data.savedAt).toISOString().slice(0, 10)}.json`;
+      link.click();
+      // Revoking right away can cancel the download before the browser has read the blob
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+
+      eventBus.emit("ui.message.show", "Character exported");
+      return true;
+    } catch (error) {
+      console.error("Error in SaveGameService.exportToFile:", error);
+      eventBus.emit("ui.error.show", "Failed to export character");
+      return false;
+    }
+  }
+
+  /**
+   * Verify, validate and load an exported save file into a new slot
+   * @param file File chosen by the player
+   * @param slot Slot to store the imported character in
+   */
+  async importFromFile(file: File, slot: string = "imported"): Promise<boolean> {
+    try {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await file.text());
+      } catch {
+        eventBus.emit("ui.error.show", "Import failed: file is not a valid save");
+        return false;
+      }
+
+      if (!isExportedSaveFile(parsed) || !(await verifySaveFile(parsed))) {
+        eventBus.emit("ui.error.show", "Import failed: save file is corrupted or was modified");
+        return false;
+      }
+
+      const migrated = this.migrate(parsed.data);
+      if (!migrated) {
+        eventBus.emit("ui.error.show", "Import failed: unsupported save version");
+        return false;
+      }
+
+      const { data, errors } = validateSaveData(migrated);
+      if (!data) {
+        console.warn("Rejected imported save:", errors);
+        eventBus.emit("ui.error.show", `Import failed: ${errors[0]}`);
+        return false;
+      }
+
+      const imported: SaveGameData = { ...data, slot, savedAt: Date.now() };
+      localStorage.setItem(this.getStorageKey(slot), JSON.stringify(imported));
+      eventBus.emit("save.written", { slot, savedAt: imported.savedAt });
+
+      this.applySaveData(imported);
+      eventBus.emit("ui.message.show", `Imported character into "${slot}"`);
+      return true;
+    } catch (error) {
+      console.error("Error in SaveGameService.importFromFile:", error);
+      eventBus.emit("ui.error.show", "Failed to import character");
+      return false;
+    }
+  }
+
+  setAutosaveEnabled(enabled: boolean): void {
+    this.autosaveEnabled = enabled;
+    if (!enabled && this.autosaveTimer) {
+      clearTimeout(this.autosaveTimer);
+      this.autosaveTimer = null;
+    }
+  }
+
+  /**
+   * Bring a parsed save of any known version up to SAVE_SCHEMA_VERSION
+   * @returns Migrated save data, or null if it cannot be migrated
+   */
+  migrate(raw: unknown): SaveGameData | null {
+    if (!raw || typeof raw !== "object" || typeof (raw as VersionedSave).version !== "number") {
+      return null;
+    }
+
+    let data = raw as VersionedSave;
+    if (data.version > SAVE_SCHEMA_VERSION) {
+      console.warn(`Save version ${data.version} is newer than supported ${SAVE_SCHEMA_VERSION}`);
+      return null;
+    }
+
+    while (data.version < SAVE_SCHEMA_VERSION) {
+      const migration = SAVE_MIGRATIONS[data.version];
+      if (!migration) {
+        console.warn(`No save migration registered for version ${data.version}`);
+        return null;
+      }
+
+      data = { ...migration(data), version: data.version + 1 };
+    }
+
+    return data as SaveGameData;
+  }
+
+  /**
+   * Apply save data to the store and move the player to the saved map/position
+   */
+  applySaveData(data: SaveGameData): void {
+    this.isRestoring = true;
+
+    try {
+      const mapKey = MapService.getMap(data.currentMap) ? data.currentMap : "game-map";
+      const position = data.position || MapService.getDefaultSpawn(mapKey);
+      const store = useGameStore.getState();
+
+      store.hydrateFromSave({ ...data, currentMap: mapKey });
+      worldClock.setTotalMinutes(data.worldTime);
+
+      const gameScene = store.systems?.gameScene;
+      if (gameScene && gameScene.playerCharacter && gameScene.scene?.isActive()) {
+        // Game already running - reload the map around the restored position
+        gameScene.changeMap(mapKey, position.x, position.y, "Save loaded");
+      } else {
+        // Game scene not created yet - GameScene.create will pick this up
+        useGameStore.getState().playerCharacter.teleportPosition = {
+          x: position.x,
+          y: position.y,
+        };
+      }
+
+      eventBus.emit("save.loaded", { slot: data.slot, version: data.version });
+    } finally {
+      this.isRestoring = false;
+    }
+  }
+
+  private readSlot(slot: string): SaveGameData | null {
+    try {
+      const json = localStorage.getItem(this.getStorageKey(slot));
+      if (!json) return null;
+
+      return this.migrate(JSON.parse(json));
+    } catch (error) {
+      console.error(`Error reading save slot "${slot}":`, error);
+      return null;
+    }
+  }
+
+  private scheduleAutosave(): void {
+    if (!this.autosaveEnabled || this.isRestoring) return;
+
+    if (this.autosaveTimer) {
+      clearTimeout(this.autosaveTimer);
+    }
+
+    this.autosaveTimer = setTimeout(() => {
+      this.autosaveTimer = null;
+      this.saveToSlot(AUTOSAVE_SLOT, true);
+    }, AUTOSAVE_DELAY);
+  }
+
+  private handleBeforeUnload(): void {
+    if (!this.autosaveEnabled) return;
+    this.saveToSlot(AUTOSAVE_SLOT, true);
+  }
+
+  /**
+   * Get the player's current world position, snapped to the tile center
+   */
+  private getPlayerPosition(): { x: number; y: number } | null {
+    try {
+      const store = useGameStore.getState();
+      const player = store.systems?.gameScene?.playerCharacter;
+
+      if (player && player.active) {
+        const tileSize = MapService.getTileSize();
+        return {
+          x: Math.floor(player.x / tileSize) * tileSize + tileSize / 2,
+          y: Math.floor(player.y / tileSize) * tileSize + tileSize / 2,
+        };
+      }
+
+      return store.playerCharacter.teleportPosition || null;
+    } catch (error) {
+      console.error("Error getting player position for save:", error);
+      return null;
+    }
+  }
+
+  private getStorageKey(slot: string): string {
+    return `${SAVE_KEY_PREFIX}${slot}`;
+  }
+
+  dispose(): void {
+    if (this.autosaveTimer) {
+      clearTimeout(this.autosaveTimer);
+      this.autosaveTimer = null;
+    }
+
+    eventBus.off("map.changed", this.scheduleAutosave);
+    eventBus.off("inventory.updated", this.scheduleAutosave);
+    eventBus.off("playerCharacter.level.changed", this.scheduleAutosave);
+    eventBus.off("quest.completed", this.scheduleAutosave);
+    eventBus.off("player.respawnPoint.changed", this.scheduleAutosave);
+    eventBus.off("corpses.updated", this.scheduleAutosave);
+    eventBus.off("bestiary.milestone.reached", this.scheduleAutosave);
+
+    window.removeEventListener("beforeunload", this.handleBeforeUnload);
+  }
+}
+
+// Create singleton instance
+export const SaveGameService = new SaveGameServiceClass();
@@ -2,10 +2,11 @@ import { eventBus } from "../utils/EventBus";
 import { useGameStore } from "../stores/gameStore";
 import {
   updateSkillWithExperience,
+  LEVEL_GROWTH,
   SKILL_PROGRESSION,
   calculatePointsForNextLevel,
 } from "../utils/SkillProgressionFormula";
-import { DamageEvent } from "../types";
+import { DamageEvent, MonsterDeathEvent, PlayerLevelUpEvent } from "../types";
 
 class SkillProgressionSystemService {
   // Maps weapon types to skill IDs
@@ -16,12 +17,18 @@ class SkillProgressionSystemService {
   };
 
   constructor() {
+    this.handleDamageDealt = this.handleDamageDealt.bind(this);
+    this.handleMonsterDied = this.handleMonsterDied.bind(this);
+
     this.initialize();
   }
 
   initialize(): void {
     // Subscribe to damage events
-    eventBus.on("damage.dealt", this.handleDamageDealt.bind(this));
+    eventBus.on("damage.dealt", this.handleDamageDealt);
+
+    // Subscribe to monster kills to award player experience
+    eventBus.on("monster.died", this.handleMonsterDied);
   }
 
   /**
@@ -46,6 +53,82 @@ class SkillProgressionSystemService {
     }
   }
 
+  /**
+   * Handles monster deaths to award player experience
+   */
+  handleMonsterDied(event?: MonsterDeathEvent): void {
+    if (!event?.experience) return;
+
+    this.awardPlayerExperience(event.experience, "monster");
+  }
+
+  /**
+   * Awards experience towards the player level and handles level-ups
+   */
+  awardPlayerExperience(amount: number, source: string): void {
+    try {
+      if (amount <= 0) return;
+
+      const store = useGameStore.getState();
+      const previousLevel = store.playerCharacter.skills.playerLevel?.level || 1;
+      const previousMaxHealth = store.playerCharacter.maxHealth;
+      const previousMaxMana = store.calculatedStats.totalMana;
+      const currentExp = store.playerCharacter.skills.playerLevel?.experience || 0;
+
+      store.updatePlayerExperience(store.playerCharacter.experience + amount);
+      store.updateSkill("playerLevel", currentExp + amount);
+
+      eventBus.emit("player.experience.gained", { amount, source });
+
+      const level = useGameStore.getState().playerCharacter.skills.playerLevel.level;
+      if (level > previousLevel) {
+        this.handleLevelUp(previousLevel, previousMaxHealth, previousMaxMana);
+      }
+    } catch (error) {
+      console.error("Error in awardPlayerExperience:", error);
+      eventBus.emit("error.player.experience", { amount, source, error });
+    }
+  }
+
+  /**
+   * Applies level-up growth to the player entity and announces it
+   */
+  private handleLevelUp(
+    previousLevel: number,
+    previousMaxHealth: number,
+    previousMaxMana: number
+  ): void {
+    const store = useGameStore.getState();
+    const { maxHealth } = store.playerCharacter;
+    const maxMana = store.calculatedStats.totalMana;
+    const level = store.playerCharacter.skills.playerLevel.level;
+
+    // The entity owns combat health, keep its maximum in step with the store
+    const player = store.systems?.gameScene?.playerCharacter;
+    if (player && !player.isDead) {
+      player.maxHealth = maxHealth;
+      if (LEVEL_GROWTH.RESTORE_ON_LEVEL_UP) {
+        player.heal(maxHealth);
+      }
+    }
+
+    if (LEVEL_GROWTH.RESTORE_ON_LEVEL_UP) {
+      store.updatePlayerMana(maxMana);
+    }
+
+    const levelUpEvent: PlayerLevelUpEvent = {
+      level,
+      previousLevel,
+      maxHealth,
+      maxMana,
+      healthGained: maxHealth - previousMaxHealth,
+      manaGained: maxMana - previousMaxMana,
+    };
+
+    eventBus.emit("player.level.up", levelUpEvent);
+    eventBus.emit("ui.message.show", `You advanced from Level ${previousLevel} to Level ${level}.`);
+  }
+
   /**
    * Calculate points to award based on damage event
    */
@@ -178,6 +261,7 @@ class SkillProgressionSystemService {
   dispose(): void {
     // Clean up event listeners
     eventBus.off("damage.dealt", this.handleDamageDealt);
+    eventBus.off("monster.died", this.handleMonsterDied);
   }
 }
 
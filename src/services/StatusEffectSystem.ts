@@ -0,0 +1,179 @@
+import { Ability, ActiveStatusEffect, StatusEffectDefinition, StatusEffectType } from "@/types";
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+import type { Character } from "@/entities/Character";
+import type { Component } from "@/entities/Component";
+
+/**
+ * Options when applying a status effect
+ */
+export interface StatusEffectOptions {
+  duration?: number;
+  potency?: number;
+  sourceId?: string;
+}
+
+/**
+ * Minimal surface of the per-entity status effect component, kept here so the
+ * system only needs entity types, not entity code
+ */
+interface StatusEffectHolder {
+  applyEffect(type: StatusEffectType, options?: StatusEffectOptions): boolean;
+  removeEffect(type: StatusEffectType): void;
+  clearEffects(): void;
+  hasEffect(type: StatusEffectType): boolean;
+  isStunned(): boolean;
+  getActiveEffects(): ActiveStatusEffect[];
+}
+
+class StatusEffectSystemService {
+  private definitions: Record<StatusEffectType, StatusEffectDefinition> = {
+    [StatusEffectType.STUN]: {
+      type: StatusEffectType.STUN,
+      name: "Stunned",
+      icon: "💫",
+      isDebuff: true,
+      stacking: "refresh",
+      maxStacks: 1,
+      defaultDuration: 1500,
+      defaultPotency: 1,
+    },
+    [StatusEffectType.SLOW]: {
+      type: StatusEffectType.SLOW,
+      name: "Slowed",
+      icon: "🐌",
+      isDebuff: true,
+      stacking: "refresh",
+      maxStacks: 1,
+      defaultDuration: 3000,
+      defaultPotency: 0.4, // 40% slower
+    },
+    [StatusEffectType.BURN]: {
+      type: StatusEffectType.BURN,
+      name: "Burning",
+      icon: "🔥",
+      isDebuff: true,
+      stacking: "stack",
+      maxStacks: 3,
+      defaultDuration: 3000,
+      defaultPotency: 1,
+      tickInterval: 1000,
+    },
+    [StatusEffectType.POISON]: {
+      type: StatusEffectType.POISON,
+      name: "Poisoned",
+      icon: "☠️",
+      isDebuff: true,
+      stacking: "stack",
+      maxStacks: 5,
+      defaultDuration: 6000,
+      defaultPotency: 1,
+      tickInterval: 2000,
+    },
+    [StatusEffectType.REGEN]: {
+      type: StatusEffectType.REGEN,
+      name: "Extra Regeneration",
+      icon: "💗",
+      isDebuff: false,
+      stacking: "refresh",
+      maxStacks: 1,
+      defaultDuration: 10000,
+      defaultPotency: 2,
+      tickInterval: 1000,
+    },
+    [StatusEffectType.FED]: {
+      type: StatusEffectType.FED,
+      name: "Well Fed",
+      icon: "🍖",
+      isDebuff: false,
+      stacking: "extend",
+      maxStacks: 1,
+      defaultDuration: 60000,
+      defaultPotency: 1,
+      tickInterval: 3000,
+      maxDuration: 300000, // 5 minutes of food at most
+    },
+  };
+
+  getDefinition(type: StatusEffectType): StatusEffectDefinition | null {
+    return this.definitions[type] || null;
+  }
+
+  getAllDefinitions(): StatusEffectDefinition[] {
+    return Object.values(this.definitions);
+  }
+
+  /**
+   * Apply a status effect to any entity that has a status effect component
+   * @returns true if the effect was applied
+   */
+  applyEffect(
+    target: Character,
+    type: StatusEffectType,
+    options: StatusEffectOptions = {}
+  ): boolean {
+    try {
+      const holder = this.getHolder(target);
+      if (!holder) return false;
+
+      return holder.applyEffect(type, options);
+    } catch (error) {
+      console.error(`Error applying status effect ${type}:`, error);
+      eventBus.emit("error.statusEffect.apply", { type, error });
+      return false;
+    }
+  }
+
+  /**
+   * Apply the status effect attached to an ability, if any, after it hits a target
+   */
+  applyAbilityEffect(target: Character, ability: Ability, sourceId?: string): boolean {
+    const effect = ability.statusEffect;
+    if (!effect) return false;
+
+    // Roll the application chance
+    if (effect.chance !== undefined && Math.random() > effect.chance) return false;
+
+    return this.applyEffect(target, effect.type, {
+      duration: effect.duration,
+      potency: effect.potency,
+      sourceId: sourceId || ability.id,
+    });
+  }
+
+  removeEffect(target: Character, type: StatusEffectType): void {
+    this.getHolder(target)?.removeEffect(type);
+  }
+
+  clearEffects(target: Character): void {
+    this.getHolder(target)?.clearEffects();
+  }
+
+  hasEffect(target: Character, type: StatusEffectType): boolean {
+    return this.getHolder(target)?.hasEffect(type) || false;
+  }
+
+  isStunned(target: Character): boolean {
+    return this.getHolder(target)?.isStunned() || false;
+  }
+
+  getActiveEffects(target: Character): ActiveStatusEffect[] {
+    return this.getHolder(target)?.getActiveEffects() || [];
+  }
+
+  /**
+   * Convenience check for systems that act on behalf of the player
+   */
+  isPlayerStunned(): boolean {
+    const gameScene = useGameStore.getState().systems?.gameScene;
+    return this.isStunned(gameScene?.playerCharacter);
+  }
+
+  private getHolder(target: Character): StatusEffectHolder | null {
+    if (!target || !target.components) return null;
+    return target.components.get<Component & StatusEffectHolder>("statusEffects") || null;
+  }
+}
+
+// Create and export singleton instance
+export const statusEffectSystem = new StatusEffectSystemService();
@@ -0,0 +1,136 @@
+// src/services/ThreatSystem.ts
+import { Ability, DamageEvent } from "@/types";
+import { eventBus } from "../utils/EventBus";
+import { useGameStore } from "../stores/gameStore";
+
+/**
+ * Threat tuning shared by every monster's threat table
+ */
+export const THREAT = {
+  // Threat per point of damage dealt
+  DAMAGE_MULTIPLIER: 1,
+  // Threat per point of effective healing, on every monster already fighting the healed target
+  HEALING_MULTIPLIER: 0.5,
+  // A new target needs this much of the current target's threat to pull aggro
+  SWITCH_THRESHOLD: 1.1,
+  // Percentage of threat lost every decay interval
+  DECAY_PERCENT: 5,
+  DECAY_INTERVAL: 1000,
+  // Entries below this fall off the table
+  MINIMUM: 1,
+  // How long a taunt holds the monster on the taunter (milliseconds)
+  TAUNT_DURATION: 3000,
+};
+
+/**
+ * Minimal surfaces of monsters and their threat component, kept here so the
+ * system does not need to import entity code
+ */
+interface ThreatEntity {
+  id: string;
+  components?: { get(componentId: string): unknown };
+}
+
+interface ThreatHolder {
+  addThreat(source: ThreatEntity, amount: number): void;
+  raiseThreat(sourceId: string, amount: number): boolean;
+  taunt(source: ThreatEntity): void;
+}
+
+class ThreatSystemService {
+  constructor() {
+    this.handleDamageDealt = this.handleDamageDealt.bind(this);
+    this.handleCharacterHealed = this.handleCharacterHealed.bind(this);
+
+    eventBus.on("damage.dealt", this.handleDamageDealt);
+    eventBus.on("character.healed", this.handleCharacterHealed);
+  }
+
+  /**
+   * Monsters report every hit they take, the attacker gains threat on the monster hit.
+   * Hits without a known attacker come from the player.
+   */
+  handleDamageDealt(event?: DamageEvent): void {
+    try {
+      if (!event?.targetEntityId) return;
+
+      const gameScene = useGameStore.getState().systems?.gameScene;
+      const monsters: ThreatEntity[] = gameScene?.monsters?.getChildren() || [];
+      const monster = monsters.find((entity) => entity.id === event.targetEntityId);
+      if (!monster) return;
+
+      const player = gameScene?.playerCharacter;
+      const source =
+        !event.attackerId || event.attackerId === player?.id
+          ? player
+          : monsters.find((entity) => entity.id === event.attackerId);
+
+      this.addDamageThreat(monster, source || null, event.damage);
+    } catch (error) {
+      console.error("Error handling damage threat:", error);
+      eventBus.emit("error.threat.damage", { error });
+    }
+  }
+
+  /**
+   * Add damage threat from a source to a monster
+   */
+  addDamageThreat(monster: ThreatEntity, source: ThreatEntity | null, damage: number): void {
+    try {
+      if (!source) return;
+      this.getHolder(monster)?.addThreat(source, damage * THREAT.DAMAGE_MULTIPLIER);
+    } catch (error) {
+      console.error("Error adding damage threat:", error);
+      eventBus.emit("error.threat.damage", { error });
+    }
+  }
+
+  /**
+   * Apply the threat side of an ability hitting a monster, e.g. taunts
+   */
+  applyAbilityThreat(monster: ThreatEntity, ability: Ability, source?: ThreatEntity): void {
+    if (!ability.taunt) return;
+
+    const caster = source || useGameStore.getState().systems?.gameScene?.playerCharacter;
+    if (caster) {
+      this.getHolder(monster)?.taunt(caster);
+    }
+  }
+
+  /**
+   * Healing draws threat from every monster already fighting the healed character.
+   * Heals carry no caster, so the healed character is treated as the healer.
+   */
+  handleCharacterHealed(data: { id: string; currentHealth: number; previousHealth: number }): void {
+    try {
+      const healed = data ? data.currentHealth - data.previousHealth : 0;
+      if (healed <= 0) return;
+
+      const gameScene = useGameStore.getState().systems?.gameScene;
+      const monsters = gameScene?.monsters?.getChildren() || [];
+
+      monsters.forEach((monster: ThreatEntity) => {
+        this.getHolder(monster)?.raiseThreat(data.id, healed * THREAT.HEALING_MULTIPLIER);
+      });
+    } catch (error) {
+      console.error("Error adding healing threat:", error);
+      eventBus.emit("error.threat.healing", { error });
+    }
+  }
+
+  private getHolder(target: ThreatEntity): ThreatHolder | null {
+    if (!target || !target.components) return null;
+    return (target.components.get("threat") as ThreatHolder) || null;
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    eventBus.off("damage.dealt", this.handleDamageDealt);
+    eventBus.off("character.healed", this.handleCharacterHealed);
+  }
+}
+
+// Create and export singleton instance
+export const threatSystem = new ThreatSystemService();
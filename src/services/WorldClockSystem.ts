@@ -0,0 +1,175 @@
+// src/services/WorldClockSystem.ts
+import { eventBus } from "../utils/EventBus";
+import { OpeningHours, TimeOfDay, WorldTime } from "@/types";
+
+/**
+ * Day/night tuning, hours are in-game hours
+ */
+export const WORLD_TIME = {
+  // Real milliseconds per in-game day
+  DAY_LENGTH: 24 * 60 * 1000,
+  START_HOUR: 8,
+  // Night lasts from dusk until dawn
+  DAWN_HOUR: 6,
+  DUSK_HOUR: 20,
+  // Hours the light takes to fade in or out around dawn and dusk
+  TRANSITION_HOURS: 1,
+  // Darkness at midnight, 1 would be pitch black
+  NIGHT_DARKNESS: 0.75,
+  // Longest frame gap counted, so a backgrounded tab doesn't skip hours
+  MAX_FRAME_GAP: 1000,
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+class WorldClockService {
+  private dayLength: number = WORLD_TIME.DAY_LENGTH;
+  private totalMinutes: number = WORLD_TIME.START_HOUR * 60; // Since day 1, 00:00
+  private lastUpdateTime: number | null = null;
+  private lastEmittedMinute: number = -1;
+  private lastTimeOfDay: TimeOfDay = this.getTimeOfDay();
+
+  /**
+   * Advance the clock - called each frame with the scene time
+   */
+  update(time: number): void {
+    try {
+      const elapsed =
+        this.lastUpdateTime === null
+          ? 0
+          : Math.min(time - this.lastUpdateTime, WORLD_TIME.MAX_FRAME_GAP);
+      this.lastUpdateTime = time;
+
+      this.totalMinutes += (elapsed / this.dayLength) * MINUTES_PER_DAY;
+
+      if (Math.floor(this.totalMinutes) !== this.lastEmittedMinute) {
+        this.emitTimeChanged();
+      }
+    } catch (error) {
+      console.error("Error in WorldClockSystem update:", error);
+      eventBus.emit("error.worldClock.update", { error });
+    }
+  }
+
+  getTime(): WorldTime {
+    const minuteOfDay = Math.floor(this.totalMinutes) % MINUTES_PER_DAY;
+
+    return {
+      day: Math.floor(this.totalMinutes / MINUTES_PER_DAY) + 1,
+      hour: Math.floor(minuteOfDay / 60),
+      minute: minuteOfDay % 60,
+      timeOfDay: this.getTimeOfDay(),
+      darkness: this.getDarkness(),
+    };
+  }
+
+  /**
+   * Whole in-game minutes since day 1, 00:00, for timers that span days
+   */
+  getTotalMinutes(): number {
+    return Math.floor(this.totalMinutes);
+  }
+
+  getTimeOfDay(): TimeOfDay {
+    const hour = this.getHourOfDay();
+    return hour >= WORLD_TIME.DUSK_HOUR || hour < WORLD_TIME.DAWN_HOUR ? "night" : "day";
+  }
+
+  isNight(): boolean {
+    return this.getTimeOfDay() === "night";
+  }
+
+  /**
+   * How dark the world is right now, fading in after dusk and out after dawn
+   */
+  getDarkness(): number {
+    const { DAWN_HOUR, DUSK_HOUR, TRANSITION_HOURS, NIGHT_DARKNESS } = WORLD_TIME;
+    const hour = this.getHourOfDay();
+
+    if (hour >= DAWN_HOUR && hour < DAWN_HOUR + TRANSITION_HOURS) {
+      return NIGHT_DARKNESS * (1 - (hour - DAWN_HOUR) / TRANSITION_HOURS);
+    }
+    if (hour >= DAWN_HOUR + TRANSITION_HOURS && hour < DUSK_HOUR) {
+      return 0;
+    }
+    if (hour >= DUSK_HOUR && hour < DUSK_HOUR + TRANSITION_HOURS) {
+      return NIGHT_DARKNESS * ((hour - DUSK_HOUR) / TRANSITION_HOURS);
+    }
+    return NIGHT_DARKNESS;
+  }
+
+  /**
+   * Whether the clock is inside a daily window such as a shop's opening hours
+   */
+  isWithinHours(hours: OpeningHours): boolean {
+    const hour = this.getHourOfDay();
+
+    if (hours.open <= hours.close) {
+      return hour >= hours.open && hour < hours.close;
+    }
+    return hour >= hours.open || hour < hours.close;
+  }
+
+  /**
+   * Format an hour of the day, or the current time, as "HH:MM"
+   */
+  formatTime(hour?: number, minute: number = 0): string {
+    const time = this.getTime();
+    const h = hour ?? time.hour;
+    const m = hour === undefined ? time.minute : minute;
+    return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+  }
+
+  /**
+   * Jump to a time of the current day (for debugging and scripted events)
+   */
+  setTime(hour: number, minute: number = 0): void {
+    const day = Math.floor(this.totalMinutes / MINUTES_PER_DAY);
+    this.totalMinutes = day * MINUTES_PER_DAY + (hour % 24) * 60 + minute;
+    this.emitTimeChanged();
+  }
+
+  /**
+   * Restore the clock from a save, without announcing the time of day it lands on
+   */
+  setTotalMinutes(minutes: number): void {
+    if (!Number.isFinite(minutes) || minutes < 0) return;
+    this.totalMinutes = minutes;
+    this.lastTimeOfDay = this.getTimeOfDay();
+    this.emitTimeChanged();
+  }
+
+  /**
+   * Change how many real milliseconds an in-game day lasts
+   */
+  setDayLength(milliseconds: number): void {
+    if (milliseconds <= 0) return;
+    this.dayLength = milliseconds;
+  }
+
+  getDayLength(): number {
+    return this.dayLength;
+  }
+
+  private getHourOfDay(): number {
+    return (this.totalMinutes % MINUTES_PER_DAY) / 60;
+  }
+
+  private emitTimeChanged(): void {
+    const worldTime = this.getTime();
+    this.lastEmittedMinute = Math.floor(this.totalMinutes);
+
+    eventBus.emit("world.time.changed", worldTime);
+
+    if (worldTime.timeOfDay !== this.lastTimeOfDay) {
+      this.lastTimeOfDay = worldTime.timeOfDay;
+      eventBus.emit(
+        "ui.message.show",
+        worldTime.timeOfDay === "night" ? "Night falls." : "The sun rises."
+      );
+    }
+  }
+}
+
+// Create and export singleton instance
+export const worldClock = new WorldClockService();
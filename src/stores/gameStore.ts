@@ -6,6 +6,12 @@ import {
   ItemBonusStats,
   SetCollectionData,
   Quest,
+  QuestState,
+  SaveGameData,
+  RespawnPoint,
+  CorpseData,
+  BestiaryState,
+  EncumbranceLevel,
 } from "../types";
 
 import { ItemInstanceManager } from "../utils/ItemInstanceManager";
@@ -15,7 +21,16 @@ import {
   SKILL_PROGRESSION,
   calculatePointsForNextLevel,
   calculateLevelFromExperience,
+  calculateManaBonusForLevel,
+  calculateMaxHealthForLevel,
 } from "@/utils/SkillProgressionFormula";
+import {
+  CARRY_WEIGHT,
+  calculateCapacityBonusForLevel,
+  calculateCarriedWeight,
+  getEncumbranceLevel,
+  getEncumbranceSpeedMultiplier,
+} from "@/utils/CarryWeight";
 
 // SIMPLIFIED: Calculate stats interface with single move speed
 export interface CalculatedStats {
@@ -28,7 +43,8 @@ export interface CalculatedStats {
   totalAttackSpeed: number;
   totalHealthRegen: number;
   totalManaRegen: number;
-  totalCapacity: number;
+  totalCapacity: number; // Carry weight limit
+  encumbrance: EncumbranceLevel;
 
   // Equipment bonuses only
   equipmentBonuses: {
@@ -51,6 +67,7 @@ export interface GameState {
   playerCharacter: {
     health: number;
     maxHealth: number;
+    mana: number;
     lastAttackTime: number;
     experience: number;
     equipment: PlayerCharacterEquipment;
@@ -86,6 +103,13 @@ export interface GameState {
   // Map state
   currentMap: string;
 
+  // Death state
+  respawnPoint: RespawnPoint | null;
+  corpses: CorpseData[];
+
+  // Bestiary state
+  bestiary: BestiaryState;
+
   // System references
   systems?: Record<string, any>;
 
@@ -94,19 +118,24 @@ export interface GameState {
   updatePlayerMap: (mapKey: string) => void;
   updatePlayerHealth: (health: number) => void;
   updatePlayerMaxHealth: (maxHealth: number) => void;
+  updatePlayerMana: (mana: number) => void;
   updatePlayerExperience: (experience: number) => void;
   updatePlayerLevel: (level: number) => void;
   setPlayerCharacterEquipment: (equipment: PlayerCharacterEquipment, source?: string) => void;
   setInputFocused: (focused: boolean) => void;
   updateSetCollections: (collections: SetCollectionData) => void;
+  updateQuests: (quests: QuestState) => void;
+  updateRespawnPoint: (respawnPoint: RespawnPoint | null) => void;
+  updateCorpses: (corpses: CorpseData[]) => void;
+  updateBestiary: (bestiary: BestiaryState) => void;
   updateSkill: (skillId: string, newExperience: number) => void;
   getItemInstanceById: (instanceId: string) => ItemInstance | undefined;
-  addItemInstanceToInventory: (itemInstance: ItemInstance) => boolean;
+  addItemInstanceToInventory: (itemInstance: ItemInstance, checkWeight?: boolean) => boolean;
   removeItemInstanceFromInventory: (instanceId: string, quantity?: number) => boolean;
   updatePlayerGold: (amount: number) => void;
   updatePlayerMaxCapacity: (amount: number) => void;
-  updatePlayerCurrentCapacity: (amount: number) => void;
   recalculateStats: () => void;
+  hydrateFromSave: (data: SaveGameData) => void;
 }
 
 // Helper functions for calculating stats
@@ -185,10 +214,12 @@ const calculateTotalStats = (playerCharacter: any, equipmentBonuses: any): Calcu
 
   // Base values from skills and player stats
   const baseHealth = playerCharacter.maxHealth;
-  const baseMana = (skills.mana?.level || 10) * 10;
+  const baseMana =
+    (skills.mana?.level || 10) * 10 + calculateManaBonusForLevel(skills.playerLevel?.level || 1);
   const basePower = 0;
   const baseArmor = 0;
-  const baseCapacity = playerCharacter.maxCapacity;
+  const baseCapacity =
+    playerCharacter.maxCapacity + calculateCapacityBonusForLevel(skills.capacity?.level || 1);
   const baseHealthRegen = skills.healthRegen?.level || 1;
   const baseManaRegen = skills.manaRegen?.level || 1;
   const baseAttackSpeed = skills.attackSpeed?.level || 1;
@@ -197,7 +228,17 @@ const calculateTotalStats = (playerCharacter: any, equipmentBonuses: any): Calcu
   const baseMoveSpeed = 250; // Base player move speed
   const moveSpeedSkillLevel = skills.moveSpeed?.level || 1;
   const skillBonus = moveSpeedSkillLevel - 1; // Each level above 1 adds +1
-  const totalMoveSpeed = Math.max(50, baseMoveSpeed + skillBonus + equipmentBonuses.moveSpeed);
+  const totalCapacity = baseCapacity + equipmentBonuses.capacity;
+
+  // Carrying too much slows the player down
+  const encumbrance = getEncumbranceLevel(playerCharacter.currentCapacity, totalCapacity);
+  const totalMoveSpeed = Math.max(
+    50,
+    Math.round(
+      (baseMoveSpeed + skillBonus + equipmentBonuses.moveSpeed) *
+        getEncumbranceSpeedMultiplier(encumbrance)
+    )
+  );
 
   return {
     totalHealth: baseHealth + equipmentBonuses.health,
@@ -208,11 +249,39 @@ const calculateTotalStats = (playerCharacter: any, equipmentBonuses: any): Calcu
     totalAttackSpeed: baseAttackSpeed + equipmentBonuses.attackSpeed,
     totalHealthRegen: baseHealthRegen + equipmentBonuses.healthRegen,
     totalManaRegen: baseManaRegen + equipmentBonuses.manaRegen,
-    totalCapacity: baseCapacity + equipmentBonuses.capacity,
+    totalCapacity,
+    encumbrance,
     equipmentBonuses,
   };
 };
 
+// Mana can't stay above a maximum that dropped (unequipping a mana item)
+const clampMana = (mana: number, calculatedStats: CalculatedStats): number =>
+  Math.max(0, Math.min(mana, calculatedStats.totalMana));
+
+// Carried weight is derived from inventory and equipment, never set directly
+const withCarriedWeight = (
+  playerCharacter: GameState["playerCharacter"]
+): GameState["playerCharacter"] => ({
+  ...playerCharacter,
+  currentCapacity: calculateCarriedWeight(playerCharacter.inventory, playerCharacter.equipment),
+});
+
+// Inventory changes move the carried weight, which can change the encumbrance and move speed
+const applyInventoryChange = (state: GameState, inventory: ItemInstance[]) => {
+  const playerCharacter = withCarriedWeight({ ...state.playerCharacter, inventory });
+  const equipmentBonuses = calculateEquipmentBonuses(playerCharacter.equipment);
+  const calculatedStats = calculateTotalStats(playerCharacter, equipmentBonuses);
+
+  if (calculatedStats.encumbrance !== state.calculatedStats.encumbrance) {
+    eventBus.emit("player.encumbrance.changed", calculatedStats.encumbrance);
+    eventBus.emit("player.stats.updated", calculatedStats);
+    eventBus.emit("player.moveSpeed.updated", calculatedStats.totalMoveSpeed);
+  }
+
+  return { playerCharacter, calculatedStats };
+};
+
 // SIMPLIFIED: Initial calculated stats with base 250 move speed
 const initialCalculatedStats: CalculatedStats = {
   totalHealth: 100,
@@ -223,7 +292,8 @@ const initialCalculatedStats: CalculatedStats = {
   totalAttackSpeed: 1,
   totalHealthRegen: 1,
   totalManaRegen: 1,
-  totalCapacity: 40,
+  totalCapacity: CARRY_WEIGHT.BASE_CAPACITY,
+  encumbrance: "normal",
   equipmentBonuses: {
     health: 0,
     mana: 0,
@@ -243,6 +313,7 @@ const initialState = {
   playerCharacter: {
     health: 100,
     maxHealth: 100,
+    mana: 100,
     lastAttackTime: 0,
     experience: 0,
     equipment: {
@@ -294,8 +365,8 @@ const initialState = {
       mana: { level: 10, experience: 0, maxExperience: 15 },
     },
     gold: 100,
-    maxCapacity: 40,
-    currentCapacity: 10,
+    maxCapacity: CARRY_WEIGHT.BASE_CAPACITY,
+    currentCapacity: 0,
   },
   calculatedStats: initialCalculatedStats,
   quests: {
@@ -305,9 +376,18 @@ const initialState = {
   inputFocused: false,
   setCollections: {},
   currentMap: "game-map",
+  respawnPoint: null,
+  corpses: [],
+  bestiary: { kills: {} },
   systems: {},
 };
 
+// Starting items count towards the carried weight
+initialState.playerCharacter.currentCapacity = calculateCarriedWeight(
+  initialState.playerCharacter.inventory,
+  initialState.playerCharacter.equipment
+);
+
 // Create the store
 export const useGameStore = create<GameState>()(
   subscribeWithSelector((set, get) => ({
@@ -350,6 +430,19 @@ export const useGameStore = create<GameState>()(
       eventBus.emit("playerCharacter.maxHealth.changed", maxHealth);
     },
 
+    // Player mana, capped by the calculated maximum
+    updatePlayerMana: (mana) => {
+      const clampedMana = clampMana(mana, get().calculatedStats);
+
+      set((state) => ({
+        playerCharacter: {
+          ...state.playerCharacter,
+          mana: clampedMana,
+        },
+      }));
+      eventBus.emit("playerCharacter.mana.changed", clampedMana);
+    },
+
     // Experience and level
     updatePlayerExperience: (experience) => {
       set((state) => ({
@@ -386,7 +479,10 @@ export const useGameStore = create<GameState>()(
         eventBus.emit("player.stats.updated", calculatedStats);
 
         return {
-          ...newState,
+          playerCharacter: {
+            ...newState.playerCharacter,
+            mana: clampMana(newState.playerCharacter.mana, calculatedStats),
+          },
           calculatedStats,
         };
       });
@@ -396,10 +492,10 @@ export const useGameStore = create<GameState>()(
     setPlayerCharacterEquipment: (equipment, source = "system") => {
       set((state) => {
         const newState = {
-          playerCharacter: {
+          playerCharacter: withCarriedWeight({
             ...state.playerCharacter,
             equipment,
-          },
+          }),
         };
 
         // Recalculate stats after equipment change
@@ -408,11 +504,17 @@ export const useGameStore = create<GameState>()(
 
         eventBus.emit("equipment.changed", { equipment, source });
         eventBus.emit("player.stats.updated", calculatedStats);
+        if (calculatedStats.encumbrance !== state.calculatedStats.encumbrance) {
+          eventBus.emit("player.encumbrance.changed", calculatedStats.encumbrance);
+        }
         // SIMPLIFIED: Single move speed event
         eventBus.emit("player.moveSpeed.updated", calculatedStats.totalMoveSpeed);
 
         return {
-          ...newState,
+          playerCharacter: {
+            ...newState.playerCharacter,
+            mana: clampMana(newState.playerCharacter.mana, calculatedStats),
+          },
           calculatedStats,
         };
       });
@@ -430,6 +532,29 @@ export const useGameStore = create<GameState>()(
       eventBus.emit("setCollections.updated", setCollections);
     },
 
+    // Quests
+    updateQuests: (quests) => {
+      set({ quests });
+      eventBus.emit("quests.updated", quests);
+    },
+
+    // Death
+    updateRespawnPoint: (respawnPoint) => {
+      set({ respawnPoint });
+      eventBus.emit("player.respawnPoint.changed", respawnPoint);
+    },
+
+    updateCorpses: (corpses) => {
+      set({ corpses });
+      eventBus.emit("corpses.updated", corpses);
+    },
+
+    // Bestiary
+    updateBestiary: (bestiary) => {
+      set({ bestiary });
+      eventBus.emit("bestiary.updated", bestiary);
+    },
+
     // Skills
     updateSkill: (skillId, newExperience) => {
       set((state) => {
@@ -450,31 +575,35 @@ export const useGameStore = create<GameState>()(
         const skill = skills[skillId];
         const oldLevel = skill.level;
 
-        if (skillId === "playerLevel") {
-          skill.experience = newExperience;
-          skill.maxExperience = calculatePointsForNextLevel(skillId, skill.level);
-        } else {
-          let totalExp = 0;
-          for (let level = 1; level < skill.level; level++) {
-            totalExp += calculatePointsForNextLevel(skillId, level);
-          }
-          totalExp += skill.experience;
-
-          const newTotalExp = totalExp + (newExperience - skill.experience);
-          const { level, currentExp, expForNextLevel } = calculateLevelFromExperience(
-            skillId,
-            newTotalExp
-          );
-
-          skill.level = level;
-          skill.experience = currentExp;
-          skill.maxExperience = expForNextLevel;
+        let totalExp = 0;
+        for (let level = 1; level < skill.level; level++) {
+          totalExp += calculatePointsForNextLevel(skillId, level);
         }
+        totalExp += skill.experience;
+
+        const newTotalExp = totalExp + (newExperience - skill.experience);
+        const { level, currentExp, expForNextLevel } = calculateLevelFromExperience(
+          skillId,
+          newTotalExp
+        );
+
+        skills[skillId] = {
+          level,
+          experience: currentExp,
+          maxExperience: expForNextLevel,
+        };
+
+        // Player levels grow max health, mana grows through calculateTotalStats
+        const playerLevelChanged = skillId === "playerLevel" && level !== oldLevel;
+        const maxHealth = playerLevelChanged
+          ? calculateMaxHealthForLevel(level)
+          : state.playerCharacter.maxHealth;
 
         const newState = {
           playerCharacter: {
             ...state.playerCharacter,
             skills,
+            maxHealth,
           },
         };
 
@@ -484,20 +613,24 @@ export const useGameStore = create<GameState>()(
 
         eventBus.emit("playerCharacter.skill.updated", {
           skillId,
-          level: skill.level,
-          experience: skill.experience,
-          maxExperience: skill.maxExperience,
-          leveledUp: skill.level > oldLevel,
+          level,
+          experience: currentExp,
+          maxExperience: expForNextLevel,
+          leveledUp: level > oldLevel,
         });
 
-        if (skillId === "playerLevel" && skill.level !== oldLevel) {
-          eventBus.emit("playerCharacter.level.changed", skill.level);
+        if (playerLevelChanged) {
+          eventBus.emit("playerCharacter.maxHealth.changed", maxHealth);
+          eventBus.emit("playerCharacter.level.changed", level);
         }
 
         eventBus.emit("player.stats.updated", calculatedStats);
 
         return {
-          ...newState,
+          playerCharacter: {
+            ...newState.playerCharacter,
+            mana: clampMana(newState.playerCharacter.mana, calculatedStats),
+          },
           calculatedStats,
         };
       });
@@ -522,10 +655,20 @@ export const useGameStore = create<GameState>()(
       return undefined;
     },
 
-    addItemInstanceToInventory: (itemInstance) => {
+    // checkWeight is off for moves between equipment and inventory, which keep the weight
+    addItemInstanceToInventory: (itemInstance, checkWeight = true) => {
       const state = get();
       const itemData = ItemDictionary.getItem(itemInstance.templateId);
 
+      const weight = ItemInstanceManager.getTotalWeight(itemInstance);
+      if (
+        checkWeight &&
+        state.playerCharacter.currentCapacity + weight > state.calculatedStats.totalCapacity
+      ) {
+        eventBus.emit("inventory.overweight", { itemInstance, weight });
+        return false;
+      }
+
       if (itemData?.stackable) {
         const existingItemIndex = state.playerCharacter.inventory.findIndex(
           (item) => item.templateId === itemInstance.templateId
@@ -542,12 +685,7 @@ export const useGameStore = create<GameState>()(
             quantity: currentQuantity + addingQuantity,
           };
 
-          set((state) => ({
-            playerCharacter: {
-              ...state.playerCharacter,
-              inventory: newInventory,
-            },
-          }));
+          set((state) => applyInventoryChange(state, newInventory));
 
           eventBus.emit("inventory.updated", null);
           return true;
@@ -559,18 +697,16 @@ export const useGameStore = create<GameState>()(
         quantity: itemInstance.quantity || 1,
       };
 
-      set((state) => ({
-        playerCharacter: {
-          ...state.playerCharacter,
-          inventory: [...state.playerCharacter.inventory, newItem],
-        },
-      }));
+      set((state) => applyInventoryChange(state, [...state.playerCharacter.inventory, newItem]));
 
       eventBus.emit("inventory.updated", null);
       return true;
     },
 
     removeItemInstanceFromInventory: (instanceId, quantity = 1) => {
+      // A non-positive quantity would grow the stack instead
+      if (!(quantity > 0)) return false;
+
       const state = get();
       const inventory = [...state.playerCharacter.inventory];
       const itemIndex = inventory.findIndex((item) => item.instanceId === instanceId);
@@ -589,12 +725,7 @@ export const useGameStore = create<GameState>()(
         };
       }
 
-      set((state) => ({
-        playerCharacter: {
-          ...state.playerCharacter,
-          inventory,
-        },
-      }));
+      set((state) => applyInventoryChange(state, inventory));
 
       eventBus.emit("inventory.updated", null);
       return true;
@@ -626,15 +757,7 @@ export const useGameStore = create<GameState>()(
           maxCapacity: Math.max(0, state.playerCharacter.maxCapacity + amount),
         },
       }));
-    },
-
-    updatePlayerCurrentCapacity: (amount) => {
-      set((state) => ({
-        playerCharacter: {
-          ...state.playerCharacter,
-          currentCapacity: Math.max(0, state.playerCharacter.currentCapacity + amount),
-        },
-      }));
+      get().recalculateStats();
     },
 
     // SIMPLIFIED: Recalculate stats manually with simplified move speed events
@@ -648,9 +771,56 @@ export const useGameStore = create<GameState>()(
         eventBus.emit("player.moveSpeed.updated", calculatedStats.totalMoveSpeed);
 
         return {
+          playerCharacter: {
+            ...state.playerCharacter,
+            mana: clampMana(state.playerCharacter.mana, calculatedStats),
+          },
           calculatedStats,
         };
       });
     },
+
+    // Save games - replace persisted state and rebuild derived stats
+    hydrateFromSave: (data) => {
+      const saved = data.playerCharacter;
+      const health = saved.health > 0 ? Math.min(saved.health, saved.maxHealth) : saved.maxHealth;
+
+      set((state) => ({
+        playerCharacter: {
+          ...state.playerCharacter,
+          health,
+          maxHealth: saved.maxHealth,
+          mana: saved.mana,
+          experience: saved.experience,
+          equipment: saved.equipment,
+          inventory: saved.inventory,
+          skills: saved.skills,
+          gold: saved.gold,
+          maxCapacity: saved.maxCapacity,
+          currentCapacity: calculateCarriedWeight(saved.inventory, saved.equipment),
+          lastAttackTime: 0,
+          teleportPosition: undefined,
+        },
+        quests: data.quests,
+        setCollections: data.setCollections,
+        currentMap: data.currentMap,
+        respawnPoint: data.respawnPoint,
+        corpses: data.corpses,
+        bestiary: data.bestiary,
+      }));
+
+      get().recalculateStats();
+
+      eventBus.emit("playerCharacter.maxHealth.changed", saved.maxHealth);
+      eventBus.emit("playerCharacter.health.changed", health);
+      eventBus.emit("playerCharacter.mana.changed", get().playerCharacter.mana);
+      eventBus.emit("playerCharacter.gold.changed", saved.gold);
+      eventBus.emit("equipment.changed", { equipment: saved.equipment, source: "save" });
+      eventBus.emit("setCollections.updated", data.setCollections);
+      eventBus.emit("quests.updated", data.quests);
+      eventBus.emit("corpses.updated", data.corpses);
+      eventBus.emit("bestiary.updated", data.bestiary);
+      eventBus.emit("inventory.updated", null);
+    },
   }))
 );
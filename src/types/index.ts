@@ -49,6 +49,18 @@ export enum ItemCategory {
   QUEST = "quest",
 }
 
+/**
+ * Item rarity tiers, from least to most valuable. Decides how many affixes an
+ * item rolls, see data/item-affixes.ts
+ */
+export enum ItemRarity {
+  COMMON = "common",
+  UNCOMMON = "uncommon",
+  RARE = "rare",
+  EPIC = "epic",
+  LEGENDARY = "legendary",
+}
+
 // Sets
 
 export enum ItemSets {
@@ -97,6 +109,47 @@ export interface ItemBonusStats {
   manaRegen?: number;
   capacity?: number;
   regen?: number;
+  attackSpeed?: number;
+}
+
+/**
+ * Effects an item applies when consumed
+ */
+export enum ConsumableEffectType {
+  HEAL = "heal", // Restore `amount` health at once
+  MANA = "mana", // Restore `amount` mana at once
+  REGEN = "regen", // Heal `amount` per tick for `duration`
+  FED = "fed", // Well fed for `duration`, healing `amount` per tick
+}
+
+export interface ConsumableEffect {
+  type: ConsumableEffectType;
+  amount: number;
+  duration?: number; // milliseconds, regen and fed
+}
+
+/**
+ * How a rarity tier rolls and looks
+ */
+export interface RarityTier {
+  name: string;
+  affixCount: number; // Affixes rolled, capped by the size of the item's pool
+  weight: number; // Relative chance of rolling this tier
+  valueMultiplier: number; // Scales every affix value rolled at this tier
+  color: string; // Name colour in tooltips
+  glowColor: number; // Glow and sparkles of world drops
+}
+
+/**
+ * One stat an item can roll. Values are rolled between min and max at item
+ * level 1 and grow with the item level
+ */
+export interface ItemAffix {
+  stat: keyof ItemBonusStats;
+  min: number;
+  max: number;
+  weight: number; // Relative chance of being picked from the pool
+  minRarity?: ItemRarity; // Only rolls on items of this rarity or better
 }
 
 export interface ItemInstance {
@@ -104,6 +157,8 @@ export interface ItemInstance {
   instanceId: string; // Unique ID for this specific item
   bonusStats?: ItemBonusStats; // Optional random bonus stats
   quantity?: number; // For stackable items
+  rarity?: ItemRarity; // Rolled rarity, falls back to the template rarity
+  itemLevel?: number; // Level the affixes were rolled at
 }
 
 export interface ItemData {
@@ -120,7 +175,7 @@ export interface ItemData {
   description?: string;
   texture?: string;
   icon?: string;
-  rarity?: string;
+  rarity?: ItemRarity; // Lowest rarity a rolled instance can have
 
   // Set properties
   set?: ItemSets;
@@ -147,6 +202,9 @@ export interface ItemData {
   mana?: number;
   moveSpeed?: number;
 
+  // Consumable properties
+  consumeEffects?: ConsumableEffect[];
+
   // Physical properties
   weight: number;
 }
@@ -187,6 +245,47 @@ export enum MonsterAttackType {
   Magic = "magic",
 }
 
+/**
+ * Elite and champion spawns are stronger rolls of a monster template
+ */
+export enum MonsterRank {
+  NORMAL = "normal",
+  ELITE = "elite",
+  CHAMPION = "champion",
+}
+
+export enum MonsterAffix {
+  FAST = "fast",
+  ARMORED = "armored",
+  VAMPIRIC = "vampiric",
+  EXPLOSIVE = "explosive",
+  EXTRA_LOOT = "extraLoot",
+}
+
+export interface MonsterVariant {
+  rank: MonsterRank;
+  affixes: MonsterAffix[];
+}
+
+/**
+ * One stage of a boss fight, entered once the boss's health drops to healthPercent.
+ * Fields left out keep the values of the previous phase.
+ */
+export interface BossPhase {
+  healthPercent: number;
+  name: string;
+  message?: string; // Announced when the phase starts
+  abilities?: string[]; // Replaces the boss's ability set
+  speed?: number;
+  attackType?: MonsterAttackType;
+  adds?: { monsterType: string; count: number }[]; // Monsters summoned when the phase starts
+}
+
+export interface BossData {
+  phases: BossPhase[]; // Ordered from the opening phase (100%) down
+  lootTable?: string; // Boss loot table, replaces the regular drops
+}
+
 export interface MonsterData {
   id: string;
   name: string;
@@ -207,6 +306,35 @@ export interface MonsterData {
   spriteSize?: 32 | 64;
   scale?: number;
   color?: number;
+  boss?: BossData; // Phases and loot for boss monsters
+  activeTime?: TimeOfDay; // Only seeks out targets at this time, otherwise waits to be attacked
+}
+
+/**
+ * What a bestiary entry reveals once its milestone is reached
+ */
+export enum BestiaryUnlock {
+  STATS = "stats",
+  LOOT = "loot",
+  DROP_CHANCES = "dropChances",
+}
+
+/**
+ * Kill count milestone of a bestiary entry. Bonuses apply against the monster's
+ * whole category and add up across its members.
+ */
+export interface ProgressMilestone {
+  kills: number;
+  unlocks?: BestiaryUnlock;
+  bonusDamage?: number; // Percent more damage dealt
+  damageReduction?: number; // Percent less damage taken
+}
+
+/**
+ * Persisted bestiary progress
+ */
+export interface BestiaryState {
+  kills: Record<string, number>; // Keyed by monster id
 }
 
 /**
@@ -220,6 +348,15 @@ export interface MonsterDeathEvent {
   experience: number;
 }
 
+export interface PlayerLevelUpEvent {
+  level: number;
+  previousLevel: number;
+  maxHealth: number;
+  maxMana: number;
+  healthGained: number;
+  manaGained: number;
+}
+
 // ======================================================
 // Character & Equipment Types
 // ======================================================
@@ -281,32 +418,104 @@ export interface PlayerCharacterSkills {
 export interface PlayerCharacterState {
   health: number;
   maxHealth: number;
+  mana: number;
   lastAttackTime: number;
   experience: number;
   equipment: PlayerCharacterEquipment;
   inventory: ItemInstance[];
   skills: PlayerCharacterSkills;
   gold: number;
-  maxCapacity: number;
-  currentCapacity: number;
+  maxCapacity: number; // Base carry weight, before skill and equipment bonuses
+  currentCapacity: number; // Weight of everything carried and worn
   teleportPosition?: { x: number; y: number };
 }
 
+/**
+ * How weighed down the player is by what they carry
+ */
+export type EncumbranceLevel = "normal" | "encumbered" | "overloaded";
+
 // ======================================================
 // Quest Types
 // ======================================================
 
 /**
- * Quest objective data
+ * Quest categories shown as tabs in the quest log
+ */
+export enum QuestCategory {
+  MAIN = "main",
+  SIDE = "side",
+  RIDDLE = "riddle",
+}
+
+/**
+ * Kinds of objectives a quest can declare
+ */
+export enum QuestObjectiveType {
+  KILL = "kill", // Kill N monsters of a monster id
+  COLLECT = "collect", // Hold N of the listed item ids in the inventory
+  TALK = "talk", // Talk to an NPC
+  REACH = "reach", // Reach a map, optionally a specific tile on it
+  DELIVER = "deliver", // Hand N of the listed item ids to an NPC
+}
+
+/**
+ * Static objective definition declared by a quest
+ */
+export interface QuestObjectiveDefinition {
+  id: string;
+  type: QuestObjectiveType;
+  description: string;
+  amount?: number; // Defaults to 1
+  monsterId?: string; // kill
+  itemIds?: string[]; // collect, deliver
+  npcId?: string; // talk, deliver
+  mapKey?: string; // reach
+  tile?: { x: number; y: number }; // reach, in Tiled coordinates
+  radius?: number; // reach, in tiles around `tile`
+}
+
+/**
+ * Rewards granted when a quest is completed
+ */
+export interface QuestReward {
+  gold?: number;
+  experience?: number;
+  items?: Array<{ itemId: string; quantity?: number }>;
+  questPoints?: number;
+}
+
+/**
+ * Static quest definition
+ */
+export interface QuestDefinition {
+  id: string;
+  title: string;
+  description: string;
+  category: QuestCategory;
+  objectives: QuestObjectiveDefinition[];
+  rewards: QuestReward;
+  img?: string;
+  prerequisites?: string[]; // Quest ids that must be completed first
+  giverNpcId?: string; // Talking to this NPC starts the quest
+  autoStart?: boolean; // Starts as soon as prerequisites are met
+  sequential?: boolean; // Objectives must be completed in order
+  repeatable?: boolean;
+}
+
+/**
+ * Quest objective progress
  */
 export interface QuestObjective {
   id: string;
   description: string;
   completed: boolean;
+  progress: number;
+  required: number;
 }
 
 /**
- * Quest data structure
+ * Quest progress stored in game state
  */
 export interface Quest {
   id: string;
@@ -314,6 +523,9 @@ export interface Quest {
   description: string;
   objectives: QuestObjective[];
   completed: boolean;
+  startedAt?: number;
+  completedAt?: number;
+  timesCompleted?: number;
 }
 
 /**
@@ -324,6 +536,94 @@ export interface QuestState {
   completed: Quest[];
 }
 
+// ======================================================
+// Dialog Types
+// ======================================================
+
+/**
+ * Checks a dialog entry or option can make against game state
+ */
+export enum DialogConditionType {
+  QUEST = "quest", // Quest (or one of its objectives) is in `questState`
+  ITEM = "item", // Player holds `quantity` of `itemId`
+  SKILL = "skill", // Skill `skillId` is at least `level`
+  GOLD = "gold", // Player has at least `amount` gold
+}
+
+/**
+ * Quest states a condition can test for
+ * - with an objectiveId, "active" means the objective is the one being worked on
+ */
+export type DialogQuestState = "available" | "active" | "completed";
+
+export interface DialogCondition {
+  type: DialogConditionType;
+  negate?: boolean; // Passes when the check fails
+  questId?: string; // quest
+  objectiveId?: string; // quest
+  questState?: DialogQuestState; // quest
+  itemId?: string; // item
+  quantity?: number; // item, defaults to 1
+  skillId?: string; // skill
+  level?: number; // skill
+  amount?: number; // gold
+}
+
+/**
+ * Effects a dialog node or option can have when reached or chosen
+ */
+export enum DialogActionType {
+  START_QUEST = "startQuest",
+  COMPLETE_OBJECTIVE = "completeObjective", // Talk and deliver objectives
+  COMPLETE_QUEST = "completeQuest",
+  GIVE_ITEM = "giveItem",
+  TAKE_ITEM = "takeItem",
+  OPEN_SHOP = "openShop", // Ends the conversation
+  TELEPORT = "teleport", // Ends the conversation
+}
+
+export interface DialogAction {
+  type: DialogActionType;
+  questId?: string; // startQuest, completeObjective, completeQuest
+  objectiveId?: string; // completeObjective
+  itemId?: string; // giveItem, takeItem
+  quantity?: number; // giveItem, takeItem, defaults to 1
+  npcId?: string; // openShop, defaults to the speaking NPC
+  mapKey?: string; // teleport
+  tile?: { x: number; y: number }; // teleport, in Tiled coordinates, defaults to the map spawn
+}
+
+/**
+ * A player reply; options whose conditions fail are hidden
+ */
+export interface DialogOption {
+  text: string;
+  next?: string; // Node to continue with, ends the conversation when omitted
+  conditions?: DialogCondition[];
+  actions?: DialogAction[];
+}
+
+/**
+ * A single NPC line; nodes without options continue to `next` on Space
+ */
+export interface DialogNode {
+  id: string;
+  text: string;
+  options?: DialogOption[];
+  next?: string;
+  actions?: DialogAction[]; // Run when the node is shown
+}
+
+/**
+ * Dialog graph for an NPC
+ * - the first entry whose conditions pass picks the opening node, otherwise `start` is used
+ */
+export interface DialogTree {
+  start: string;
+  entries?: Array<{ node: string; conditions: DialogCondition[] }>;
+  nodes: Record<string, DialogNode>;
+}
+
 // ======================================================
 // Ability & Combat Types
 // ======================================================
@@ -338,6 +638,7 @@ export interface Ability {
   description: string;
   icon: string;
   cooldown: number;
+  manaCost?: number; // Mana spent by the player per cast
   damage: number;
   weaponType: string;
   requiredWeapon: string;
@@ -350,14 +651,20 @@ export interface Ability {
   animationType: string;
   // Optional animation config
   animationConfig?: Record<string, any>;
+  // Optional status effect applied to targets hit by the ability
+  statusEffect?: AbilityStatusEffect;
+  // Forces monsters hit by the ability onto the caster (see ThreatSystem)
+  taunt?: boolean;
 }
 
 export interface DamageEvent {
-  source: string; // 'autoAttack' or 'ability'
+  source: string; // 'autoAttack', 'ability', or 'hit' when a monster reports a hit it took
   abilityId?: string; // Only present for ability damage
-  weaponType: string; // 'melee', 'archery', or 'magic'
+  weaponType: string; // 'melee', 'archery', or 'magic', empty for hits
   targetType: string; // 'monster'
   targetId: string; // monster type
+  targetEntityId?: string; // Only present for hits, the monster that was hit
+  attackerId?: string; // Only present for hits with a known attacker, the player otherwise
   damage: number;
 }
 
@@ -372,6 +679,189 @@ export interface SkillUpdatedEvent {
   leveledUp: boolean;
 }
 
+// ======================================================
+// Status Effect Types
+// ======================================================
+
+/**
+ * Status effect types that can be applied to characters
+ */
+export enum StatusEffectType {
+  STUN = "stun",
+  SLOW = "slow",
+  BURN = "burn",
+  POISON = "poison",
+  REGEN = "regen",
+  FED = "fed",
+}
+
+/**
+ * How a re-applied effect combines with one already active
+ * - refresh: keep the strongest potency and reset the duration
+ * - stack: add a stack (up to maxStacks) and reset the duration
+ * - extend: keep the strongest potency and add the duration (up to maxDuration)
+ */
+export type StatusEffectStacking = "refresh" | "stack" | "extend";
+
+/**
+ * Static definition of a status effect type
+ */
+export interface StatusEffectDefinition {
+  type: StatusEffectType;
+  name: string;
+  icon: string;
+  isDebuff: boolean;
+  stacking: StatusEffectStacking;
+  maxStacks: number;
+  defaultDuration: number; // milliseconds
+  defaultPotency: number;
+  tickInterval?: number; // milliseconds, only for damage/heal over time effects
+  maxDuration?: number; // milliseconds, cap for extending effects
+}
+
+/**
+ * Status effect attached to an ability
+ * Potency is damage/heal per tick per stack, or the speed reduction (0-1) for slows
+ */
+export interface AbilityStatusEffect {
+  type: StatusEffectType;
+  duration?: number; // milliseconds
+  potency?: number;
+  chance?: number; // 0-1, defaults to always applying
+}
+
+/**
+ * Status effect currently active on a character
+ */
+export interface ActiveStatusEffect {
+  type: StatusEffectType;
+  potency: number;
+  stacks: number;
+  appliedAt: number;
+  expiresAt: number;
+  nextTickAt: number;
+  sourceId?: string;
+}
+
+// ======================================================
+// Death & Respawn Types
+// ======================================================
+
+/**
+ * Temple the player can bind their respawn point to (Tiled tile coordinates)
+ */
+export interface TempleData {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Temple the player respawns at after dying
+ */
+export interface RespawnPoint {
+  mapKey: string;
+  templeId: string;
+}
+
+/**
+ * Items left behind at a death location until recovered or decayed
+ */
+export interface CorpseData {
+  id: string;
+  mapKey: string;
+  x: number;
+  y: number;
+  items: ItemInstance[];
+  createdAt: number;
+  expiresAt: number;
+}
+
+// ======================================================
+// World Time Types
+// ======================================================
+
+export type TimeOfDay = "day" | "night";
+
+/**
+ * Snapshot of the in-game clock, sent with world.time.changed
+ */
+export interface WorldTime {
+  day: number; // Starts at 1
+  hour: number; // 0-23
+  minute: number; // 0-59
+  timeOfDay: TimeOfDay;
+  darkness: number; // 0 (full daylight) to 1 (pitch black)
+}
+
+/**
+ * Daily window in in-game hours, wraps past midnight when close < open
+ */
+export interface OpeningHours {
+  open: number;
+  close: number;
+}
+
+// ======================================================
+// Merchant Types
+// ======================================================
+
+/**
+ * One line of a merchant's stock
+ */
+export interface MerchantStockItem {
+  stockId: string;
+  itemId: string; // Item template
+  quantity: number;
+  maxStock: number; // Refilled on restock, 0 for items bought from the player
+  basePrice: number; // Price at full stock, before supply drift
+  instance?: ItemInstance; // Exact instance, kept for items bought from the player
+}
+
+/**
+ * An item the player sold, which they can buy back for what they were paid
+ */
+export interface BuybackEntry {
+  buybackId: string;
+  instance: ItemInstance; // Exact instance sold, quantity is the units sold
+  price: number; // Gold paid for all units
+  expiresAt: number; // Real time (ms)
+}
+
+/**
+ * Runtime state of a merchant's shop
+ */
+export interface MerchantState {
+  npcId: string;
+  stock: MerchantStockItem[];
+  buyback: BuybackEntry[]; // Kept for this session only
+  lastRestock: number; // In-game minutes since day 1, 00:00
+}
+
+// ======================================================
+// Crafting Types
+// ======================================================
+
+/**
+ * An item and how many of it a recipe takes or makes
+ */
+export interface CraftingIngredient {
+  itemId: string; // Item template
+  quantity: number; // Above 1 only for stackable items, one instance fills a slot
+}
+
+/**
+ * A crafting recipe: one crafting slot per input
+ */
+export interface CraftingRecipe {
+  id: string;
+  inputs: CraftingIngredient[]; // At most three
+  output: CraftingIngredient;
+  requiredSkill?: { skillId: string; level: number };
+  bonusStatChance?: number; // 0-1, chance the output rolls a rarity and affixes
+}
+
 // ======================================================
 // Game State Types
 // ======================================================
@@ -386,25 +876,58 @@ export interface GameStateData {
   setCollections?: SetCollectionData;
 }
 
+// ======================================================
+// Save Game Types
+// ======================================================
+
+/**
+ * Persisted player character data (runtime-only fields are omitted)
+ */
+export interface SavedPlayerCharacter {
+  health: number;
+  maxHealth: number;
+  mana: number;
+  experience: number;
+  equipment: PlayerCharacterEquipment;
+  inventory: ItemInstance[];
+  skills: Record<string, SkillData>;
+  gold: number;
+  maxCapacity: number;
+  currentCapacity: number;
+}
+
+/**
+ * Versioned save file written to a save slot
+ */
+export interface SaveGameData {
+  version: number;
+  slot: string;
+  savedAt: number;
+  playerCharacter: SavedPlayerCharacter;
+  quests: QuestState;
+  setCollections: SetCollectionData;
+  currentMap: string;
+  position: { x: number; y: number } | null;
+  respawnPoint: RespawnPoint | null;
+  corpses: CorpseData[];
+  bestiary: BestiaryState;
+  worldTime: number; // In-game minutes since day 1, 00:00
+}
+
+/**
+ * Summary of a save slot for listing in the UI
+ */
+export interface SaveSlotInfo {
+  slot: string;
+  savedAt: number;
+  version: number;
+  currentMap: string;
+  playerLevel: number;
+}
+
 export interface ErrorData {
   error: Error;
   context: string;
   timestamp: number;
   handled: boolean;
 }
-
-//
-// Quests
-//
-
-export interface Quest {
-  id: string;
-  title: string;
-  description: string;
-  objectives: Array<{
-    id: string;
-    description: string;
-    completed: boolean;
-  }>;
-  completed: boolean;
-}
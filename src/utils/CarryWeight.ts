@@ -0,0 +1,71 @@
+import { EncumbranceLevel, ItemInstance, PlayerCharacterEquipment } from "../types";
+import { ItemInstanceManager } from "./ItemInstanceManager";
+
+/**
+ * Constants for carrying capacity
+ * Capacity = base + perLevel * (capacity skill level - 1) + equipment bonuses
+ */
+export const CARRY_WEIGHT = {
+  // Carry weight at capacity skill level 1
+  BASE_CAPACITY: 200,
+  // Carry weight gained per capacity skill level
+  CAPACITY_PER_LEVEL: 10,
+  // Share of the capacity above which the player is encumbered
+  ENCUMBERED_RATIO: 0.8,
+  // Move speed multipliers while weighed down
+  ENCUMBERED_SPEED_MULTIPLIER: 0.75,
+  // Only reachable by losing capacity, e.g. unequipping a capacity item
+  OVERLOADED_SPEED_MULTIPLIER: 0.5,
+};
+
+/**
+ * Calculates the carry weight granted by the capacity skill
+ * @param level The capacity skill level
+ * @returns Carry weight added on top of the base capacity
+ */
+export function calculateCapacityBonusForLevel(level: number): number {
+  return CARRY_WEIGHT.CAPACITY_PER_LEVEL * (Math.max(1, level) - 1);
+}
+
+/**
+ * Calculates the weight of everything the player carries and wears
+ * @param inventory Inventory items, stack quantities included
+ * @param equipment Equipped items
+ * @returns Total carried weight
+ */
+export function calculateCarriedWeight(
+  inventory: ItemInstance[],
+  equipment: PlayerCharacterEquipment
+): number {
+  const items = [...inventory, ...Object.values(equipment)];
+  const weight = items.reduce(
+    (total, item) => total + (item ? ItemInstanceManager.getTotalWeight(item) : 0),
+    0
+  );
+
+  // Product weights like 0.1 would otherwise drift into long decimals
+  return Math.round(weight * 10) / 10;
+}
+
+/**
+ * Determines how weighed down the player is
+ * @param carriedWeight Current carried weight
+ * @param capacity Total carrying capacity
+ * @returns The encumbrance level
+ */
+export function getEncumbranceLevel(carriedWeight: number, capacity: number): EncumbranceLevel {
+  if (carriedWeight > capacity) return "overloaded";
+  if (carriedWeight > capacity * CARRY_WEIGHT.ENCUMBERED_RATIO) return "encumbered";
+  return "normal";
+}
+
+/**
+ * Move speed multiplier for an encumbrance level
+ * @param level The encumbrance level
+ * @returns Multiplier applied to the player's move speed
+ */
+export function getEncumbranceSpeedMultiplier(level: EncumbranceLevel): number {
+  if (level === "overloaded") return CARRY_WEIGHT.OVERLOADED_SPEED_MULTIPLIER;
+  if (level === "encumbered") return CARRY_WEIGHT.ENCUMBERED_SPEED_MULTIPLIER;
+  return 1;
+}
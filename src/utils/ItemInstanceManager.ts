@@ -1,6 +1,44 @@
 import { v4 as uuidv4 } from "uuid";
-import { ItemData, ItemInstance, ItemBonusStats } from "../types";
+import { ItemData, ItemInstance, ItemBonusStats, ItemRarity } from "../types";
 import { ItemDictionary } from "../services/ItemDictionaryService";
+import {
+  AFFIX_LEVEL_SCALING,
+  RARITY_ORDER,
+  RARITY_TIERS,
+  compareRarity,
+  getAffixPool,
+} from "@/data/item-affixes";
+
+// Item stat each bonus stat adds to. Bonus stats without one (archery, shield, ...)
+// only count towards skills, see useSkillProgression
+const BONUS_STAT_FIELDS: Partial<
+  Record<
+    keyof ItemBonusStats,
+    | "power"
+    | "armor"
+    | "magic"
+    | "melee"
+    | "health"
+    | "mana"
+    | "hpRegen"
+    | "mpRegen"
+    | "moveSpeed"
+    | "attackSpeed"
+    | "capacity"
+  >
+> = {
+  power: "power",
+  armor: "armor",
+  magic: "magic",
+  melee: "melee",
+  health: "health",
+  mana: "mana",
+  healthRegen: "hpRegen",
+  manaRegen: "mpRegen",
+  moveSpeed: "moveSpeed",
+  attackSpeed: "attackSpeed",
+  capacity: "capacity",
+};
 
 export class ItemInstanceManager {
   // Create a new item instance from a template ID
@@ -29,39 +67,86 @@ export class ItemInstanceManager {
     }
   }
 
-  // Generate a random item with random bonuses
-  static createRandomInstance(templateId: string, quantity?: number): ItemInstance {
+  // Generate a random item: roll a rarity, then that many affixes from the item's pools
+  static createRandomInstance(
+    templateId: string,
+    quantity?: number,
+    itemLevel: number = 1
+  ): ItemInstance {
     try {
       const template = ItemDictionary.getItem(templateId);
       if (!template) return this.createItemInstance(templateId, undefined, quantity);
 
-      const bonusStats: ItemBonusStats = {};
-
-      // Generate bonuses based on item type
-      if (template.type === "weapon") {
-        // Weapons might get damage bonuses
-        if (Math.random() < 0.4) {
-          bonusStats.power = Math.floor(Math.random() * 3) + 1; // +1 to +3 power
-        }
-      } else if (template.type === "armor" || template.type === "helmet") {
-        // Armor items might get armor bonuses
-        if (Math.random() < 0.4) {
-          bonusStats.armor = Math.floor(Math.random() * 2) + 1; // +1 to +2 armor
-        }
-      }
+      const level = Math.max(1, Math.floor(itemLevel));
+      const rarity = this.rollRarity(template.rarity || ItemRarity.COMMON);
+      const bonusStats = this.rollAffixes(template, rarity, level);
 
-      // Any item might get generic bonuses
-      if (Math.random() < 0.2) {
-        bonusStats.strength = Math.floor(Math.random() * 2) + 1; // +1 to +2 strength
-      }
-
-      return this.createItemInstance(templateId, bonusStats, quantity);
+      return {
+        ...this.createItemInstance(templateId, bonusStats, quantity),
+        rarity,
+        itemLevel: level,
+      };
     } catch (error) {
       console.error("Error creating random item instance:", error);
       return this.createItemInstance(templateId, undefined, quantity);
     }
   }
 
+  // Weighted roll over the tiers at or above the template's rarity
+  private static rollRarity(minRarity: ItemRarity): ItemRarity {
+    const tiers = RARITY_ORDER.filter((rarity) => compareRarity(rarity, minRarity) >= 0);
+    return this.pickWeighted(tiers, (rarity) => RARITY_TIERS[rarity].weight) || minRarity;
+  }
+
+  // Picks distinct affixes for the rarity and rolls their values at the item level
+  private static rollAffixes(
+    template: ItemData,
+    rarity: ItemRarity,
+    itemLevel: number
+  ): ItemBonusStats | undefined {
+    const tier = RARITY_TIERS[rarity];
+    const pool = getAffixPool(template).filter(
+      (affix) => !affix.minRarity || compareRarity(rarity, affix.minRarity) >= 0
+    );
+    const levelMultiplier = 1 + (itemLevel - 1) * AFFIX_LEVEL_SCALING;
+    const bonusStats: ItemBonusStats = {};
+
+    for (let i = 0; i < tier.affixCount && pool.length > 0; i++) {
+      const affix = this.pickWeighted(pool, (entry) => entry.weight);
+      if (!affix) break;
+      pool.splice(pool.indexOf(affix), 1);
+
+      const base = affix.min + Math.random() * (affix.max - affix.min);
+      bonusStats[affix.stat] = Math.max(
+        1,
+        Math.round(base * levelMultiplier * tier.valueMultiplier)
+      );
+    }
+
+    return Object.keys(bonusStats).length > 0 ? bonusStats : undefined;
+  }
+
+  private static pickWeighted<T>(entries: T[], getWeight: (entry: T) => number): T | undefined {
+    const total = entries.reduce((sum, entry) => sum + getWeight(entry), 0);
+    let roll = Math.random() * total;
+
+    for (const entry of entries) {
+      roll -= getWeight(entry);
+      if (roll < 0) return entry;
+    }
+
+    return entries[entries.length - 1];
+  }
+
+  // Rolled rarity of an instance, the template rarity for items that never rolled
+  static getRarity(itemInstance: ItemInstance): ItemRarity {
+    return (
+      itemInstance.rarity ||
+      ItemDictionary.getItem(itemInstance.templateId)?.rarity ||
+      ItemRarity.COMMON
+    );
+  }
+
   static createProductInstance(templateId: string, quantity: number = 1): ItemInstance {
     try {
       const itemData = ItemDictionary.getItem(templateId);
@@ -113,18 +198,12 @@ export class ItemInstanceManager {
 
       // Apply bonuses if they exist
       if (itemInstance.bonusStats) {
-        if (itemInstance.bonusStats.power) {
-          combined.power = (combined.power || 0) + itemInstance.bonusStats.power;
-        }
-        if (itemInstance.bonusStats.armor) {
-          combined.armor = (combined.armor || 0) + itemInstance.bonusStats.armor;
-        }
-        if (itemInstance.bonusStats.magic) {
-          combined.magic = (combined.magic || 0) + itemInstance.bonusStats.magic;
-        }
-        if (itemInstance.bonusStats.strength) {
-          combined.strength = (combined.strength || 0) + itemInstance.bonusStats.strength;
-        }
+        Object.entries(itemInstance.bonusStats).forEach(([stat, value]) => {
+          const field = BONUS_STAT_FIELDS[stat as keyof ItemBonusStats];
+          if (field && value) {
+            combined[field] = (combined[field] || 0) + value;
+          }
+        });
       }
 
       return combined;
@@ -156,6 +235,14 @@ export class ItemInstanceManager {
     }
   }
 
+  // Sum of an instance's rolled bonus stats, 0 for plain items
+  static getBonusStatTotal(itemInstance: ItemInstance): number {
+    return Object.values(itemInstance.bonusStats || {}).reduce(
+      (total: number, value) => total + Math.max(0, value || 0),
+      0
+    );
+  }
+
   // Get total weight for an item instance (accounting for quantity)
   static getTotalWeight(itemInstance: ItemInstance): number {
     try {
@@ -0,0 +1,147 @@
+import { MonsterAffix, MonsterData, MonsterRank, MonsterVariant } from "../types";
+
+/**
+ * Elite and champion tuning
+ */
+export const MONSTER_VARIANTS = {
+  // Chance for a spawn point monster to roll as an elite or a champion
+  ELITE_CHANCE: 0.08,
+  CHAMPION_CHANCE: 0.02,
+  RANKS: {
+    [MonsterRank.ELITE]: {
+      healthMultiplier: 1.5,
+      damageMultiplier: 1.25,
+      experienceMultiplier: 2,
+      dropChanceMultiplier: 1.5,
+      minAffixes: 1,
+      maxAffixes: 1,
+      nameColor: "#5a9bff",
+    },
+    [MonsterRank.CHAMPION]: {
+      healthMultiplier: 2.5,
+      damageMultiplier: 1.5,
+      experienceMultiplier: 3.5,
+      dropChanceMultiplier: 2,
+      minAffixes: 2,
+      maxAffixes: 3,
+      nameColor: "#ff9d5a",
+    },
+  },
+  // Affix strengths
+  FAST_SPEED_MULTIPLIER: 1.4,
+  ARMORED_BONUS_ARMOR: 4,
+  EXTRA_LOOT_CHANCE_MULTIPLIER: 1.5,
+  EXTRA_LOOT_QUANTITY_MULTIPLIER: 2,
+  VAMPIRIC_LEECH_PERCENT: 50,
+  EXPLOSION_RADIUS: 48,
+  EXPLOSION_DELAY: 800,
+  EXPLOSION_DAMAGE_MULTIPLIER: 2, // Times the monster's base damage
+};
+
+const AFFIX_NAMES: Record<MonsterAffix, string> = {
+  [MonsterAffix.FAST]: "Swift",
+  [MonsterAffix.ARMORED]: "Armored",
+  [MonsterAffix.VAMPIRIC]: "Vampiric",
+  [MonsterAffix.EXPLOSIVE]: "Volatile",
+  [MonsterAffix.EXTRA_LOOT]: "Wealthy",
+};
+
+export class MonsterVariantManager {
+  // Roll whether a spawn becomes an elite or champion, null for a regular monster
+  static rollVariant(monsterData: MonsterData | null): MonsterVariant | null {
+    try {
+      // Bosses have their own encounter design
+      if (!monsterData || monsterData.boss) return null;
+
+      const roll = Math.random();
+      let rank: MonsterRank;
+      if (roll < MONSTER_VARIANTS.CHAMPION_CHANCE) {
+        rank = MonsterRank.CHAMPION;
+      } else if (roll < MONSTER_VARIANTS.CHAMPION_CHANCE + MONSTER_VARIANTS.ELITE_CHANCE) {
+        rank = MonsterRank.ELITE;
+      } else {
+        return null;
+      }
+
+      const { minAffixes, maxAffixes } = MONSTER_VARIANTS.RANKS[rank];
+      const count = minAffixes + Math.floor(Math.random() * (maxAffixes - minAffixes + 1));
+
+      // Distinct affixes, picked at random
+      const pool = Object.values(MonsterAffix);
+      const affixes: MonsterAffix[] = [];
+      while (affixes.length < count && pool.length > 0) {
+        affixes.push(pool.splice(Math.floor(Math.random() * pool.length), 1)[0]);
+      }
+
+      return { rank, affixes };
+    } catch (error) {
+      console.error("Error rolling monster variant:", error);
+      return null;
+    }
+  }
+
+  // Get a copy of the template with the variant's rank and affixes applied
+  static applyVariant(monsterData: MonsterData, variant: MonsterVariant): MonsterData {
+    try {
+      const rank = MONSTER_VARIANTS.RANKS[variant.rank as keyof typeof MONSTER_VARIANTS.RANKS];
+      if (!rank) return monsterData;
+
+      const has = (affix: MonsterAffix) => variant.affixes.includes(affix);
+
+      const health = Math.round(monsterData.health * rank.healthMultiplier);
+      const maxHealth = Math.round(monsterData.maxHealth * rank.healthMultiplier);
+      const dropChanceMultiplier =
+        rank.dropChanceMultiplier *
+        (has(MonsterAffix.EXTRA_LOOT) ? MONSTER_VARIANTS.EXTRA_LOOT_CHANCE_MULTIPLIER : 1);
+      const quantityMultiplier = has(MonsterAffix.EXTRA_LOOT)
+        ? MONSTER_VARIANTS.EXTRA_LOOT_QUANTITY_MULTIPLIER
+        : 1;
+
+      return {
+        ...monsterData,
+        name: this.getDisplayName(monsterData, variant),
+        health,
+        maxHealth,
+        damage: Math.round((monsterData.damage || 5) * rank.damageMultiplier),
+        experience: Math.round(monsterData.experience * rank.experienceMultiplier),
+        speed: has(MonsterAffix.FAST)
+          ? Math.round(monsterData.speed * MONSTER_VARIANTS.FAST_SPEED_MULTIPLIER)
+          : monsterData.speed,
+        armor: has(MonsterAffix.ARMORED)
+          ? monsterData.armor + MONSTER_VARIANTS.ARMORED_BONUS_ARMOR
+          : monsterData.armor,
+        drops: monsterData.drops.map((drop) => ({
+          ...drop,
+          chance: Math.min(1, drop.chance * dropChanceMultiplier),
+          minQuantity: drop.minQuantity && drop.minQuantity * quantityMultiplier,
+          maxQuantity: drop.maxQuantity && drop.maxQuantity * quantityMultiplier,
+        })),
+      };
+    } catch (error) {
+      console.error("Error applying monster variant:", error);
+      return monsterData;
+    }
+  }
+
+  // Champions are named for their rank, elites for their single affix
+  static getDisplayName(monsterData: MonsterData, variant: MonsterVariant): string {
+    if (variant.rank === MonsterRank.CHAMPION) {
+      return `Champion ${monsterData.name}`;
+    }
+
+    const affix = variant.affixes[0];
+    return affix ? `${AFFIX_NAMES[affix]} ${monsterData.name}` : `Elite ${monsterData.name}`;
+  }
+
+  // Name plate color for a variant, null for regular monsters
+  static getNameColor(variant: MonsterVariant | null): string | null {
+    if (!variant) return null;
+    const rank = MONSTER_VARIANTS.RANKS[variant.rank as keyof typeof MONSTER_VARIANTS.RANKS];
+    return rank?.nameColor || null;
+  }
+
+  // Affix names for tooltips and messages, e.g. "Swift, Vampiric"
+  static describeAffixes(variant: MonsterVariant): string {
+    return variant.affixes.map((affix) => AFFIX_NAMES[affix]).join(", ");
+  }
+}
@@ -0,0 +1,191 @@
+import { ItemInstance, ItemRarity, SaveGameData, SkillData } from "../types";
+import { ItemDictionary } from "../services/ItemDictionaryService";
+import { SKILL_PROGRESSION, calculatePointsForNextLevel } from "./SkillProgressionFormula";
+import { CARRY_WEIGHT } from "./CarryWeight";
+
+/**
+ * Identifies exported save files and keys their checksum
+ */
+export const SAVE_FILE_FORMAT = "nminfas-save";
+const SAVE_CHECKSUM_SALT = "nminfas:save:v1";
+
+/**
+ * Envelope written to an exported save file
+ */
+export interface ExportedSaveFile {
+  format: string;
+  exportedAt: number;
+  checksum: string;
+  data: SaveGameData;
+}
+
+/**
+ * Result of validating an imported save
+ */
+export interface SaveValidationResult {
+  data: SaveGameData | null;
+  errors: string[];
+}
+
+const EQUIPMENT_SLOTS = ["weapon", "shield", "trinket", "helmet", "amulet", "armor"];
+
+/**
+ * Computes a salted SHA-256 checksum for save data
+ * @param data The save data to hash
+ * @returns Hex encoded checksum
+ */
+export async function computeSaveChecksum(data: SaveGameData): Promise<string> {
+  const payload = new TextEncoder().encode(`${SAVE_CHECKSUM_SALT}:${JSON.stringify(data)}`);
+  const digest = await crypto.subtle.digest("SHA-256", payload);
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Checks that parsed file contents have the shape of an exported save
+ * @param file Parsed file contents
+ * @returns true if the envelope fields are present
+ */
+export function isExportedSaveFile(file: unknown): file is ExportedSaveFile {
+  if (!file || typeof file !== "object") {
+    return false;
+  }
+
+  const envelope = file as Partial<ExportedSaveFile>;
+  return (
+    envelope.format === SAVE_FILE_FORMAT &&
+    typeof envelope.checksum === "string" &&
+    !!envelope.data &&
+    typeof envelope.data === "object"
+  );
+}
+
+/**
+ * Verifies an exported file's envelope and checksum
+ * @param file Parsed file contents
+ * @returns true if the file is a save export and has not been modified
+ */
+export async function verifySaveFile(file: unknown): Promise<boolean> {
+  if (!isExportedSaveFile(file)) {
+    return false;
+  }
+
+  const expected = await computeSaveChecksum(file.data);
+  return expected === file.checksum;
+}
+
+/**
+ * Validates every item against the ItemDictionary and clamps skills
+ * @param data Save data already migrated to the current schema
+ * @returns Sanitized data, or null with the reasons it was rejected
+ */
+export function validateSaveData(data: SaveGameData): SaveValidationResult {
+  const errors: string[] = [];
+  const pc = data.playerCharacter;
+
+  if (!pc || !Array.isArray(pc.inventory) || !pc.equipment || !pc.skills) {
+    return { data: null, errors: ["Save is missing player character data"] };
+  }
+
+  // Items - every instance must reference a known template
+  const validateItem = (item: ItemInstance | null, location: string): ItemInstance | null => {
+    if (!item) return null;
+
+    if (typeof item.templateId !== "string" || !ItemDictionary.getItem(item.templateId)) {
+      errors.push(`Unknown item "${item?.templateId}" in ${location}`);
+      return null;
+    }
+
+    if (typeof item.instanceId !== "string" || !item.instanceId) {
+      errors.push(`Item "${item.templateId}" in ${location} has no instance id`);
+      return null;
+    }
+
+    const quantity = Math.floor(Number(item.quantity ?? 1));
+    const validated = { ...item, quantity: Math.max(1, isNaN(quantity) ? 1 : quantity) };
+
+    // Unknown rarities fall back to the template's
+    if (validated.rarity && !Object.values(ItemRarity).includes(validated.rarity)) {
+      delete validated.rarity;
+    }
+
+    return validated;
+  };
+
+  const inventory = pc.inventory
+    .map((item) => validateItem(item, "inventory"))
+    .filter((item): item is ItemInstance => item !== null);
+
+  const equipment = { ...pc.equipment };
+  EQUIPMENT_SLOTS.forEach((slot) => {
+    const key = slot as keyof typeof equipment;
+    equipment[key] = validateItem(equipment[key] || null, `${slot} slot`);
+  });
+
+  // Corpses - drop unknown items, and corpses left with nothing to recover
+  const corpses = (Array.isArray(data.corpses) ? data.corpses : [])
+    .map((corpse) => ({
+      ...corpse,
+      items: (corpse.items || [])
+        .map((item) => validateItem(item, `corpse ${corpse.id}`))
+        .filter((item): item is ItemInstance => item !== null),
+    }))
+    .filter((corpse) => corpse.items.length > 0);
+
+  // Bestiary - kill counts are whole, non-negative numbers
+  const kills: Record<string, number> = {};
+  Object.entries(data.bestiary?.kills || {}).forEach(([monsterId, count]) => {
+    const value = Math.floor(Number(count));
+    if (!isNaN(value) && value > 0) {
+      kills[monsterId] = value;
+    }
+  });
+
+  // Skills - clamp to the maximum level and a sane experience range
+  const skills: Record<string, SkillData> = {};
+  Object.entries(pc.skills).forEach(([skillId, skill]) => {
+    if (!skill || typeof skill.level !== "number") {
+      errors.push(`Skill "${skillId}" is malformed`);
+      return;
+    }
+
+    const level = Math.max(1, Math.min(SKILL_PROGRESSION.MAX_LEVEL, Math.floor(skill.level)));
+    const maxExperience =
+      level === skill.level && skill.maxExperience > 0
+        ? skill.maxExperience
+        : calculatePointsForNextLevel(skillId, level);
+    const experience =
+      level === SKILL_PROGRESSION.MAX_LEVEL
+        ? 0
+        : Math.max(0, Math.min(maxExperience - 1, Math.floor(skill.experience || 0)));
+
+    skills[skillId] = { level, experience, maxExperience };
+  });
+
+  if (errors.length > 0) {
+    return { data: null, errors };
+  }
+
+  return {
+    data: {
+      ...data,
+      playerCharacter: {
+        ...pc,
+        inventory,
+        equipment,
+        skills,
+        gold: Math.max(0, Math.floor(pc.gold || 0)),
+        health: Math.max(0, pc.health || 0),
+        maxHealth: Math.max(1, pc.maxHealth || 100),
+        mana: Math.max(0, pc.mana || 0),
+        maxCapacity: Math.max(0, pc.maxCapacity ?? CARRY_WEIGHT.BASE_CAPACITY),
+      },
+      corpses,
+      bestiary: { kills },
+      worldTime: Math.max(0, Math.floor(Number(data.worldTime) || 0)),
+    },
+    errors,
+  };
+}
@@ -25,6 +25,39 @@ export const SKILL_PROGRESSION = {
   MAX_LEVEL: 100,
 };
 
+/**
+ * Constants for player level stat growth
+ * Uses a linear growth model: stat = base + perLevel * (level - 1)
+ */
+export const LEVEL_GROWTH = {
+  // Max health at player level 1
+  BASE_HEALTH: 100,
+  // Max health gained per player level
+  HEALTH_PER_LEVEL: 10,
+  // Max mana gained per player level, on top of the mana skill
+  MANA_PER_LEVEL: 5,
+  // Whether a level-up refills health and mana
+  RESTORE_ON_LEVEL_UP: true,
+};
+
+/**
+ * Calculates the base max health for a player level
+ * @param level The player level
+ * @returns Max health before equipment bonuses
+ */
+export function calculateMaxHealthForLevel(level: number): number {
+  return LEVEL_GROWTH.BASE_HEALTH + LEVEL_GROWTH.HEALTH_PER_LEVEL * (Math.max(1, level) - 1);
+}
+
+/**
+ * Calculates the bonus max mana granted by a player level
+ * @param level The player level
+ * @returns Max mana added on top of the mana skill
+ */
+export function calculateManaBonusForLevel(level: number): number {
+  return LEVEL_GROWTH.MANA_PER_LEVEL * (Math.max(1, level) - 1);
+}
+
 /**
  * Calculates points needed to reach the next level for a skill
  * @param skillId The skill identifier
@@ -95,6 +95,23 @@ export class DamageFormulas {
     return Math.max(1, Math.round(totalDamage));
   }
 
+  /**
+   * Calculate monster ability damage
+   * Formula: Base Ability Damage + Monster Base Damage + (Monster Level × 0.5)
+   *
+   * @param abilityDamage Base damage from the ability
+   * @param monsterDamage Monster's base damage
+   * @param monsterLevel Monster's level (default 1)
+   * @returns Final monster ability damage
+   */
+  static calculateMonsterAbilityDamage(
+    abilityDamage: number,
+    monsterDamage: number,
+    monsterLevel: number = 1
+  ): number {
+    return this.calculateMonsterDamage(abilityDamage + monsterDamage, monsterLevel);
+  }
+
   // ============================================================================
   // DAMAGE REDUCTION CALCULATIONS
   // ============================================================================
@@ -136,6 +153,36 @@ export class DamageFormulas {
     return Math.round(reduction);
   }
 
+  // ============================================================================
+  // BESTIARY BONUSES
+  // ============================================================================
+
+  /**
+   * Apply the bestiary bonus earned against the target's category
+   * Formula: Damage × (1 + Bonus% / 100)
+   *
+   * @param damage Damage before armor
+   * @param bonusPercent Bestiary bonus damage against the target
+   * @returns Damage with the bonus applied
+   */
+  static applyBestiaryDamageBonus(damage: number, bonusPercent: number): number {
+    if (bonusPercent <= 0) return damage;
+    return Math.max(1, Math.round(damage * (1 + bonusPercent / 100)));
+  }
+
+  /**
+   * Apply the bestiary damage reduction earned against the attacker's category
+   * Formula: Damage × (1 - Reduction% / 100)
+   *
+   * @param damage Damage after armor
+   * @param reductionPercent Bestiary damage reduction against the attacker
+   * @returns Damage with the reduction applied (minimum 1)
+   */
+  static applyBestiaryDamageReduction(damage: number, reductionPercent: number): number {
+    if (reductionPercent <= 0) return damage;
+    return Math.max(1, Math.round(damage * (1 - reductionPercent / 100)));
+  }
+
   // ============================================================================
   // FINAL DAMAGE APPLICATION
   // ============================================================================
@@ -290,14 +337,16 @@ export class DamageFormulas {
     incomingDamage: number,
     equipment: PlayerCharacterEquipment,
     skills: any,
-    isMagicDamage: boolean = false
+    isMagicDamage: boolean = false,
+    bestiaryReduction: number = 0
   ): number {
     if (isMagicDamage) {
-      return Math.max(1, incomingDamage);
+      return this.applyBestiaryDamageReduction(Math.max(1, incomingDamage), bestiaryReduction);
     }
 
     const damageReduction = this.calculatePlayerDamageReduction(equipment, skills);
-    return this.applyDamageReduction(incomingDamage, damageReduction, isMagicDamage);
+    const reducedDamage = this.applyDamageReduction(incomingDamage, damageReduction, isMagicDamage);
+    return this.applyBestiaryDamageReduction(reducedDamage, bestiaryReduction);
   }
 
   /**